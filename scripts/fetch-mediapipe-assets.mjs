@@ -0,0 +1,68 @@
+/**
+ * Copies the MediaPipe WASM runtime out of node_modules and downloads the
+ * pinned face landmarker model into public/mediapipe, so face tracking is
+ * served from our own origin and works on offline kiosks.
+ *
+ * Run `npm run mediapipe:assets` after installing dependencies, and again
+ * after upgrading @mediapipe/tasks-vision. The model is only downloaded when
+ * it is missing, so a build machine needs network access once.
+ */
+
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const WASM_SOURCE = join(ROOT, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const TARGET = join(ROOT, 'public', 'mediapipe');
+
+// Keep in step with FACE_LANDMARKER_MODEL in src/hooks/useFaceTracking.ts
+const MODELS = {
+  'face_landmarker.task':
+    'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+};
+
+async function exists(path) {
+  try {
+    return (await stat(path)).size > 0;
+  } catch {
+    return false;
+  }
+}
+
+async function copyWasm() {
+  const target = join(TARGET, 'wasm');
+  await mkdir(target, { recursive: true });
+  const files = await readdir(WASM_SOURCE);
+  await Promise.all(files.map(file => copyFile(join(WASM_SOURCE, file), join(target, file))));
+  console.log(`📦 Copied ${files.length} MediaPipe WASM files to public/mediapipe/wasm`);
+}
+
+async function downloadModels() {
+  const target = join(TARGET, 'models');
+  await mkdir(target, { recursive: true });
+
+  for (const [file, url] of Object.entries(MODELS)) {
+    const path = join(target, file);
+    if (await exists(path)) {
+      console.log(`✅ ${file} already present`);
+      continue;
+    }
+
+    console.log(`⬇️ Downloading ${file}...`);
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${url} answered ${response.status}`);
+    await writeFile(path, Buffer.from(await response.arrayBuffer()));
+    console.log(`✅ Saved public/mediapipe/models/${file}`);
+  }
+}
+
+try {
+  await copyWasm();
+  await downloadModels();
+} catch (error) {
+  // Exit non-zero so scripts and CI notice; face tracking would only report the missing files when it loads
+  console.error('❌ Could not prepare MediaPipe assets:', error instanceof Error ? error.message : error);
+  console.error('   Run `npm run mediapipe:assets` with network access, or copy the files into public/mediapipe by hand.');
+  process.exitCode = 1;
+}
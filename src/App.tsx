@@ -3,20 +3,36 @@ import { CameraFeed } from './components/Camera/CameraFeed';
 import { ForeheadCursor } from './components/Cursor/ForeheadCursor';
 import { WorkingAccessibilityDashboard } from './components/WorkingAccessibilityDashboard';
 import { IntelligentVoiceBox } from './components/IntelligentVoiceBox';
+import { MicrophoneIndicator } from './components/MicrophoneIndicator';
+import { ConfirmationDialog } from './components/ConfirmationDialog';
 import { UniversitySidebar } from './components/University/UniversitySidebar';
 import { UniversityHero } from './components/University/UniversityHero';
 import { UniversityMainContent } from './components/University/UniversityMainContent';
 import { AccessibleInstructions } from './components/AccessibleInstructions';
 import { useFaceTracking } from './hooks/useFaceTracking';
 import { ChatScreen } from './screens/ChatScreen';
+import { CalibrationScreen } from './screens/CalibrationScreen';
 import SettingsScreen from './components/Settings/SettingsScreen';
 import type { CalibrationSettings, AppScreen } from './types';
 import { ScreenReader } from './utils/screenReader';
+import { enhancedVoiceCommandService } from './services/enhancedVoiceCommandService';
+import { confirmationService } from './services/confirmationService';
+import { actionJournal } from './services/actionJournal';
+import { isTextField } from './services/dictationService';
+import { DEFAULT_FILTER_CONFIGS } from './utils/filters';
+import { calibrationProfileService } from './services/calibrationProfileService';
+import { facialGestureService } from './services/facialGestureService';
+import { DEFAULT_GESTURE_SETTINGS } from './utils/gestures';
+
+// Startup screens aren't places to go back to
+const UNJOURNALED_SCREENS: AppScreen[] = ['loading', 'instructions'];
 
 function App() {
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('instructions');
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const previousScreenRef = useRef<AppScreen>('instructions');
+  const restoringScreenRef = useRef<AppScreen | null>(null);
   
   // University interface state
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -30,17 +46,29 @@ function App() {
   const [faceTrackingEnabled, setFaceTrackingEnabled] = useState(false); // DISABLED by default
   const [voiceAssistantEnabled, setVoiceAssistantEnabled] = useState(true); // Voice assistant enabled by default
 
-  // Default calibration settings - matching ForeHeadDetector
-  const [calibration, setCalibration] = useState<CalibrationSettings>({
+  // Default calibration settings - matching ForeHeadDetector - overridden by the active calibration profile
+  const [calibration, setCalibration] = useState<CalibrationSettings>(() => ({
     sensitivity: 1.8, // Match ForeHeadDetector's HEAD_CONTROL_SENSITIVITY
     smoothing: 0.1,   // Lower = more responsive (using 5-frame buffer in cursor)
     dwellTime: 1500,
     blinkEnabled: false,
     clickMethod: 'mouth', // Default to mouth open for clicking
-  });
+    cursorMode: 'position',
+    poseRange: { yaw: 25, pitch: 15 },
+    poseDeadZone: 2,
+    poseAcceleration: 1.5,
+    poseCenter: { yaw: 0, pitch: 0 },
+    cursorFilter: DEFAULT_FILTER_CONFIGS['one-euro'],
+    positionCenter: { x: 0.5, y: 0.5 },
+    verticalSensitivity: 1.8,
+    blinkThreshold: 0.5,
+    mouthThreshold: 0.4,
+    gestures: DEFAULT_GESTURE_SETTINGS,
+    ...calibrationProfileService.getActiveProfile()?.settings,
+  }));
 
   // Face tracking
-  const { landmarks, blinkData, error: trackingError, isLoading: isTrackingLoading } = useFaceTracking(
+  const { landmarks, blinkData, error: trackingError, isLoading: isTrackingLoading, progress: trackingProgress } = useFaceTracking(
     videoRef.current,
     stream
   );
@@ -67,6 +95,38 @@ function App() {
     }
   }, []);
 
+  // Head nods and shakes answer open confirmation questions
+  useEffect(() => {
+    if (faceTrackingEnabled && landmarks) {
+      confirmationService.trackHead(landmarks.nose);
+    }
+  }, [faceTrackingEnabled, landmarks]);
+
+  // Facial gestures, except during calibration where the user makes them on request
+  useEffect(() => {
+    facialGestureService.configure(calibration.gestures);
+  }, [calibration.gestures]);
+
+  useEffect(() => {
+    if (faceTrackingEnabled && blinkData && currentScreen !== 'calibration') {
+      facialGestureService.process(blinkData.blendshapes, performance.now());
+    }
+  }, [faceTrackingEnabled, blinkData, currentScreen]);
+
+  useEffect(() => {
+    const unregister = [
+      facialGestureService.setActionHandler('toggle-voice', () => {
+        setVoiceAssistantEnabled(!voiceAssistantEnabled);
+        ScreenReader.getInstance().speak(`Voice assistant ${voiceAssistantEnabled ? 'off' : 'on'}`, { priority: 'high' });
+      }),
+      facialGestureService.setActionHandler('emergency', () => {
+        setCurrentScreen('emergency');
+        ScreenReader.getInstance().announcePageChange('emergency');
+      })
+    ];
+    return () => unregister.forEach(remove => remove());
+  }, [voiceAssistantEnabled]);
+
   // Update screen state when tracking is ready
   useEffect(() => {
     console.log('🔍 Loading check:', { 
@@ -120,6 +180,83 @@ function App() {
     console.log('🚀 App initialized successfully');
   }, []);
 
+  // Keep screen-scoped voice commands in step with the visible screen
+  useEffect(() => {
+    enhancedVoiceCommandService.setScreen(currentScreen);
+  }, [currentScreen]);
+
+  // Journal screen changes so "undo that" can return to the previous screen
+  useEffect(() => {
+    const previous = previousScreenRef.current;
+    previousScreenRef.current = currentScreen;
+    if (restoringScreenRef.current === currentScreen) {
+      restoringScreenRef.current = null;
+      return;
+    }
+    if (previous === currentScreen || UNJOURNALED_SCREENS.includes(previous) || UNJOURNALED_SCREENS.includes(currentScreen)) return;
+
+    const restore = (screen: AppScreen) => {
+      restoringScreenRef.current = screen;
+      setCurrentScreen(screen);
+    };
+    actionJournal.record({
+      label: `going to ${currentScreen.replace(/-/g, ' ')}`,
+      undo: () => restore(previous),
+      redo: () => restore(currentScreen)
+    });
+  }, [currentScreen]);
+
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y step through the journal; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextField(document.activeElement)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        actionJournal.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        actionJournal.redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // What "next" and "back" mean on each screen
+  useEffect(() => {
+    const unregister = [
+      enhancedVoiceCommandService.registerCommand({
+        patterns: ['next', 'continue'],
+        intents: [{ name: 'focus', slots: { direction: 'next' } }, { name: 'start' }],
+        action: () => setCurrentScreen('loading'),
+        description: 'Continue to the portal',
+        category: 'navigation',
+        context: ['instructions']
+      }),
+      enhancedVoiceCommandService.registerCommand({
+        patterns: ['back', 'close'],
+        intents: [
+          { name: 'navigate', slots: { direction: 'back' } },
+          { name: 'navigate', slots: { target: 'close' } },
+          { name: 'navigate', slots: { target: 'home' } }
+        ],
+        action: () => setCurrentScreen('menu'),
+        description: 'Return to the main menu',
+        category: 'navigation',
+        context: ['chat', 'settings', 'emergency', 'accessibility-settings']
+      }),
+      enhancedVoiceCommandService.registerCommand({
+        patterns: ['calibrate', 'recalibrate', 'start calibration', 'calibrate face tracking', 'calibrate the cursor'],
+        action: () => setCurrentScreen('calibration'),
+        description: 'Calibrate the face cursor',
+        category: 'accessibility'
+      })
+    ];
+    return () => unregister.forEach(remove => remove());
+  }, []);
+
   return (
     <div>
       {/* Camera background - only when face tracking is enabled */}
@@ -142,7 +279,20 @@ function App() {
             {faceTrackingEnabled ? (
               <>
                 <p style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Initializing forehead tracking...</p>
-                {stream && <p style={{ fontSize: '0.875rem', opacity: 0.8 }}>Camera ready, loading face detection...</p>}
+                <div
+                  role="progressbar"
+                  aria-label="Face tracking loading"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(trackingProgress.progress * 100)}
+                  aria-valuetext={trackingProgress.message}
+                  style={{ width: '20rem', maxWidth: '80vw', height: '0.5rem', margin: '0.75rem auto', background: 'rgba(255, 255, 255, 0.2)', borderRadius: '0.25rem', overflow: 'hidden' }}
+                >
+                  <div style={{ width: `${trackingProgress.progress * 100}%`, height: '100%', background: '#4CAF50', transition: 'width 0.2s' }} />
+                </div>
+                <p style={{ fontSize: '0.875rem', opacity: 0.8 }}>
+                  {trackingProgress.message}{stream ? ' · Camera ready' : ''}
+                </p>
               </>
             ) : (
               <p style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Initializing voice-only mode...</p>
@@ -501,7 +651,16 @@ function App() {
       )}
 
       {/* Chat Screen */}
-      {currentScreen === 'chat' && <ChatScreen onClose={() => setCurrentScreen('menu')} />}
+      {currentScreen === 'chat' && (
+        <ChatScreen
+          onClose={() => setCurrentScreen('menu')}
+          onOpenSection={(section) => {
+            setCurrentSection(section);
+            setCurrentScreen('menu');
+            ScreenReader.getInstance().announcePageChange(section);
+          }}
+        />
+      )}
 
       {/* Settings Screen */}
       {currentScreen === 'settings' && (
@@ -510,6 +669,23 @@ function App() {
           calibration={calibration}
           onCalibrationChange={setCalibration}
           faceTrackingEnabled={faceTrackingEnabled}
+          onCalibrate={() => setCurrentScreen('calibration')}
+        />
+      )}
+
+      {/* Guided face cursor calibration */}
+      {currentScreen === 'calibration' && (
+        <CalibrationScreen
+          landmarks={landmarks}
+          blinkData={blinkData}
+          calibration={calibration}
+          faceTrackingEnabled={faceTrackingEnabled}
+          onEnableFaceTracking={() => setFaceTrackingEnabled(true)}
+          onComplete={(settings) => {
+            setCalibration(settings);
+            setCurrentScreen('settings');
+          }}
+          onCancel={() => setCurrentScreen('settings')}
         />
       )}
 
@@ -790,7 +966,8 @@ function App() {
       )}
 
       {/* Forehead cursor - only show when face tracking is enabled */}
-      {faceTrackingEnabled && landmarks && currentScreen !== 'loading' && (
+      {/* Hidden during calibration, where opening the mouth and closing the eyes would click */}
+      {faceTrackingEnabled && landmarks && currentScreen !== 'loading' && currentScreen !== 'calibration' && (
         <ForeheadCursor
           landmarks={landmarks}
           blinkData={blinkData}
@@ -803,6 +980,12 @@ function App() {
 
       {/* Intelligent Voice Box - Disabled during chat or when toggled off */}
       <IntelligentVoiceBox enabled={voiceAssistantEnabled && currentScreen !== 'chat'} />
+
+      {/* Which voice feature currently holds the microphone */}
+      <MicrophoneIndicator />
+
+      {/* Yes/no questions from every part of the app */}
+      <ConfirmationDialog />
     </div>
   );
 }
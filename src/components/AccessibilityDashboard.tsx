@@ -14,6 +14,7 @@ import { hearingAccessibilityService } from '../services/hearingAccessibilitySer
 import { cognitiveAccessibilityService } from '../services/cognitiveAccessibilityService';
 import { eyeTrackingService } from '../services/eyeTrackingService';
 import { enhancedVoiceCommandService } from '../services/enhancedVoiceCommandService';
+import { confirmationService } from '../services/confirmationService';
 
 interface DashboardSection {
   id: string;
@@ -765,8 +766,14 @@ const AdvancedSection: React.FC<{
       <div className="setting-group" style={{ marginBottom: '24px' }}>
         <h4>Reset Options</h4>
         <button 
-          onClick={() => {
-            if (confirm('Reset all accessibility settings to defaults?')) {
+          onClick={async () => {
+            const confirmed = await confirmationService.confirm('Reset all accessibility settings to defaults?', {
+              title: 'Reset settings',
+              confirmLabel: 'Reset',
+              cancelLabel: 'Keep my settings',
+              destructive: true
+            });
+            if (confirmed) {
               // Reset all settings
               Object.keys(settings).forEach(key => {
                 const defaultValue = key === 'fontSize' ? 'medium' : 
@@ -776,6 +783,7 @@ const AdvancedSection: React.FC<{
             }
           }}
           className="btn btn-danger"
+          data-confirms-itself
         >
           Reset All Settings
         </button>
@@ -1,5 +1,7 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAccessibility } from '../contexts/AccessibilityContext';
+import { speechRecognitionBroker, MIC_PRIORITY } from '../services/speechRecognitionBroker';
+import type { RecognitionClient } from '../services/speechRecognitionBroker';
 import { KarunyaTheme } from '../theme/colors';
 
 interface AccessibleLandingProps {
@@ -15,6 +17,9 @@ export const AccessibleLanding: React.FC<AccessibleLandingProps> = ({ onComplete
   const [hasSpokenIntro, setHasSpokenIntro] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [isListening, setIsListening] = useState(false);
+  // One client per step, so overlapping restarts share a single claim on the mic
+  const landingRecognitionRef = useRef<RecognitionClient | null>(null);
+  const menuRecognitionRef = useRef<RecognitionClient | null>(null);
 
   // Immediate accessibility check and announcement
   useEffect(() => {
@@ -52,17 +57,16 @@ export const AccessibleLanding: React.FC<AccessibleLandingProps> = ({ onComplete
   }, [currentStep]);
 
   const startVoiceRecognition = () => {
-    // Check for both Chrome and Firefox speech recognition
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (!SpeechRecognition) {
+    if (!speechRecognitionBroker.isSupported()) {
       console.warn('Speech recognition not supported in this browser');
       speak("Voice recognition is not supported in this browser. Please use the buttons to navigate.");
       return;
     }
 
     try {
-      const recognition = new SpeechRecognition();
+      const recognition = landingRecognitionRef.current
+        ?? speechRecognitionBroker.createClient('Landing voice navigation', MIC_PRIORITY.commands);
+      landingRecognitionRef.current = recognition;
       recognition.continuous = false; // Chrome works better with continuous=false
       recognition.interimResults = false;
       recognition.lang = 'en-US';
@@ -73,7 +77,7 @@ export const AccessibleLanding: React.FC<AccessibleLandingProps> = ({ onComplete
         console.log('🎤 Listening for accessibility commands...');
       };
 
-      recognition.onresult = (event: any) => {
+      recognition.onresult = event => {
         const transcript = event.results[event.results.length - 1][0].transcript.toLowerCase().trim();
         console.log('🎯 Voice command detected:', transcript);
         
@@ -109,7 +113,7 @@ export const AccessibleLanding: React.FC<AccessibleLandingProps> = ({ onComplete
         }
       };
 
-      recognition.onerror = (event: any) => {
+      recognition.onerror = event => {
         console.warn('Voice recognition error:', event.error);
         setIsListening(false);
         
@@ -162,18 +166,18 @@ export const AccessibleLanding: React.FC<AccessibleLandingProps> = ({ onComplete
 
   // Voice recognition for accessibility menu
   const startMenuVoiceRecognition = () => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (!SpeechRecognition) return;
+    if (!speechRecognitionBroker.isSupported()) return;
 
     try {
-      const recognition = new SpeechRecognition();
+      const recognition = menuRecognitionRef.current
+        ?? speechRecognitionBroker.createClient('Accessibility menu voice', MIC_PRIORITY.commands);
+      menuRecognitionRef.current = recognition;
       recognition.continuous = false;
       recognition.interimResults = false;
       recognition.lang = 'en-US';
       recognition.maxAlternatives = 1;
 
-      recognition.onresult = (event: any) => {
+      recognition.onresult = event => {
         const transcript = event.results[event.results.length - 1][0].transcript.toLowerCase().trim();
         console.log('🎯 Menu voice command:', transcript);
         
@@ -223,7 +227,7 @@ export const AccessibleLanding: React.FC<AccessibleLandingProps> = ({ onComplete
         }
       };
 
-      recognition.onerror = (event: any) => {
+      recognition.onerror = event => {
         console.warn('Menu voice recognition error:', event.error);
         if (currentStep === 1) {
           setTimeout(() => startMenuVoiceRecognition(), 2000);
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  listTranscripts,
+  searchTranscripts,
+  deleteTranscript,
+  downloadTranscript,
+} from '../../services/transcriptStore';
+import type { Transcript, TranscriptSearchResult, TranscriptExportFormat } from '../../services/transcriptStore';
+import { enhancedVoiceCommandService } from '../../services/enhancedVoiceCommandService';
+import { confirmationService } from '../../services/confirmationService';
+
+interface ChatHistoryPanelProps {
+  currentTranscriptId: string;
+  onClose: () => void;
+  onDeleted: (id: string) => void;
+}
+
+const EXPORT_FORMATS: Array<{ format: TranscriptExportFormat; label: string; title: string }> = [
+  { format: 'txt', label: 'Text', title: 'Download as plain text' },
+  { format: 'md', label: 'Markdown', title: 'Download as Markdown' },
+  { format: 'html', label: 'HTML', title: 'Download as an accessible web page for screen readers' },
+];
+
+const SEARCH_DELAY_MS = 250;
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '0.375rem 0.75rem',
+  borderRadius: '6px',
+  border: '1px solid #2563eb',
+  backgroundColor: 'white',
+  color: '#2563eb',
+  cursor: 'pointer',
+  fontSize: '0.875rem',
+  fontWeight: '500',
+};
+
+/**
+ * Past NullChat conversations: browse, search, read, delete and export
+ */
+export const ChatHistoryPanel: React.FC<ChatHistoryPanelProps> = ({ currentTranscriptId, onClose, onDeleted }) => {
+  const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<TranscriptSearchResult[] | null>(null);
+  const [selected, setSelected] = useState<Transcript | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listTranscripts().then(saved => {
+      setTranscripts(saved);
+      setIsLoading(false);
+    });
+  }, []);
+
+  // Search once the user pauses typing
+  useEffect(() => {
+    if (!query.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchTranscripts(query).then(setSearchResults);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Escape closes the panel
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Voice commands are registered once, so they reach the latest onClose through a ref
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  // While open, "back" closes the panel and "search for ..." searches past conversations
+  useEffect(() => {
+    enhancedVoiceCommandService.setModal('chat-history');
+    const unregister = [
+      enhancedVoiceCommandService.registerCommand({
+        patterns: ['close history', 'back'],
+        intents: [
+          { name: 'navigate', slots: { direction: 'back' } },
+          { name: 'navigate', slots: { target: 'close' } },
+          { name: 'cancel' }
+        ],
+        action: () => onCloseRef.current(),
+        description: 'Close chat history',
+        category: 'navigation',
+        modal: 'chat-history'
+      }),
+      enhancedVoiceCommandService.registerCommand({
+        patterns: ['search history for *'],
+        intents: [{ name: 'search' }, { name: 'find' }],
+        // "search history for X" reaches here as a search for "history for X"
+        action: (text: string) => setQuery(text.replace(/^(?:(?:my|the|chat) )?history(?: for)? /, '')),
+        description: 'Search past conversations',
+        category: 'content',
+        parameters: ['target'],
+        modal: 'chat-history'
+      })
+    ];
+    return () => {
+      unregister.forEach(remove => remove());
+      enhancedVoiceCommandService.setModal(null);
+    };
+  }, []);
+
+  const handleDelete = async (transcript: Transcript) => {
+    const confirmed = await confirmationService.confirm(
+      `Delete the conversation "${transcript.title}"? This cannot be undone.`,
+      { title: 'Delete conversation', confirmLabel: 'Delete', cancelLabel: 'Keep', destructive: true }
+    );
+    if (!confirmed) return;
+    if (!await deleteTranscript(transcript.id)) {
+      setDeleteError(`Could not delete "${transcript.title}". Please try again.`);
+      return;
+    }
+    setDeleteError(null);
+    setTranscripts(prev => prev.filter(t => t.id !== transcript.id));
+    setSearchResults(prev => prev && prev.filter(result => result.transcript.id !== transcript.id));
+    if (selected?.id === transcript.id) setSelected(null);
+    onDeleted(transcript.id);
+  };
+
+  const renderExportButtons = (transcript: Transcript) => (
+    <>
+      {EXPORT_FORMATS.map(({ format, label, title }) => (
+        <button
+          key={format}
+          data-hoverable
+          onClick={() => downloadTranscript(transcript, format)}
+          title={title}
+          aria-label={`${title}: ${transcript.title}`}
+          style={smallButtonStyle}
+        >
+          ⬇️ {label}
+        </button>
+      ))}
+    </>
+  );
+
+  const renderTranscriptRow = (transcript: Transcript, snippets: string[] = []) => (
+    <li
+      key={transcript.id}
+      style={{
+        listStyle: 'none',
+        padding: '1rem',
+        borderRadius: '12px',
+        backgroundColor: '#F8F9FA',
+        border: transcript.id === currentTranscriptId ? '2px solid #2563eb' : '1px solid #E5E7EB',
+      }}
+    >
+      <button
+        data-hoverable
+        onClick={() => setSelected(transcript)}
+        style={{
+          display: 'block',
+          width: '100%',
+          textAlign: 'left',
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          cursor: 'pointer',
+          color: '#1F2937',
+        }}
+      >
+        <span style={{ display: 'block', fontSize: '1rem', fontWeight: '600' }}>
+          {transcript.title}
+          {transcript.id === currentTranscriptId && <span style={{ color: '#2563eb' }}> (current)</span>}
+        </span>
+        <span style={{ display: 'block', fontSize: '0.8rem', color: '#6C757D', marginTop: '0.25rem' }}>
+          {new Date(transcript.updatedAt).toLocaleString()} · {transcript.messages.length} messages
+        </span>
+        {snippets.map((snippet, index) => (
+          <span key={index} style={{ display: 'block', fontSize: '0.875rem', color: '#374151', marginTop: '0.375rem' }}>
+            “{snippet}”
+          </span>
+        ))}
+      </button>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.75rem' }}>
+        {renderExportButtons(transcript)}
+        <button
+          data-hoverable
+          onClick={() => handleDelete(transcript)}
+          aria-label={`Delete conversation: ${transcript.title}`}
+          style={{ ...smallButtonStyle, borderColor: '#dc2626', color: '#dc2626', marginLeft: 'auto' }}
+        >
+          🗑️ Delete
+        </button>
+      </div>
+    </li>
+  );
+
+  const renderList = () => {
+    if (isLoading) {
+      return <p style={{ color: '#6C757D' }}>Loading conversations…</p>;
+    }
+    if (searchResults) {
+      return searchResults.length === 0
+        ? <p role="status" style={{ color: '#6C757D' }}>No conversations mention “{query}”.</p>
+        : (
+          <>
+            <p role="status" style={{ fontSize: '0.875rem', color: '#6C757D', margin: 0 }}>
+              {searchResults.length} conversation{searchResults.length === 1 ? '' : 's'} found
+            </p>
+            <ul style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', padding: 0, margin: 0 }}>
+              {searchResults.map(result => renderTranscriptRow(result.transcript, result.matches.slice(0, 3).map(m => m.snippet)))}
+            </ul>
+          </>
+        );
+    }
+    return transcripts.length === 0
+      ? <p style={{ color: '#6C757D' }}>No saved conversations yet. Your chats are saved here automatically.</p>
+      : (
+        <ul style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', padding: 0, margin: 0 }}>
+          {transcripts.map(transcript => renderTranscriptRow(transcript))}
+        </ul>
+      );
+  };
+
+  const renderTranscript = (transcript: Transcript) => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+        <button data-hoverable onClick={() => setSelected(null)} style={smallButtonStyle}>
+          ← All conversations
+        </button>
+        {renderExportButtons(transcript)}
+      </div>
+      <h3 style={{ margin: '0.5rem 0 0 0', fontSize: '1.125rem' }}>{transcript.title}</h3>
+      {transcript.messages.map(message => (
+        <div
+          key={message.id}
+          style={{
+            alignSelf: message.role === 'user' ? 'flex-end' : 'flex-start',
+            maxWidth: '85%',
+            padding: '0.75rem 1rem',
+            borderRadius: '12px',
+            backgroundColor: message.role === 'user' ? '#2563eb' : '#F8F9FA',
+            color: message.role === 'user' ? 'white' : '#2C3E50',
+          }}
+        >
+          <p style={{ margin: 0, lineHeight: '1.6', whiteSpace: 'pre-wrap', wordWrap: 'break-word' }}>
+            {message.content}
+          </p>
+          <span style={{ fontSize: '0.75rem', opacity: 0.7, display: 'block', marginTop: '0.375rem' }}>
+            {message.role === 'user' ? 'You' : 'NullChat'} · {new Date(message.timestamp).toLocaleString()}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Chat history"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 20,
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        padding: '2rem 1rem',
+        backgroundColor: 'rgba(0, 0, 0, 0.4)',
+      }}
+    >
+      <div style={{
+        width: '100%',
+        maxWidth: '720px',
+        maxHeight: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: 'white',
+        borderRadius: '16px',
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+        overflow: 'hidden',
+      }}>
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '1rem 1.5rem',
+          background: 'linear-gradient(135deg, #2563eb, #ea580c)',
+          color: 'white',
+        }}>
+          <h2 style={{ margin: 0, fontSize: '1.25rem' }}>🕘 Chat History</h2>
+          <button
+            data-hoverable
+            onClick={onClose}
+            aria-label="Close chat history"
+            style={{
+              background: 'rgba(255, 255, 255, 0.3)',
+              border: '2px solid white',
+              borderRadius: '8px',
+              padding: '0.375rem 1rem',
+              color: 'white',
+              fontWeight: 'bold',
+              cursor: 'pointer',
+            }}
+          >
+            ✕ Close
+          </button>
+        </div>
+
+        {!selected && (
+          <div style={{ padding: '1rem 1.5rem 0 1.5rem' }}>
+            <label htmlFor="chat-history-search" style={{ display: 'block', fontSize: '0.875rem', fontWeight: '500', marginBottom: '0.375rem' }}>
+              Search all conversations
+            </label>
+            <input
+              id="chat-history-search"
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="e.g. library hours"
+              autoFocus
+              style={{
+                width: '100%',
+                padding: '0.625rem 0.75rem',
+                borderRadius: '8px',
+                border: '2px solid #E5E7EB',
+                fontSize: '1rem',
+                boxSizing: 'border-box',
+              }}
+            />
+          </div>
+        )}
+
+        <div style={{ flex: 1, overflowY: 'auto', padding: '1rem 1.5rem 1.5rem 1.5rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {deleteError && (
+            <p role="alert" style={{ margin: 0, padding: '0.625rem 0.75rem', borderRadius: '8px', backgroundColor: '#FEF2F2', color: '#B91C1C', fontSize: '0.875rem' }}>
+              {deleteError}
+            </p>
+          )}
+          {selected ? renderTranscript(selected) : renderList()}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+/**
+ * Confirmation Dialog
+ * Shows the question from the confirmation service. Both buttons are dwell and
+ * switch targets; Y / N / Escape answer from the keyboard, and the service
+ * listens for yes/no and head nods or shakes at the same time.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { confirmationService } from '../services/confirmationService';
+import type { ConfirmationRequest } from '../services/confirmationService';
+
+const buttonStyle = (background: string): React.CSSProperties => ({
+  flex: 1,
+  minHeight: '64px',
+  padding: '16px 24px',
+  borderRadius: '12px',
+  border: '3px solid transparent',
+  background,
+  color: 'white',
+  fontSize: '20px',
+  fontWeight: 600,
+  cursor: 'pointer'
+});
+
+export const ConfirmationDialog: React.FC = () => {
+  const [request, setRequest] = useState<ConfirmationRequest | null>(confirmationService.getActive());
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => confirmationService.onChange(setRequest), []);
+
+  // Focus the safe answer, and count down to the timeout
+  useEffect(() => {
+    if (!request) return;
+    cancelRef.current?.focus();
+
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((request.expiresAt - Date.now()) / 1000)));
+    update();
+    const intervalId = setInterval(update, 1000);
+    return () => clearInterval(intervalId);
+  }, [request]);
+
+  useEffect(() => {
+    if (!request) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (key !== 'y' && key !== 'n' && key !== 'escape') return;
+      // Answered here only: Escape must not also close the screen underneath
+      event.preventDefault();
+      event.stopPropagation();
+      confirmationService.answer(key === 'y', 'keyboard');
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [request]);
+
+  if (!request) return null;
+
+  // Synthetic clicks (detail 0) come from switch access, dwell or Enter/Space on the focused button
+  const answer = (confirmed: boolean) => (event: React.MouseEvent) => {
+    confirmationService.answer(confirmed, event.detail === 0 ? 'switch' : 'pointer');
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 100000,
+        background: 'rgba(0, 0, 0, 0.6)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px'
+      }}
+    >
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirmation-title"
+        aria-describedby="confirmation-message"
+        style={{
+          width: '100%',
+          maxWidth: '480px',
+          background: '#1f2937',
+          color: 'white',
+          borderRadius: '16px',
+          padding: '28px',
+          boxShadow: '0 20px 50px rgba(0, 0, 0, 0.5)',
+          fontFamily: 'Arial, sans-serif'
+        }}
+      >
+        <h2 id="confirmation-title" style={{ margin: '0 0 12px', fontSize: '24px' }}>
+          {request.destructive ? '⚠️ ' : ''}{request.title}
+        </h2>
+        <p id="confirmation-message" style={{ margin: '0 0 24px', fontSize: '18px', lineHeight: 1.5 }}>
+          {request.message}
+        </p>
+
+        <div style={{ display: 'flex', gap: '16px' }}>
+          <button
+            ref={cancelRef}
+            onClick={answer(false)}
+            data-hoverable
+            style={buttonStyle('#4b5563')}
+          >
+            {request.cancelLabel}
+          </button>
+          <button
+            onClick={answer(true)}
+            data-hoverable
+            style={buttonStyle(request.destructive ? '#dc2626' : '#2563eb')}
+          >
+            {request.confirmLabel}
+          </button>
+        </div>
+
+        <p style={{ margin: '20px 0 0', fontSize: '14px', opacity: 0.8, lineHeight: 1.5 }}>
+          Say "yes" or "no", nod or shake your head, or press Y or N.
+          {' '}{request.defaultAnswer ? request.confirmLabel : request.cancelLabel} in {secondsLeft}s if there is no answer.
+        </p>
+      </div>
+    </div>
+  );
+};
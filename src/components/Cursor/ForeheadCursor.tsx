@@ -1,6 +1,9 @@
 import { useEffect, useState, useRef } from 'react';
 import type { Point2D, FaceLandmarks, CalibrationSettings, BlinkData } from '../../types';
 import { ScreenReader } from '../../utils/screenReader';
+import { mapPoseToScreen } from '../../utils/headPose';
+import { PointFilter } from '../../utils/filters';
+import { facialGestureService } from '../../services/facialGestureService';
 
 interface ForeheadCursorProps {
   landmarks: FaceLandmarks | null;
@@ -9,6 +12,61 @@ interface ForeheadCursorProps {
   onDwellComplete?: (element: HTMLElement) => void;
 }
 
+// Position mode: the nose tip's place in the (mirrored) camera frame, stretched by sensitivity
+const mapNosePosition = (
+  { nose }: FaceLandmarks,
+  { positionCenter, sensitivity, verticalSensitivity }: CalibrationSettings
+): Point2D => {
+  // EXACT implementation from ForeHeadDetector:
+  // They use: head_y = nose_tip.y (normalized 0-1)
+  // Then: target_y = head_y * WINDOW_HEIGHT
+  // With sensitivity adjustment
+
+  // nose.x and nose.y are already normalized (0-1) from MediaPipe
+  // FLIP X because video is mirrored - move right should move cursor right!
+
+  // Apply sensitivity to extend range (deviation from the calibrated center * sensitivity)
+  const deviationX = (1 - nose.x) - positionCenter.x; // Flipped X
+  const deviationY = nose.y - positionCenter.y;
+
+  return {
+    x: (0.5 + deviationX * sensitivity) * window.innerWidth,
+    y: (0.5 + deviationY * verticalSensitivity) * window.innerHeight,
+  };
+};
+
+// The clickable element under a screen point, if any
+const findClickableElement = ({ x, y }: Point2D): HTMLElement | undefined => {
+  return document.elementsFromPoint(x, y).find(
+    el => {
+      const htmlEl = el as HTMLElement;
+      const computedStyle = window.getComputedStyle(htmlEl);
+      
+      return (
+        htmlEl.tagName === 'BUTTON' || 
+        htmlEl.tagName === 'A' ||
+        htmlEl.tagName === 'INPUT' ||
+        htmlEl.hasAttribute('data-hoverable') ||
+        htmlEl.hasAttribute('onclick') ||
+        htmlEl.getAttribute('role') === 'button' ||
+        htmlEl.style.cursor === 'pointer' ||
+        htmlEl.classList.contains('clickable') ||
+        // Check if element has click event listeners
+        htmlEl.onclick !== null ||
+        // Check for any element that might be clickable in modals/dialogs
+        htmlEl.closest('[role="dialog"]') !== null ||
+        htmlEl.closest('.modal') !== null ||
+        // Check for voice panel elements (high z-index, positioned fixed)
+        (computedStyle.position === 'fixed' && 
+         parseInt(computedStyle.zIndex) > 90000 &&
+         computedStyle.cursor === 'pointer') ||
+        // Check if cursor is pointer (more reliable check)
+        computedStyle.cursor === 'pointer'
+      );
+    }
+  ) as HTMLElement | undefined;
+};
+
 export const ForeheadCursor: React.FC<ForeheadCursorProps> = ({
   landmarks,
   blinkData,
@@ -38,8 +96,11 @@ export const ForeheadCursor: React.FC<ForeheadCursorProps> = ({
   const blinkCooldownRef = useRef<boolean>(false);
   const lastSpokenElementRef = useRef<HTMLElement | null>(null);
   
-  // Smoothing buffer like ForeHeadDetector (deque with maxlen=5)
-  const positionBufferRef = useRef<Array<{ x: number, y: number }>>([]);
+  // Jitter filter from the calibration settings; rebuilt when they change
+  const positionFilterRef = useRef<PointFilter | null>(null);
+  useEffect(() => {
+    positionFilterRef.current = new PointFilter(calibration.cursorFilter);
+  }, [calibration.cursorFilter]);
 
   // TTS function for hover feedback
   const speakElementText = (element: HTMLElement) => {
@@ -123,7 +184,7 @@ export const ForeheadCursor: React.FC<ForeheadCursorProps> = ({
     }
   };
 
-  // Map forehead position to screen coordinates
+  // Map forehead position (or head pose) to screen coordinates
   useEffect(() => {
     if (!landmarks) return;
 
@@ -132,38 +193,16 @@ export const ForeheadCursor: React.FC<ForeheadCursorProps> = ({
     if (now - lastUpdateRef.current < 16) return; // ~60fps
     lastUpdateRef.current = now;
 
-    const { nose } = landmarks; // nose = direct nose tip position
-
-    // EXACT implementation from ForeHeadDetector:
-    // They use: head_y = nose_tip.y (normalized 0-1)
-    // Then: target_y = head_y * WINDOW_HEIGHT
-    // With sensitivity adjustment
-    
-    // nose.x and nose.y are already normalized (0-1) from MediaPipe
-    // FLIP X because video is mirrored - move right should move cursor right!
+    const target = calibration.cursorMode === 'head-pose' && landmarks.pose
+      ? mapPoseToScreen(landmarks.pose, calibration, window.innerWidth, window.innerHeight)
+      : mapNosePosition(landmarks, calibration);
     
-    // Apply sensitivity to extend range (deviation from center * sensitivity)
-    const centerX = 0.5;
-    const centerY = 0.5;
-    const deviationX = (1 - nose.x) - centerX; // Flipped X
-    const deviationY = nose.y - centerY;
-    
-    const targetX = (centerX + deviationX * calibration.sensitivity) * window.innerWidth;
-    const targetY = (centerY + deviationY * calibration.sensitivity) * window.innerHeight;
-    
-    // Add to smoothing buffer (max 5 samples, like deque(maxlen=5))
-    positionBufferRef.current.push({ x: targetX, y: targetY });
-    if (positionBufferRef.current.length > 5) {
-      positionBufferRef.current.shift(); // Remove oldest
-    }
-    
-    // Calculate average (smoothing)
-    const avgX = positionBufferRef.current.reduce((sum, p) => sum + p.x, 0) / positionBufferRef.current.length;
-    const avgY = positionBufferRef.current.reduce((sum, p) => sum + p.y, 0) / positionBufferRef.current.length;
+    // Smooth out jitter
+    const smoothed = positionFilterRef.current ? positionFilterRef.current.filter(target, now) : target;
 
     // Clamp to screen bounds with padding
-    const finalX = Math.max(20, Math.min(window.innerWidth - 20, avgX));
-    const finalY = Math.max(20, Math.min(window.innerHeight - 20, avgY));
+    const finalX = Math.max(20, Math.min(window.innerWidth - 20, smoothed.x));
+    const finalY = Math.max(20, Math.min(window.innerHeight - 20, smoothed.y));
 
     setCursorPosition({ x: finalX, y: finalY });
   }, [landmarks, calibration]);
@@ -172,7 +211,9 @@ export const ForeheadCursor: React.FC<ForeheadCursorProps> = ({
   useEffect(() => {
     if (!blinkData || !onDwellComplete) return;
 
-    const { isBlinking, isMouthOpen } = blinkData;
+    // Per-user thresholds from calibration
+    const isBlinking = Math.min(blinkData.leftEyeClosed, blinkData.rightEyeClosed) > calibration.blinkThreshold;
+    const isMouthOpen = blinkData.mouthOpen > calibration.mouthThreshold;
     
     // Different trigger logic for blink vs mouth:
     // - Blink: Trigger when eyes CLOSE then OPEN (lastBlinkRef=true, isBlinking=false)
@@ -190,35 +231,7 @@ export const ForeheadCursor: React.FC<ForeheadCursorProps> = ({
 
     if (shouldClick) {
       // Click triggered! Find element under cursor
-      const elementsAtPoint = document.elementsFromPoint(cursorPosition.x, cursorPosition.y);
-      const clickableElement = elementsAtPoint.find(
-        el => {
-          const htmlEl = el as HTMLElement;
-          const computedStyle = window.getComputedStyle(htmlEl);
-          
-          return (
-            htmlEl.tagName === 'BUTTON' || 
-            htmlEl.tagName === 'A' ||
-            htmlEl.tagName === 'INPUT' ||
-            htmlEl.hasAttribute('data-hoverable') ||
-            htmlEl.hasAttribute('onclick') ||
-            htmlEl.getAttribute('role') === 'button' ||
-            htmlEl.style.cursor === 'pointer' ||
-            htmlEl.classList.contains('clickable') ||
-            // Check if element has click event listeners
-            htmlEl.onclick !== null ||
-            // Check for any element that might be clickable in modals/dialogs
-            htmlEl.closest('[role="dialog"]') !== null ||
-            htmlEl.closest('.modal') !== null ||
-            // Check for voice panel elements (high z-index, positioned fixed)
-            (computedStyle.position === 'fixed' && 
-             parseInt(computedStyle.zIndex) > 90000 &&
-             computedStyle.cursor === 'pointer') ||
-            // Check if cursor is pointer (more reliable check)
-            computedStyle.cursor === 'pointer'
-          );
-        }
-      ) as HTMLElement | undefined;
+      const clickableElement = findClickableElement(cursorPosition);
 
       if (clickableElement) {
         const method = calibration.clickMethod === 'mouth' ? '👄 MOUTH OPEN' : '👁️ BLINK';
@@ -240,7 +253,31 @@ export const ForeheadCursor: React.FC<ForeheadCursorProps> = ({
     // Update last state based on method
     const currentState = calibration.clickMethod === 'mouth' ? isMouthOpen : isBlinking;
     lastBlinkRef.current = currentState;
-  }, [blinkData, cursorPosition, onDwellComplete, calibration.clickMethod]);
+  }, [blinkData, cursorPosition, onDwellComplete, calibration.clickMethod, calibration.blinkThreshold, calibration.mouthThreshold]);
+
+  // Facial gestures bound to clicks act where the cursor is
+  const cursorPositionRef = useRef(cursorPosition);
+  useEffect(() => {
+    cursorPositionRef.current = cursorPosition;
+  }, [cursorPosition]);
+
+  useEffect(() => {
+    const mouseEventAtCursor = (type: 'contextmenu' | 'dblclick') => {
+      const { x, y } = cursorPositionRef.current;
+      const target = findClickableElement(cursorPositionRef.current) ?? document.elementFromPoint(x, y);
+      target?.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, clientX: x, clientY: y, button: type === 'contextmenu' ? 2 : 0 }));
+    };
+
+    const unregister = [
+      facialGestureService.setActionHandler('click', () => {
+        const element = findClickableElement(cursorPositionRef.current);
+        if (element) onDwellComplete?.(element);
+      }),
+      facialGestureService.setActionHandler('right-click', () => mouseEventAtCursor('contextmenu')),
+      facialGestureService.setActionHandler('double-click', () => mouseEventAtCursor('dblclick'))
+    ];
+    return () => unregister.forEach(remove => remove());
+  }, [onDwellComplete]);
 
   // Check for hoverable elements under cursor
   useEffect(() => {
@@ -1,4 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { parseIntent } from '../services/intentEngine';
+import type { IntentName, IntentSlots, SettingChange, SettingName } from '../services/intentEngine';
+import { visualAccessibilityService } from '../services/visualAccessibilityService';
+import { speechRecognitionBroker, MIC_PRIORITY } from '../services/speechRecognitionBroker';
+import type { RecognitionClient } from '../services/speechRecognitionBroker';
+import { dictationService } from '../services/dictationService';
+import { actionJournal } from '../services/actionJournal';
+import { getSpokenLabel, phoneticSimilarity } from '../services/phoneticMatcher';
 
 interface ElementInfo {
   element: HTMLElement;
@@ -8,7 +16,69 @@ interface ElementInfo {
   rect: DOMRect;
 }
 
+// Engine intents this box handles under its own category names
+const INTENT_CATEGORIES: Partial<Record<IntentName, string>> = {
+  toggle_feature: 'accessibility_toggle',
+  navigate: 'navigation',
+  click: 'action',
+};
+
+// Features switched by clicking their toggle button on the landing page
+const PAGE_TOGGLES: Partial<Record<SettingName, { feature: string; targetText: string }>> = {
+  voiceAssistant: { feature: 'voice', targetText: 'voice assistant' },
+  faceTracking: { feature: 'face', targetText: 'face tracking' },
+  textToSpeech: { feature: 'speech', targetText: 'text-to-speech' },
+};
+
+// Features switched directly through the visual accessibility service
+const VISUAL_TOGGLES = {
+  highContrast: (enabled: boolean) => visualAccessibilityService.updateHighContrast(enabled),
+  darkMode: (enabled: boolean) => visualAccessibilityService.updateDarkMode(enabled),
+  reduceMotion: (enabled: boolean) => visualAccessibilityService.updateReduceMotion(enabled),
+};
+
+const SETTING_NAMES: Record<keyof typeof VISUAL_TOGGLES, string> = {
+  highContrast: 'high contrast',
+  darkMode: 'dark mode',
+  reduceMotion: 'reduced motion',
+};
+
+const FONT_SIZES = ['small', 'medium', 'large', 'extra-large'] as const;
+
+// Outline used to show which element a voice command is about to click
+const highlightStyle = (color: string) => `
+  outline: 3px solid ${color} !important;
+  outline-offset: 2px !important;
+  box-shadow: 0 0 10px ${color} !important;
+`;
+const HIGHLIGHT_COLOR = '#3b82f6';
+const TOGGLE_HIGHLIGHT_COLOR = '#22c55e';
+
+// Grid cells smaller than this are clicked instead of being split again
+const MIN_GRID_CELL_PX = 60;
+
+interface GridArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+type CommandResult = {
+  success: boolean;
+  action: string;
+  element?: HTMLElement;
+  confidence: number;
+  reasoning: string;
+};
+
 class IntelligentCommandProcessor {
+  // "show numbers" / "show grid" overlay state
+  private overlay: HTMLElement | null = null;
+  private numberedElements: HTMLElement[] = [];
+  private gridArea: GridArea | null = null;
+  private refreshOverlay = () => this.renderNumbers();
+
   private getPageElements(): ElementInfo[] {
     const elements: ElementInfo[] = [];
     const allElements = document.querySelectorAll('*');
@@ -22,7 +92,7 @@ class IntelligentCommandProcessor {
         return;
       }
       
-      const text = htmlEl.textContent?.trim() || '';
+      const text = getSpokenLabel(htmlEl);
       const isClickable = this.isElementClickable(htmlEl);
       
       if (text || isClickable) {
@@ -66,102 +136,25 @@ class IntelligentCommandProcessor {
       }
     }
     
-    return matches / Math.max(words1.length, words2.length);
+    // Sound-alike words count too, for names the recognizer misspells
+    return Math.max(matches / Math.max(words1.length, words2.length), phoneticSimilarity(text1, text2));
   }
 
   private analyzeIntent(command: string): {
     intent: string;
+    slots: IntentSlots;
     keywords: string[];
     urgency: 'low' | 'medium' | 'high';
     targetWords: string[];
   } {
-    const lower = command.toLowerCase().trim();
-    const words = lower.split(/\s+/).filter(w => w.length > 1);
-    
-    // Clean up common speech recognition artifacts
-    const cleanCommand = lower
-      .replace(/\buh+\b/g, '') // Remove "uh", "uhh"
-      .replace(/\bum+\b/g, '') // Remove "um", "umm"  
-      .replace(/\ber+\b/g, '') // Remove "er", "err"
-      .replace(/click more to mouth open/g, '') // Remove speech recognition artifacts
-      .replace(/\s+/g, ' ') // Normalize spaces
-      .trim();
-    
-    console.log('🧠 Cleaned command:', cleanCommand, 'from original:', command);
+    const { normalized, best } = parseIntent(command);
+    const words = normalized.split(/\s+/).filter(w => w.length > 1);
+    const intent = best ? INTENT_CATEGORIES[best.name] || best.name : 'unknown';
+    const slots = best?.slots || {};
     
-    // Define intent patterns with much more sophisticated matching
-    const patterns = {
-      start: [
-        /^(start|begin|continue|enter|proceed)(\s+.*)?$/,
-        /\b(start|begin)\s+(the\s+)?(portal|application|app|menu)\b/,
-        /\bget\s+started\b/,
-        /\btake\s+me\s+(to\s+)?(main|portal|menu)\b/
-      ],
-      accessibility_toggle: [
-        // Voice Assistant commands
-        /\b(enable|turn\s+on|activate|start)\s+.*\b(voice|assistant|nullistant)\b/,
-        /\b(disable|turn\s+off|deactivate|stop)\s+.*\b(voice|assistant|nullistant)\b/,
-        
-        // Face Tracking commands  
-        /\b(enable|turn\s+on|activate|start)\s+.*\b(face|tracking|cursor|head)\b/,
-        /\b(disable|turn\s+off|deactivate|stop)\s+.*\b(face|tracking|cursor|head)\b/,
-        
-        // Text-to-Speech commands
-        /\b(enable|turn\s+on|activate|start)\s+.*\b(text|speech|narrator|reading|tts)\b/,
-        /\b(disable|turn\s+off|deactivate|stop)\s+.*\b(text|speech|narrator|reading|tts)\b/,
-        
-        // More natural commands
-        /\bturn\s+(on|off)\s+(voice|face|speech)/,
-        /\b(start|stop)\s+(listening|tracking|speaking)/,
-        /\b(enable|disable)\s+(narrator|assistant|cursor)/
-      ],
-      emergency: [
-        /\b(help|emergency|save|urgent|crisis|danger|sos|mayday)\b/,
-        /need.*(help|doctor|hospital)/,
-        /save\s+me/,
-        /\b911\b/,
-        /call.*(ambulance|hospital|doctor)/
-      ],
-      contact: [
-        /\b(call|phone|contact|dial|ring)\b.*\b(doctor|physician|nurse)\b/,
-        /contact.*(doctor|physician|emergency)/,
-        /\b(call|phone|ring)\b(?!.*back)/  // Call but not "call back"
-      ],
-      help: [
-        /^help$/,
-        /\bhelp\s+(me)?\b/,
-        /what\s+can\s+i\s+(say|do)/,
-        /available\s+commands/,
-        /\b(commands|instructions|guide)\b/
-      ],
-      navigation: [
-        // Explicit navigation commands
-        /^(go\s+)?(back|return|exit|leave|quit|close)(\s+.*)?$/,
-        /\b(back|return)\s+(to\s+)?(menu|main|home)\b/,
-        /\b(exit|leave|quit|close)\s+(this|the|screen|page|tab)?\b/,
-        /\bgo\s+(back|home|to\s+menu|to\s+main)\b/,
-        /\b(main\s+screen|main\s+menu|home\s+screen)\b/,
-        /\bget\s+(me\s+)?(out|back)/,
-        /\btake\s+me\s+(back|home)/
-      ],
-      action: [
-        /^(click|press|tap|select|choose|open|activate|launch)\s+/,
-        /\b(button|link|option)\b/
-      ]
-    };
-    
-    let intent = 'unknown';
     let urgency: 'low' | 'medium' | 'high' = 'low';
     let targetWords: string[] = [];
     
-    // Test patterns in order of priority
-    for (const [intentType, patternList] of Object.entries(patterns)) {
-      if (patternList.some(pattern => pattern.test(cleanCommand))) {
-        intent = intentType;
-        break;
-      }
-    }
-    
     // Set target words and urgency based on intent
     switch (intent) {
       case 'start':
@@ -170,7 +163,6 @@ class IntelligentCommandProcessor {
         break;
       case 'accessibility_toggle':
         urgency = 'medium';
-        targetWords = ['enable', 'disable', 'turn', 'voice', 'face', 'tracking', 'speech', 'narrator', 'assistant'];
         break;
       case 'emergency':
         urgency = 'high';
@@ -178,41 +170,36 @@ class IntelligentCommandProcessor {
         break;
       case 'contact':
         urgency = 'medium';
-        targetWords = ['call', 'doctor', 'contact', 'phone', 'physician'];
+        targetWords = ['call', 'contact', 'phone', ...(slots.target?.split(' ') || ['doctor'])];
         break;
       case 'help':
         urgency = 'high';
-        targetWords = ['help', 'commands', 'instructions', 'guide'];
         break;
       case 'navigation':
-        urgency = 'low';
-        targetWords = ['back', 'menu', 'return', 'exit', 'close', 'main', 'home'];
+        targetWords = slots.target === 'close'
+          ? ['close', 'exit', '✕']
+          : ['back', 'menu', 'return', 'exit', 'close', 'main', 'home'];
         break;
       case 'action':
-        urgency = 'low';
-        targetWords = words.filter(w => !['click', 'press', 'tap', 'the', 'a', 'an'].includes(w));
+        targetWords = slots.target?.split(' ') || [];
         break;
       default:
-        // For unknown intents, try to extract meaningful words
+        // Unrecognised commands can still match an element by its text
         targetWords = words.filter(w => 
           !['the', 'a', 'an', 'to', 'of', 'in', 'on', 'at', 'by', 'for', 'with', 'from'].includes(w)
         );
-        // If it sounds like navigation but wasn't caught
-        if (words.some(w => ['back', 'exit', 'leave', 'close', 'quit', 'return', 'menu', 'main'].includes(w))) {
-          intent = 'navigation';
-          targetWords = ['back', 'menu', 'return', 'exit', 'close'];
-        }
     }
     
     console.log('🎯 Intent analysis result:', {
       original: command,
-      cleaned: cleanCommand,
+      cleaned: normalized,
       intent,
+      slots,
       urgency,
       targetWords: targetWords.slice(0, 5)
     });
     
-    return { intent, keywords: words, urgency, targetWords };
+    return { intent, slots, keywords: words, urgency, targetWords };
   }
 
   private handleAccessibilityCommand(command: string, analysis: any): {
@@ -222,36 +209,17 @@ class IntelligentCommandProcessor {
     confidence: number;
     reasoning: string;
   } {
-    const lowerCommand = command.toLowerCase();
-    
-    // Determine what accessibility feature and action
-    let feature = '';
-    let action = '';
-    let targetText = '';
+    const { setting, change } = analysis.slots as IntentSlots;
+    const action = change === 'on' ? 'enable' : change === 'off' ? 'disable' : 'toggle';
     
-    // Determine action (enable/disable)
-    if (lowerCommand.includes('enable') || lowerCommand.includes('turn on') || lowerCommand.includes('activate') || lowerCommand.includes('start')) {
-      action = 'enable';
-    } else if (lowerCommand.includes('disable') || lowerCommand.includes('turn off') || lowerCommand.includes('deactivate') || lowerCommand.includes('stop')) {
-      action = 'disable';
-    } else {
-      action = 'toggle'; // Default to toggle if unclear
+    if (setting && setting in VISUAL_TOGGLES) {
+      return this.handleVisualSetting(setting as keyof typeof VISUAL_TOGGLES, change);
     }
     
-    // Determine feature
-    if (lowerCommand.includes('voice') || lowerCommand.includes('assistant') || lowerCommand.includes('nullistant')) {
-      feature = 'voice';
-      targetText = 'voice assistant';
-    } else if (lowerCommand.includes('face') || lowerCommand.includes('tracking') || lowerCommand.includes('cursor') || lowerCommand.includes('head')) {
-      feature = 'face';
-      targetText = 'face tracking';
-    } else if (lowerCommand.includes('text') || lowerCommand.includes('speech') || lowerCommand.includes('narrator') || lowerCommand.includes('reading') || lowerCommand.includes('tts')) {
-      feature = 'speech';
-      targetText = 'text-to-speech';
-    }
+    // The remaining features are switched by their toggle buttons on the page
+    const { feature, targetText } = setting && PAGE_TOGGLES[setting] || { feature: '', targetText: '' };
     
-    console.log('🎛️ Accessibility command:', { feature, action, targetText });
-    console.log('🔍 Command analysis:', { command: lowerCommand, feature, action });
+    console.log('🎛️ Accessibility command:', { command, feature, action, targetText });
     
     // Find the corresponding toggle button
     const elements = this.getPageElements();
@@ -295,11 +263,7 @@ class IntelligentCommandProcessor {
     if (targetElement && feature) {
       // Highlight and click the element
       const originalStyle = targetElement.style.cssText;
-      targetElement.style.cssText += `
-        outline: 3px solid #22c55e !important;
-        outline-offset: 2px !important;
-        box-shadow: 0 0 10px #22c55e !important;
-      `;
+      targetElement.style.cssText += highlightStyle(TOGGLE_HIGHLIGHT_COLOR);
       
       // Scroll into view
       targetElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -350,6 +314,60 @@ class IntelligentCommandProcessor {
     }
   }
 
+  private handleVisualSetting(setting: keyof typeof VISUAL_TOGGLES, change: SettingChange | undefined): {
+    success: boolean;
+    action: string;
+    confidence: number;
+    reasoning: string;
+  } {
+    const enabled = change === 'toggle' ? !visualAccessibilityService.getSettings()[setting] : change === 'on';
+    VISUAL_TOGGLES[setting](enabled);
+    return {
+      success: true,
+      action: `turned ${SETTING_NAMES[setting]} ${enabled ? 'on' : 'off'}`,
+      confidence: 95,
+      reasoning: `Accessibility command: ${setting} → ${enabled}`
+    };
+  }
+
+  private handleFontSizeCommand(slots: IntentSlots): {
+    success: boolean;
+    action: string;
+    confidence: number;
+    reasoning: string;
+  } {
+    const current = FONT_SIZES.indexOf(visualAccessibilityService.getSettings().fontSize);
+    const step = (slots.change === 'decrease' ? -1 : 1) * (slots.amount || 1);
+    const size = FONT_SIZES[Math.max(0, Math.min(FONT_SIZES.length - 1, current + step))];
+    visualAccessibilityService.updateFontSize(size);
+    return {
+      success: true,
+      action: `set text size to ${size}`,
+      confidence: 95,
+      reasoning: `Font size command: ${slots.change} → ${size}`
+    };
+  }
+
+  private handleScrollCommand(slots: IntentSlots): {
+    success: boolean;
+    action: string;
+    confidence: number;
+    reasoning: string;
+  } {
+    const { direction = 'down', amount = 1 } = slots;
+    if (direction === 'top' || direction === 'bottom') {
+      window.scrollTo({ top: direction === 'top' ? 0 : document.body.scrollHeight, behavior: 'smooth' });
+    } else {
+      window.scrollBy({ top: (direction === 'up' ? -400 : 400) * amount, behavior: 'smooth' });
+    }
+    return {
+      success: true,
+      action: `scrolled ${direction}`,
+      confidence: 95,
+      reasoning: `Scroll command: ${direction} × ${amount}`
+    };
+  }
+
   private handleHelpCommand(): {
     success: boolean;
     action: string;
@@ -373,7 +391,7 @@ class IntelligentCommandProcessor {
     }
     // Default help
     else {
-      helpText = 'Available commands include: "help" for this message, "back" to go back, accessibility commands like "enable voice assistant", or describe what you want to do.';
+      helpText = 'Available commands include: "help" for this message, "back" to go back, accessibility commands like "enable voice assistant", "show numbers" or "show grid" to click by number, or describe what you want to do.';
     }
     
     // Speak the help text
@@ -390,13 +408,224 @@ class IntelligentCommandProcessor {
     };
   }
 
-  public async processCommand(command: string): Promise<{
-    success: boolean;
-    action: string;
-    element?: HTMLElement;
-    confidence: number;
-    reasoning: string;
-  }> {
+  /**
+   * Highlight an element briefly, then click it
+   */
+  private highlightAndClick(element: HTMLElement) {
+    const originalStyle = element.style.cssText;
+    element.style.cssText += highlightStyle(HIGHLIGHT_COLOR);
+    
+    // Scroll element into view
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    
+    // Click after highlighting
+    setTimeout(() => {
+      element.style.cssText = originalStyle;
+      element.click();
+      console.log('✅ Clicked element:', element);
+    }, 800);
+  }
+
+  private handleOverlayCommand(mode: string | undefined): CommandResult {
+    this.hideOverlay();
+    if (mode === 'hide') {
+      return { success: true, action: 'hid the numbers', confidence: 100, reasoning: 'Overlay command: hide' };
+    }
+
+    this.overlay = document.createElement('div');
+    this.overlay.setAttribute('data-voice-overlay', '');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    this.overlay.style.cssText = 'position: fixed; inset: 0; z-index: 99998; pointer-events: none;';
+    document.body.appendChild(this.overlay);
+
+    if (mode === 'grid') {
+      this.gridArea = { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight };
+      this.renderGrid();
+      return {
+        success: true,
+        action: 'showed the grid',
+        confidence: 100,
+        reasoning: 'Say a number to zoom into that square, "click" to click its middle, or "click" and a number to click a square'
+      };
+    }
+
+    this.renderNumbers();
+    window.addEventListener('scroll', this.refreshOverlay, true);
+    window.addEventListener('resize', this.refreshOverlay);
+    return {
+      success: true,
+      action: `numbered ${this.numberedElements.length} elements`,
+      confidence: 100,
+      reasoning: 'Say a number, or "click" and a number, to click that element'
+    };
+  }
+
+  private hideOverlay() {
+    window.removeEventListener('scroll', this.refreshOverlay, true);
+    window.removeEventListener('resize', this.refreshOverlay);
+    this.overlay?.remove();
+    this.overlay = null;
+    this.numberedElements = [];
+    this.gridArea = null;
+  }
+
+  /**
+   * Badge every clickable element in view. Clickable elements nested inside
+   * another one share its number.
+   */
+  private renderNumbers() {
+    if (!this.overlay) return;
+
+    const clickable = this.getPageElements()
+      .filter(info => info.isClickable && !info.element.closest('[data-voice-assistant]'))
+      .filter(info => info.rect.bottom > 0 && info.rect.top < window.innerHeight &&
+        info.rect.right > 0 && info.rect.left < window.innerWidth);
+    this.numberedElements = clickable
+      .map(info => info.element)
+      .filter(element => !clickable.some(other => other.element !== element && other.element.contains(element)));
+
+    this.overlay.replaceChildren(...this.numberedElements.map((element, index) => {
+      const rect = element.getBoundingClientRect();
+      const frame = document.createElement('div');
+      frame.style.cssText = `
+        position: fixed;
+        left: ${rect.left}px;
+        top: ${rect.top}px;
+        width: ${rect.width}px;
+        height: ${rect.height}px;
+        ${highlightStyle(HIGHLIGHT_COLOR)}
+      `;
+
+      const badge = document.createElement('span');
+      badge.textContent = String(index + 1);
+      badge.style.cssText = `
+        position: absolute;
+        top: -10px;
+        left: -10px;
+        min-width: 22px;
+        padding: 2px 6px;
+        border-radius: 11px;
+        background: ${HIGHLIGHT_COLOR};
+        color: white;
+        font: bold 14px Arial, sans-serif;
+        text-align: center;
+      `;
+      frame.appendChild(badge);
+      return frame;
+    }));
+  }
+
+  /**
+   * Split the current grid area into a numbered 3x3 grid
+   */
+  private renderGrid() {
+    if (!this.overlay || !this.gridArea) return;
+
+    this.overlay.replaceChildren(...this.gridCells(this.gridArea).map((cell, index) => {
+      const square = document.createElement('div');
+      square.textContent = String(index + 1);
+      square.style.cssText = `
+        position: fixed;
+        left: ${cell.left}px;
+        top: ${cell.top}px;
+        width: ${cell.width}px;
+        height: ${cell.height}px;
+        box-sizing: border-box;
+        border: 2px solid ${HIGHLIGHT_COLOR};
+        background: rgba(59, 130, 246, 0.08);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: ${HIGHLIGHT_COLOR};
+        font: bold ${Math.max(12, Math.min(48, cell.height / 3))}px Arial, sans-serif;
+        text-shadow: 0 0 4px white;
+      `;
+      return square;
+    }));
+  }
+
+  private gridCells(area: GridArea): GridArea[] {
+    const width = area.width / 3;
+    const height = area.height / 3;
+    return Array.from({ length: 9 }, (_, index) => ({
+      left: area.left + (index % 3) * width,
+      top: area.top + Math.floor(index / 3) * height,
+      width,
+      height
+    }));
+  }
+
+  private handleChooseCommand(number: number, click: boolean): CommandResult {
+    if (this.gridArea) {
+      const cell = this.gridCells(this.gridArea)[number - 1];
+      if (!cell) {
+        return { success: false, action: `no square ${number}`, confidence: 0, reasoning: 'The grid has squares 1 to 9' };
+      }
+      // "Click 5" clicks the middle of the square; a bare "5" zooms in until squares get too small
+      if (click || cell.width < MIN_GRID_CELL_PX || cell.height < MIN_GRID_CELL_PX) {
+        return this.clickGridArea(cell);
+      }
+      this.gridArea = cell;
+      this.renderGrid();
+      return { success: true, action: `zoomed into square ${number}`, confidence: 100, reasoning: 'Grid narrowed to the chosen square' };
+    }
+
+    const element = this.numberedElements[number - 1];
+    if (!element) {
+      return {
+        success: false,
+        action: `no element numbered ${number}`,
+        confidence: 0,
+        reasoning: this.numberedElements.length
+          ? `Numbers run from 1 to ${this.numberedElements.length}`
+          : 'Say "show numbers" first'
+      };
+    }
+
+    this.hideOverlay();
+    this.highlightAndClick(element);
+    return {
+      success: true,
+      action: `clicked number ${number}`,
+      element,
+      confidence: 100,
+      reasoning: `Numbered element ${number}: ${element.textContent?.trim().slice(0, 30) || element.tagName.toLowerCase()}`
+    };
+  }
+
+  /**
+   * Click whatever is under the middle of a grid area
+   */
+  private clickGridArea(area: GridArea): CommandResult {
+    const x = area.left + area.width / 2;
+    const y = area.top + area.height / 2;
+    this.hideOverlay();
+
+    const element = document.elementFromPoint(x, y) as HTMLElement | null;
+    if (!element) {
+      return { success: false, action: 'nothing to click there', confidence: 0, reasoning: `No element at ${Math.round(x)}, ${Math.round(y)}` };
+    }
+
+    const originalStyle = element.style.cssText;
+    element.style.cssText += highlightStyle(HIGHLIGHT_COLOR);
+    setTimeout(() => {
+      element.style.cssText = originalStyle;
+      ['mousedown', 'mouseup', 'click'].forEach(type => {
+        element.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, clientX: x, clientY: y, button: 0 }));
+      });
+      console.log('✅ Clicked grid point:', { x, y, element });
+    }, 800);
+
+    return {
+      success: true,
+      action: `clicked at ${Math.round(x)}, ${Math.round(y)}`,
+      element,
+      confidence: 100,
+      reasoning: `Grid click on ${element.tagName.toLowerCase()}`
+    };
+  }
+
+  public async processCommand(command: string): Promise<CommandResult> {
     console.log('🤖 Processing command:', command);
     
     const elements = this.getPageElements();
@@ -415,6 +644,46 @@ class IntelligentCommandProcessor {
       return this.handleHelpCommand();
     }
     
+    if (analysis.intent === 'adjust_setting') {
+      return this.handleFontSizeCommand(analysis.slots);
+    }
+    
+    if (analysis.intent === 'scroll') {
+      return this.handleScrollCommand(analysis.slots);
+    }
+
+    if (analysis.intent === 'undo' || analysis.intent === 'redo') {
+      // The journal announces the outcome itself, including when there is nothing to undo
+      const done = analysis.intent === 'undo' ? actionJournal.undo() : actionJournal.redo();
+      return { success: true, action: done ? `${analysis.intent} done` : `nothing to ${analysis.intent}`, confidence: 100, reasoning: 'Stepped through the action journal' };
+    }
+
+    if (analysis.intent === 'set_language') {
+      const language = analysis.slots.target === 'hi' ? 'hi' : 'en';
+      speechRecognitionBroker.setCommandLanguage(language);
+      return { success: true, action: `switched to ${language === 'hi' ? 'Hindi' : 'English'}`, confidence: 100, reasoning: 'Commands work in both languages; this sets which one the recognizer listens for' };
+    }
+
+    if (analysis.intent === 'show_overlay') {
+      return this.handleOverlayCommand(analysis.slots.target);
+    }
+
+    if (analysis.intent === 'dictate') {
+      const started = analysis.slots.change !== 'off' && dictationService.start();
+      return started
+        ? { success: true, action: 'started dictation', confidence: 100, reasoning: 'Words now go into the focused text field' }
+        : { success: false, action: 'no text field focused', confidence: 0, reasoning: 'Focus a text field, then say "dictate"' };
+    }
+
+    if (analysis.intent === 'choose') {
+      return this.handleChooseCommand(analysis.slots.amount!, analysis.slots.target === 'click');
+    }
+
+    // A bare "click" while the grid is up clicks the middle of the current area
+    if (analysis.intent === 'action' && !analysis.slots.target && this.gridArea) {
+      return this.clickGridArea(this.gridArea);
+    }
+    
       // Find the best matching element with improved scoring
       let bestMatch: { element: ElementInfo; score: number; reason: string } | null = null;
       
@@ -550,23 +819,7 @@ class IntelligentCommandProcessor {
         reason: bestMatch.reason
       });
       
-      // Highlight element briefly before clicking
-      const originalStyle = element.style.cssText;
-      element.style.cssText += `
-        outline: 3px solid #3b82f6 !important;
-        outline-offset: 2px !important;
-        box-shadow: 0 0 10px #3b82f6 !important;
-      `;
-      
-      // Scroll element into view
-      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-      
-      // Click after highlighting
-      setTimeout(() => {
-        element.style.cssText = originalStyle;
-        element.click();
-        console.log('✅ Clicked element:', element);
-      }, 800);
+      this.highlightAndClick(element);
       
       return {
         success: true,
@@ -607,8 +860,8 @@ export const IntelligentVoiceBox: React.FC<IntelligentVoiceBoxProps> = ({ enable
   const [confidence, setConfidence] = useState(0);
   const [isExpanded, setIsExpanded] = useState(true); // Start expanded
   
-  const recognitionRef = useRef<any>(null);
-  const wakeWordRecognitionRef = useRef<any>(null);
+  const recognitionRef = useRef<RecognitionClient | null>(null);
+  const wakeWordRecognitionRef = useRef<RecognitionClient | null>(null);
   const processorRef = useRef(new IntelligentCommandProcessor());
   const restartTimeoutRef = useRef<number | null>(null);
   const lastProcessedTimeRef = useRef<number>(0);
@@ -661,15 +914,11 @@ export const IntelligentVoiceBox: React.FC<IntelligentVoiceBoxProps> = ({ enable
   };
 
   useEffect(() => {
-    // Check for both Chrome and Firefox speech recognition
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (SpeechRecognition) {
+    if (speechRecognitionBroker.isSupported()) {
       // Main command recognition
-      const recognition = new SpeechRecognition();
+      const recognition = speechRecognitionBroker.createClient('Nullistant commands', MIC_PRIORITY.commands);
       recognition.continuous = false;
       recognition.interimResults = true;
-      recognition.lang = 'en-US';
       recognition.maxAlternatives = 1;
       
       let finalTranscript = '';
@@ -680,7 +929,7 @@ export const IntelligentVoiceBox: React.FC<IntelligentVoiceBoxProps> = ({ enable
         finalTranscript = '';
       };
       
-      recognition.onresult = (event: any) => {
+      recognition.onresult = event => {
         let interimTranscript = '';
         finalTranscript = '';
         
@@ -744,14 +993,14 @@ export const IntelligentVoiceBox: React.FC<IntelligentVoiceBoxProps> = ({ enable
       
       recognitionRef.current = recognition;
 
-      // Wake word recognition (continuous)
-      const wakeWordRecognition = new SpeechRecognition();
+      // Wake word recognition (continuous, kept alive by the broker)
+      const wakeWordRecognition = speechRecognitionBroker.createClient('Nullistant wake word', MIC_PRIORITY.wakeWord);
       wakeWordRecognition.continuous = true;
       wakeWordRecognition.interimResults = true;
       wakeWordRecognition.lang = 'en-US';
       wakeWordRecognition.maxAlternatives = 1;
       
-      wakeWordRecognition.onresult = (event: any) => {
+      wakeWordRecognition.onresult = event => {
         let transcript = '';
         for (let i = event.resultIndex; i < event.results.length; i++) {
           transcript += event.results[i][0].transcript;
@@ -772,14 +1021,8 @@ export const IntelligentVoiceBox: React.FC<IntelligentVoiceBoxProps> = ({ enable
         }
       };
       
-      wakeWordRecognition.onerror = (event: any) => {
+      wakeWordRecognition.onerror = event => {
         console.log('Wake word recognition error:', event.error);
-        // Restart wake word listening on error
-        setTimeout(() => {
-          if (isWakeWordMode) {
-            startWakeWordListening();
-          }
-        }, 1000);
       };
       
       wakeWordRecognitionRef.current = wakeWordRecognition;
@@ -808,15 +1051,6 @@ export const IntelligentVoiceBox: React.FC<IntelligentVoiceBoxProps> = ({ enable
     };
   }, []);
 
-  const startWakeWordListening = () => {
-    if (wakeWordRecognitionRef.current && !isListening) {
-      setIsWakeWordMode(true);
-      setStatus('👂 Say "Hey Karunya" to activate...');
-      setSpokenText('');
-      wakeWordRecognitionRef.current.start();
-    }
-  };
-
   const startCommandListening = () => {
     // Clear any pending restart timeout
     if (restartTimeoutRef.current) {
@@ -0,0 +1,53 @@
+/**
+ * Microphone Indicator
+ * Shows which voice feature is listening right now, so users know where their
+ * words go, and whether they are being taken as commands or dictated as text
+ */
+
+import React, { useEffect, useState } from 'react';
+import { speechRecognitionBroker } from '../services/speechRecognitionBroker';
+import type { MicrophoneHolder } from '../services/speechRecognitionBroker';
+import { dictationService } from '../services/dictationService';
+import type { VoiceInputMode } from '../services/dictationService';
+
+export const MicrophoneIndicator: React.FC = () => {
+  const [holder, setHolder] = useState<MicrophoneHolder | null>(null);
+  const [mode, setMode] = useState<VoiceInputMode>(dictationService.getMode());
+
+  useEffect(() => speechRecognitionBroker.onHolderChange(setHolder), []);
+  useEffect(() => dictationService.onModeChange(setMode), []);
+
+  if (!holder && mode === 'command') return null;
+
+  const isDictating = mode === 'dictation';
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      style={{
+        position: 'fixed',
+        bottom: '20px',
+        left: '20px',
+        zIndex: 99999,
+        padding: '8px 14px',
+        borderRadius: '20px',
+        background: isDictating ? 'rgba(22, 163, 74, 0.95)' : 'rgba(0, 0, 0, 0.8)',
+        color: 'white',
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '14px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        pointerEvents: 'none',
+      }}
+    >
+      <span aria-hidden="true">{isDictating ? '✍️' : '🎙️'}</span>
+      {isDictating ? (
+        <span>Dictation mode: words are typed. Say "stop dictation" for commands</span>
+      ) : (
+        <span>Command mode · Mic: {holder?.label}</span>
+      )}
+    </div>
+  );
+};
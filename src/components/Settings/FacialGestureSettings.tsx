@@ -0,0 +1,186 @@
+/**
+ * Facial Gesture Settings
+ * Per-gesture thresholds with a live meter of how strongly each gesture is being
+ * made, and the list of gesture (or gesture sequence) → action bindings.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { FacialGesture, GestureAction, GestureBinding, GestureSettings, GestureStep } from '../../types';
+import { GESTURE_LABELS, describeSteps } from '../../utils/gestures';
+import type { GestureScores } from '../../utils/gestures';
+import { facialGestureService, GESTURE_ACTION_LABELS } from '../../services/facialGestureService';
+
+interface FacialGestureSettingsProps {
+  value: GestureSettings;
+  onChange: (settings: GestureSettings) => void;
+}
+
+const GESTURES = Object.keys(GESTURE_LABELS) as FacialGesture[];
+const ACTIONS = Object.keys(GESTURE_ACTION_LABELS) as GestureAction[];
+const MAX_STEPS = 3;
+// The meters don't need every camera frame
+const METER_INTERVAL_MS = 100;
+
+const selectStyle: React.CSSProperties = { padding: '4px', borderRadius: '6px', fontSize: '0.8rem' };
+const smallButtonStyle: React.CSSProperties = { padding: '4px 10px', borderRadius: '6px', border: '1px solid #d1d5db', background: 'white', cursor: 'pointer', fontSize: '0.8rem' };
+
+const stepsKey = (steps: GestureStep[]) => steps.map(step => `${step.gesture}:${step.hold}`).join(' ');
+
+export const FacialGestureSettings: React.FC<FacialGestureSettingsProps> = ({ value, onChange }) => {
+  const [scores, setScores] = useState<GestureScores | null>(null);
+  const lastMeterUpdateRef = useRef(0);
+
+  useEffect(() => facialGestureService.onScores(latest => {
+    const now = performance.now();
+    if (now - lastMeterUpdateRef.current < METER_INTERVAL_MS) return;
+    lastMeterUpdateRef.current = now;
+    setScores(latest);
+  }), []);
+
+  const update = (changes: Partial<GestureSettings>) => onChange({ ...value, ...changes });
+  const updateBinding = (id: string, changes: Partial<GestureBinding>) =>
+    update({ bindings: value.bindings.map(binding => binding.id === id ? { ...binding, ...changes } : binding) });
+  const updateStep = (binding: GestureBinding, index: number, changes: Partial<GestureStep>) =>
+    updateBinding(binding.id, { steps: binding.steps.map((step, i) => i === index ? { ...step, ...changes } : step) });
+
+  const addBinding = () => update({
+    bindings: [...value.bindings, {
+      id: `gesture-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      steps: [{ gesture: 'smile', hold: 'short' }],
+      action: 'click'
+    }]
+  });
+
+  // Two bindings with the same gestures can't both run
+  const keyCounts = new Map<string, number>();
+  value.bindings.forEach(binding => keyCounts.set(stepsKey(binding.steps), (keyCounts.get(stepsKey(binding.steps)) ?? 0) + 1));
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px', fontSize: '0.875rem' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <input type="checkbox" checked={value.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        <strong>Use facial gestures</strong>
+        <span style={{ opacity: 0.7 }}>(needs face tracking; the click method above still applies)</span>
+      </label>
+
+      <div>
+        <strong>Thresholds</strong>
+        <div style={{ fontSize: '0.75rem', opacity: 0.7, marginBottom: '8px' }}>
+          {scores ? 'The bar shows how strongly you are making each gesture now; it counts once it passes the mark.' : 'Turn on face tracking to see live gesture levels.'}
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '10px' }}>
+          {GESTURES.map(gesture => {
+            const threshold = value.thresholds[gesture];
+            const level = scores?.[gesture] ?? 0;
+            return (
+              <label key={gesture}>
+                {GESTURE_LABELS[gesture]}: <strong>{Math.round(threshold * 100)}%</strong>
+                <div aria-hidden="true" style={{ position: 'relative', height: '6px', background: '#e5e7eb', borderRadius: '3px', margin: '4px 0' }}>
+                  <div style={{ width: `${level * 100}%`, height: '100%', borderRadius: '3px', background: level >= threshold ? '#10b981' : '#93c5fd' }} />
+                  <div style={{ position: 'absolute', left: `${threshold * 100}%`, top: '-2px', width: '2px', height: '10px', background: '#1f2937' }} />
+                </div>
+                <input
+                  type="range" min={0.1} max={0.95} step={0.05}
+                  value={threshold}
+                  onChange={(e) => update({ thresholds: { ...value.thresholds, [gesture]: Number(e.target.value) } })}
+                  style={{ width: '100%' }}
+                />
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '12px' }}>
+        <label>
+          Long hold after: <strong>{(value.longHoldMs / 1000).toFixed(1)}s</strong>
+          <input
+            type="range" min={300} max={2000} step={100}
+            value={value.longHoldMs}
+            onChange={(e) => update({ longHoldMs: Number(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </label>
+        <label>
+          Pause allowed within a sequence: <strong>{(value.sequenceGapMs / 1000).toFixed(1)}s</strong>
+          <input
+            type="range" min={300} max={1500} step={100}
+            value={value.sequenceGapMs}
+            onChange={(e) => update({ sequenceGapMs: Number(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </label>
+      </div>
+
+      <div>
+        <strong>Gesture actions</strong>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginTop: '8px' }}>
+          {value.bindings.map(binding => (
+            <div key={binding.id} style={{ border: '1px solid #e5e7eb', borderRadius: '8px', padding: '8px', display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px' }}>
+              {binding.steps.map((step, index) => (
+                <span key={index} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+                  {index > 0 && <span style={{ opacity: 0.6 }}>then</span>}
+                  <select
+                    aria-label={`Gesture ${index + 1}`}
+                    value={step.hold}
+                    onChange={(e) => updateStep(binding, index, { hold: e.target.value as GestureStep['hold'] })}
+                    style={selectStyle}
+                  >
+                    <option value="short">Quick</option>
+                    <option value="long">Long</option>
+                  </select>
+                  <select
+                    aria-label={`Gesture ${index + 1} type`}
+                    value={step.gesture}
+                    onChange={(e) => updateStep(binding, index, { gesture: e.target.value as FacialGesture })}
+                    style={selectStyle}
+                  >
+                    {GESTURES.map(gesture => <option key={gesture} value={gesture}>{GESTURE_LABELS[gesture]}</option>)}
+                  </select>
+                </span>
+              ))}
+              {binding.steps.length < MAX_STEPS && (
+                <button
+                  onClick={() => updateBinding(binding.id, { steps: [...binding.steps, binding.steps[binding.steps.length - 1]] })}
+                  style={smallButtonStyle}
+                  aria-label={`Add a gesture to ${describeSteps(binding.steps)}`}
+                >
+                  + then
+                </button>
+              )}
+              {binding.steps.length > 1 && (
+                <button
+                  onClick={() => updateBinding(binding.id, { steps: binding.steps.slice(0, -1) })}
+                  style={smallButtonStyle}
+                  aria-label={`Remove the last gesture from ${describeSteps(binding.steps)}`}
+                >
+                  − last
+                </button>
+              )}
+              <span style={{ opacity: 0.6 }}>→</span>
+              <select
+                aria-label={`Action for ${describeSteps(binding.steps)}`}
+                value={binding.action}
+                onChange={(e) => updateBinding(binding.id, { action: e.target.value as GestureAction })}
+                style={selectStyle}
+              >
+                {ACTIONS.map(action => <option key={action} value={action}>{GESTURE_ACTION_LABELS[action]}</option>)}
+              </select>
+              <button
+                onClick={() => update({ bindings: value.bindings.filter(other => other.id !== binding.id) })}
+                style={{ ...smallButtonStyle, marginLeft: 'auto', color: '#b91c1c' }}
+                aria-label={`Remove ${describeSteps(binding.steps)}`}
+              >
+                Remove
+              </button>
+              {(keyCounts.get(stepsKey(binding.steps)) ?? 0) > 1 && (
+                <div style={{ width: '100%', fontSize: '0.75rem', color: '#b45309' }}>⚠️ Another action uses the same gestures; only the first one runs.</div>
+              )}
+            </div>
+          ))}
+        </div>
+        <button onClick={addBinding} style={{ ...smallButtonStyle, marginTop: '8px' }}>+ Add gesture action</button>
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,33 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Key, Save, ExternalLink, Info, CheckCircle, MousePointer, Eye } from 'lucide-react';
-
-interface CalibrationSettings {
-  sensitivity: number;
-  smoothing: number;
-  dwellTime: number;
-  blinkEnabled: boolean;
-  clickMethod: 'blink' | 'mouth' | 'eye-tracking' | 'voice' | 'switch';
-}
+import { Settings, Key, Save, ExternalLink, Info, CheckCircle, MousePointer, Eye, Server, ArrowUp, ArrowDown, Smile } from 'lucide-react';
+import { getProviderConfigs, saveProviderConfigs } from '../../services/llmProviders';
+import type { LLMProviderConfig } from '../../services/llmProviders';
+import type { CalibrationProfile, CalibrationSettings } from '../../types';
+import { calibrationProfileService } from '../../services/calibrationProfileService';
+import { DEFAULT_FILTER_CONFIGS } from '../../utils/filters';
+import { SmoothingFilterSettings } from './SmoothingFilterSettings';
+import { FacialGestureSettings } from './FacialGestureSettings';
+import { DEFAULT_GESTURE_SETTINGS } from '../../utils/gestures';
 
 interface SettingsScreenProps {
   onBack: () => void;
   calibration?: CalibrationSettings;
   onCalibrationChange?: (settings: CalibrationSettings) => void;
   faceTrackingEnabled?: boolean;
+  onCalibrate?: () => void;
 }
 
 export default function SettingsScreen({ 
   onBack, 
   calibration, 
   onCalibrationChange, 
-  faceTrackingEnabled = false 
+  faceTrackingEnabled = false,
+  onCalibrate
 }: SettingsScreenProps) {
   const [groqApiKey, setGroqApiKey] = useState('');
   const [googleApiKey, setGoogleApiKey] = useState('');
   const [saved, setSaved] = useState(false);
+  const [providers, setProviders] = useState<LLMProviderConfig[]>(() => getProviderConfigs());
   
   // Local calibration state if not provided
   const [localCalibration, setLocalCalibration] = useState<CalibrationSettings>({
@@ -32,11 +35,44 @@ export default function SettingsScreen({
     smoothing: 0.1,
     dwellTime: 1500,
     blinkEnabled: false,
-    clickMethod: 'mouth'
+    clickMethod: 'mouth',
+    cursorMode: 'position',
+    poseRange: { yaw: 25, pitch: 15 },
+    poseDeadZone: 2,
+    poseAcceleration: 1.5,
+    poseCenter: { yaw: 0, pitch: 0 },
+    cursorFilter: DEFAULT_FILTER_CONFIGS['one-euro'],
+    positionCenter: { x: 0.5, y: 0.5 },
+    verticalSensitivity: 1.8,
+    blinkThreshold: 0.5,
+    mouthThreshold: 0.4,
+    gestures: DEFAULT_GESTURE_SETTINGS
   });
   
   const currentCalibration = calibration || localCalibration;
   const setCalibration = onCalibrationChange || setLocalCalibration;
+  const isHeadPose = currentCalibration.cursorMode === 'head-pose';
+
+  // Saved calibration profiles; picking one applies its settings
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>(() => calibrationProfileService.getProfiles());
+  const [activeProfileName, setActiveProfileName] = useState(() => calibrationProfileService.getActiveProfile()?.name ?? '');
+  useEffect(() => calibrationProfileService.subscribe(() => {
+    setProfiles(calibrationProfileService.getProfiles());
+    setActiveProfileName(calibrationProfileService.getActiveProfile()?.name ?? '');
+  }), []);
+
+  // Changes made while a profile is in use are that person's, so they're kept in it
+  const updateCalibration = (changes: Partial<CalibrationSettings>) => {
+    const next = { ...currentCalibration, ...changes };
+    setCalibration(next);
+    if (activeProfileName) calibrationProfileService.saveProfile(activeProfileName, next);
+  };
+
+  const selectProfile = (name: string) => {
+    calibrationProfileService.setActiveProfile(name || null);
+    const profile = profiles.find(candidate => candidate.name === name);
+    if (profile) setCalibration({ ...currentCalibration, ...profile.settings });
+  };
 
   useEffect(() => {
     // Load saved API keys from localStorage
@@ -63,12 +99,41 @@ export default function SettingsScreen({
       localStorage.removeItem('user_google_api_key');
     }
 
+    saveProviderConfigs(providers);
+
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
+  const updateProvider = (id: string, changes: Partial<LLMProviderConfig>) => {
+    setProviders(prev => prev.map(provider => provider.id === id ? { ...provider, ...changes } : provider));
+  };
+
+  // Providers are tried top to bottom, so moving one changes the fallback chain
+  const moveProvider = (index: number, direction: -1 | 1) => {
+    setProviders(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const makePrimary = (index: number) => {
+    setProviders(prev => {
+      const next = [...prev];
+      const [provider] = next.splice(index, 1);
+      return [{ ...provider, enabled: true }, ...next];
+    });
+  };
+
   const isGroqKeyValid = groqApiKey.trim().startsWith('gsk_');
   const isGoogleKeyValid = googleApiKey.trim().length > 20;
+  const isProviderConfigured = (provider: LLMProviderConfig) =>
+    provider.enabled && (provider.authType === 'none' ||
+      (provider.type === 'groq' ? isGroqKeyValid : !!provider.apiKey?.trim()));
+  const activeProvider = providers.find(isProviderConfigured);
 
   return (
     <div style={{
@@ -126,7 +191,7 @@ export default function SettingsScreen({
             <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
               <Key style={{ width: '20px', height: '20px', color: '#4b5563' }} />
               <h2 style={{ fontSize: '1.25rem', fontWeight: '600', color: '#1f2937', margin: 0 }}>Groq API Key</h2>
-              <span style={{ color: '#ef4444', fontSize: '0.875rem' }}>(Required for Chat)</span>
+              <span style={{ color: '#ef4444', fontSize: '0.875rem' }}>(Default Chat Provider)</span>
             </div>
             
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
@@ -187,6 +252,142 @@ export default function SettingsScreen({
             </div>
           </div>
 
+          {/* Chat AI Providers */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <Server style={{ width: '20px', height: '20px', color: '#4b5563' }} />
+              <h2 style={{ fontSize: '1.25rem', fontWeight: '600', color: '#1f2937', margin: 0 }}>Chat AI Providers</h2>
+              <span style={{ color: '#6b7280', fontSize: '0.875rem' }}>(Tried top to bottom)</span>
+            </div>
+
+            {providers.map((provider, index) => (
+              <div
+                key={provider.id}
+                style={{
+                  border: `1px solid ${index === 0 && provider.enabled ? '#2563eb' : '#d1d5db'}`,
+                  borderRadius: '8px',
+                  padding: '1rem',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '12px',
+                  opacity: provider.enabled ? 1 : 0.7
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <input
+                    type="checkbox"
+                    checked={provider.enabled}
+                    onChange={(e) => updateProvider(provider.id, { enabled: e.target.checked })}
+                    aria-label={`Enable ${provider.name}`}
+                    style={{ width: '18px', height: '18px' }}
+                  />
+                  <span style={{ fontWeight: '600', flex: 1 }}>
+                    {index + 1}. {provider.name}
+                    <span style={{ color: '#6b7280', fontWeight: 'normal', fontSize: '0.75rem', marginLeft: '8px' }}>
+                      {provider.type}
+                    </span>
+                  </span>
+                  {index > 0 && (
+                    <button
+                      onClick={() => makePrimary(index)}
+                      style={{ padding: '4px 8px', border: '1px solid #2563eb', borderRadius: '6px', background: 'white', color: '#2563eb', fontSize: '0.75rem', cursor: 'pointer' }}
+                    >
+                      Use as primary
+                    </button>
+                  )}
+                  <button
+                    onClick={() => moveProvider(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${provider.name} up`}
+                    style={{ padding: '4px', border: '1px solid #d1d5db', borderRadius: '6px', background: 'white', cursor: 'pointer' }}
+                  >
+                    <ArrowUp style={{ width: '14px', height: '14px' }} />
+                  </button>
+                  <button
+                    onClick={() => moveProvider(index, 1)}
+                    disabled={index === providers.length - 1}
+                    aria-label={`Move ${provider.name} down`}
+                    style={{ padding: '4px', border: '1px solid #d1d5db', borderRadius: '6px', background: 'white', cursor: 'pointer' }}
+                  >
+                    <ArrowDown style={{ width: '14px', height: '14px' }} />
+                  </button>
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '8px' }}>
+                  <label style={{ fontSize: '0.75rem', color: '#4b5563' }}>
+                    Base URL
+                    <input
+                      type="text"
+                      value={provider.baseUrl}
+                      onChange={(e) => updateProvider(provider.id, { baseUrl: e.target.value })}
+                      style={{ width: '100%', padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '0.875rem' }}
+                    />
+                  </label>
+                  <label style={{ fontSize: '0.75rem', color: '#4b5563' }}>
+                    Model
+                    <input
+                      type="text"
+                      value={provider.model}
+                      onChange={(e) => updateProvider(provider.id, { model: e.target.value })}
+                      style={{ width: '100%', padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '0.875rem' }}
+                    />
+                  </label>
+                </div>
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '12px', fontSize: '0.875rem', color: '#374151' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    Auth:
+                    <select
+                      value={provider.authType}
+                      onChange={(e) => updateProvider(provider.id, { authType: e.target.value as LLMProviderConfig['authType'] })}
+                      style={{ padding: '4px', border: '1px solid #d1d5db', borderRadius: '6px' }}
+                    >
+                      <option value="bearer">Bearer token</option>
+                      <option value="none">None</option>
+                    </select>
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <input
+                      type="checkbox"
+                      checked={provider.capabilities.streaming}
+                      onChange={(e) => updateProvider(provider.id, { capabilities: { ...provider.capabilities, streaming: e.target.checked } })}
+                    />
+                    Streaming
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <input
+                      type="checkbox"
+                      checked={provider.capabilities.tools}
+                      onChange={(e) => updateProvider(provider.id, { capabilities: { ...provider.capabilities, tools: e.target.checked } })}
+                    />
+                    Tool calling
+                  </label>
+                </div>
+
+                {provider.authType === 'bearer' && (
+                  provider.type === 'groq' ? (
+                    <p style={{ fontSize: '0.75rem', color: '#6b7280', margin: 0 }}>
+                      Uses the Groq API key entered above.
+                    </p>
+                  ) : (
+                    <input
+                      type="password"
+                      value={provider.apiKey || ''}
+                      onChange={(e) => updateProvider(provider.id, { apiKey: e.target.value })}
+                      placeholder={`${provider.name} API key...`}
+                      style={{ width: '100%', padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '0.875rem' }}
+                    />
+                  )
+                )}
+              </div>
+            ))}
+
+            <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+              <p style={{ margin: '0 0 2px 0' }}>• If a provider fails, NullChat automatically tries the next enabled one</p>
+              <p style={{ margin: 0 }}>• Campus servers must allow requests from this site (CORS)</p>
+            </div>
+          </div>
+
           {/* Google Cloud API Configuration */}
           <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -253,6 +454,179 @@ export default function SettingsScreen({
             </div>
           </div>
 
+          {/* Cursor Control */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <MousePointer style={{ width: '20px', height: '20px', color: '#4b5563' }} />
+              <h2 style={{ fontSize: '1.25rem', fontWeight: '600', color: '#1f2937', margin: 0 }}>Face Cursor</h2>
+              <span style={{ color: '#6b7280', fontSize: '0.875rem' }}>(Applies immediately)</span>
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap', fontSize: '0.875rem', color: '#374151' }}>
+              <label>
+                Profile{' '}
+                <select
+                  value={activeProfileName}
+                  onChange={(e) => selectProfile(e.target.value)}
+                  style={{ padding: '6px', borderRadius: '6px', fontSize: '0.875rem' }}
+                >
+                  <option value="">Unsaved settings</option>
+                  {profiles.map(profile => (
+                    <option key={profile.name} value={profile.name}>{profile.name}</option>
+                  ))}
+                </select>
+              </label>
+              {onCalibrate && (
+                <button
+                  onClick={onCalibrate}
+                  style={{ padding: '8px 14px', borderRadius: '8px', border: '2px solid #2563eb', background: '#2563eb', color: 'white', fontWeight: 600, cursor: 'pointer' }}
+                >
+                  Run guided calibration
+                </button>
+              )}
+              <span style={{ color: '#6b7280' }}>Measures your range of movement and click gestures, step by step with spoken instructions</span>
+            </div>
+
+            <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+              {([
+                ['position', 'Head position', 'Follows where your nose is in the camera'],
+                ['head-pose', 'Head rotation', 'Follows which way you turn; leaning in your chair does not move it']
+              ] as const).map(([mode, label, description]) => (
+                <label
+                  key={mode}
+                  style={{
+                    flex: '1 1 240px',
+                    border: `2px solid ${currentCalibration.cursorMode === mode ? '#2563eb' : '#d1d5db'}`,
+                    borderRadius: '8px',
+                    padding: '12px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  <input
+                    type="radio"
+                    name="cursor-mode"
+                    checked={currentCalibration.cursorMode === mode}
+                    onChange={() => updateCalibration({ cursorMode: mode })}
+                    style={{ marginRight: '8px' }}
+                  />
+                  <strong>{label}</strong>
+                  <div style={{ fontSize: '0.8rem', color: '#6b7280', marginTop: '4px' }}>{description}</div>
+                </label>
+              ))}
+            </div>
+
+            {isHeadPose ? (
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '12px', fontSize: '0.875rem', color: '#374151' }}>
+                <label>
+                  Side-to-side range: <strong>{currentCalibration.poseRange.yaw}°</strong>
+                  <input
+                    type="range" min={10} max={45} step={1}
+                    value={currentCalibration.poseRange.yaw}
+                    onChange={(e) => updateCalibration({ poseRange: { ...currentCalibration.poseRange, yaw: Number(e.target.value) } })}
+                    style={{ width: '100%' }}
+                  />
+                </label>
+                <label>
+                  Up-and-down range: <strong>{currentCalibration.poseRange.pitch}°</strong>
+                  <input
+                    type="range" min={5} max={35} step={1}
+                    value={currentCalibration.poseRange.pitch}
+                    onChange={(e) => updateCalibration({ poseRange: { ...currentCalibration.poseRange, pitch: Number(e.target.value) } })}
+                    style={{ width: '100%' }}
+                  />
+                </label>
+                <label>
+                  Dead zone: <strong>{currentCalibration.poseDeadZone}°</strong>
+                  <input
+                    type="range" min={0} max={8} step={0.5}
+                    value={currentCalibration.poseDeadZone}
+                    onChange={(e) => updateCalibration({ poseDeadZone: Number(e.target.value) })}
+                    style={{ width: '100%' }}
+                  />
+                </label>
+                <label>
+                  Acceleration: <strong>{currentCalibration.poseAcceleration.toFixed(1)}</strong>
+                  <input
+                    type="range" min={1} max={3} step={0.1}
+                    value={currentCalibration.poseAcceleration}
+                    onChange={(e) => updateCalibration({ poseAcceleration: Number(e.target.value) })}
+                    style={{ width: '100%' }}
+                  />
+                </label>
+              </div>
+            ) : (
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '12px', fontSize: '0.875rem', color: '#374151' }}>
+                <label>
+                  Side-to-side sensitivity: <strong>{currentCalibration.sensitivity.toFixed(1)}</strong>
+                  <input
+                    type="range" min={0.5} max={8} step={0.1}
+                    value={currentCalibration.sensitivity}
+                    onChange={(e) => updateCalibration({ sensitivity: Number(e.target.value) })}
+                    style={{ width: '100%' }}
+                  />
+                </label>
+                <label>
+                  Up-and-down sensitivity: <strong>{currentCalibration.verticalSensitivity.toFixed(1)}</strong>
+                  <input
+                    type="range" min={0.5} max={8} step={0.1}
+                    value={currentCalibration.verticalSensitivity}
+                    onChange={(e) => updateCalibration({ verticalSensitivity: Number(e.target.value) })}
+                    style={{ width: '100%' }}
+                  />
+                </label>
+              </div>
+            )}
+            {isHeadPose && (
+              <p style={{ fontSize: '0.75rem', color: '#6b7280', margin: 0 }}>
+                Range is how far you turn to reach the screen edge. Smaller movements than the dead zone are ignored,
+                and higher acceleration gives finer control near the middle.
+              </p>
+            )}
+
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '12px', fontSize: '0.875rem', color: '#374151' }}>
+              <label>
+                Mouth click at: <strong>{Math.round(currentCalibration.mouthThreshold * 100)}% open</strong>
+                <input
+                  type="range" min={0.15} max={0.9} step={0.01}
+                  value={currentCalibration.mouthThreshold}
+                  onChange={(e) => updateCalibration({ mouthThreshold: Number(e.target.value) })}
+                  style={{ width: '100%' }}
+                />
+              </label>
+              <label>
+                Blink click at: <strong>{Math.round(currentCalibration.blinkThreshold * 100)}% closed</strong>
+                <input
+                  type="range" min={0.15} max={0.9} step={0.01}
+                  value={currentCalibration.blinkThreshold}
+                  onChange={(e) => updateCalibration({ blinkThreshold: Number(e.target.value) })}
+                  style={{ width: '100%' }}
+                />
+              </label>
+            </div>
+
+            <div style={{ color: '#374151' }}>
+              <SmoothingFilterSettings
+                value={currentCalibration.cursorFilter}
+                onChange={(cursorFilter) => updateCalibration({ cursorFilter })}
+              />
+            </div>
+          </div>
+
+          {/* Facial Gestures */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <Smile style={{ width: '20px', height: '20px', color: '#4b5563' }} />
+              <h2 style={{ fontSize: '1.25rem', fontWeight: '600', color: '#1f2937', margin: 0 }}>Facial Gestures</h2>
+              <span style={{ color: '#6b7280', fontSize: '0.875rem' }}>(Saved to the calibration profile in use)</span>
+            </div>
+            <div style={{ color: '#374151' }}>
+              <FacialGestureSettings
+                value={currentCalibration.gestures}
+                onChange={(gestures) => updateCalibration({ gestures })}
+              />
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div style={{ display: 'flex', gap: '1rem', paddingTop: '1.5rem', borderTop: '1px solid #e5e7eb' }}>
             <button
@@ -315,10 +689,10 @@ export default function SettingsScreen({
                   width: '8px', 
                   height: '8px', 
                   borderRadius: '50%', 
-                  background: isGroqKeyValid ? '#10b981' : '#ef4444' 
+                  background: activeProvider ? '#10b981' : '#ef4444' 
                 }} />
                 <span style={{ color: '#374151' }}>
-                  Chat AI: {isGroqKeyValid ? 'Configured' : 'Not configured'}
+                  Chat AI: {activeProvider ? `Configured (${activeProvider.name})` : 'Not configured'}
                 </span>
               </div>
               <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
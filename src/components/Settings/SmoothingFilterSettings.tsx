@@ -0,0 +1,150 @@
+/**
+ * Smoothing Filter Settings
+ * Pick and tune the jitter filter for a pointer, with a live preview: a
+ * recorded-style noisy trace (hold, move, hold) run through the current filter.
+ */
+
+import React, { useMemo } from 'react';
+import type { SmoothingFilterConfig } from '../../types';
+import { DEFAULT_FILTER_CONFIGS, createScalarFilter } from '../../utils/filters';
+
+interface SmoothingFilterSettingsProps {
+  value: SmoothingFilterConfig;
+  onChange: (config: SmoothingFilterConfig) => void;
+}
+
+interface TraceSample {
+  time: number;   // ms
+  truth: number;  // Where the pointer meant to be, px
+  reading: number; // What the tracker reported, px
+}
+
+type Kind = SmoothingFilterConfig['kind'];
+
+const KIND_LABELS: Record<Kind, string> = {
+  'one-euro': 'One Euro (recommended)',
+  'kalman': 'Kalman',
+  'exponential': 'Exponential',
+  'none': 'Off'
+};
+
+// Slider ranges for each tunable parameter
+const PARAMETERS: Record<Kind, Array<{ key: string; label: string; min: number; max: number; step: number; hint: string }>> = {
+  'one-euro': [
+    { key: 'minCutoff', label: 'Steadiness', min: 0.1, max: 5, step: 0.1, hint: 'Lower removes more jitter when still' },
+    { key: 'beta', label: 'Speed response', min: 0, max: 0.05, step: 0.001, hint: 'Higher reduces lag when moving' },
+    { key: 'derivativeCutoff', label: 'Speed smoothing', min: 0.5, max: 5, step: 0.1, hint: 'Cutoff for the speed estimate, Hz' }
+  ],
+  'kalman': [
+    { key: 'processNoise', label: 'Movement freedom', min: 100, max: 10000, step: 100, hint: 'Higher follows quick changes sooner' },
+    { key: 'measurementNoise', label: 'Tracker noise', min: 1, max: 100, step: 1, hint: 'Higher trusts each reading less' }
+  ],
+  'exponential': [
+    { key: 'alpha', label: 'Responsiveness', min: 0.05, max: 1, step: 0.05, hint: 'Lower is smoother but lags more' }
+  ],
+  'none': []
+};
+
+const SAMPLE_INTERVAL_MS = 33; // 30 fps camera
+const TRACE_LENGTH = 240;
+const MOVE_START = 80;
+const MOVE_END = 110;
+const TRACE_MIN = 150;
+const TRACE_MAX = 850;
+
+// Deterministic noise, so the preview only changes when the settings do
+function buildTrace(): TraceSample[] {
+  let seed = 7;
+  const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+  const gaussian = () => Math.sqrt(-2 * Math.log(random() + 1e-9)) * Math.cos(2 * Math.PI * random());
+
+  return Array.from({ length: TRACE_LENGTH }, (_, index) => {
+    const progress = Math.min(1, Math.max(0, (index - MOVE_START) / (MOVE_END - MOVE_START)));
+    const truth = 200 + progress * 600;
+    return { time: index * SAMPLE_INTERVAL_MS, truth, reading: truth + gaussian() * 8 };
+  });
+}
+
+const TRACE = buildTrace();
+
+const toPolyline = (values: number[]) => values
+  .map((value, index) => `${(index / (values.length - 1)) * 300},${120 - ((value - TRACE_MIN) / (TRACE_MAX - TRACE_MIN)) * 120}`)
+  .join(' ');
+
+export const SmoothingFilterSettings: React.FC<SmoothingFilterSettingsProps> = ({ value, onChange }) => {
+  const preview = useMemo(() => {
+    const filter = createScalarFilter(value);
+    const filtered = TRACE.map(sample => filter.filter(sample.reading, sample.time));
+
+    // Jitter: error while holding still; lag: error while moving
+    let stillError = 0, stillCount = 0, movingError = 0, movingCount = 0;
+    filtered.forEach((output, index) => {
+      const error = (output - TRACE[index].truth) ** 2;
+      if (index >= MOVE_START && index < MOVE_END + 10) {
+        movingError += error;
+        movingCount++;
+      } else {
+        stillError += error;
+        stillCount++;
+      }
+    });
+
+    return {
+      filtered,
+      jitter: Math.sqrt(stillError / stillCount),
+      lag: Math.sqrt(movingError / movingCount)
+    };
+  }, [value]);
+
+  const parameters = PARAMETERS[value.kind];
+  const valueOf = (key: string) => (value as unknown as Record<string, number>)[key];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', fontSize: '0.875rem' }}>
+      <label>
+        Smoothing filter{' '}
+        <select
+          value={value.kind}
+          onChange={(e) => onChange(DEFAULT_FILTER_CONFIGS[e.target.value as Kind])}
+          style={{ padding: '6px', borderRadius: '6px', fontSize: '0.875rem' }}
+        >
+          {(Object.keys(KIND_LABELS) as Kind[]).map(kind => (
+            <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+      </label>
+
+      {parameters.length > 0 && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '12px' }}>
+          {parameters.map(parameter => (
+            <label key={parameter.key} title={parameter.hint}>
+              {parameter.label}: <strong>{valueOf(parameter.key)}</strong>
+              <input
+                type="range"
+                min={parameter.min}
+                max={parameter.max}
+                step={parameter.step}
+                value={valueOf(parameter.key)}
+                onChange={(e) => onChange({ ...value, [parameter.key]: Number(e.target.value) } as SmoothingFilterConfig)}
+                style={{ width: '100%' }}
+              />
+              <span style={{ fontSize: '0.75rem', opacity: 0.7 }}>{parameter.hint}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <figure style={{ margin: 0 }}>
+        <svg viewBox="0 0 300 120" role="img" aria-label="Filter preview" style={{ width: '100%', height: '120px', background: 'rgba(127, 127, 127, 0.1)', borderRadius: '6px' }}>
+          <polyline points={toPolyline(TRACE.map(sample => sample.reading))} fill="none" stroke="#9ca3af" strokeWidth="0.75" />
+          <polyline points={toPolyline(TRACE.map(sample => sample.truth))} fill="none" stroke="#10b981" strokeWidth="1" strokeDasharray="3 2" />
+          <polyline points={toPolyline(preview.filtered)} fill="none" stroke="#2563eb" strokeWidth="1.5" />
+        </svg>
+        <figcaption style={{ fontSize: '0.75rem', opacity: 0.8, marginTop: '4px' }}>
+          Grey: raw tracker · Green: intended path · Blue: filtered.
+          Jitter {preview.jitter.toFixed(1)}px · lag error {preview.lag.toFixed(1)}px
+        </figcaption>
+      </figure>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * Voice Alias Editor
+ * Correct words the recognizer keeps getting wrong: "when I say X, I mean Y"
+ */
+
+import React, { useEffect, useState } from 'react';
+import { voiceAliasService } from '../../services/voiceAliasService';
+import type { VoiceAlias } from '../../services/voiceAliasService';
+
+const fieldStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: '8rem',
+  padding: '0.5rem',
+  borderRadius: '0.5rem',
+  border: '1px solid rgba(255,255,255,0.3)',
+  background: 'rgba(0,0,0,0.3)',
+  color: 'white',
+  fontSize: '1rem'
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  padding: '0.5rem 1rem',
+  borderRadius: '0.5rem',
+  border: 'none',
+  background: color,
+  color: 'white',
+  cursor: 'pointer'
+});
+
+export const VoiceAliasEditor: React.FC = () => {
+  const [aliases, setAliases] = useState<VoiceAlias[]>(voiceAliasService.getAliases());
+  const [heard, setHeard] = useState('');
+  const [meant, setMeant] = useState('');
+
+  useEffect(() => voiceAliasService.subscribe(() => setAliases(voiceAliasService.getAliases())), []);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    voiceAliasService.setAlias(heard, meant);
+    setHeard('');
+    setMeant('');
+  };
+
+  return (
+    <div style={{ marginTop: '1rem', background: 'rgba(255,255,255,0.05)', padding: '1.5rem', borderRadius: '0.75rem' }}>
+      <strong>Word Corrections</strong>
+      <div style={{ fontSize: '0.9rem', opacity: 0.8, marginBottom: '1rem' }}>
+        When voice commands mishear a name, tell them what you meant
+      </div>
+
+      {aliases.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 1rem' }}>
+          {aliases.map(alias => (
+            <li key={alias.heard} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.4rem 0' }}>
+              <span style={{ flex: 1 }}>"{alias.heard}" → "{alias.meant}"</span>
+              <button
+                onClick={() => voiceAliasService.removeAlias(alias.heard)}
+                aria-label={`Remove correction for ${alias.heard}`}
+                style={buttonStyle('#f44336')}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <input value={heard} onChange={(e) => setHeard(e.target.value)} placeholder="When I say…" aria-label="Heard as" style={fieldStyle} />
+        <input value={meant} onChange={(e) => setMeant(e.target.value)} placeholder="I mean…" aria-label="Meant" style={fieldStyle} />
+        <button type="submit" disabled={!heard.trim() || !meant.trim()} style={buttonStyle('#4CAF50')}>
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
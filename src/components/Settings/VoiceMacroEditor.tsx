@@ -0,0 +1,178 @@
+/**
+ * Voice Macro Editor
+ * Create, rename, edit, test and delete voice macros. Steps are the command
+ * phrases the macro replays, one per line.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { voiceMacroService } from '../../services/voiceMacroService';
+import type { MacroRecording, VoiceMacro } from '../../services/voiceMacroService';
+import { confirmationService } from '../../services/confirmationService';
+
+const panelStyle: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.05)',
+  padding: '1.5rem',
+  borderRadius: '0.75rem',
+  marginBottom: '1rem'
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '0.5rem',
+  borderRadius: '0.5rem',
+  border: '1px solid rgba(255,255,255,0.3)',
+  background: 'rgba(0,0,0,0.3)',
+  color: 'white',
+  fontSize: '1rem',
+  boxSizing: 'border-box'
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  padding: '0.5rem 1rem',
+  borderRadius: '0.5rem',
+  border: 'none',
+  background: color,
+  color: 'white',
+  fontSize: '0.95rem',
+  cursor: 'pointer'
+});
+
+const splitSteps = (text: string) => text.split('\n');
+
+const MacroCard: React.FC<{ macro: VoiceMacro }> = ({ macro }) => {
+  const [name, setName] = useState(macro.name);
+  const [steps, setSteps] = useState(macro.steps.join('\n'));
+  const [status, setStatus] = useState('');
+
+  const isChanged = name.trim() !== macro.name || steps !== macro.steps.join('\n');
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    voiceMacroService.updateMacro(macro.id, { name, steps: splitSteps(steps) });
+    setStatus('Saved');
+  };
+
+  const handleTest = async () => {
+    setStatus('Running…');
+    const { ran, failed } = await voiceMacroService.runMacro(macro.id);
+    setStatus(failed.length
+      ? `Ran ${ran} steps; not understood: ${failed.map(step => `"${step}"`).join(', ')}`
+      : `Ran ${ran} steps`);
+  };
+
+  const handleDelete = async () => {
+    const confirmed = await confirmationService.confirm(`Delete the macro "${macro.name}"?`, {
+      title: 'Delete macro',
+      confirmLabel: 'Delete',
+      cancelLabel: 'Keep',
+      destructive: true
+    });
+    if (confirmed) {
+      voiceMacroService.deleteMacro(macro.id);
+    }
+  };
+
+  return (
+    <div style={panelStyle}>
+      <label style={{ display: 'block', marginBottom: '0.75rem' }}>
+        <strong>Name</strong> <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>(say this to run it)</span>
+        <input value={name} onChange={(e) => setName(e.target.value)} style={{ ...fieldStyle, marginTop: '0.25rem' }} />
+      </label>
+      <label style={{ display: 'block', marginBottom: '0.75rem' }}>
+        <strong>Steps</strong> <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>(one command per line)</span>
+        <textarea
+          value={steps}
+          onChange={(e) => setSteps(e.target.value)}
+          rows={Math.max(3, macro.steps.length + 1)}
+          style={{ ...fieldStyle, marginTop: '0.25rem', fontFamily: 'inherit', resize: 'vertical' }}
+        />
+      </label>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+        <button onClick={handleSave} disabled={!isChanged || !name.trim()} style={{ ...buttonStyle('#4CAF50'), opacity: isChanged ? 1 : 0.5 }}>
+          💾 Save
+        </button>
+        <button onClick={handleTest} disabled={isChanged} style={{ ...buttonStyle('#2196F3'), opacity: isChanged ? 0.5 : 1 }}>
+          ▶️ Test
+        </button>
+        <button onClick={handleDelete} style={buttonStyle('#f44336')}>
+          🗑️ Delete
+        </button>
+        {status && <span role="status" style={{ fontSize: '0.9rem', opacity: 0.8 }}>{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export const VoiceMacroEditor: React.FC = () => {
+  const [macros, setMacros] = useState<VoiceMacro[]>(voiceMacroService.getMacros());
+  const [recording, setRecording] = useState<MacroRecording | null>(voiceMacroService.getRecording());
+  const [newName, setNewName] = useState('');
+  const [newSteps, setNewSteps] = useState('');
+
+  useEffect(() => voiceMacroService.subscribe(() => {
+    setMacros(voiceMacroService.getMacros());
+    setRecording(voiceMacroService.getRecording());
+  }), []);
+
+  const handleCreate = () => {
+    if (!newName.trim() || !newSteps.trim()) return;
+    voiceMacroService.saveMacro(newName, splitSteps(newSteps));
+    setNewName('');
+    setNewSteps('');
+  };
+
+  return (
+    <div>
+      <h2 style={{ color: '#E91E63', marginBottom: '1.5rem' }}>🎬 Voice Macros</h2>
+
+      <div style={{ ...panelStyle, background: recording ? 'rgba(244, 67, 54, 0.15)' : panelStyle.background }} role="status" aria-live="polite">
+        {recording ? (
+          <>
+            <strong>⏺️ Recording "{recording.name}"</strong> · {recording.steps.length} steps so far
+            {recording.steps.length > 0 && (
+              <ol style={{ margin: '0.5rem 0', paddingLeft: '1.5rem' }}>
+                {recording.steps.map((step, index) => <li key={index}>{step}</li>)}
+              </ol>
+            )}
+            <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+              <button onClick={() => voiceMacroService.finishRecording(true)} style={buttonStyle('#4CAF50')}>⏹️ Stop and save</button>
+              <button onClick={() => voiceMacroService.finishRecording(false)} style={buttonStyle('#757575')}>Discard</button>
+            </div>
+          </>
+        ) : (
+          <div style={{ fontSize: '0.95rem', opacity: 0.9 }}>
+            Say <strong>"record macro exam notices"</strong>, give your commands, then say <strong>"stop recording"</strong>.
+            Replay it by saying <strong>"exam notices"</strong> or <strong>"run macro exam notices"</strong>.
+          </div>
+        )}
+      </div>
+
+      {macros.length === 0 ? (
+        <p style={{ opacity: 0.8 }}>No macros yet.</p>
+      ) : (
+        macros.map(macro => <MacroCard key={`${macro.id}-${macro.updatedAt}`} macro={macro} />)
+      )}
+
+      <div style={panelStyle}>
+        <h3 style={{ marginTop: 0 }}>➕ New macro</h3>
+        <label style={{ display: 'block', marginBottom: '0.75rem' }}>
+          <strong>Name</strong>
+          <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="exam notices" style={{ ...fieldStyle, marginTop: '0.25rem' }} />
+        </label>
+        <label style={{ display: 'block', marginBottom: '0.75rem' }}>
+          <strong>Steps</strong> <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>(one command per line)</span>
+          <textarea
+            value={newSteps}
+            onChange={(e) => setNewSteps(e.target.value)}
+            rows={4}
+            placeholder={'go to notices\nsearch for exam\nread page'}
+            style={{ ...fieldStyle, marginTop: '0.25rem', fontFamily: 'inherit', resize: 'vertical' }}
+          />
+        </label>
+        <button onClick={handleCreate} disabled={!newName.trim() || !newSteps.trim()} style={buttonStyle('#4CAF50')}>
+          Add macro
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,26 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { parseIntent } from '../services/intentEngine';
+import { speechRecognitionBroker, MIC_PRIORITY } from '../services/speechRecognitionBroker';
+import type { RecognitionClient } from '../services/speechRecognitionBroker';
 
 export const SimpleVoiceBox: React.FC = () => {
   const [isListening, setIsListening] = useState(false);
   const [spokenText, setSpokenText] = useState('');
   const [status, setStatus] = useState('Click mic to start');
-  const recognitionRef = useRef<any>(null);
+  const recognitionRef = useRef<RecognitionClient | null>(null);
 
   useEffect(() => {
-    if ('webkitSpeechRecognition' in window) {
-      const recognition = new (window as any).webkitSpeechRecognition();
+    if (speechRecognitionBroker.isSupported()) {
+      const recognition = speechRecognitionBroker.createClient('Simple voice box', MIC_PRIORITY.commands);
       recognition.continuous = false;
       recognition.interimResults = true;
-      recognition.lang = 'en-US';
       
       recognition.onstart = () => {
         setStatus('🎤 Listening...');
         setSpokenText('');
       };
       
-      recognition.onresult = (event: any) => {
+      recognition.onresult = event => {
         let current = '';
         for (let i = 0; i < event.results.length; i++) {
           current += event.results[i][0].transcript;
@@ -41,69 +43,57 @@ export const SimpleVoiceBox: React.FC = () => {
   }, [spokenText]);
 
   const executeCommand = (text: string) => {
-    const lower = text.toLowerCase().trim();
-    console.log('🎯 Executing command:', lower);
+    const { best } = parseIntent(text);
+    console.log('🎯 Executing command:', text, best);
     
-    // Help command
-    if (lower.includes('help') || lower === 'help') {
-      setStatus('💡 Available: "click button", "scroll down", "emergency", "go back"');
-      return;
-    }
-    
-    // Click commands - look for specific buttons first
-    if (lower.includes('click') || lower.includes('press')) {
-      let button = null;
-      
-      // Look for specific button types
-      if (lower.includes('emergency') || lower.includes('red')) {
-        button = document.querySelector('[style*="red"], .emergency, #emergency') as HTMLElement;
-      } else if (lower.includes('help') || lower.includes('assistant')) {
-        button = document.querySelector('.ai-assistant, [class*="assistant"]') as HTMLElement;
-      } else {
-        // Find any clickable button
-        button = document.querySelector('button, [role="button"], a') as HTMLElement;
+    switch (best?.name) {
+      case 'help':
+        setStatus('💡 Available: "click button", "scroll down", "emergency", "go back"');
+        return;
+        
+      case 'emergency':
+      case 'click': {
+        const target = best.name === 'emergency' ? 'emergency' : best.slots.target || '';
+        let button = null;
+        
+        // Look for specific button types
+        if (target.includes('emergency') || target.includes('red')) {
+          button = document.querySelector('[style*="red"], .emergency, #emergency') as HTMLElement;
+        } else if (target.includes('help') || target.includes('assistant')) {
+          button = document.querySelector('.ai-assistant, [class*="assistant"]') as HTMLElement;
+        } else {
+          // Find any clickable button
+          button = document.querySelector('button, [role="button"], a') as HTMLElement;
+        }
+        
+        if (button) {
+          button.click();
+          setStatus(best.name === 'emergency' ? '🚨 Emergency activated' : `✅ Clicked: ${button.textContent?.slice(0, 20) || 'button'}`);
+        } else {
+          setStatus('❌ No button found');
+        }
+        return;
       }
       
-      if (button) {
-        button.click();
-        setStatus(`✅ Clicked: ${button.textContent?.slice(0, 20) || 'button'}`);
-      } else {
-        setStatus('❌ No button found');
-      }
-      return;
-    }
-    
-    // Direct button clicks by name
-    if (lower.includes('emergency')) {
-      const emergencyBtn = document.querySelector('[style*="red"], .emergency, #emergency') as HTMLElement;
-      if (emergencyBtn) {
-        emergencyBtn.click();
-        setStatus('🚨 Emergency activated');
-      } else {
-        setStatus('❌ Emergency button not found');
+      case 'scroll': {
+        const direction = best.slots.direction === 'up' ? -300 : 300;
+        window.scrollBy({ top: direction * (best.slots.amount || 1), behavior: 'smooth' });
+        setStatus(`✅ Scrolled ${direction > 0 ? 'down' : 'up'}`);
+        return;
       }
-      return;
-    }
-    
-    // Scroll commands
-    if (lower.includes('scroll')) {
-      const direction = lower.includes('up') ? -300 : 300;
-      window.scrollBy({ top: direction, behavior: 'smooth' });
-      setStatus(`✅ Scrolled ${direction > 0 ? 'down' : 'up'}`);
-      return;
-    }
-    
-    // Navigation commands
-    if (lower.includes('back') || lower.includes('previous')) {
-      window.history.back();
-      setStatus('⬅️ Going back');
-      return;
-    }
-    
-    if (lower.includes('refresh') || lower.includes('reload')) {
-      window.location.reload();
-      setStatus('🔄 Refreshing page');
-      return;
+      
+      case 'navigate':
+        if (best.slots.target === 'refresh') {
+          window.location.reload();
+          setStatus('🔄 Refreshing page');
+          return;
+        }
+        if (best.slots.direction === 'back') {
+          window.history.back();
+          setStatus('⬅️ Going back');
+          return;
+        }
+        break;
     }
     
     // If no command matched
@@ -1,106 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-
-interface SpeechAnalyzer {
-  analyzeCommand(text: string): Promise<{
-    action: string;
-    target?: string;
-    confidence: number;
-    explanation: string;
-  }>;
-}
-
-class AICommandAnalyzer implements SpeechAnalyzer {
-  async analyzeCommand(text: string) {
-    const lowerText = text.toLowerCase().trim();
-    
-    // Click commands
-    if (lowerText.includes('click')) {
-      const target = lowerText.replace(/.*click\s+/g, '').replace(/button|on|the/g, '').trim();
-      return {
-        action: 'click',
-        target: target || 'button',
-        confidence: 0.9,
-        explanation: `I'll click on "${target || 'the first button I find'}"`
-      };
-    }
-
-    // Type commands
-    if (lowerText.includes('type') || lowerText.includes('write') || lowerText.includes('enter')) {
-      const textToType = lowerText.replace(/^(type|write|enter)\s*/g, '').trim();
-      return {
-        action: 'type',
-        target: textToType,
-        confidence: 0.95,
-        explanation: `I'll type: "${textToType}"`
-      };
-    }
-
-    // Scroll commands
-    if (lowerText.includes('scroll')) {
-      const direction = lowerText.includes('up') ? 'up' : 'down';
-      return {
-        action: 'scroll',
-        target: direction,
-        confidence: 0.9,
-        explanation: `I'll scroll ${direction}`
-      };
-    }
-
-    // Navigation commands
-    if (lowerText.includes('go back') || lowerText.includes('back')) {
-      return {
-        action: 'navigate',
-        target: 'back',
-        confidence: 0.9,
-        explanation: "I'll go back to the previous page"
-      };
-    }
-
-    if (lowerText.includes('refresh') || lowerText.includes('reload')) {
-      return {
-        action: 'navigate',
-        target: 'refresh',
-        confidence: 0.9,
-        explanation: "I'll refresh the page"
-      };
-    }
-
-    // Key presses
-    if (lowerText.includes('press') || lowerText.includes('hit')) {
-      let key = 'Enter';
-      if (lowerText.includes('enter')) key = 'Enter';
-      else if (lowerText.includes('escape')) key = 'Escape';
-      else if (lowerText.includes('tab')) key = 'Tab';
-      else if (lowerText.includes('space')) key = ' ';
-      
-      return {
-        action: 'keypress',
-        target: key,
-        confidence: 0.85,
-        explanation: `I'll press the ${key} key`
-      };
-    }
-
-    // Search/find commands
-    if (lowerText.includes('search') || lowerText.includes('find')) {
-      const searchTerm = lowerText.replace(/^(search|find)\s*(for\s*)?/g, '').trim();
-      return {
-        action: 'search',
-        target: searchTerm,
-        confidence: 0.8,
-        explanation: `I'll search for "${searchTerm}"`
-      };
-    }
-
-    // Default fallback
-    return {
-      action: 'unknown',
-      target: text,
-      confidence: 0.1,
-      explanation: `I'm not sure what to do with: "${text}"`
-    };
-  }
-}
+import { parseIntent, describeIntent } from '../services/intentEngine';
+import type { Intent, IntentParse } from '../services/intentEngine';
+import { speechRecognitionBroker, MIC_PRIORITY } from '../services/speechRecognitionBroker';
+import type { RecognitionClient } from '../services/speechRecognitionBroker';
 
 interface SmartVoiceBoxProps {
   onClose?: () => void;
@@ -110,24 +12,21 @@ export const SmartVoiceBox: React.FC<SmartVoiceBoxProps> = ({ onClose }) => {
   const [isListening, setIsListening] = useState(false);
   const [currentText, setCurrentText] = useState('');
   const [finalText, setFinalText] = useState('');
-  const [analysisResult, setAnalysisResult] = useState<any>(null);
+  const [analysisResult, setAnalysisResult] = useState<IntentParse | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [executionStatus, setExecutionStatus] = useState<string>('');
   
-  const recognitionRef = useRef<any>(null);
-  const analyzerRef = useRef(new AICommandAnalyzer());
+  const recognitionRef = useRef<RecognitionClient | null>(null);
   const silenceTimerRef = useRef<number | null>(null);
 
   useEffect(() => {
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
-      recognitionRef.current = new SpeechRecognition();
+    if (speechRecognitionBroker.isSupported()) {
+      recognitionRef.current = speechRecognitionBroker.createClient('Smart voice box', MIC_PRIORITY.commands);
       
       recognitionRef.current.continuous = true;
       recognitionRef.current.interimResults = true;
-      recognitionRef.current.lang = 'en-US';
       
-      recognitionRef.current.onresult = (event: any) => {
+      recognitionRef.current.onresult = event => {
         let interimText = '';
         let finalText = '';
         
@@ -165,7 +64,7 @@ export const SmartVoiceBox: React.FC<SmartVoiceBoxProps> = ({ onClose }) => {
         setCurrentText('');
       };
 
-      recognitionRef.current.onerror = (event: any) => {
+      recognitionRef.current.onerror = event => {
         console.error('Speech recognition error:', event.error);
         setExecutionStatus(`Error: ${event.error}`);
       };
@@ -183,12 +82,12 @@ export const SmartVoiceBox: React.FC<SmartVoiceBoxProps> = ({ onClose }) => {
     setExecutionStatus('Analyzing command...');
     
     try {
-      const result = await analyzerRef.current.analyzeCommand(text);
+      const result = parseIntent(text);
       setAnalysisResult(result);
       
-      if (result.confidence > 0.5) {
+      if (result.best) {
         setExecutionStatus('Executing command...');
-        await executeCommand(result);
+        await executeCommand(result.best);
         setExecutionStatus('✅ Command executed!');
       } else {
         setExecutionStatus('❓ Command unclear, please try again');
@@ -208,28 +107,30 @@ export const SmartVoiceBox: React.FC<SmartVoiceBoxProps> = ({ onClose }) => {
     }
   };
 
-  const executeCommand = async (command: any) => {
-    switch (command.action) {
+  const executeCommand = async (intent: Intent) => {
+    const { target, direction, amount } = intent.slots;
+    switch (intent.name) {
       case 'click':
-        await handleClick(command.target);
+        await handleClick(target || 'button');
         break;
       case 'type':
-        await handleType(command.target);
+        await handleType(target!);
         break;
       case 'scroll':
-        await handleScroll(command.target);
+        await handleScroll(direction!, amount);
         break;
       case 'navigate':
-        await handleNavigation(command.target);
+        await handleNavigation(target || direction!);
         break;
-      case 'keypress':
-        await handleKeyPress(command.target);
+      case 'key':
+        await handleKeyPress(target!);
         break;
       case 'search':
-        await handleSearch(command.target);
+      case 'find':
+        await handleSearch(target!);
         break;
       default:
-        throw new Error('Unknown command');
+        throw new Error(`Cannot ${describeIntent(intent)} from the voice box`);
     }
   };
 
@@ -272,14 +173,20 @@ export const SmartVoiceBox: React.FC<SmartVoiceBoxProps> = ({ onClose }) => {
     }
   };
 
-  const handleScroll = async (direction: string) => {
-    const scrollAmount = direction === 'up' ? -400 : 400;
+  const handleScroll = async (direction: string, amount = 1) => {
+    if (direction === 'top' || direction === 'bottom') {
+      window.scrollTo({ top: direction === 'top' ? 0 : document.body.scrollHeight, behavior: 'smooth' });
+      return;
+    }
+    const scrollAmount = (direction === 'up' ? -400 : 400) * amount;
     window.scrollBy({ top: scrollAmount, behavior: 'smooth' });
   };
 
   const handleNavigation = async (action: string) => {
     if (action === 'back') {
       window.history.back();
+    } else if (action === 'forward') {
+      window.history.forward();
     } else if (action === 'refresh') {
       window.location.reload();
     }
@@ -452,14 +359,16 @@ export const SmartVoiceBox: React.FC<SmartVoiceBoxProps> = ({ onClose }) => {
             <strong>🤖 AI Analysis:</strong>
           </div>
           <div style={{ fontSize: '0.8rem' }}>
-            {analysisResult.explanation}
+            {analysisResult.best
+              ? `I'll ${describeIntent(analysisResult.best)}`
+              : `I'm not sure what to do with: "${analysisResult.utterance}"`}
           </div>
           <div style={{ 
             fontSize: '0.7rem', 
             opacity: 0.8, 
             marginTop: '0.25rem' 
           }}>
-            Confidence: {Math.round(analysisResult.confidence * 100)}%
+            Confidence: {Math.round((analysisResult.best?.score ?? 0) * 100)}%
           </div>
         </div>
       )}
@@ -5,6 +5,7 @@
 
 import React, { forwardRef, useEffect, useState } from 'react';
 import type { UniversalButtonProps, HapticPattern } from '../../types';
+import { confirmationService } from '../../services/confirmationService';
 
 export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProps>(
   ({
@@ -31,7 +32,6 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
   }, ref) => {
     const [isHovered, setIsHovered] = useState(false);
     const [isFocused, setIsFocused] = useState(false);
-    const [isPendingConfirmation, setIsPendingConfirmation] = useState(false);
 
     // Register voice command if provided
     useEffect(() => {
@@ -60,17 +60,17 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
         triggerHaptic(hapticFeedback);
       }
 
-      // Handle confirmation flow
-      if (confirmAction && !isPendingConfirmation) {
-        setIsPendingConfirmation(true);
-        // Auto-cancel confirmation after 3 seconds
-        setTimeout(() => setIsPendingConfirmation(false), 3000);
-        return;
+      // Ask through the shared confirmation dialog, which every input method can answer
+      if (confirmAction) {
+        const label = ariaLabel || (typeof children === 'string' ? children : 'continue');
+        const confirmed = await confirmationService.confirm(`Are you sure you want to ${label.toLowerCase()}?`, {
+          confirmLabel: typeof children === 'string' ? children : 'Yes',
+        });
+        if (!confirmed) return;
       }
 
       // Execute click handler
       if (onClick) {
-        setIsPendingConfirmation(false);
         onClick(event);
       }
     };
@@ -83,7 +83,6 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
 
     const handleMouseLeave = (event: React.MouseEvent<HTMLButtonElement>) => {
       setIsHovered(false);
-      setIsPendingConfirmation(false); // Cancel confirmation on mouse leave
       if (onMouseLeave) onMouseLeave(event);
     };
 
@@ -95,7 +94,6 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
 
     const handleBlur = (event: React.FocusEvent<HTMLButtonElement>) => {
       setIsFocused(false);
-      setIsPendingConfirmation(false); // Cancel confirmation on blur
       if (onBlur) onBlur(event);
     };
 
@@ -106,8 +104,7 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
     const stateClasses = [
       loading && 'opacity-75 cursor-wait',
       disabled && 'opacity-50 cursor-not-allowed',
-      fullWidth && 'w-full',
-      isPendingConfirmation && 'animate-pulse border-warning bg-warning text-white'
+      fullWidth && 'w-full'
     ].filter(Boolean).join(' ');
 
     const buttonClasses = [
@@ -123,7 +120,6 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
       'aria-label': ariaLabel || (typeof children === 'string' ? children : undefined),
       'aria-disabled': disabled || loading,
       'aria-describedby': tooltip ? `${props.id}-tooltip` : undefined,
-      'aria-pressed': isPendingConfirmation ? true : undefined,
       'data-hoverable': true, // For face tracking cursor
       'data-voice-command': voiceCommand,
       role: 'button',
@@ -161,7 +157,7 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
             
             {children && (
               <span className="font-inherit">
-                {isPendingConfirmation ? 'Click to confirm' : children}
+                {children}
               </span>
             )}
             
@@ -199,7 +195,6 @@ export const UniversalButton = forwardRef<HTMLButtonElement, UniversalButtonProp
 
         {/* Screen reader announcements */}
         <div aria-live="polite" aria-atomic="true" className="sr-only">
-          {isPendingConfirmation && 'Action requires confirmation. Click again to proceed.'}
           {loading && 'Action in progress, please wait.'}
         </div>
       </div>
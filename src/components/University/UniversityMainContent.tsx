@@ -406,11 +406,14 @@ export const UniversityMainContent: React.FC<UniversityMainContentProps> = ({
       case 'academics':
       case 'courses':
       case 'faculty':
+      case 'departments':
         return renderAcademicsContent();
       case 'circulars':
         return renderCircularsContent();
       case 'facilities':
       case 'library':
+      case 'health-center':
+      case 'dining':
         return renderFacilitiesContent();
       default:
         return (
@@ -1,5 +1,6 @@
 import React from 'react';
 import { KarunyaTheme } from '../../theme/colors';
+import { sidebarSections } from '../../data/sidebarSections';
 
 interface UniversitySidebarProps {
   isCollapsed: boolean;
@@ -10,76 +11,6 @@ interface UniversitySidebarProps {
   accessibilityLevel: 'normal' | 'large' | 'extra-large';
 }
 
-const sidebarSections = [
-  {
-    id: 'home',
-    title: 'Home',
-    icon: '🏠',
-    description: 'University Overview'
-  },
-  {
-    id: 'chat',
-    title: 'NullChat',
-    icon: '💬',
-    description: 'University AI Assistant'
-  },
-  {
-    id: 'academics',
-    title: 'Academics',
-    icon: '📚',
-    description: 'Courses & Programs',
-    subsections: [
-      { id: 'courses', title: 'Course Catalog', icon: '📖' },
-      { id: 'schedule', title: 'Class Schedule', icon: '📅' },
-      { id: 'grades', title: 'Grades & Results', icon: '📊' },
-      { id: 'faculty', title: 'Faculty Directory', icon: '👨‍🏫' },
-      { id: 'admissions', title: 'Admissions Office', icon: '🎓' },
-      { id: 'departments', title: 'Academic Departments', icon: '🏛️' },
-      { id: 'research', title: 'Research Programs', icon: '🔬' },
-      { id: 'internships', title: 'Internship Portal', icon: '💼' }
-    ]
-  },
-  {
-    id: 'resources',
-    title: 'Resources',
-    icon: '🔧',
-    description: 'University Services',
-    subsections: [
-      { id: 'library', title: 'Digital Library', icon: '📚' },
-      { id: 'labs', title: 'Lab Resources', icon: '🔬' },
-      { id: 'facilities', title: 'Campus Facilities', icon: '🏢' },
-      { id: 'accessibility', title: 'Accessibility Services', icon: '♿' },
-      { id: 'it-services', title: 'IT Services', icon: '💻' },
-      { id: 'counseling', title: 'Counseling Center', icon: '🧠' },
-      { id: 'health-center', title: 'Health Center', icon: '🏥' },
-      { id: 'dining', title: 'Dining Services', icon: '🍽️' }
-    ]
-  },
-  {
-    id: 'circulars',
-    title: 'Circulars',
-    icon: '📢',
-    description: 'Official Announcements'
-  },
-  {
-    id: 'events',
-    title: 'Events',
-    icon: '🎉',
-    description: 'Campus Activities'
-  },
-  {
-    id: 'support',
-    title: 'Support',
-    icon: '🆘',
-    description: 'Help & Services',
-    subsections: [
-      { id: 'health', title: 'Health Center', icon: '🏥' },
-      { id: 'technical', title: 'API Settings', icon: '⚙️' },
-      { id: 'emergency', title: 'Emergency', icon: '🚨' }
-    ]
-  }
-];
-
 export const UniversitySidebar: React.FC<UniversitySidebarProps> = ({
   isCollapsed,
   onToggle,
@@ -532,6 +463,7 @@ export const UniversitySidebar: React.FC<UniversitySidebarProps> = ({
                   }
                 }}
                 data-hoverable
+                data-voice-label={section.title}
               >
                 <span className="section-icon">{section.icon}</span>
                 
@@ -558,6 +490,7 @@ export const UniversitySidebar: React.FC<UniversitySidebarProps> = ({
                       className="subsection-btn"
                       onClick={() => onSectionChange(subsection.id)}
                       data-hoverable
+                      data-voice-label={subsection.title}
                     >
                       <span className="subsection-icon">{subsection.icon}</span>
                       <span>{subsection.title}</span>
@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import type { AccessibilitySettings, UserCapabilities } from '../types';
+import type { AccessibilitySettings, LanguageCode, SmoothingFilterConfig, UserCapabilities } from '../types';
 
 // Import working accessibility services
 import { capabilityDetectionService } from '../services/capabilityDetectionService';
@@ -13,13 +13,17 @@ import { motorAccessibilityService } from '../services/motorAccessibilityService
 import { cognitiveAccessibilityService } from '../services/cognitiveAccessibilityService';
 import { eyeTrackingService } from '../services/eyeTrackingService';
 import { enhancedVoiceCommandService } from '../services/enhancedVoiceCommandService';
+import { speechRecognitionBroker } from '../services/speechRecognitionBroker';
+import { VoiceMacroEditor } from './Settings/VoiceMacroEditor';
+import { VoiceAliasEditor } from './Settings/VoiceAliasEditor';
+import { SmoothingFilterSettings } from './Settings/SmoothingFilterSettings';
 
 interface WorkingDashboardProps {
   onClose: () => void;
 }
 
 export const WorkingAccessibilityDashboard: React.FC<WorkingDashboardProps> = ({ onClose }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'visual' | 'motor' | 'cognitive' | 'voice' | 'eye'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'visual' | 'motor' | 'cognitive' | 'voice' | 'eye' | 'macros'>('overview');
   const [capabilities, setCapabilities] = useState<UserCapabilities | null>(null);
   const [settings, setSettings] = useState<Partial<AccessibilitySettings>>({
     screenReader: false,
@@ -33,6 +37,11 @@ export const WorkingAccessibilityDashboard: React.FC<WorkingDashboardProps> = ({
     cognitiveAssist: false,
     dwellTime: 1500
   });
+  const [commandLanguage, setCommandLanguage] = useState<LanguageCode>(speechRecognitionBroker.getCommandLanguage());
+  const [gazeFilter, setGazeFilter] = useState<SmoothingFilterConfig>(eyeTrackingService.getSettings().smoothingFilter);
+
+  // Voice commands can also switch the language ("hindi mein bolo")
+  useEffect(() => speechRecognitionBroker.onCommandLanguageChange(setCommandLanguage), []);
 
   // Initialize capabilities on mount
   useEffect(() => {
@@ -90,7 +99,8 @@ export const WorkingAccessibilityDashboard: React.FC<WorkingDashboardProps> = ({
     { id: 'motor', label: 'Motor', icon: '♿' },
     { id: 'cognitive', label: 'Cognitive', icon: '🧠' },
     { id: 'voice', label: 'Voice', icon: '🗣️' },
-    { id: 'eye', label: 'Eye Tracking', icon: '👀' }
+    { id: 'eye', label: 'Eye Tracking', icon: '👀' },
+    { id: 'macros', label: 'Macros', icon: '🎬' }
   ];
 
   return (
@@ -528,10 +538,45 @@ export const WorkingAccessibilityDashboard: React.FC<WorkingDashboardProps> = ({
                   <li>"click [button name]"</li>
                   <li>"go back" / "go home"</li>
                   <li>"enable high contrast"</li>
+                  <li>"undo that" / "redo" (or Ctrl+Z / Ctrl+Y)</li>
                   <li>"help" / "what can I say"</li>
                 </ul>
+                <strong>हिंदी / Hinglish:</strong>
+                <ul style={{ margin: '0.5rem 0', paddingLeft: '1.5rem' }}>
+                  <li>"neeche jao" / "नीचे जाओ"</li>
+                  <li>"wapas jao" / "वापस जाओ"</li>
+                  <li>"library par click karo"</li>
+                  <li>"high contrast chalu karo"</li>
+                  <li>"madad" / "मदद"</li>
+                </ul>
               </div>
             )}
+            <div style={{ marginTop: '1rem', background: 'rgba(255,255,255,0.05)', padding: '1.5rem', borderRadius: '0.75rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem' }}>
+                <strong>Listen for</strong>
+                <div style={{ fontSize: '0.9rem', opacity: 0.8 }}>
+                  English and Hindi commands both work, and can be mixed; this picks which one the recognizer hears best.
+                  Say "hindi mein bolo" or "switch to english" to change it by voice.
+                </div>
+              </label>
+              <select
+                value={commandLanguage}
+                onChange={(e) => speechRecognitionBroker.setCommandLanguage(e.target.value as LanguageCode)}
+                style={{
+                  background: 'rgba(255,255,255,0.1)',
+                  border: '1px solid rgba(255,255,255,0.3)',
+                  borderRadius: '0.5rem',
+                  padding: '0.75rem',
+                  color: 'white',
+                  fontSize: '1rem',
+                  width: '200px'
+                }}
+              >
+                <option value="en">English</option>
+                <option value="hi">हिंदी (Hindi)</option>
+              </select>
+            </div>
+            <VoiceAliasEditor />
           </div>
         )}
 
@@ -554,9 +599,24 @@ export const WorkingAccessibilityDashboard: React.FC<WorkingDashboardProps> = ({
                 </div>
               </label>
             </div>
+            <div style={{ background: 'rgba(255,255,255,0.05)', padding: '1.5rem', borderRadius: '0.75rem', marginTop: '1rem' }}>
+              <strong>Gaze Smoothing</strong>
+              <div style={{ fontSize: '0.9rem', opacity: 0.8, marginBottom: '1rem' }}>
+                Steadies the gaze pointer; more smoothing means less jitter but slower response
+              </div>
+              <SmoothingFilterSettings
+                value={gazeFilter}
+                onChange={(smoothingFilter) => {
+                  setGazeFilter(smoothingFilter);
+                  eyeTrackingService.applySettings({ smoothingFilter });
+                }}
+              />
+            </div>
           </div>
         )}
 
+        {activeTab === 'macros' && <VoiceMacroEditor />}
+
       </div>
 
       {/* Footer */}
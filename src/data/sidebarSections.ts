@@ -0,0 +1,110 @@
+/**
+ * University portal navigation
+ * Sections shown in the sidebar; ids double as UniversityMainContent section ids
+ */
+
+export interface SidebarSubsection {
+  id: string;
+  title: string;
+  icon: string;
+}
+
+export interface SidebarSection {
+  id: string;
+  title: string;
+  icon: string;
+  description: string;
+  subsections?: SidebarSubsection[];
+}
+
+export const sidebarSections: SidebarSection[] = [
+  {
+    id: 'home',
+    title: 'Home',
+    icon: '🏠',
+    description: 'University Overview'
+  },
+  {
+    id: 'chat',
+    title: 'NullChat',
+    icon: '💬',
+    description: 'University AI Assistant'
+  },
+  {
+    id: 'academics',
+    title: 'Academics',
+    icon: '📚',
+    description: 'Courses & Programs',
+    subsections: [
+      { id: 'courses', title: 'Course Catalog', icon: '📖' },
+      { id: 'schedule', title: 'Class Schedule', icon: '📅' },
+      { id: 'grades', title: 'Grades & Results', icon: '📊' },
+      { id: 'faculty', title: 'Faculty Directory', icon: '👨‍🏫' },
+      { id: 'admissions', title: 'Admissions Office', icon: '🎓' },
+      { id: 'departments', title: 'Academic Departments', icon: '🏛️' },
+      { id: 'research', title: 'Research Programs', icon: '🔬' },
+      { id: 'internships', title: 'Internship Portal', icon: '💼' }
+    ]
+  },
+  {
+    id: 'resources',
+    title: 'Resources',
+    icon: '🔧',
+    description: 'University Services',
+    subsections: [
+      { id: 'library', title: 'Digital Library', icon: '📚' },
+      { id: 'labs', title: 'Lab Resources', icon: '🔬' },
+      { id: 'facilities', title: 'Campus Facilities', icon: '🏢' },
+      { id: 'accessibility', title: 'Accessibility Services', icon: '♿' },
+      { id: 'it-services', title: 'IT Services', icon: '💻' },
+      { id: 'counseling', title: 'Counseling Center', icon: '🧠' },
+      { id: 'health-center', title: 'Health Center', icon: '🏥' },
+      { id: 'dining', title: 'Dining Services', icon: '🍽️' }
+    ]
+  },
+  {
+    id: 'circulars',
+    title: 'Circulars',
+    icon: '📢',
+    description: 'Official Announcements'
+  },
+  {
+    id: 'events',
+    title: 'Events',
+    icon: '🎉',
+    description: 'Campus Activities'
+  },
+  {
+    id: 'support',
+    title: 'Support',
+    icon: '🆘',
+    description: 'Help & Services',
+    subsections: [
+      { id: 'health', title: 'Health Center', icon: '🏥' },
+      { id: 'technical', title: 'API Settings', icon: '⚙️' },
+      { id: 'emergency', title: 'Emergency', icon: '🚨' }
+    ]
+  }
+];
+
+/**
+ * Every navigable section id, top-level sections and subsections alike
+ */
+export function getAllSectionIds(): string[] {
+  return sidebarSections.flatMap(section => [
+    section.id,
+    ...(section.subsections || []).map(subsection => subsection.id),
+  ]);
+}
+
+/**
+ * Display title for a section or subsection id
+ */
+export function getSectionTitle(id: string): string | null {
+  for (const section of sidebarSections) {
+    if (section.id === id) return section.title;
+    const subsection = section.subsections?.find(sub => sub.id === id);
+    if (subsection) return subsection.title;
+  }
+  return null;
+}
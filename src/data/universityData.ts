@@ -110,6 +110,11 @@ export interface CampusFacility {
   bookingRequired?: boolean;
 }
 
+export interface EmergencyContact {
+  name: string;
+  phone: string;
+}
+
 // Sample data - replace with actual university data
 export const KARUNYA_DEPARTMENTS: Department[] = [
   {
@@ -262,8 +267,15 @@ export const CAMPUS_FACILITIES: CampusFacility[] = [
   }
 ];
 
-// University-specific context for AI assistant
-export const KARUNYA_CONTEXT = `
+export const EMERGENCY_CONTACTS: EmergencyContact[] = [
+  { name: 'Campus Security', phone: '0422-2614999' },
+  { name: 'Health Center', phone: '0422-2614200' },
+  { name: 'Emergency Helpline', phone: '0422-2614911' },
+  { name: 'Accessibility Support', phone: '0422-2614500' }
+];
+
+// General university facts that apply to every question
+export const KARUNYA_GENERAL_CONTEXT = `
 KARUNYA INSTITUTE OF TECHNOLOGY AND SCIENCES
 
 OVERVIEW:
@@ -279,27 +291,8 @@ ACCESSIBILITY COMMITMENT:
 - Audio-visual aids in classrooms
 - Accessible transportation within campus
 
-CAMPUS FACILITIES:
-${CAMPUS_FACILITIES.map(facility => `
-${facility.name} (${facility.location}):
-- ${facility.description}
-- Accessibility: ${facility.accessibilityFeatures.join(', ')}
-- Timings: Weekdays ${facility.timings.weekdays}
-`).join('')}
-
-DEPARTMENTS:
-${KARUNYA_DEPARTMENTS.map(dept => `
-${dept.name} (${dept.code}):
-- Head: ${dept.head}
-- Contact: ${dept.contactEmail}
-- Facilities: ${dept.facilities.join(', ')}
-`).join('')}
-
 EMERGENCY CONTACTS:
-- Campus Security: 0422-2614999
-- Health Center: 0422-2614200
-- Emergency Helpline: 0422-2614911
-- Accessibility Support: 0422-2614500
+${EMERGENCY_CONTACTS.map(contact => `- ${contact.name}: ${contact.phone}`).join('\n')}
 
 ADMISSION INFORMATION:
 - Applications open: November - March
@@ -317,5 +310,3 @@ STUDENT SERVICES:
 - Cultural and technical events
 - Alumni network support
 `;
-
-export const getUniversityContext = (): string => KARUNYA_CONTEXT;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { FaceLandmarker, FilesetResolver, type FaceLandmarkerResult } from '@mediapipe/tasks-vision';
-import type { FaceLandmarks, MediaPipeError, BlinkData } from '../types';
+import type { FaceLandmarks, MediaPipeError, BlinkData, FaceTrackingProgress } from '../types';
+import { poseFromLandmarks, poseFromTransformationMatrix } from '../utils/headPose';
 
 interface UseFaceTrackingReturn {
   landmarks: FaceLandmarks | null;
@@ -8,6 +9,83 @@ interface UseFaceTrackingReturn {
   error: MediaPipeError | null;
   isLoading: boolean;
   isTracking: boolean;
+  progress: FaceTrackingProgress;
+}
+
+type Delegate = 'GPU' | 'CPU';
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// Self-hosted by scripts/fetch-mediapipe-assets.mjs; override for kiosks served from elsewhere
+const ASSET_BASE_URL = (import.meta.env.VITE_MEDIAPIPE_ASSET_URL || `${import.meta.env.BASE_URL}mediapipe`).replace(/\/$/, '');
+const WASM_URL = `${ASSET_BASE_URL}/wasm`;
+// Pinned model: face_landmarker float16 v1
+const FACE_LANDMARKER_MODEL = `${ASSET_BASE_URL}/models/face_landmarker.task`;
+
+// Share of the progress bar each stage fills
+const RUNTIME_SHARE = 0.1;
+const MODEL_SHARE = 0.7;
+
+const INITIAL_PROGRESS: FaceTrackingProgress = { stage: 'runtime', progress: 0, message: 'Loading face tracking runtime...' };
+
+/**
+ * Download a file, reporting the fraction received when the size is known
+ */
+async function fetchWithProgress(url: string, onProgress: (fraction: number | null) => void): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status} ${response.statusText}`);
+  }
+
+  const total = Number(response.headers.get('content-length')) || 0;
+  if (!response.body) {
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    onProgress(1);
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress(total ? Math.min(1, received / total) : null);
+  }
+
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return buffer;
+}
+
+// Kiosks without a GPU have no WebGL2; go straight to the CPU there
+function supportsWebGL2(): boolean {
+  try {
+    return !!document.createElement('canvas').getContext('webgl2');
+  } catch {
+    return false;
+  }
+}
+
+function createLandmarker(fileset: WasmFileset, model: Uint8Array, delegate: Delegate): Promise<FaceLandmarker> {
+  return FaceLandmarker.createFromOptions(fileset, {
+    baseOptions: {
+      modelAssetBuffer: model,
+      delegate,
+    },
+    outputFaceBlendshapes: true, // Enable blendshapes for blink detection
+    outputFacialTransformationMatrixes: true, // Head pose for the head-pose cursor mode
+    runningMode: 'VIDEO',
+    numFaces: 1,
+    minFaceDetectionConfidence: 0.5, // Lower threshold for better detection
+    minFacePresenceConfidence: 0.5,
+    minTrackingConfidence: 0.5,
+  });
 }
 
 export const useFaceTracking = (
@@ -20,6 +98,7 @@ export const useFaceTracking = (
   const [isLoading, setIsLoading] = useState(true);
   const [isTracking, setIsTracking] = useState(false);
   const [videoReady, setVideoReady] = useState(false);
+  const [progress, setProgress] = useState<FaceTrackingProgress>(INITIAL_PROGRESS);
 
   const faceLandmarkerRef = useRef<FaceLandmarker | null>(null);
   const animationFrameRef = useRef<number | null>(null);
@@ -27,33 +106,46 @@ export const useFaceTracking = (
   // Initialize MediaPipe Face Landmarker
   useEffect(() => {
     let isMounted = true;
+    const report = (update: FaceTrackingProgress) => {
+      if (isMounted) setProgress(update);
+    };
 
     const initializeFaceLandmarker = async () => {
       try {
-        console.log('Initializing MediaPipe Face Landmarker...');
-        
-        const filesetResolver = await FilesetResolver.forVisionTasks(
-          'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-        );
-
-        const faceLandmarker = await FaceLandmarker.createFromOptions(filesetResolver, {
-          baseOptions: {
-            modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
-            delegate: 'GPU',
-          },
-          outputFaceBlendshapes: true, // Enable blendshapes for blink detection
-          runningMode: 'VIDEO',
-          numFaces: 1,
-          minFaceDetectionConfidence: 0.5, // Lower threshold for better detection
-          minFacePresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
+        console.log(`Initializing MediaPipe Face Landmarker from ${ASSET_BASE_URL}...`);
+
+        report(INITIAL_PROGRESS);
+        const filesetResolver = await FilesetResolver.forVisionTasks(WASM_URL);
+
+        report({ stage: 'model', progress: RUNTIME_SHARE, message: 'Downloading face model...' });
+        const model = await fetchWithProgress(FACE_LANDMARKER_MODEL, fraction => report({
+          stage: 'model',
+          progress: RUNTIME_SHARE + MODEL_SHARE * (fraction ?? 0),
+          message: fraction === null ? 'Downloading face model...' : `Downloading face model... ${Math.round(fraction * 100)}%`,
+        }));
+
+        // Prefer the GPU, and retry on the CPU when it isn't there or fails to start
+        let delegate: Delegate = supportsWebGL2() ? 'GPU' : 'CPU';
+        let faceLandmarker: FaceLandmarker;
+        report({ stage: 'starting', progress: RUNTIME_SHARE + MODEL_SHARE, message: `Starting face tracking (${delegate})...`, delegate });
+        try {
+          faceLandmarker = await createLandmarker(filesetResolver, model, delegate);
+        } catch (gpuError) {
+          if (delegate === 'CPU') throw gpuError;
+          console.warn('⚠️ GPU delegate failed, retrying on CPU:', gpuError);
+          delegate = 'CPU';
+          report({ stage: 'starting', progress: RUNTIME_SHARE + MODEL_SHARE, message: 'GPU unavailable, starting face tracking on CPU...', delegate });
+          faceLandmarker = await createLandmarker(filesetResolver, model, delegate);
+        }
 
         if (isMounted) {
           faceLandmarkerRef.current = faceLandmarker;
-          console.log('✅ MediaPipe initialized successfully');
+          console.log(`✅ MediaPipe initialized successfully (${delegate})`);
           console.log('🔄 Setting isLoading to false');
+          setProgress({ stage: 'ready', progress: 1, message: `Face tracking ready (${delegate})`, delegate });
           setIsLoading(false);
+        } else {
+          faceLandmarker.close();
         }
       } catch (err) {
         console.error('MediaPipe initialization error:', err);
@@ -62,8 +154,9 @@ export const useFaceTracking = (
           const errorStack = err instanceof Error ? err.stack : '';
           setError({
             code: 'LOAD_FAILED',
-            message: `Failed to load MediaPipe: ${errorMessage}\n\nFull error: ${JSON.stringify(err, null, 2)}${errorStack ? '\n\nStack: ' + errorStack : ''}`,
+            message: `Failed to load MediaPipe from ${ASSET_BASE_URL}: ${errorMessage}\n\nIf the files are missing, run \`npm run mediapipe:assets\` or set VITE_MEDIAPIPE_ASSET_URL.${errorStack ? '\n\nStack: ' + errorStack : ''}`,
           });
+          setProgress(current => ({ ...current, stage: 'failed', message: 'Face tracking failed to load' }));
           setIsLoading(false);
         }
       }
@@ -108,7 +201,7 @@ export const useFaceTracking = (
   }, [videoElement]);
 
   // Extract forehead and eye landmarks from result
-  const extractLandmarks = useCallback((result: FaceLandmarkerResult): FaceLandmarks | null => {
+  const extractLandmarks = useCallback((result: FaceLandmarkerResult, aspect: number): FaceLandmarks | null => {
     if (!result.faceLandmarks || result.faceLandmarks.length === 0) {
       return null;
     }
@@ -118,12 +211,17 @@ export const useFaceTracking = (
     // Use EXACTLY the same method as ForeHeadDetector
     // They simply use nose_tip directly: nose_tip.y is already normalized 0-1
     const noseTip = face[1]; // Nose tip - this is the tracking point
+
+    // Head rotation, from the transformation matrix when MediaPipe provides one
+    const matrix = result.facialTransformationMatrixes?.[0];
+    const pose = matrix ? poseFromTransformationMatrix(matrix.data) : poseFromLandmarks(face, aspect);
     
     return {
       forehead: { x: face[10].x, y: face[10].y },
       leftEye: { x: face[468].x, y: face[468].y },
       rightEye: { x: face[473].x, y: face[473].y },
       nose: { x: noseTip.x, y: noseTip.y }, // Direct nose tip, no averaging
+      pose: pose ?? undefined,
     };
   }, []);
 
@@ -159,7 +257,7 @@ export const useFaceTracking = (
       try {
         const startTime = performance.now();
         const result = faceLandmarkerRef.current.detectForVideo(videoElement, Date.now());
-        const extractedLandmarks = extractLandmarks(result);
+        const extractedLandmarks = extractLandmarks(result, videoElement.videoHeight / videoElement.videoWidth);
         
         if (extractedLandmarks) {
           setLandmarks(extractedLandmarks);
@@ -200,6 +298,7 @@ export const useFaceTracking = (
             isBlinking,
             mouthOpen: mouthOpenValue,
             isMouthOpen,
+            blendshapes: Object.fromEntries(blendshapes.categories.map(c => [c.categoryName, c.score])),
           });
         } else {
           console.warn('⚠️ No blendshapes data available');
@@ -239,5 +338,6 @@ export const useFaceTracking = (
     error,
     isLoading,
     isTracking,
+    progress,
   };
 };
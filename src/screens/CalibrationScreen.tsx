@@ -0,0 +1,361 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import type { BlinkData, CalibrationSettings, FaceLandmarks } from '../types';
+import { deriveCalibration, MIN_STEP_SAMPLES } from '../utils/calibration';
+import type { CalibrationMeasurements, CalibrationResult, CalibrationSample } from '../utils/calibration';
+import { calibrationProfileService } from '../services/calibrationProfileService';
+
+interface CalibrationScreenProps {
+  landmarks: FaceLandmarks | null;
+  blinkData: BlinkData | null;
+  calibration: CalibrationSettings;
+  faceTrackingEnabled: boolean;
+  onEnableFaceTracking: () => void;
+  onComplete: (settings: CalibrationSettings) => void;
+  onCancel: () => void;
+}
+
+type StepId = 'rest' | 'top-left' | 'top-right' | 'bottom-right' | 'bottom-left' | 'mouth' | 'eyes';
+
+interface CalibrationStep {
+  id: StepId;
+  title: string;
+  instruction: string;  // Spoken and shown
+  target?: { left: string; top: string }; // Where to look, when it's a place on screen
+}
+
+const STEPS: CalibrationStep[] = [
+  { id: 'rest', title: 'Centre', instruction: 'Look at the centre of the screen and relax your face. Keep still.', target: { left: '50%', top: '50%' } },
+  { id: 'top-left', title: 'Top left', instruction: 'Turn your head to look at the top left corner, as far as is comfortable, and hold.', target: { left: '4%', top: '6%' } },
+  { id: 'top-right', title: 'Top right', instruction: 'Now the top right corner. Hold.', target: { left: '96%', top: '6%' } },
+  { id: 'bottom-right', title: 'Bottom right', instruction: 'Now the bottom right corner. Hold.', target: { left: '96%', top: '94%' } },
+  { id: 'bottom-left', title: 'Bottom left', instruction: 'Now the bottom left corner. Hold.', target: { left: '4%', top: '94%' } },
+  { id: 'mouth', title: 'Open mouth', instruction: 'Face the centre again and open your mouth wide, the way you would to click. Hold it open.' },
+  { id: 'eyes', title: 'Close eyes', instruction: 'Close both eyes firmly and keep them closed until I say open.' },
+];
+
+// Time to get into position after an instruction, then to record it
+const SETTLE_MS = 1000;
+const RECORD_MS = 1500;
+const ATTEMPTS_PER_STEP = 2;
+
+type Phase = 'intro' | 'running' | 'review' | 'failed';
+
+class CalibrationCancelled extends Error {}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Resolves when the sentence has been spoken; browsers sometimes never fire onend, so it also times out
+function speak(text: string): Promise<void> {
+  console.log('🎯 Calibration:', text);
+  if (!('speechSynthesis' in window)) return wait(text.length * 60);
+
+  return new Promise(resolve => {
+    const timeout = setTimeout(resolve, 2000 + text.length * 90);
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = 0.9;
+    utterance.onend = utterance.onerror = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+export const CalibrationScreen: React.FC<CalibrationScreenProps> = ({
+  landmarks,
+  blinkData,
+  calibration,
+  faceTrackingEnabled,
+  onEnableFaceTracking,
+  onComplete,
+  onCancel,
+}) => {
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isRecording, setIsRecording] = useState(false);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [profileName, setProfileName] = useState(() =>
+    calibrationProfileService.getActiveProfile()?.name ?? `Profile ${calibrationProfileService.getProfiles().length + 1}`
+  );
+
+  // Readings go here while a step is recording
+  const recordingRef = useRef<CalibrationSample[] | null>(null);
+  const runIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!recordingRef.current || !landmarks || !blinkData) return;
+    recordingRef.current.push({
+      nose: landmarks.nose,
+      pose: landmarks.pose,
+      eyes: Math.min(blinkData.leftEyeClosed, blinkData.rightEyeClosed),
+      mouth: blinkData.mouthOpen,
+    });
+  }, [landmarks, blinkData]);
+
+  // Stop talking and abandon a running calibration when leaving the screen
+  useEffect(() => () => {
+    runIdRef.current++;
+    recordingRef.current = null;
+    window.speechSynthesis?.cancel();
+  }, []);
+
+  const runCalibration = useCallback(async () => {
+    const runId = ++runIdRef.current;
+    const checkCancelled = () => {
+      if (runIdRef.current !== runId) throw new CalibrationCancelled();
+    };
+    const say = async (text: string) => {
+      await speak(text);
+      checkCancelled();
+    };
+
+    const record = async (): Promise<CalibrationSample[]> => {
+      recordingRef.current = [];
+      setIsRecording(true);
+      await wait(RECORD_MS);
+      const samples = recordingRef.current ?? [];
+      recordingRef.current = null;
+      setIsRecording(false);
+      checkCancelled();
+      return samples;
+    };
+
+    const measure = async (step: CalibrationStep): Promise<CalibrationSample[]> => {
+      for (let attempt = 1; attempt <= ATTEMPTS_PER_STEP; attempt++) {
+        await say(step.instruction);
+        await wait(SETTLE_MS);
+        checkCancelled();
+        const samples = await record();
+        if (samples.length >= MIN_STEP_SAMPLES) return samples;
+        if (attempt < ATTEMPTS_PER_STEP) {
+          await say('I could not see your face clearly. Let\'s try that again.');
+        }
+      }
+      throw new Error(`Face not visible during ${step.title.toLowerCase()}`);
+    };
+
+    window.speechSynthesis?.cancel();
+    setPhase('running');
+    setResult(null);
+
+    try {
+      await say(`Calibration has ${STEPS.length} short steps. Follow each instruction and hold until you hear the next one.`);
+
+      const measured: Partial<Record<StepId, CalibrationSample[]>> = {};
+      for (let index = 0; index < STEPS.length; index++) {
+        setStepIndex(index);
+        measured[STEPS[index].id] = await measure(STEPS[index]);
+      }
+      await say('You can open your eyes.');
+
+      const measurements: CalibrationMeasurements = {
+        rest: measured.rest ?? [],
+        corners: (['top-left', 'top-right', 'bottom-right', 'bottom-left'] as const).map(id => measured[id] ?? []),
+        mouthOpen: measured.mouth ?? [],
+        eyesClosed: measured.eyes ?? [],
+      };
+      const derived = deriveCalibration(measurements, calibration);
+      console.log('🎯 Calibration result:', derived);
+      setResult(derived);
+      setPhase('review');
+
+      await say(derived.warnings.length > 0
+        ? `Calibration finished, with ${derived.warnings.length === 1 ? 'one note' : `${derived.warnings.length} notes`}. ${derived.warnings.join(' ')} Choose Save profile to keep these settings, or Calibrate again.`
+        : 'Calibration finished. Your cursor range and click sensitivity have been measured. Choose Save profile to keep them, or Calibrate again.');
+    } catch (error) {
+      if (error instanceof CalibrationCancelled) return;
+      console.error('❌ Calibration failed:', error);
+      recordingRef.current = null;
+      setIsRecording(false);
+      setPhase('failed');
+      await speak('Calibration stopped because your face could not be seen. Check that the camera can see you, then choose Try again.');
+    }
+  }, [calibration]);
+
+  const cancel = useCallback(() => {
+    runIdRef.current++;
+    window.speechSynthesis?.cancel();
+    onCancel();
+  }, [onCancel]);
+
+  const save = () => {
+    if (!result) return;
+    const name = profileName.trim() || 'My profile';
+    calibrationProfileService.saveProfile(name, result.settings);
+    speak(`Saved profile ${name}. Your new settings are now in use.`);
+    onComplete(result.settings);
+  };
+
+  // Escape leaves calibration from any step
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') cancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [cancel]);
+
+  // Tell screen reader users what this screen is on arrival, and again once face tracking is on
+  useEffect(() => {
+    speak(faceTrackingEnabled
+      ? 'Face cursor calibration. Choose Start calibration when you are sitting comfortably in front of the camera. Press Escape at any time to leave.'
+      : 'Face cursor calibration needs face tracking. Choose Turn on face tracking to begin.');
+  }, [faceTrackingEnabled]);
+
+  const step = STEPS[stepIndex];
+  const buttonStyle = (primary: boolean): React.CSSProperties => ({
+    background: primary ? '#2563eb' : 'rgba(255, 255, 255, 0.1)',
+    border: primary ? '2px solid #2563eb' : '2px solid rgba(255, 255, 255, 0.4)',
+    borderRadius: '0.75rem',
+    padding: '0.875rem 1.75rem',
+    color: 'white',
+    fontSize: '1.1rem',
+    fontWeight: 600,
+    cursor: 'pointer',
+  });
+
+  const formatChange = (label: string, before: string, after: string) => (
+    <tr key={label}>
+      <td style={{ padding: '0.375rem 1rem 0.375rem 0' }}>{label}</td>
+      <td style={{ padding: '0.375rem 1rem', opacity: 0.7 }}>{before}</td>
+      <td style={{ padding: '0.375rem 0', fontWeight: 600 }}>{after}</td>
+    </tr>
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="calibration-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10,
+        background: 'rgba(0, 0, 0, 0.92)',
+        color: 'white',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '2rem',
+      }}
+    >
+      {/* Where to look during the centre and corner steps */}
+      {phase === 'running' && step.target && (
+        <div
+          aria-hidden="true"
+          style={{
+            position: 'absolute',
+            left: step.target.left,
+            top: step.target.top,
+            width: '48px',
+            height: '48px',
+            marginLeft: '-24px',
+            marginTop: '-24px',
+            borderRadius: '50%',
+            border: '4px solid #facc15',
+            background: isRecording ? '#facc15' : 'transparent',
+            transition: 'background 0.2s',
+          }}
+        />
+      )}
+
+      <div style={{ maxWidth: '40rem', textAlign: 'center' }}>
+        <h1 id="calibration-title" style={{ fontSize: '2rem', marginBottom: '1rem' }}>🎯 Face Cursor Calibration</h1>
+
+        {phase === 'intro' && (
+          faceTrackingEnabled ? (
+            <>
+              <p style={{ fontSize: '1.15rem', lineHeight: 1.6 }}>
+                Sit comfortably in front of the camera. You will be asked to look at the centre and each corner,
+                then to open your mouth and close your eyes. Every step is spoken, and takes about a minute in all.
+              </p>
+              <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', marginTop: '2rem' }}>
+                <button data-hoverable autoFocus onClick={runCalibration} style={buttonStyle(true)}>Start calibration</button>
+                <button data-hoverable onClick={cancel} style={buttonStyle(false)}>Cancel</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p style={{ fontSize: '1.15rem', lineHeight: 1.6 }}>Calibration measures your head and face, so face tracking has to be on.</p>
+              <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', marginTop: '2rem' }}>
+                <button data-hoverable autoFocus onClick={onEnableFaceTracking} style={buttonStyle(true)}>Turn on face tracking</button>
+                <button data-hoverable onClick={cancel} style={buttonStyle(false)}>Cancel</button>
+              </div>
+            </>
+          )
+        )}
+
+        {phase === 'running' && (
+          <>
+            <p style={{ fontSize: '0.9rem', opacity: 0.7 }}>Step {stepIndex + 1} of {STEPS.length}: {step.title}</p>
+            <p aria-live="assertive" style={{ fontSize: '1.5rem', lineHeight: 1.5, margin: '1rem 0' }}>{step.instruction}</p>
+            <p style={{ fontSize: '0.9rem', opacity: 0.8 }}>
+              {isRecording ? '● Recording...' : 'Get into position...'}
+              {!landmarks && ' · Face not visible'}
+            </p>
+            {blinkData && (
+              <p style={{ fontSize: '0.8rem', opacity: 0.6 }}>
+                Eyes closed {Math.round(Math.min(blinkData.leftEyeClosed, blinkData.rightEyeClosed) * 100)}% ·
+                Mouth open {Math.round(blinkData.mouthOpen * 100)}%
+              </p>
+            )}
+            <button data-hoverable onClick={cancel} style={{ ...buttonStyle(false), marginTop: '1.5rem' }}>Cancel</button>
+          </>
+        )}
+
+        {phase === 'review' && result && (
+          <>
+            <table style={{ margin: '1rem auto', textAlign: 'left', fontSize: '1rem' }}>
+              <thead>
+                <tr style={{ opacity: 0.7, fontSize: '0.85rem' }}>
+                  <th style={{ padding: '0 1rem 0.5rem 0' }}>Setting</th>
+                  <th style={{ padding: '0 1rem 0.5rem' }}>Before</th>
+                  <th style={{ padding: '0 0 0.5rem' }}>Measured</th>
+                </tr>
+              </thead>
+              <tbody>
+                {formatChange('Side-to-side sensitivity', calibration.sensitivity.toFixed(1), result.settings.sensitivity.toFixed(1))}
+                {formatChange('Up-and-down sensitivity', calibration.verticalSensitivity.toFixed(1), result.settings.verticalSensitivity.toFixed(1))}
+                {formatChange('Head turn range', `${calibration.poseRange.yaw}° × ${calibration.poseRange.pitch}°`, `${result.settings.poseRange.yaw}° × ${result.settings.poseRange.pitch}°`)}
+                {formatChange('Dead zone', `${calibration.poseDeadZone}°`, `${result.settings.poseDeadZone}°`)}
+                {formatChange('Mouth click at', `${Math.round(calibration.mouthThreshold * 100)}%`, `${Math.round(result.settings.mouthThreshold * 100)}%`)}
+                {formatChange('Blink click at', `${Math.round(calibration.blinkThreshold * 100)}%`, `${Math.round(result.settings.blinkThreshold * 100)}%`)}
+              </tbody>
+            </table>
+
+            {result.warnings.map(warning => (
+              <p key={warning} style={{ color: '#facc15', fontSize: '0.9rem' }}>⚠️ {warning}</p>
+            ))}
+
+            <label style={{ display: 'block', margin: '1.5rem 0 0.5rem' }}>
+              Profile name{' '}
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                style={{ padding: '0.5rem', borderRadius: '0.5rem', border: '1px solid #9ca3af', fontSize: '1rem' }}
+              />
+            </label>
+            <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', marginTop: '1.5rem' }}>
+              <button data-hoverable autoFocus onClick={save} style={buttonStyle(true)}>Save profile</button>
+              <button data-hoverable onClick={runCalibration} style={buttonStyle(false)}>Calibrate again</button>
+              <button data-hoverable onClick={cancel} style={buttonStyle(false)}>Cancel</button>
+            </div>
+          </>
+        )}
+
+        {phase === 'failed' && (
+          <>
+            <p style={{ fontSize: '1.15rem', lineHeight: 1.6 }}>
+              Your face could not be seen clearly enough to measure. Check the lighting and that the camera can see you.
+            </p>
+            <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', marginTop: '2rem' }}>
+              <button data-hoverable autoFocus onClick={runCalibration} style={buttonStyle(true)}>Try again</button>
+              <button data-hoverable onClick={cancel} style={buttonStyle(false)}>Cancel</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
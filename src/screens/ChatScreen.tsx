@@ -1,33 +1,88 @@
 import { useState, useRef, useEffect } from 'react';
-import { sendChatMessage } from '../services/chatService';
-import { detectLanguage } from '../services/translationService';
-import { SpeechRecognizer, textToSpeech } from '../services/voiceService';
+import { streamChatMessage, startChatSession, resumeChatSession, clearChatSession } from '../services/chatService';
+import type { ChatSession } from '../services/chatService';
+import { answerOffline } from '../services/offlineAnswerService';
+import { detectLanguage, LANGUAGES, SUPPORTED_LANGUAGES, getSpeechLocale } from '../services/languageService';
+import { toLatin } from '../services/transliteration';
+import type { LanguageCode } from '../types';
+import type { Citation } from '../services/answerGrounding';
+import type { ChatToolContext } from '../services/chatTools';
+import { saveTranscript } from '../services/transcriptStore';
+import { ChatHistoryPanel } from '../components/Chat/ChatHistoryPanel';
+import { SpeechRecognizer, StreamingSpeaker, textToSpeech } from '../services/voiceService';
+import { dictationService } from '../services/dictationService';
+import { confirmationService } from '../services/confirmationService';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  isStreaming?: boolean;
+  citations?: Citation[]; // University records the answer was based on
+  confidence?: number;
+  offlineReason?: string; // Set when the answer came from the offline engine, explains why
+  showRomanized?: boolean; // Show an Indian-script answer in Latin letters as well
 }
 
+// Spoken words that interrupt an answer while it is streaming or being read out
+const STOP_WORDS = /\b(stop|cancel|quiet|enough|ruko|bas)\b/i;
+
 interface ChatScreenProps {
   onClose: () => void;
+  onOpenSection?: (section: string) => void; // Show a cited record's section in the university pages
 }
 
-export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: 'Hello! I\'m NullChat, your Karunya University AI assistant. I can help you with courses, faculty, admissions, facilities, and campus services. How can I assist you today? The microphone is ready - just start speaking!',
-      timestamp: new Date(),
-    },
-  ]);
+// Answers below this confidence carry facts the campus data could not confirm
+const LOW_CONFIDENCE = 0.5;
+
+const CITATION_ICONS: Record<Citation['kind'], string> = {
+  department: '🏛️',
+  facility: '🏢',
+  circular: '📢',
+};
+
+// Any of the supported Indian scripts (Devanagari through Malayalam)
+const INDIC_SCRIPT_PATTERN = /[\u0900-\u0D7F]/;
+
+const GREETING = 'Hello! I\'m NullChat, your Karunya University AI assistant. I can help you with courses, faculty, admissions, facilities, and campus services. How can I assist you today? The microphone is ready - just start speaking!';
+
+// Rebuild the visible transcript from a stored conversation session
+function messagesFromSession(session: ChatSession): Message[] {
+  const greeting: Message = {
+    id: '1',
+    role: 'assistant',
+    content: GREETING,
+    timestamp: new Date(session.createdAt),
+  };
+
+  return [greeting, ...session.turns.map((turn, index) => ({
+    id: `${session.id}_${index}`,
+    role: turn.role,
+    content: turn.content,
+    timestamp: new Date(turn.timestamp),
+  }))];
+}
+
+export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose, onOpenSection }) => {
+  // Resume the last conversation so follow-up questions keep their context
+  const [initialSession] = useState<ChatSession>(() => resumeChatSession() || startChatSession());
+  const [messages, setMessages] = useState<Message[]>(() => messagesFromSession(initialSession));
+  // Voice callbacks are registered once on mount, so they read the session through a ref
+  const sessionRef = useRef<ChatSession>(initialSession);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isRecording, setIsRecording] = useState(false); // Start with recording disabled
-  const [language, setLanguage] = useState<'en' | 'hi'>('en');
+  const [language, setLanguage] = useState<LanguageCode>('en');
+  const [isResponding, setIsResponding] = useState(false); // Streaming or still speaking the answer
+  const [showHistory, setShowHistory] = useState(false);
   
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const speakerRef = useRef<StreamingSpeaker | null>(null);
+  // Section a chat tool asked to open; applied once the answer has been spoken
+  const pendingSectionRef = useRef<string | null>(null);
+  const isRespondingRef = useRef(false);
+  const cancelResponseRef = useRef<() => void>(() => {});
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const speechRecognizerRef = useRef<SpeechRecognizer>(new SpeechRecognizer());
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -37,6 +92,39 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Keep the transcript in IndexedDB once an answer is complete, so it survives closing the chat
+  useEffect(() => {
+    if (messages.some(message => message.isStreaming)) return;
+    const transcript = messages
+      .filter(message => message.content && message.content !== GREETING)
+      .map(({ id, role, content, timestamp, citations }) => ({
+        id, role, content, timestamp: timestamp.getTime(), citations,
+      }));
+    if (!transcript.some(message => message.role === 'user')) return;
+    saveTranscript(sessionRef.current.id, transcript);
+  }, [messages]);
+
+  // Escape stops a streaming or speaking answer
+  useEffect(() => {
+    if (!isResponding) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        cancelResponseRef.current();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isResponding]);
+
+  // Dictating into the message box replaces auto-send, so the words can be edited before sending
+  useEffect(() => dictationService.onModeChange(mode => {
+    if (mode === 'dictation' && document.activeElement === textareaRef.current) {
+      speechRecognizerRef.current.stopRecording();
+      setIsRecording(false);
+    }
+  }), []);
+
   // Auto-start recording when chat opens and announce instructions
   useEffect(() => {
     // First, announce the chat instructions with TTS
@@ -131,6 +219,13 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
   const handleAutoSend = async (text: string) => {
     if (!text.trim() || isLoading) return;
     
+    // Start over when the student asks for a new conversation
+    const newChatCommands = ['new chat', 'clear chat', 'start over'];
+    if (newChatCommands.some(cmd => text.toLowerCase().includes(cmd))) {
+      handleNewChat();
+      return;
+    }
+
     // Check for exit commands
     const exitCommands = ['exit', 'close', 'quit', 'go back', 'back', 'return'];
     if (exitCommands.some(cmd => text.toLowerCase().includes(cmd))) {
@@ -141,11 +236,71 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
     await processChatMessage(text.trim());
   };
 
+  const toggleRomanized = (messageId: string) => {
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId ? { ...msg, showRomanized: !msg.showRomanized } : msg
+    ));
+  };
+
+  const handleNewChat = () => {
+    clearChatSession(sessionRef.current.id);
+    const freshSession = startChatSession();
+    sessionRef.current = freshSession;
+    setMessages(messagesFromSession(freshSession));
+    setInput('');
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
     await processChatMessage(input.trim());
   };
 
+  const finishResponding = () => {
+    isRespondingRef.current = false;
+    setIsResponding(false);
+    abortControllerRef.current = null;
+    speakerRef.current = null;
+  };
+
+  const cancelResponse = () => {
+    if (!isRespondingRef.current) return;
+    console.log('⏹️ Stopping NullChat response');
+    abortControllerRef.current?.abort();
+    speakerRef.current?.cancel();
+    speechRecognizerRef.current.stopRecording();
+    finishResponding();
+
+    setTimeout(() => {
+      restartAutoRecording();
+    }, 1000);
+  };
+
+  cancelResponseRef.current = cancelResponse;
+
+  // Keep the mic open for "stop" while an answer streams or is being spoken
+  const listenForStop = () => {
+    if (!speechRecognizerRef.current.isSupported()) return;
+
+    speechRecognizerRef.current.setOnTranscript((text: string) => {
+      if (STOP_WORDS.test(text)) {
+        cancelResponse();
+      } else if (isRespondingRef.current) {
+        listenForStop();
+      }
+    });
+    speechRecognizerRef.current.setOnError((error: string) => {
+      if (error !== 'not-allowed' && isRespondingRef.current) {
+        setTimeout(listenForStop, 500);
+      }
+    });
+
+    try {
+      speechRecognizerRef.current.startRecording(language);
+    } catch (error) {
+      console.warn('Could not listen for stop command:', error);
+    }
+  };
+
   const processChatMessage = async (messageText: string) => {
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -153,57 +308,117 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
       content: messageText,
       timestamp: new Date(),
     };
+    const assistantId = (Date.now() + 1).toString();
 
-    setMessages(prev => [...prev, userMessage]);
+    const updateAssistantMessage = (changes: Partial<Message>) => {
+      setMessages(prev => prev.map(msg => 
+        msg.id === assistantId ? { ...msg, ...changes } : msg
+      ));
+    };
+
+    setMessages(prev => [...prev, userMessage, {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      isStreaming: true,
+    }]);
     setInput('');
     setIsLoading(true);
-    setIsRecording(false); // Stop recording while processing
+    setIsRecording(false); // Stop dictation while processing
+
+    // Detect language from user input
+    const detectedLang = detectLanguage(messageText, language);
+    setLanguage(detectedLang);
+
+    const controller = new AbortController();
+    let speaker = new StreamingSpeaker(getSpeechLocale(detectedLang));
+    abortControllerRef.current = controller;
+    speakerRef.current = speaker;
+    isRespondingRef.current = true;
+    setIsResponding(true);
+    listenForStop();
+
+    pendingSectionRef.current = null;
+    const toolContext: ChatToolContext = {
+      navigate: section => { pendingSectionRef.current = section; },
+      speak: text => speaker.push(`${text}\n`),
+      confirm: question => confirmationService.confirm(question, { title: 'NullChat wants to act' }),
+    };
 
+    let streamedText = '';
     try {
-      // Detect language from user input
-      const detectedLang = detectLanguage(messageText);
-      setLanguage(detectedLang);
+      // Stream the AI response, speaking each sentence as soon as it is complete
+      let response = await streamChatMessage(messageText, detectedLang, {
+        sessionId: sessionRef.current.id,
+        signal: controller.signal,
+        tools: toolContext,
+        onToken: (delta, fullText) => {
+          streamedText = fullText;
+          updateAssistantMessage({ content: fullText, isStreaming: true });
+          speaker.push(delta);
+        },
+      });
 
-      // Get AI response
-      const response = await sendChatMessage(messageText, detectedLang);
+      if (response.cancelled) {
+        updateAssistantMessage({
+          content: response.answer ? `${response.answer} …(stopped)` : '(stopped)',
+          isStreaming: false,
+        });
+        return;
+      }
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response.answer,
-        timestamp: new Date(),
-      };
+      // Answer from local university data when no provider could respond
+      const offlineReason = response.error;
+      let cutOffText = '';
+      if (response.error && !response.offline) {
+        console.warn('📴 Remote chat failed, switching to offline answers:', response.error);
+        response = answerOffline(messageText, detectedLang);
+        // The provider failed mid-answer: stop reading the partial answer and keep it, marked as cut off
+        if (streamedText.trim()) {
+          cutOffText = streamedText.trim();
+          speaker.cancel();
+          speaker = new StreamingSpeaker(getSpeechLocale(detectedLang));
+          speakerRef.current = speaker;
+        }
+      }
 
-      setMessages(prev => [...prev, assistantMessage]);
+      updateAssistantMessage({
+        content: cutOffText ? `${cutOffText} …(cut off)\n\n📴 From campus data:\n${response.answer}` : response.answer,
+        isStreaming: false,
+        citations: response.citations,
+        confidence: response.confidence,
+        offlineReason: response.offline ? offlineReason || 'Offline mode' : undefined,
+      });
 
-      // Speak the response using browser TTS
-      speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(response.answer);
-      utterance.rate = 0.9;
-      utterance.volume = 0.8;
-      utterance.lang = detectedLang === 'hi' ? 'hi-IN' : 'en-IN';
-      
-      utterance.onend = () => {
+      // Offline answers never stream, so read them out in full
+      if (response.offline) {
+        if (cutOffText) speaker.push('The answer was cut off. From campus data:\n');
+        speaker.push(response.answer);
+      }
+
+      speaker.setOnIdle(() => {
         console.log('📢 Response TTS complete, restarting recording');
+        speechRecognizerRef.current.stopRecording();
+        finishResponding();
+        // Leave the chat for the page the assistant opened
+        if (pendingSectionRef.current && onOpenSection) {
+          onOpenSection(pendingSectionRef.current);
+          return;
+        }
         // Restart recording after TTS is complete
         setTimeout(() => {
-          if (!isLoading) {
-            restartAutoRecording();
-          }
+          restartAutoRecording();
         }, 1000);
-      };
-      
-      speechSynthesis.speak(utterance);
+      });
+      speaker.finish();
 
     } catch (error) {
       console.error('Chat error:', error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      updateAssistantMessage({ content: 'Sorry, I encountered an error. Please try again.', isStreaming: false });
+      speaker.cancel();
+      speechRecognizerRef.current.stopRecording();
+      finishResponding();
       
       // Restart recording even after error
       setTimeout(() => {
@@ -217,6 +432,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
   const restartAutoRecording = () => {
     if (speechRecognizerRef.current.isSupported() && !isRecording) {
       try {
+        attachDictationHandlers();
         speechRecognizerRef.current.startRecording(language);
         setIsRecording(true);
         console.log('🎤 NullChat recording restarted after response');
@@ -227,6 +443,38 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
     }
   };
 
+  const attachDictationHandlers = () => {
+    speechRecognizerRef.current.setOnTranscript((text: string) => {
+      console.log('✅ Transcription:', text);
+      setInput(text);
+      setIsRecording(false);
+      // Focus the textarea so user can see the text and manually send
+      textareaRef.current?.focus();
+    });
+
+    speechRecognizerRef.current.setOnError((error: string) => {
+      console.error('❌ Speech recognition error:', error);
+      setIsRecording(false);
+      
+      let errorMsg = '❌ Voice input failed. ';
+      if (error === 'not-allowed') {
+        errorMsg += 'Microphone access denied. Please enable microphone permissions.';
+      } else if (error === 'no-speech') {
+        errorMsg += 'No speech detected. Please try again.';
+      } else {
+        errorMsg += `Error: ${error}`;
+      }
+      
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: errorMsg,
+        timestamp: new Date(),
+      };
+      setMessages(prev => [...prev, errorMessage]);
+    });
+  };
+
   const handleVoiceInput = () => {
     if (isRecording) {
       // Stop recording
@@ -246,35 +494,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
       }
 
       // Set up callbacks
-      speechRecognizerRef.current.setOnTranscript((text: string) => {
-        console.log('✅ Transcription:', text);
-        setInput(text);
-        setIsRecording(false);
-        // Focus the textarea so user can see the text and manually send
-        textareaRef.current?.focus();
-      });
-
-      speechRecognizerRef.current.setOnError((error: string) => {
-        console.error('❌ Speech recognition error:', error);
-        setIsRecording(false);
-        
-        let errorMsg = '❌ Voice input failed. ';
-        if (error === 'not-allowed') {
-          errorMsg += 'Microphone access denied. Please enable microphone permissions.';
-        } else if (error === 'no-speech') {
-          errorMsg += 'No speech detected. Please try again.';
-        } else {
-          errorMsg += `Error: ${error}`;
-        }
-        
-        const errorMessage: Message = {
-          id: Date.now().toString(),
-          role: 'assistant',
-          content: errorMsg,
-          timestamp: new Date(),
-        };
-        setMessages(prev => [...prev, errorMessage]);
-      });
+      attachDictationHandlers();
 
       // Start recording
       try {
@@ -361,42 +581,81 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
         backgroundColor: 'rgba(37, 99, 235, 0.1)',
         borderBottom: '1px solid rgba(37, 99, 235, 0.2)',
         display: 'flex',
+        flexWrap: 'wrap',
         gap: '0.5rem',
         alignItems: 'center',
       }}>
         <span style={{ fontSize: '0.875rem', fontWeight: '500' }}>Language:</span>
+        {SUPPORTED_LANGUAGES.map(code => (
+          <button
+            key={code}
+            onClick={() => setLanguage(code)}
+            lang={code}
+            aria-pressed={language === code}
+            title={LANGUAGES[code].name}
+            style={{
+              padding: '0.25rem 0.75rem',
+              borderRadius: '4px',
+              border: 'none',
+              backgroundColor: language === code ? '#2563eb' : 'white',
+              color: language === code ? 'white' : '#2563eb',
+              cursor: 'pointer',
+              fontSize: '0.875rem',
+              fontWeight: '500',
+            }}
+          >
+            {LANGUAGES[code].nativeName}
+          </button>
+        ))}
         <button
-          onClick={() => setLanguage('en')}
+          data-hoverable
+          onClick={handleNewChat}
+          disabled={isLoading}
           style={{
+            marginLeft: 'auto',
             padding: '0.25rem 0.75rem',
             borderRadius: '4px',
-            border: 'none',
-            backgroundColor: language === 'en' ? '#2563eb' : 'white',
-            color: language === 'en' ? 'white' : '#2563eb',
-            cursor: 'pointer',
+            border: '1px solid #2563eb',
+            backgroundColor: 'white',
+            color: '#2563eb',
+            cursor: isLoading ? 'not-allowed' : 'pointer',
             fontSize: '0.875rem',
             fontWeight: '500',
           }}
+          title="Clear this conversation and start a new one"
         >
-          English
+          🗑️ New Chat
         </button>
         <button
-          onClick={() => setLanguage('hi')}
+          data-hoverable
+          onClick={() => setShowHistory(true)}
           style={{
             padding: '0.25rem 0.75rem',
             borderRadius: '4px',
-            border: 'none',
-            backgroundColor: language === 'hi' ? '#2563eb' : 'white',
-            color: language === 'hi' ? 'white' : '#2563eb',
+            border: '1px solid #2563eb',
+            backgroundColor: 'white',
+            color: '#2563eb',
             cursor: 'pointer',
             fontSize: '0.875rem',
             fontWeight: '500',
           }}
+          title="Search, read and export past conversations"
         >
-          हिंदी
+          🕘 History
         </button>
       </div>
 
+      {showHistory && (
+        <ChatHistoryPanel
+          currentTranscriptId={sessionRef.current.id}
+          onClose={() => setShowHistory(false)}
+          onDeleted={(id) => {
+            // Deleting the open conversation also clears it from the screen
+            if (id === sessionRef.current.id) handleNewChat();
+          }}
+        />
+      )}
+
       {/* Messages */}
       <div style={{
         flex: 1,
@@ -406,7 +665,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
         flexDirection: 'column',
         gap: '1rem',
       }}>
-        {messages.map((message) => (
+        {messages.filter(message => message.content || !message.isStreaming).map((message) => (
           <div
             key={message.id}
             style={{
@@ -424,12 +683,80 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
                 boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
               }}
             >
-              <p style={{ 
+              <p lang={detectLanguage(message.content)} style={{ 
                 margin: 0, 
                 lineHeight: '1.6',
                 whiteSpace: 'pre-wrap',
                 wordWrap: 'break-word',
-              }}>{message.content}</p>
+              }}>
+                {message.content}
+                {message.isStreaming && <span aria-hidden="true"> ▍</span>}
+              </p>
+              {message.role === 'assistant' && !message.isStreaming && INDIC_SCRIPT_PATTERN.test(message.content) && (
+                <>
+                  <button
+                    onClick={() => toggleRomanized(message.id)}
+                    aria-expanded={!!message.showRomanized}
+                    style={{
+                      marginTop: '0.5rem',
+                      padding: '0.125rem 0.5rem',
+                      fontSize: '0.75rem',
+                      background: 'none',
+                      border: '1px solid #6C757D',
+                      borderRadius: '4px',
+                      color: '#495057',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    🔤 {message.showRomanized ? 'Hide English letters' : 'Show in English letters'}
+                  </button>
+                  {message.showRomanized && (
+                    <p lang="en" style={{ margin: '0.5rem 0 0 0', lineHeight: '1.6', whiteSpace: 'pre-wrap', fontStyle: 'italic' }}>
+                      {toLatin(message.content)}
+                    </p>
+                  )}
+                </>
+              )}
+              {message.offlineReason && (
+                <p
+                  title={message.offlineReason}
+                  style={{ fontSize: '0.75rem', color: '#b45309', margin: '0.5rem 0 0 0' }}
+                >
+                  📴 Offline answer from campus data
+                </p>
+              )}
+              {message.role === 'assistant' && message.confidence !== undefined && message.confidence < LOW_CONFIDENCE && (
+                <p style={{ fontSize: '0.75rem', color: '#b45309', margin: '0.5rem 0 0 0' }}>
+                  ⚠️ Some details could not be verified against campus data - please double-check them
+                </p>
+              )}
+              {message.citations && message.citations.length > 0 && (
+                <div
+                  aria-label="Sources"
+                  style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.375rem', marginTop: '0.5rem' }}
+                >
+                  <span style={{ fontSize: '0.75rem', color: '#6C757D' }}>📚 Based on:</span>
+                  {message.citations.map(citation => (
+                    <button
+                      key={citation.key}
+                      onClick={() => onOpenSection?.(citation.section)}
+                      disabled={!onOpenSection}
+                      title={onOpenSection ? `Open ${citation.title}` : citation.title}
+                      style={{
+                        padding: '0.125rem 0.625rem',
+                        fontSize: '0.75rem',
+                        backgroundColor: '#E0ECFF',
+                        color: '#1E40AF',
+                        border: '1px solid #BFD4FE',
+                        borderRadius: '999px',
+                        cursor: onOpenSection ? 'pointer' : 'default',
+                      }}
+                    >
+                      {CITATION_ICONS[citation.kind]} {citation.title}
+                    </button>
+                  ))}
+                </div>
+              )}
               <span style={{
                 fontSize: '0.75rem',
                 opacity: 0.7,
@@ -442,7 +769,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && !messages.some(message => message.isStreaming && message.content) && (
           <div style={{ display: 'flex', justifyContent: 'flex-start' }}>
             <div style={{
               padding: '1rem',
@@ -473,8 +800,8 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
           value={input}
           onChange={(e) => setInput(e.target.value)}
           onKeyPress={handleKeyPress}
-          placeholder={language === 'hi' ? 'अपना सवाल लिखें...' : 'Type your question...'}
-          disabled={isLoading || isRecording}
+          placeholder={LANGUAGES[language].placeholder}
+          disabled={isLoading}
           style={{
             flex: 1,
             padding: '0.75rem',
@@ -531,28 +858,51 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ onClose }) => {
           )}
         </button>
 
-        {/* Send Button */}
-        <button
-          data-hoverable
-          onClick={handleSend}
-          disabled={isLoading || !input.trim() || isRecording}
-          style={{
-            padding: '1.5rem 2.5rem',
-            borderRadius: '12px',
-            border: 'none',
-            backgroundColor: '#2563eb',
-            color: 'white',
-            cursor: (isLoading || !input.trim() || isRecording) ? 'not-allowed' : 'pointer',
-            fontSize: '1.5rem',
-            fontWeight: 'bold',
-            opacity: (isLoading || !input.trim() || isRecording) ? 0.5 : 1,
-            transition: 'all 0.2s',
-            minWidth: '120px',
-            minHeight: '80px',
-          }}
-        >
-          {isLoading ? '...' : 'Send'}
-        </button>
+        {/* Send Button - becomes Stop while an answer is streaming or being spoken */}
+        {isResponding ? (
+          <button
+            data-hoverable
+            onClick={cancelResponse}
+            style={{
+              padding: '1.5rem 2.5rem',
+              borderRadius: '12px',
+              border: 'none',
+              backgroundColor: '#dc2626',
+              color: 'white',
+              cursor: 'pointer',
+              fontSize: '1.5rem',
+              fontWeight: 'bold',
+              transition: 'all 0.2s',
+              minWidth: '120px',
+              minHeight: '80px',
+            }}
+            title='Stop the answer (Escape, or say "stop")'
+          >
+            ⏹ Stop
+          </button>
+        ) : (
+          <button
+            data-hoverable
+            onClick={handleSend}
+            disabled={isLoading || !input.trim() || isRecording}
+            style={{
+              padding: '1.5rem 2.5rem',
+              borderRadius: '12px',
+              border: 'none',
+              backgroundColor: '#2563eb',
+              color: 'white',
+              cursor: (isLoading || !input.trim() || isRecording) ? 'not-allowed' : 'pointer',
+              fontSize: '1.5rem',
+              fontWeight: 'bold',
+              opacity: (isLoading || !input.trim() || isRecording) ? 0.5 : 1,
+              transition: 'all 0.2s',
+              minWidth: '120px',
+              minHeight: '80px',
+            }}
+          >
+            {isLoading ? '...' : 'Send'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,158 @@
+/**
+ * Action Journal
+ * Undo/redo history for setting changes and screen transitions, so a misheard
+ * "dark mode" or a stray face-cursor click can be taken back. Services record
+ * each change together with how to reverse it; "undo that", Ctrl+Z or the undo
+ * switch step back through the journal, and every step is announced.
+ */
+
+export interface JournalEntry {
+  id: number;
+  label: string;     // What the action did, e.g. "dark mode on"
+  key?: string;      // Entries with the same key recorded close together merge into one
+  undo: () => void;
+  redo: () => void;
+  time: number;
+}
+
+export type JournalEntryInput = Omit<JournalEntry, 'id' | 'time'>;
+
+const MAX_ENTRIES = 50;
+// Slider drags and repeated "increase text size" become one step
+const MERGE_WINDOW_MS = 1500;
+
+export class ActionJournal {
+  private undoStack: JournalEntry[] = [];
+  private redoStack: JournalEntry[] = [];
+  private nextId = 1;
+  private isReplaying = false;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Record an action that just happened. Ignored while an undo or redo is
+   * running, so the reversal itself isn't journaled.
+   */
+  record(input: JournalEntryInput) {
+    if (this.isReplaying) return;
+
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (input.key && last?.key === input.key && now - last.time < MERGE_WINDOW_MS) {
+      last.label = input.label;
+      last.redo = input.redo;
+      last.time = now;
+    } else {
+      this.undoStack.push({ ...input, id: this.nextId++, time: now });
+      if (this.undoStack.length > MAX_ENTRIES) this.undoStack.shift();
+    }
+
+    this.redoStack = [];
+    console.log(`📝 Journal: ${input.label}`);
+    this.notify();
+  }
+
+  /**
+   * Record a setting going from one value to another; re-applying the current
+   * value isn't a change and is skipped
+   */
+  recordSetting<T>(key: string, label: string, previous: T, next: T, apply: (value: T) => void) {
+    if (previous === next) return;
+    this.record({
+      key,
+      label,
+      undo: () => apply(previous),
+      redo: () => apply(next)
+    });
+  }
+
+  /**
+   * Reverse the most recent action; returns false when there is nothing to undo
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      this.announce('Nothing to undo');
+      return false;
+    }
+
+    this.replay(() => entry.undo());
+    this.redoStack.push(entry);
+    this.announce(`Undid ${entry.label}`);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Repeat the most recently undone action; returns false when there is nothing to redo
+   */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      this.announce('Nothing to redo');
+      return false;
+    }
+
+    this.replay(() => entry.redo());
+    this.undoStack.push(entry);
+    this.announce(`Redid ${entry.label}`);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Run a change without journaling it, e.g. restoring state that an undo handler
+   * applies later than synchronously
+   */
+  replay(change: () => void) {
+    const wasReplaying = this.isReplaying;
+    this.isReplaying = true;
+    try {
+      change();
+    } catch (error) {
+      console.error('❌ Journal replay failed:', error);
+    } finally {
+      this.isReplaying = wasReplaying;
+    }
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Recorded actions, most recent first
+   */
+  getEntries(): JournalEntry[] {
+    return [...this.undoStack].reverse();
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private announce(message: string) {
+    console.log(`↩️ ${message}`);
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(message);
+    utterance.rate = 0.9;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const actionJournal = new ActionJournal();
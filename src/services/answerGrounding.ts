@@ -0,0 +1,142 @@
+/**
+ * Answer Grounding
+ * Ties chat answers back to the university records they came from and scores
+ * how well the concrete facts in an answer (phone numbers, emails, timings)
+ * are backed by the bundled data
+ */
+
+import { KARUNYA_GENERAL_CONTEXT } from '../data/universityData';
+import { universityIndex, buildUniversityRecords, formatRecordForPrompt } from './universityRetrieval';
+import type { UniversityRecord } from './universityRetrieval';
+
+export interface Citation {
+  key: string;                    // Retrieval key, e.g. "facility:library"
+  kind: UniversityRecord['kind'];
+  title: string;
+  section: string;                // UniversitySidebar section id that shows the record
+}
+
+export interface GroundingResult {
+  citations: Citation[];
+  confidence: number;
+  unsupportedFacts: string[]; // Facts in the answer that the university data does not contain
+}
+
+type FactKind = 'phone' | 'email' | 'time';
+
+interface Fact {
+  kind: FactKind;
+  text: string;       // As written in the answer
+  normalized: string; // Comparable form
+}
+
+// Confidence when every fact checks out, with and without records to cite
+const CITED_CONFIDENCE = 0.9;
+const UNCITED_CONFIDENCE = 0.6;
+// Each fact the data cannot back costs this much confidence
+const UNSUPPORTED_FACT_PENALTY = 0.25;
+const MIN_CONFIDENCE = 0.1;
+
+const PHONE_PATTERN = /\+?\d[\d\s-]{6,}\d/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const TIME_PATTERN = /\b(\d{1,2})(?:[:.](\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?![a-z])/gi;
+const ALL_DAY_PATTERN = /\b24\s*(?:\/\s*7|x\s*7|hours|hrs)\b/gi;
+
+function extractFacts(text: string): Fact[] {
+  const facts: Fact[] = [];
+
+  for (const match of text.matchAll(EMAIL_PATTERN)) {
+    facts.push({ kind: 'email', text: match[0], normalized: match[0].toLowerCase() });
+  }
+
+  // Emails are blanked out first so their digits are not read as phone numbers
+  const withoutEmails = text.replace(EMAIL_PATTERN, ' ');
+  for (const match of withoutEmails.matchAll(PHONE_PATTERN)) {
+    const digits = match[0].replace(/\D/g, '');
+    // Shorter digit runs are years, dates or room numbers
+    if (digits.length < 8) continue;
+    // Compare the subscriber part so "+91 422 2614000" matches "0422-2614000"
+    facts.push({ kind: 'phone', text: match[0].trim(), normalized: digits.slice(-10).replace(/^0+/, '') });
+  }
+
+  for (const match of withoutEmails.matchAll(TIME_PATTERN)) {
+    const hour = parseInt(match[1], 10);
+    if (hour < 1 || hour > 12) continue;
+    const meridiem = match[3].toLowerCase().startsWith('a') ? 'am' : 'pm';
+    facts.push({ kind: 'time', text: match[0], normalized: `${hour}:${match[2] || '00'}${meridiem}` });
+  }
+  for (const match of withoutEmails.matchAll(ALL_DAY_PATTERN)) {
+    facts.push({ kind: 'time', text: match[0], normalized: 'all-day' });
+  }
+
+  return facts;
+}
+
+// Every fact the bundled data knows about, built once
+const knownFacts = new Set(
+  extractFacts([KARUNYA_GENERAL_CONTEXT, ...buildUniversityRecords().map(formatRecordForPrompt)].join('\n'))
+    .map(fact => `${fact.kind}:${fact.normalized}`)
+);
+
+/**
+ * Sidebar section that displays a record in UniversityMainContent
+ */
+export function sectionForRecord(entry: UniversityRecord): string {
+  switch (entry.kind) {
+    case 'department':
+      return 'departments';
+    case 'circular':
+      return 'circulars';
+    case 'facility':
+      switch (entry.record.type) {
+        case 'library': return 'library';
+        case 'medical': return 'health-center';
+        case 'cafeteria': return 'dining';
+        default: return 'facilities';
+      }
+  }
+}
+
+function toCitation(entry: UniversityRecord): Citation {
+  return { key: entry.key, kind: entry.kind, title: entry.title, section: sectionForRecord(entry) };
+}
+
+/**
+ * Whether an answer visibly draws on a record: it names it or repeats one of its facts
+ */
+function mentionsRecord(answer: string, answerFacts: Set<string>, entry: UniversityRecord): boolean {
+  const lowered = answer.toLowerCase();
+  if (lowered.includes(entry.title.toLowerCase())) return true;
+  if (entry.kind === 'department' && new RegExp(`\\b${entry.record.code}\\b`, 'i').test(answer)) return true;
+
+  return extractFacts(formatRecordForPrompt(entry))
+    .some(fact => answerFacts.has(`${fact.kind}:${fact.normalized}`));
+}
+
+/**
+ * Cite the retrieved records an answer relied on and score its factual grounding.
+ * When the answer names none of the retrieved records (e.g. a paraphrase) all of
+ * them are cited, since they were the only data the answer was given.
+ */
+export function groundAnswer(answer: string, retrievedIds: string[] = []): GroundingResult {
+  const facts = extractFacts(answer);
+  const answerFacts = new Set(facts.map(fact => `${fact.kind}:${fact.normalized}`));
+
+  const retrieved = retrievedIds
+    .map(key => universityIndex.getRecord(key))
+    .filter((entry): entry is UniversityRecord => entry !== null);
+  const mentioned = retrieved.filter(entry => mentionsRecord(answer, answerFacts, entry));
+  const citations = (mentioned.length > 0 ? mentioned : retrieved).map(toCitation);
+
+  const unsupportedFacts = facts
+    .filter(fact => !knownFacts.has(`${fact.kind}:${fact.normalized}`))
+    .map(fact => fact.text);
+  const baseConfidence = citations.length > 0 ? CITED_CONFIDENCE : UNCITED_CONFIDENCE;
+  const confidence = Math.max(MIN_CONFIDENCE, baseConfidence - unsupportedFacts.length * UNSUPPORTED_FACT_PENALTY);
+
+  if (unsupportedFacts.length > 0) {
+    console.warn('⚠️ Answer contains facts not found in university data:', unsupportedFacts.join(', '));
+  }
+
+  return { citations, confidence: Math.round(confidence * 100) / 100, unsupportedFacts };
+}
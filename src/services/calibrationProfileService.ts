@@ -0,0 +1,88 @@
+/**
+ * Calibration Profile Service
+ * Named sets of face-cursor settings, one per person using the kiosk, saved in
+ * localStorage. The active profile is applied when the app starts.
+ */
+
+import type { CalibrationProfile, CalibrationSettings } from '../types';
+
+const PROFILES_STORAGE_KEY = 'calibration-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'calibration-active-profile';
+
+export class CalibrationProfileService {
+  private profiles: CalibrationProfile[] = [];
+  private activeName: string | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.profiles = this.loadProfiles();
+    try {
+      this.activeName = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+    } catch {
+      this.activeName = null;
+    }
+  }
+
+  getProfiles(): CalibrationProfile[] {
+    return [...this.profiles];
+  }
+
+  getActiveProfile(): CalibrationProfile | null {
+    return this.profiles.find(profile => profile.name === this.activeName) ?? null;
+  }
+
+  /**
+   * Save settings under a name, replacing a profile of the same name, and make it active
+   */
+  saveProfile(name: string, settings: CalibrationSettings): CalibrationProfile {
+    const existing = this.profiles.find(candidate => candidate.name === name.trim());
+    const profile: CalibrationProfile = { name: name.trim(), settings, createdAt: existing?.createdAt ?? Date.now() };
+    this.profiles = [...this.profiles.filter(candidate => candidate.name !== profile.name), profile];
+    this.activeName = profile.name;
+    console.log(`🎯 Saved calibration profile "${profile.name}"`);
+    this.persist();
+    return profile;
+  }
+
+  setActiveProfile(name: string | null) {
+    this.activeName = name;
+    this.persist();
+  }
+
+  deleteProfile(name: string) {
+    this.profiles = this.profiles.filter(profile => profile.name !== name);
+    if (this.activeName === name) this.activeName = null;
+    this.persist();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private loadProfiles(): CalibrationProfile[] {
+    try {
+      const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+      return saved ? JSON.parse(saved) as CalibrationProfile[] : [];
+    } catch (error) {
+      console.warn('⚠️ Could not load calibration profiles:', error);
+      return [];
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(this.profiles));
+      if (this.activeName) {
+        localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, this.activeName);
+      } else {
+        localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not save calibration profiles:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const calibrationProfileService = new CalibrationProfileService();
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { streamChatMessage } from './chatService';
+import { DEFAULT_PROVIDERS, saveProviderConfigs } from './llmProviders';
+import type { LLMProviderConfig } from './llmProviders';
+
+// The portal tools drive the page; these tests only stream text
+vi.mock('./chatTools', () => ({ getToolSpecs: () => [], executeToolCall: vi.fn() }));
+
+const MOCK_SERVER = 'http://mock-llm.test';
+
+const sseChunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+const ndjsonChunk = (content: string) => `${JSON.stringify({ message: { content }, done: false })}\n`;
+
+interface MockReply {
+  chunks: string[];
+  // Keep the connection open after the last chunk, like a server still generating
+  hang?: boolean;
+}
+
+/**
+ * Stands in for the chat server: answers every request with the given chunks,
+ * exactly as split, and fails the body with an AbortError when the request's
+ * signal aborts, as fetch does
+ */
+function mockServer(reply: MockReply) {
+  const requests: Array<{ url: string; body: Record<string, unknown> }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    requests.push({ url, body: JSON.parse(init.body as string) });
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        reply.chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        init.signal?.addEventListener('abort', () => controller.error(new DOMException('The user aborted a request.', 'AbortError')));
+        if (!reply.hang) controller.close();
+      },
+    });
+    return new Response(body, { status: 200 });
+  }));
+  return { requests };
+}
+
+function useProviders(...providers: Array<Partial<LLMProviderConfig> & Pick<LLMProviderConfig, 'id'>>) {
+  saveProviderConfigs(providers.map(overrides => ({
+    ...DEFAULT_PROVIDERS.find(provider => provider.id === overrides.id)!,
+    enabled: true,
+    baseUrl: MOCK_SERVER,
+    ...overrides,
+  })));
+}
+
+async function streamTokens(message: string) {
+  const tokens: string[] = [];
+  const response = await streamChatMessage(message, 'en', { onToken: delta => tokens.push(delta) });
+  return { response, tokens };
+}
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, String(value)),
+    removeItem: (key: string) => store.delete(key),
+    clear: () => store.clear(),
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('streamChatMessage over SSE', () => {
+  beforeEach(() => useProviders({ id: 'campus-server' }));
+
+  it('streams each delta and stops at [DONE]', async () => {
+    const { requests } = mockServer({
+      chunks: [sseChunk('The library '), sseChunk('opens at 8.'), 'data: [DONE]\n\n', sseChunk(' Ignored.')],
+    });
+
+    const { response, tokens } = await streamTokens('When does the library open?');
+
+    expect(tokens).toEqual(['The library ', 'opens at 8.']);
+    expect(response.answer).toBe('The library opens at 8.');
+    expect(response.provider).toBe('campus-server');
+    expect(requests[0].url).toBe(`${MOCK_SERVER}/chat/completions`);
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it('reassembles data lines split mid-event across network chunks', async () => {
+    const body = sseChunk('Hostel ') + sseChunk('fees are ') + sseChunk('due in June.') + 'data: [DONE]\n\n';
+    // Cut inside "data:", inside the JSON, and between an event and its blank line
+    const cuts = [0, 3, 25, body.indexOf('\n\n', 40) + 1, body.length - 6, body.length];
+    const chunks = cuts.slice(1).map((end, index) => body.slice(cuts[index], end));
+    mockServer({ chunks });
+
+    const { response, tokens } = await streamTokens('When are hostel fees due?');
+
+    expect(tokens.join('')).toBe('Hostel fees are due in June.');
+    expect(response.answer).toBe('Hostel fees are due in June.');
+  });
+
+  it('finishes with what it has when the server closes without [DONE]', async () => {
+    mockServer({ chunks: [sseChunk('Partial '), sseChunk('answer')] });
+
+    const { response } = await streamTokens('Tell me about the campus');
+
+    expect(response.answer).toBe('Partial answer');
+    expect(response.cancelled).toBeUndefined();
+  });
+
+  it('returns the partial answer, marked cancelled, when aborted mid-stream', async () => {
+    mockServer({ chunks: [sseChunk('First part. '), sseChunk('Second part.')], hang: true });
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    const response = await streamChatMessage('Tell me everything', 'en', {
+      signal: controller.signal,
+      onToken: (delta, fullText) => {
+        tokens.push(delta);
+        if (fullText.includes('Second')) controller.abort();
+      },
+    });
+
+    expect(tokens).toEqual(['First part. ', 'Second part.']);
+    expect(response.cancelled).toBe(true);
+    expect(response.answer).toBe('First part. Second part.');
+    expect(response.confidence).toBe(0);
+  });
+});
+
+describe('streamChatMessage over NDJSON', () => {
+  beforeEach(() => useProviders({ id: 'ollama' }));
+
+  it('streams Ollama lines split across chunks and stops at done', async () => {
+    const body = ndjsonChunk('Exams ') + ndjsonChunk('start on ') + ndjsonChunk('Monday.') +
+      `${JSON.stringify({ message: { content: '' }, done: true })}\n` + ndjsonChunk('Ignored.');
+    const { requests } = mockServer({ chunks: [body.slice(0, 10), body.slice(10, 70), body.slice(70)] });
+
+    const { response, tokens } = await streamTokens('When do exams start?');
+
+    expect(tokens).toEqual(['Exams ', 'start on ', 'Monday.']);
+    expect(response.answer).toBe('Exams start on Monday.');
+    expect(requests[0].url).toBe(`${MOCK_SERVER}/api/chat`);
+  });
+
+  it('returns the partial answer, marked cancelled, when aborted mid-stream', async () => {
+    mockServer({ chunks: [ndjsonChunk('Half an ')], hang: true });
+    const controller = new AbortController();
+
+    const pending = streamChatMessage('Tell me everything', 'en', {
+      signal: controller.signal,
+      onToken: () => controller.abort(),
+    });
+
+    await expect(pending).resolves.toMatchObject({ answer: 'Half an', cancelled: true, provider: 'ollama' });
+  });
+});
@@ -1,29 +1,238 @@
 /**
- * Chat Service - Direct Groq API integration
- * Extracted from NullChat backend for frontend-only usage
+ * Chat Service - NullChat conversation logic
+ * Talks to the configured LLM providers (Groq by default) from the frontend
  */
 
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
-const GROQ_MODEL = 'llama-3.1-8b-instant';
+import {
+  getProviderChain,
+  requestCompletion,
+  parseAnswer,
+  createStreamParser,
+  parseStreamEvent,
+} from './llmProviders';
+import type { LLMProviderConfig, LLMMessage, LLMToolCall, LLMToolCallDelta, LLMToolSpec } from './llmProviders';
+import { getToolSpecs, executeToolCall } from './chatTools';
+import type { ChatToolContext, ChatToolResult } from './chatTools';
 
-// Import university data for comprehensive context
-import { KARUNYA_CONTEXT } from '../data/universityData';
+// General university facts go into every prompt; specific records are retrieved per question
+import { KARUNYA_GENERAL_CONTEXT } from '../data/universityData';
+import { universityIndex, formatRecordForPrompt } from './universityRetrieval';
+import { answerOffline } from './offlineAnswerService';
+import { groundAnswer } from './answerGrounding';
+import { LANGUAGES } from './languageService';
+import type { LanguageCode } from '../types';
+import type { Citation } from './answerGrounding';
 
-// College information context - now using comprehensive university data
-const COLLEGE_INFO = KARUNYA_CONTEXT;
+// How many departments/facilities/circulars to put into a single prompt
+const MAX_RETRIEVED_RECORDS = 4;
+// Tool round trips per answer before the model must reply in words
+const MAX_TOOL_ROUNDS = 2;
+// Tool calls honoured from a single model turn; extras are dropped
+const MAX_TOOL_CALLS_PER_ROUND = 3;
+// Pronouns that point back at the previous question's topic
+const FOLLOW_UP_PATTERN = /\b(it|its|there|that|they|them|their|this|those|uska|uski|unka|wahan|woh)\b/i;
 
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
-interface ChatResponse {
+export interface ChatResponse {
   answer: string;
   confidence: number;
   error?: string;
+  sessionId?: string;
+  cancelled?: boolean; // Streaming was stopped before the answer finished
+  provider?: string;   // Id of the LLM provider that produced the answer
+  retrievedIds?: string[]; // Keys of the university records given to the model, e.g. "facility:library"
+  offline?: boolean;       // Answered by the local rule-based engine instead of an LLM
+  citations?: Citation[];  // Records the answer relied on, for linking back to the university pages
+  toolResults?: ChatToolResult[]; // Portal actions the model ran while answering
 }
 
-function getSystemPrompt(language: 'en' | 'hi'): string {
+// ===== CONVERSATION SESSIONS =====
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+}
+
+export interface ChatSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: ChatTurn[];
+  summary: string;         // Condensed version of turns that no longer fit the budget
+  summarizedCount: number; // How many leading turns are already folded into the summary
+}
+
+const SESSIONS_STORAGE_KEY = 'nullchat_sessions';
+const ACTIVE_SESSION_STORAGE_KEY = 'nullchat_active_session';
+
+const HISTORY_TOKEN_BUDGET = 1200; // Tokens reserved for verbatim history turns
+const SUMMARY_TOKEN_BUDGET = 300;  // Tokens reserved for the rolling summary
+const MAX_HISTORY_TURNS = 12;      // Never send more than this many verbatim turns
+const MAX_STORED_TURNS = 100;      // Turns kept per session for resuming the transcript
+
+const sessions = new Map<string, ChatSession>(loadSessions());
+
+function loadSessions(): Array<[string, ChatSession]> {
+  try {
+    const saved = localStorage.getItem(SESSIONS_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved) as ChatSession[];
+    return parsed.map(session => [session.id, session]);
+  } catch (error) {
+    console.warn('⚠️ Could not load chat sessions:', error);
+    return [];
+  }
+}
+
+function persistSessions(): void {
+  try {
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(Array.from(sessions.values())));
+  } catch (error) {
+    console.warn('⚠️ Could not save chat sessions:', error);
+  }
+}
+
+// Rough token estimate (~4 characters per token for English/Romanized text)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function truncate(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > maxLength ? clean.substring(0, maxLength - 1) + '…' : clean;
+}
+
+/**
+ * Fold older turns into a short running summary so follow-up questions keep
+ * their context without resending the whole transcript
+ */
+function summarizeTurns(previousSummary: string, turns: ChatTurn[]): string {
+  const lines = previousSummary ? previousSummary.split('\n') : [];
+
+  turns.forEach(turn => {
+    if (turn.role === 'user') {
+      lines.push(`- Student asked: ${truncate(turn.content, 120)}`);
+    } else {
+      const firstSentence = turn.content.split(/(?<=[.!?])\s/)[0] || turn.content;
+      lines.push(`- NullChat answered: ${truncate(firstSentence, 160)}`);
+    }
+  });
+
+  // Drop the oldest summary lines once the summary itself exceeds its budget
+  while (lines.length > 1 && estimateTokens(lines.join('\n')) > SUMMARY_TOKEN_BUDGET) {
+    lines.shift();
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Keep the verbatim history within budget, summarizing the oldest turns
+ */
+function compactSession(session: ChatSession): void {
+  const recentTokens = () => session.turns
+    .slice(session.summarizedCount)
+    .reduce((total, turn) => total + estimateTokens(turn.content), 0);
+
+  while (
+    session.summarizedCount < session.turns.length &&
+    (session.turns.length - session.summarizedCount > MAX_HISTORY_TURNS || recentTokens() > HISTORY_TOKEN_BUDGET)
+  ) {
+    // Fold a user/assistant pair at a time so the history never starts mid-exchange
+    const foldCount = Math.min(2, session.turns.length - session.summarizedCount);
+    const folded = session.turns.slice(session.summarizedCount, session.summarizedCount + foldCount);
+    session.summary = summarizeTurns(session.summary, folded);
+    session.summarizedCount += foldCount;
+  }
+
+  // Bound the stored transcript; dropped turns are always already summarized
+  if (session.turns.length > MAX_STORED_TURNS) {
+    const overflow = Math.min(session.turns.length - MAX_STORED_TURNS, session.summarizedCount);
+    session.turns = session.turns.slice(overflow);
+    session.summarizedCount -= overflow;
+  }
+}
+
+function buildHistoryMessages(session: ChatSession | undefined): ChatMessage[] {
+  if (!session) return [];
+
+  const history: ChatMessage[] = [];
+  if (session.summary) {
+    history.push({
+      role: 'system',
+      content: `SUMMARY OF EARLIER CONVERSATION WITH THIS STUDENT:\n${session.summary}`
+    });
+  }
+  return history.concat(formatConversationHistory(session.turns.slice(session.summarizedCount)));
+}
+
+function appendTurns(session: ChatSession, ...turns: ChatTurn[]): void {
+  session.turns.push(...turns);
+  session.updatedAt = Date.now();
+  compactSession(session);
+  persistSessions();
+}
+
+/**
+ * Start a fresh conversation and make it the active session
+ */
+export function startChatSession(): ChatSession {
+  const now = Date.now();
+  const session: ChatSession = {
+    id: `chat_${now}_${Math.random().toString(36).substring(2, 8)}`,
+    createdAt: now,
+    updatedAt: now,
+    turns: [],
+    summary: '',
+    summarizedCount: 0,
+  };
+
+  sessions.set(session.id, session);
+  localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, session.id);
+  persistSessions();
+  console.log('💬 Started chat session:', session.id);
+  return session;
+}
+
+/**
+ * Resume a conversation by id, or the last active one when no id is given
+ */
+export function resumeChatSession(sessionId?: string): ChatSession | null {
+  const id = sessionId || localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+  const session = id ? sessions.get(id) : undefined;
+  if (!session) return null;
+
+  localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, session.id);
+  console.log('💬 Resumed chat session:', session.id, `(${session.turns.length} turns)`);
+  return session;
+}
+
+/**
+ * Forget a conversation and its summary
+ */
+export function clearChatSession(sessionId: string): void {
+  sessions.delete(sessionId);
+  if (localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY) === sessionId) {
+    localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+  }
+  persistSessions();
+  console.log('🗑️ Cleared chat session:', sessionId);
+}
+
+export function getChatSession(sessionId: string): ChatSession | null {
+  return sessions.get(sessionId) || null;
+}
+
+function getSystemPrompt(language: LanguageCode, relevantRecords: string): string {
+  const collegeInfo = relevantRecords
+    ? `${KARUNYA_GENERAL_CONTEXT}\nRELEVANT UNIVERSITY RECORDS FOR THIS QUESTION:\n${relevantRecords}\n`
+    : KARUNYA_GENERAL_CONTEXT;
+
   const commonInstructions = `
 SPECIFIC TOPICS YOU CAN HELP WITH:
 
@@ -67,10 +276,10 @@ Always provide specific contact information when available and direct students t
 `;
 
   if (language === 'hi') {
-    return `Aap NullChat hain, Karunya University ke intelligent assistant jo students ki har university-related query mein madad karte hain. Hamesha Romanized Hindi mein jawab dein (English letters use karein, Devanagari script nahi).
+    return `Aap NullChat hain, Karunya University ke intelligent assistant jo students ki har university-related query mein madad karte hain. ${LANGUAGES.hi.promptInstruction}
 
 KARUNYA UNIVERSITY INFORMATION:
-${COLLEGE_INFO}
+${collegeInfo}
 
 ${commonInstructions}
 
@@ -86,10 +295,14 @@ Guidelines:
 - Student success ke liye encouraging aur supportive rahein
 `;
   } else {
-    return `You are NullChat, Karunya University's intelligent assistant specialized in helping students with all university-related queries. Always answer in clear, simple English.
+    // Tamil, Malayalam, Telugu and Kannada share the English prompt with their own reply instruction
+    const closingLine = language === 'en'
+      ? 'Always end with "Is there anything else I can help you with regarding Karunya University?"'
+      : `Always end by asking, in ${LANGUAGES[language].name}, whether there is anything else you can help with regarding Karunya University`;
+    return `You are NullChat, Karunya University's intelligent assistant specialized in helping students with all university-related queries. ${LANGUAGES[language].promptInstruction}
 
 KARUNYA UNIVERSITY INFORMATION:
-${COLLEGE_INFO}
+${collegeInfo}
 
 ${commonInstructions}
 
@@ -104,114 +317,394 @@ Guidelines:
 - Be encouraging and supportive of student success
 - When asked about circulars or announcements, mention that the latest ones are available in the Circulars section
 - For facility information, provide details about timings, accessibility features, and contact information
-- Always end with "Is there anything else I can help you with regarding Karunya University?"
+- ${closingLine}
 `;
   }
 }
 
+const REQUEST_SETTINGS = {
+  maxTokens: 500,
+  temperature: 0.7,
+  topP: 0.9,
+};
+
+// Without any configured provider (e.g. an offline kiosk) answer from local data
+function noProviderResponse(message: string, language: LanguageCode): ChatResponse {
+  return {
+    ...answerOffline(message, language),
+    error: 'No AI provider configured - answered offline (see API Settings)'
+  };
+}
+
+async function httpErrorResponse(provider: LLMProviderConfig, response: Response): Promise<ChatResponse> {
+  const errorText = await response.text();
+  console.error(`❌ ${provider.name} API error:`, {
+    status: response.status,
+    statusText: response.statusText, 
+    error: errorText,
+  });
+  
+  if (response.status === 401) {
+    const keyHint = provider.type === 'groq'
+      ? '3. Try generating a new key at https://console.groq.com/keys'
+      : '3. Ask the server administrator for a valid key';
+    return {
+      answer: `🔑 **API Key Error!**\n\nThe ${provider.name} API key appears to be invalid or expired.\n\nPlease:\n1. Check if the API key is correct\n2. Verify it has proper permissions\n${keyHint}`,
+      confidence: 0,
+      error: `Unauthorized: Invalid API key`
+    };
+  } else if (response.status === 429) {
+    return {
+      answer: `⏰ **Rate Limit Exceeded**\n\nToo many requests. Please wait a moment and try again.`,
+      confidence: 0,
+      error: `Rate limited`
+    };
+  } else {
+    return {
+      answer: `❌ **Connection Error**\n\nStatus: ${response.status}\nError: ${errorText}\n\nPlease try again in a moment.`,
+      confidence: 0,
+      error: `API error: ${response.status}`
+    };
+  }
+}
+
+function exceptionResponse(provider: LLMProviderConfig, error: unknown): ChatResponse {
+  console.error(`❌ Chat service error (${provider.name}):`, error);
+  
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return {
+      answer: `🌐 **Network Connection Error**\n\nCannot reach ${provider.name} servers. This could be due to:\n\n• Internet connection issues\n• CORS policy blocking the request\n• Firewall or network restrictions\n\nPlease check your internet connection and try again.`,
+      confidence: 0,
+      error: 'Network/CORS error'
+    };
+  }
+  
+  return {
+    answer: `⚠️ **Unexpected Error**\n\nError: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease try again or refresh the page.`,
+    confidence: 0,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  };
+}
+
+/**
+ * Build the prompt for a message, retrieving only the university records it needs.
+ * The previous question is included in the search so follow-ups like
+ * "what about its timings?" still find the record being discussed.
+ */
+function buildMessages(
+  message: string,
+  language: LanguageCode,
+  session?: ChatSession
+): { messages: ChatMessage[]; retrievedIds: string[] } {
+  const previousQuestion = session?.turns.filter(turn => turn.role === 'user').pop()?.content || '';
+  let hits = universityIndex.search(message, MAX_RETRIEVED_RECORDS);
+  if (previousQuestion && (hits.length === 0 || FOLLOW_UP_PATTERN.test(message))) {
+    hits = universityIndex.search(`${message} ${previousQuestion}`, MAX_RETRIEVED_RECORDS);
+  }
+
+  const relevantRecords = hits.map(hit => formatRecordForPrompt(hit.record)).join('\n\n');
+  const retrievedIds = hits.map(hit => hit.record.key);
+  if (retrievedIds.length > 0) {
+    console.log('📚 Retrieved records for prompt:', retrievedIds.join(', '));
+  }
+
+  return {
+    messages: [
+      { role: 'system', content: getSystemPrompt(language, relevantRecords) },
+      ...buildHistoryMessages(session),
+      { role: 'user', content: message }
+    ],
+    retrievedIds,
+  };
+}
+
+// Confidence reflects whether the phone numbers, emails and timings in the answer exist in our data
+function groundedResponse(
+  answer: string,
+  retrievedIds: string[],
+  session: ChatSession | undefined,
+  provider: LLMProviderConfig,
+  toolResults: ChatToolResult[]
+): ChatResponse {
+  const { citations, confidence } = groundAnswer(answer, retrievedIds);
+  return {
+    answer,
+    confidence,
+    sessionId: session?.id,
+    provider: provider.id,
+    retrievedIds,
+    citations,
+    toolResults: toolResults.length > 0 ? toolResults : undefined,
+  };
+}
+
+// Only successful exchanges become part of the conversation memory
+function rememberExchange(session: ChatSession | undefined, message: string, answer: string): void {
+  if (!session) return;
+  const timestamp = Date.now();
+  appendTurns(
+    session,
+    { role: 'user', content: message, timestamp },
+    { role: 'assistant', content: answer, timestamp }
+  );
+}
+
+type ProviderReply = { answer: string; toolCalls: LLMToolCall[] } | { failure: ChatResponse };
+
+/**
+ * Ask one provider for a complete (non-streamed) answer
+ */
+async function completeWithProvider(
+  provider: LLMProviderConfig,
+  messages: LLMMessage[],
+  signal?: AbortSignal,
+  tools?: LLMToolSpec[]
+): Promise<ProviderReply> {
+  const response = await requestCompletion(provider, messages, { ...REQUEST_SETTINGS, stream: false, tools }, signal);
+  if (!response.ok) {
+    return { failure: await httpErrorResponse(provider, response) };
+  }
+
+  const data = await response.json();
+  const completion = parseAnswer(provider, data);
+  return { answer: completion.content.trim(), toolCalls: completion.toolCalls };
+}
+
+/**
+ * Let the model call portal tools until it replies in words. Tool results are
+ * fed back as tool messages; the final round is sent without tools so the
+ * loop always ends with an answer.
+ */
+async function answerWithTools(
+  provider: LLMProviderConfig,
+  messages: LLMMessage[],
+  toolContext: ChatToolContext | undefined,
+  toolResults: ChatToolResult[],
+  request: (messages: LLMMessage[], tools?: LLMToolSpec[]) => Promise<ProviderReply>
+): Promise<{ answer: string } | { failure: ChatResponse }> {
+  const tools = toolContext && provider.capabilities.tools ? getToolSpecs() : undefined;
+  const answerParts: string[] = [];
+  let conversation = messages;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const reply = await request(conversation, round < MAX_TOOL_ROUNDS ? tools : undefined);
+    if ('failure' in reply) return reply;
+    if (reply.answer) answerParts.push(reply.answer);
+    if (!toolContext || !tools || reply.toolCalls.length === 0) break;
+
+    const calls = reply.toolCalls.slice(0, MAX_TOOL_CALLS_PER_ROUND);
+    const resultMessages: LLMMessage[] = [];
+    for (const call of calls) {
+      const result = await executeToolCall(call, toolContext);
+      toolResults.push(result);
+      resultMessages.push({ role: 'tool', toolCallId: call.id, content: result.output });
+    }
+    conversation = [
+      ...conversation,
+      { role: 'assistant', content: reply.answer, toolCalls: calls },
+      ...resultMessages,
+    ];
+  }
+
+  return { answer: answerParts.join('\n\n') || 'No response generated' };
+}
+
 export async function sendChatMessage(
   message: string,
-  language: 'en' | 'hi' = 'en'
+  language: LanguageCode = 'en',
+  sessionId?: string,
+  toolContext?: ChatToolContext
 ): Promise<ChatResponse> {
-  try {
-    // Try localStorage first, then fall back to environment variable, then default API key
-    const apiKey = localStorage.getItem('user_groq_api_key') || 
-                   import.meta.env.VITE_GROQ_API_KEY ;
-    if (!apiKey || apiKey === 'your_groq_api_key_here') {
-      return {
-        answer: '🔑 **NullChat needs configuration!**\n\n' +
-                '**To enable chat:**\n' +
-                '1. Click "Support" → "API Settings" in the sidebar\n' +
-                '2. Get a free Groq API key at: https://console.groq.com/keys\n' +
-                '3. Enter your key (starts with "gsk_") and click Save\n\n' +
-                '**Why do I need this?**\n' +
-                'NullChat uses Groq\'s free AI service for intelligent responses about Karunya University. Your API key stays private in your browser only.',
-        confidence: 0,
-        error: 'API key not configured - please visit API Settings'
-      };
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  const chain = getProviderChain();
+  if (chain.length === 0) {
+    return noProviderResponse(message, language);
+  }
+
+  const { messages, retrievedIds } = buildMessages(message, language, session);
+  const toolResults: ChatToolResult[] = [];
+  let firstFailure: ChatResponse | null = null;
+
+  // Walk the fallback chain until one provider answers
+  for (const provider of chain) {
+    try {
+      const result = await answerWithTools(provider, messages, toolContext, toolResults,
+        (conversation, tools) => completeWithProvider(provider, conversation, undefined, tools));
+      if ('answer' in result) {
+        rememberExchange(session, message, result.answer);
+        return groundedResponse(result.answer, retrievedIds, session, provider, toolResults);
+      }
+      firstFailure = firstFailure || result.failure;
+    } catch (error) {
+      firstFailure = firstFailure || exceptionResponse(provider, error);
     }
+    // Actions already taken must not be repeated by another provider
+    if (toolResults.length > 0) break;
+    console.warn(`⚠️ ${provider.name} failed, trying next provider`);
+  }
 
-    const messages: ChatMessage[] = [
-      { role: 'system', content: getSystemPrompt(language) },
-      { role: 'user', content: message }
-    ];
+  return firstFailure!;
+}
 
-    console.log('🔗 Making API call to Groq with key:', apiKey.substring(0, 10) + '...');
-    
-    const response = await fetch(GROQ_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({
-        model: GROQ_MODEL,
-        messages,
-        max_tokens: 500,
-        temperature: 0.7,
-        top_p: 0.9,
-        stream: false,
-      }),
-    });
+// ===== STREAMING =====
+
+export interface StreamChatOptions {
+  sessionId?: string;
+  signal?: AbortSignal;
+  onToken?: (delta: string, fullText: string) => void;
+  tools?: ChatToolContext; // Offer the portal tools to providers that support function calling
+}
+
+/**
+ * Merge streamed tool-call fragments. OpenAI-style servers send the name once
+ * and the arguments in pieces; a fragment that carries a new name for an index
+ * already in use starts another call.
+ */
+function mergeToolCallDeltas(calls: LLMToolCall[], slots: Map<number, LLMToolCall>, deltas: LLMToolCallDelta[]): void {
+  for (const delta of deltas) {
+    let call = slots.get(delta.index);
+    if (!call || (delta.name && call.name)) {
+      call = { id: delta.id || `call_${calls.length}`, name: '', arguments: '' };
+      slots.set(delta.index, call);
+      calls.push(call);
+    }
+    if (delta.name) call.name = delta.name;
+    if (delta.arguments) call.arguments += delta.arguments;
+  }
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Groq API error:', {
-        status: response.status,
-        statusText: response.statusText, 
-        error: errorText,
-        apiKey: apiKey.substring(0, 10) + '...'
+/**
+ * Stream one provider's answer, calling onToken for every delta
+ */
+async function streamWithProvider(
+  provider: LLMProviderConfig,
+  messages: LLMMessage[],
+  signal: AbortSignal | undefined,
+  onDelta: (delta: string) => void,
+  tools?: LLMToolSpec[]
+): Promise<ProviderReply> {
+  // Providers without streaming still work, the answer just arrives in one piece
+  if (!provider.capabilities.streaming) {
+    const result = await completeWithProvider(provider, messages, signal, tools);
+    if ('answer' in result && result.answer) onDelta(result.answer);
+    return result;
+  }
+
+  const response = await requestCompletion(provider, messages, { ...REQUEST_SETTINGS, stream: true, tools }, signal);
+  if (!response.ok) {
+    return { failure: await httpErrorResponse(provider, response) };
+  }
+  if (!response.body) {
+    throw new Error('Streaming not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createStreamParser(provider);
+  const toolCalls: LLMToolCall[] = [];
+  const toolCallSlots = new Map<number, LLMToolCall>();
+  let answer = '';
+  let done = false;
+
+  const handleEvents = (events: string[]) => {
+    for (const event of events) {
+      const delta = parseStreamEvent(provider, event);
+      if (delta === null) {
+        done = true;
+        return;
+      }
+      if (delta.content) {
+        answer += delta.content;
+        onDelta(delta.content);
+      }
+      if (delta.toolCalls) {
+        mergeToolCallDeltas(toolCalls, toolCallSlots, delta.toolCalls);
+      }
+    }
+  };
+
+  while (!done) {
+    const { value, done: streamEnded } = await reader.read();
+    if (streamEnded) {
+      handleEvents(parser.flush());
+      break;
+    }
+    handleEvents(parser.push(decoder.decode(value, { stream: true })));
+  }
+  if (done) {
+    await reader.cancel();
+  }
+
+  return { answer: answer.trim(), toolCalls: toolCalls.filter(call => call.name) };
+}
+
+/**
+ * Send a message and stream the answer token by token.
+ * Resolves with the full answer once the stream ends, or with the partial
+ * answer and `cancelled: true` when the signal aborts mid-stream.
+ */
+export async function streamChatMessage(
+  message: string,
+  language: LanguageCode = 'en',
+  options: StreamChatOptions = {}
+): Promise<ChatResponse> {
+  const { sessionId, signal, onToken, tools: toolContext } = options;
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  const chain = getProviderChain();
+  if (chain.length === 0) {
+    return noProviderResponse(message, language);
+  }
+
+  const { messages, retrievedIds } = buildMessages(message, language, session);
+  const toolResults: ChatToolResult[] = [];
+  let firstFailure: ChatResponse | null = null;
+  let streamed = '';
+
+  const emit = (delta: string) => {
+    streamed += delta;
+    onToken?.(delta, streamed);
+  };
+
+  for (const provider of chain) {
+    try {
+      const result = await answerWithTools(provider, messages, toolContext, toolResults, (conversation, tools) => {
+        // Keep text from before and after a tool call visually apart
+        if (streamed && !/\s$/.test(streamed)) emit('\n\n');
+        return streamWithProvider(provider, conversation, signal, emit, tools);
       });
-      
-      if (response.status === 401) {
-        return {
-          answer: `🔑 **API Key Error!**\n\nThe Groq API key appears to be invalid or expired.\n\nPlease:\n1. Check if the API key is correct\n2. Verify it has proper permissions\n3. Try generating a new key at https://console.groq.com/keys`,
-          confidence: 0,
-          error: `Unauthorized: Invalid API key`
-        };
-      } else if (response.status === 429) {
-        return {
-          answer: `⏰ **Rate Limit Exceeded**\n\nToo many requests. Please wait a moment and try again.`,
-          confidence: 0,
-          error: `Rate limited`
-        };
-      } else {
+      if ('answer' in result) {
+        rememberExchange(session, message, result.answer);
+        return groundedResponse(result.answer, retrievedIds, session, provider, toolResults);
+      }
+      firstFailure = firstFailure || result.failure;
+    } catch (error) {
+      if (signal?.aborted) {
+        console.log('⏹️ Chat stream cancelled by user');
         return {
-          answer: `❌ **Connection Error**\n\nStatus: ${response.status}\nError: ${errorText}\n\nPlease try again in a moment.`,
+          answer: streamed.trim(),
           confidence: 0,
-          error: `API error: ${response.status}`
+          cancelled: true,
+          sessionId: session?.id,
+          provider: provider.id,
+          retrievedIds,
+          toolResults: toolResults.length > 0 ? toolResults : undefined,
         };
       }
+      const failure = exceptionResponse(provider, error);
+      // Once text has been shown or actions taken we cannot switch providers mid-answer
+      if (streamed || toolResults.length > 0) {
+        return failure;
+      }
+      firstFailure = firstFailure || failure;
     }
-
-    const data = await response.json();
-    const answer = data.choices[0]?.message?.content?.trim() || 'No response generated';
-
-    return {
-      answer,
-      confidence: 0.9,
-    };
-  } catch (error) {
-    console.error('❌ Chat service error:', error);
-    
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      return {
-        answer: `🌐 **Network Connection Error**\n\nCannot reach Groq API servers. This could be due to:\n\n• Internet connection issues\n• CORS policy blocking the request\n• Firewall or network restrictions\n\nPlease check your internet connection and try again.`,
-        confidence: 0,
-        error: 'Network/CORS error'
-      };
-    }
-    
-    return {
-      answer: `⚠️ **Unexpected Error**\n\nError: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease try again or refresh the page.`,
-      confidence: 0,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
+    if (toolResults.length > 0) break;
+    console.warn(`⚠️ ${provider.name} failed, trying next provider`);
   }
+
+  return firstFailure!;
 }
 
-// Helper to generate conversation history for context (future enhancement)
+// Helper to generate conversation history for context
 export function formatConversationHistory(messages: Array<{ role: string; content: string }>): ChatMessage[] {
   return messages.map(msg => ({
     role: msg.role as 'system' | 'user' | 'assistant',
@@ -0,0 +1,232 @@
+/**
+ * Chat Tools
+ * Typed registry of portal actions the chat model may call (navigation,
+ * visual accessibility settings, reading circulars aloud). Every call is
+ * validated against the registry before it runs, and setting changes need
+ * the user's confirmation.
+ */
+
+import { getAllSectionIds, getSectionTitle } from '../data/sidebarSections';
+import { SAMPLE_CIRCULARS } from '../data/universityData';
+import { visualAccessibilityService } from './visualAccessibilityService';
+import type { LLMToolCall, LLMToolSpec } from './llmProviders';
+
+/**
+ * What the chat UI lets tools do; supplied by the screen hosting the chat
+ */
+export interface ChatToolContext {
+  navigate(section: string): void;
+  speak(text: string): void;
+  confirm(question: string): Promise<boolean>;
+}
+
+export interface ChatToolResult {
+  name: string;
+  ok: boolean;
+  declined?: boolean; // The user said no to the confirmation
+  output: string;     // Sent back to the model as the tool message
+}
+
+interface ChatToolDefinition<Args> {
+  spec: LLMToolSpec;
+  requiresConfirmation: boolean;
+  // Throws ToolArgumentError when the model's arguments do not fit
+  parseArgs(raw: Record<string, unknown>): Args;
+  // Question asked before running a tool that requires confirmation
+  describe(args: Args): string;
+  execute(args: Args, context: ChatToolContext): string;
+}
+
+// The registry stores tools with their argument types erased behind closures
+interface RegisteredTool {
+  spec: LLMToolSpec;
+  requiresConfirmation: boolean;
+  prepare(raw: Record<string, unknown>): { question: string; run(context: ChatToolContext): string };
+}
+
+class ToolArgumentError extends Error {}
+
+const registry = new Map<string, RegisteredTool>();
+
+function registerTool<Args>(tool: ChatToolDefinition<Args>): void {
+  registry.set(tool.spec.name, {
+    spec: tool.spec,
+    requiresConfirmation: tool.requiresConfirmation,
+    prepare: raw => {
+      const args = tool.parseArgs(raw);
+      return { question: tool.describe(args), run: context => tool.execute(args, context) };
+    },
+  });
+}
+
+function requireOneOf<T extends string>(raw: Record<string, unknown>, field: string, allowed: readonly T[]): T {
+  const value = raw[field];
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new ToolArgumentError(`"${field}" must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function requireBoolean(raw: Record<string, unknown>, field: string): boolean {
+  const value = raw[field];
+  // Some models send booleans as strings
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  throw new ToolArgumentError(`"${field}" must be true or false`);
+}
+
+// ===== TOOLS =====
+
+// The chat section itself is not a useful destination from inside the chat
+const NAVIGABLE_SECTIONS = getAllSectionIds().filter(id => id !== 'chat');
+
+registerTool<{ section: string }>({
+  spec: {
+    name: 'navigate_to_section',
+    description: 'Open a page of the university portal, e.g. the library, circulars or a department list. Use when the user asks to open, show or go to a page.',
+    parameters: {
+      type: 'object',
+      properties: {
+        section: { type: 'string', enum: NAVIGABLE_SECTIONS, description: 'Portal section id' },
+      },
+      required: ['section'],
+    },
+  },
+  requiresConfirmation: false,
+  parseArgs: raw => ({ section: requireOneOf(raw, 'section', NAVIGABLE_SECTIONS) }),
+  describe: ({ section }) => `Open ${getSectionTitle(section) || section}?`,
+  execute: ({ section }, context) => {
+    context.navigate(section);
+    return `Opened the ${getSectionTitle(section) || section} page.`;
+  },
+});
+
+const FONT_SIZES = ['small', 'medium', 'large', 'extra-large'] as const;
+const COLOR_BLIND_MODES = ['none', 'protanopia', 'deuteranopia', 'tritanopia'] as const;
+const VISUAL_SETTINGS = ['fontSize', 'highContrast', 'darkMode', 'reduceMotion', 'colorBlindMode'] as const;
+
+type VisualSettingChange =
+  | { setting: 'fontSize'; value: typeof FONT_SIZES[number] }
+  | { setting: 'colorBlindMode'; value: typeof COLOR_BLIND_MODES[number] }
+  | { setting: 'highContrast' | 'darkMode' | 'reduceMotion'; value: boolean };
+
+const SETTING_LABELS: Record<VisualSettingChange['setting'], string> = {
+  fontSize: 'text size',
+  highContrast: 'high contrast',
+  darkMode: 'dark mode',
+  reduceMotion: 'reduced motion',
+  colorBlindMode: 'color blind filter',
+};
+
+function describeValue(change: VisualSettingChange): string {
+  if (typeof change.value === 'boolean') return change.value ? 'on' : 'off';
+  return change.value;
+}
+
+registerTool<VisualSettingChange>({
+  spec: {
+    name: 'update_accessibility_setting',
+    description: 'Change a visual accessibility setting of the portal. fontSize takes small, medium, large or extra-large; colorBlindMode takes none, protanopia, deuteranopia or tritanopia; highContrast, darkMode and reduceMotion take true or false.',
+    parameters: {
+      type: 'object',
+      properties: {
+        setting: { type: 'string', enum: VISUAL_SETTINGS },
+        value: { type: ['string', 'boolean'], description: 'New value for the setting' },
+      },
+      required: ['setting', 'value'],
+    },
+  },
+  requiresConfirmation: true,
+  parseArgs: raw => {
+    const setting = requireOneOf(raw, 'setting', VISUAL_SETTINGS);
+    switch (setting) {
+      case 'fontSize':
+        return { setting, value: requireOneOf(raw, 'value', FONT_SIZES) };
+      case 'colorBlindMode':
+        return { setting, value: requireOneOf(raw, 'value', COLOR_BLIND_MODES) };
+      default:
+        return { setting, value: requireBoolean(raw, 'value') };
+    }
+  },
+  describe: change => `Turn ${SETTING_LABELS[change.setting]} ${describeValue(change)}?`,
+  execute: change => {
+    switch (change.setting) {
+      case 'fontSize': visualAccessibilityService.updateFontSize(change.value); break;
+      case 'colorBlindMode': visualAccessibilityService.updateColorBlindMode(change.value); break;
+      case 'highContrast': visualAccessibilityService.updateHighContrast(change.value); break;
+      case 'darkMode': visualAccessibilityService.updateDarkMode(change.value); break;
+      case 'reduceMotion': visualAccessibilityService.updateReduceMotion(change.value); break;
+    }
+    return `Set ${SETTING_LABELS[change.setting]} to ${describeValue(change)}.`;
+  },
+});
+
+const CIRCULAR_CHOICES = ['latest', ...SAMPLE_CIRCULARS.map(circular => circular.id)];
+
+registerTool<{ circularId: string }>({
+  spec: {
+    name: 'read_circular_aloud',
+    description: `Read a university circular aloud to the user. Circulars: ${SAMPLE_CIRCULARS.map(c => `${c.id} = "${c.title}"`).join('; ')}. Use "latest" for the newest one.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        circular_id: { type: 'string', enum: CIRCULAR_CHOICES },
+      },
+      required: ['circular_id'],
+    },
+  },
+  requiresConfirmation: false,
+  parseArgs: raw => ({ circularId: requireOneOf(raw, 'circular_id', CIRCULAR_CHOICES) }),
+  describe: ({ circularId }) => `Read circular ${circularId} aloud?`,
+  execute: ({ circularId }, context) => {
+    const circular = circularId === 'latest'
+      ? [...SAMPLE_CIRCULARS].sort((a, b) => b.dateIssued.getTime() - a.dateIssued.getTime())[0]
+      : SAMPLE_CIRCULARS.find(c => c.id === circularId)!;
+    context.speak(`${circular.title}. ${circular.content}`);
+    return `Reading "${circular.title}" aloud now. Do not repeat its text in your reply.`;
+  },
+});
+
+// ===== EXECUTION =====
+
+/**
+ * Specs for every registered tool, in the provider-neutral format
+ */
+export function getToolSpecs(): LLMToolSpec[] {
+  return Array.from(registry.values()).map(tool => tool.spec);
+}
+
+/**
+ * Validate and run one tool call from the model. Never throws: problems are
+ * reported back as a failed result so the model can explain them.
+ */
+export async function executeToolCall(call: LLMToolCall, context: ChatToolContext): Promise<ChatToolResult> {
+  const tool = registry.get(call.name);
+  if (!tool) {
+    console.warn('⚠️ Model requested an unknown tool:', call.name);
+    return { name: call.name, ok: false, output: `Unknown tool "${call.name}".` };
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(call.arguments || '{}');
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ToolArgumentError('arguments must be a JSON object');
+    }
+
+    const prepared = tool.prepare(parsed as Record<string, unknown>);
+    if (tool.requiresConfirmation && !(await context.confirm(prepared.question))) {
+      console.log(`🛑 User declined tool ${call.name}`);
+      return { name: call.name, ok: false, declined: true, output: 'The user declined this change. Nothing was changed.' };
+    }
+
+    const output = prepared.run(context);
+    console.log(`🛠️ Tool ${call.name} executed:`, output);
+    return { name: call.name, ok: true, output };
+  } catch (error) {
+    const reason = error instanceof ToolArgumentError || error instanceof SyntaxError
+      ? `Invalid arguments: ${error.message}`
+      : `Tool failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    console.error(`❌ Tool ${call.name} error:`, error);
+    return { name: call.name, ok: false, output: reason };
+  }
+}
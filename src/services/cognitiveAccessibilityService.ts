@@ -3,6 +3,9 @@
  * Handles adaptations for users with cognitive impairments
  */
 
+import { confirmationService } from './confirmationService';
+import { actionJournal } from './actionJournal';
+
 interface CognitiveSettings {
   enableSimplifiedUI: boolean;
   enableStepByStep: boolean;
@@ -30,6 +33,7 @@ export class CognitiveAccessibilityService {
   private totalSteps = 0;
   private speechSynthesis: SpeechSynthesis | null = null;
   private autoSaveInterval: number | null = null;
+  private confirmedTargets = new WeakSet<EventTarget>(); // Confirmed clicks and submits being replayed
 
   constructor() {
     this.settings = {
@@ -79,6 +83,7 @@ export class CognitiveAccessibilityService {
    * Enable/disable simplified UI mode
    */
   enableSimplifiedUI(enabled: boolean) {
+    actionJournal.recordSetting('cognitive.simplifiedUI', `simplified interface ${enabled ? 'on' : 'off'}`, this.settings.enableSimplifiedUI, enabled, value => this.enableSimplifiedUI(value));
     this.settings.enableSimplifiedUI = enabled;
 
     if (enabled) {
@@ -174,6 +179,7 @@ export class CognitiveAccessibilityService {
    * Enable/disable step-by-step guidance
    */
   enableStepByStep(enabled: boolean) {
+    actionJournal.recordSetting('cognitive.stepByStep', `step-by-step guidance ${enabled ? 'on' : 'off'}`, this.settings.enableStepByStep, enabled, value => this.enableStepByStep(value));
     this.settings.enableStepByStep = enabled;
 
     if (enabled) {
@@ -628,16 +634,17 @@ export class CognitiveAccessibilityService {
     if (!this.settings.confirmActions) return;
 
     // Intercept form submissions
-    document.addEventListener('submit', this.handleFormSubmit);
+    document.addEventListener('submit', this.handleFormSubmit, true);
     
     // Intercept potentially destructive actions
     const destructiveSelectors = '[data-confirm], .btn-danger, [onclick*="delete"]';
+    // Capture phase, so the click is held before React's handlers see it
     document.addEventListener('click', (event) => {
-      const target = event.target as HTMLElement;
-      if (target.matches(destructiveSelectors)) {
+      const target = (event.target as HTMLElement).closest<HTMLElement>(destructiveSelectors);
+      if (target) {
         this.handleDestructiveAction(event, target);
       }
-    });
+    }, true);
   }
 
   /**
@@ -646,14 +653,18 @@ export class CognitiveAccessibilityService {
   private handleFormSubmit = (event: Event) => {
     if (!this.settings.confirmActions) return;
 
-    const confirmed = this.showConfirmation(
-      'Submit Form',
-      'Are you sure you want to submit this form?'
-    );
-    
-    if (!confirmed) {
-      event.preventDefault();
-    }
+    const form = event.target as HTMLFormElement;
+    if (this.confirmedTargets.delete(form)) return;
+
+    // Hold the submit until answered, then replay it
+    event.preventDefault();
+    event.stopPropagation();
+    this.showConfirmation('Submit Form', 'Are you sure you want to submit this form?').then(confirmed => {
+      if (confirmed) {
+        this.confirmedTargets.add(form);
+        form.requestSubmit();
+      }
+    });
   };
 
   /**
@@ -672,31 +683,34 @@ export class CognitiveAccessibilityService {
       return;
     }
 
+    // Buttons that already ask through the confirmation service shouldn't ask twice
+    if (target.hasAttribute('data-confirms-itself') || this.confirmedTargets.delete(target)) return;
+
+    // Hold the click until answered, then replay it
+    event.preventDefault();
+    event.stopPropagation();
+
     const action = target.textContent?.trim() || 'this action';
-    const confirmed = this.showConfirmation(
-      'Confirm Action',
-      `Are you sure you want to ${action.toLowerCase()}?`
-    );
-    
-    if (!confirmed) {
-      event.preventDefault();
-      event.stopPropagation();
-    }
+    this.showConfirmation('Confirm Action', `Are you sure you want to ${action.toLowerCase()}?`, true).then(confirmed => {
+      if (confirmed) {
+        this.confirmedTargets.add(target);
+        target.click();
+      }
+    });
   }
 
   /**
    * Show confirmation dialog
    */
-  private showConfirmation(title: string, message: string): boolean {
-    // For now, use browser confirm
-    // In production, this would be replaced with a custom accessible dialog
-    return confirm(`${title}\n\n${message}`);
+  private showConfirmation(title: string, message: string, destructive = false): Promise<boolean> {
+    return confirmationService.confirm(message, { title, destructive });
   }
 
   /**
    * Enable/disable focus mode
    */
   enableFocusMode(enabled: boolean) {
+    actionJournal.recordSetting('cognitive.focusMode', `focus mode ${enabled ? 'on' : 'off'}`, this.settings.enableFocusMode, enabled, value => this.enableFocusMode(value));
     this.settings.enableFocusMode = enabled;
     
     if (enabled) {
@@ -786,7 +800,7 @@ export class CognitiveAccessibilityService {
       clearInterval(this.autoSaveInterval);
     }
     
-    document.removeEventListener('submit', this.handleFormSubmit);
+    document.removeEventListener('submit', this.handleFormSubmit, true);
     
     console.log('🧠 Cognitive Accessibility Service destroyed');
   }
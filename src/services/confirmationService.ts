@@ -0,0 +1,232 @@
+/**
+ * Confirmation Service
+ * One yes/no flow for every input method. confirm() opens the shared
+ * ConfirmationDialog, speaks the question and resolves with the answer, given
+ * by voice, head nod or shake, dwell, switch, keyboard or pointer. Unanswered
+ * questions time out to the safe answer, which is "no" unless the caller says
+ * otherwise. Requests queue, so only one question is asked at a time.
+ */
+
+import { parseIntent } from './intentEngine';
+import { speechRecognitionBroker, MIC_PRIORITY } from './speechRecognitionBroker';
+import type { RecognitionClient } from './speechRecognitionBroker';
+
+// 'switch' covers synthetic clicks on the dialog buttons: switch access, dwell and Enter/Space
+export type ConfirmationSource = 'voice' | 'head' | 'switch' | 'keyboard' | 'pointer' | 'timeout';
+
+export interface ConfirmationOptions {
+  title?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  destructive?: boolean;   // Styles the confirm button as dangerous
+  timeoutMs?: number;
+  defaultAnswer?: boolean; // Given when the question times out (default false)
+}
+
+export interface ConfirmationRequest extends Required<ConfirmationOptions> {
+  id: number;
+  message: string;
+  expiresAt: number;
+}
+
+export type HeadGesture = 'nod' | 'shake';
+
+interface PendingConfirmation {
+  request: ConfirmationRequest;
+  resolve: (confirmed: boolean) => void;
+}
+
+interface HeadSample {
+  x: number;
+  y: number;
+  time: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+
+// Head gestures: normalized face positions over a short window
+const GESTURE_WINDOW_MS = 1500;
+const MIN_GESTURE_TRAVEL = 0.03;  // Smallest swing that counts, as a fraction of the frame
+const GESTURE_NOISE = 0.005;      // Movement smaller than this is jitter
+const MIN_GESTURE_REVERSALS = 2;  // down-up-down, or left-right-left
+
+/**
+ * Recognise a nod (vertical swings) or shake (horizontal swings) from recent head positions
+ */
+export function detectHeadGesture(samples: HeadSample[]): HeadGesture | null {
+  if (samples.length < 4) return null;
+
+  const xs = samples.map(sample => sample.x);
+  const ys = samples.map(sample => sample.y);
+  const xTravel = Math.max(...xs) - Math.min(...xs);
+  const yTravel = Math.max(...ys) - Math.min(...ys);
+
+  const reversals = (values: number[]) => {
+    let count = 0;
+    let direction = 0;
+    for (let i = 1; i < values.length; i++) {
+      const delta = values[i] - values[i - 1];
+      if (Math.abs(delta) < GESTURE_NOISE) continue;
+      const sign = Math.sign(delta);
+      if (direction !== 0 && sign !== direction) count++;
+      direction = sign;
+    }
+    return count;
+  };
+
+  // The gesture's own axis has to dominate, so looking around is not an answer
+  if (yTravel >= MIN_GESTURE_TRAVEL && yTravel > xTravel * 2 && reversals(ys) >= MIN_GESTURE_REVERSALS) {
+    return 'nod';
+  }
+  if (xTravel >= MIN_GESTURE_TRAVEL && xTravel > yTravel * 2 && reversals(xs) >= MIN_GESTURE_REVERSALS) {
+    return 'shake';
+  }
+  return null;
+}
+
+export class ConfirmationService {
+  private queue: PendingConfirmation[] = [];
+  private active: PendingConfirmation | null = null;
+  private nextId = 1;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private recognition: RecognitionClient | null = null;
+  private headSamples: HeadSample[] = [];
+  private listeners = new Set<(request: ConfirmationRequest | null) => void>();
+
+  /**
+   * Ask a yes/no question; resolves true only when the user confirms
+   */
+  confirm(message: string, options: ConfirmationOptions = {}): Promise<boolean> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const request: ConfirmationRequest = {
+      id: this.nextId++,
+      message,
+      title: options.title ?? 'Please confirm',
+      confirmLabel: options.confirmLabel ?? 'Yes',
+      cancelLabel: options.cancelLabel ?? 'No',
+      destructive: options.destructive ?? false,
+      timeoutMs,
+      defaultAnswer: options.defaultAnswer ?? false,
+      expiresAt: 0,
+    };
+
+    return new Promise(resolve => {
+      this.queue.push({ request, resolve });
+      if (!this.active) this.showNext();
+    });
+  }
+
+  /**
+   * Answer the open question
+   */
+  answer(confirmed: boolean, source: ConfirmationSource) {
+    const pending = this.active;
+    if (!pending) return;
+
+    console.log(`${confirmed ? '✅' : '❌'} Confirmation "${pending.request.message}" answered ${confirmed ? 'yes' : 'no'} by ${source}`);
+    this.close();
+    if (source === 'timeout') {
+      this.speak(confirmed ? 'No answer, going ahead' : 'No answer, cancelled');
+    }
+    pending.resolve(confirmed);
+    this.showNext();
+  }
+
+  getActive(): ConfirmationRequest | null {
+    return this.active?.request ?? null;
+  }
+
+  isPending(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Be told when a question opens or closes
+   */
+  onChange(listener: (request: ConfirmationRequest | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Feed head positions (normalized 0-1, e.g. the nose landmark); a nod answers
+   * yes and a shake answers no while a question is open
+   */
+  trackHead(point: { x: number; y: number }, time: number = performance.now()) {
+    if (!this.active) return;
+
+    this.headSamples.push({ x: point.x, y: point.y, time });
+    this.headSamples = this.headSamples.filter(sample => time - sample.time <= GESTURE_WINDOW_MS);
+
+    const gesture = detectHeadGesture(this.headSamples);
+    if (gesture) {
+      this.answer(gesture === 'nod', 'head');
+    }
+  }
+
+  private showNext() {
+    const next = this.queue.shift();
+    if (!next) {
+      this.notify();
+      return;
+    }
+
+    this.active = next;
+    this.headSamples = [];
+    next.request.expiresAt = Date.now() + next.request.timeoutMs;
+    this.timeoutId = setTimeout(() => this.answer(next.request.defaultAnswer, 'timeout'), next.request.timeoutMs);
+
+    this.speak(`${next.request.message} Say yes or no.`);
+    this.startListening();
+    this.notify();
+  }
+
+  private close() {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.recognition?.stop();
+    this.active = null;
+    this.headSamples = [];
+  }
+
+  // Only when the user is already talking to the app; otherwise the question shouldn't claim the mic
+  private startListening() {
+    if (!speechRecognitionBroker.getHolder()) return;
+
+    if (!this.recognition) {
+      this.recognition = speechRecognitionBroker.createClient('Confirmation', MIC_PRIORITY.confirmation);
+      this.recognition.continuous = true;
+      this.recognition.onresult = event => {
+        const transcript = event.results[event.resultIndex][0].transcript;
+        this.handleTranscript(transcript);
+      };
+    }
+    this.recognition.start();
+  }
+
+  private handleTranscript(transcript: string) {
+    const answer = parseIntent(transcript).best?.name;
+    if (answer === 'confirm') {
+      this.answer(true, 'voice');
+    } else if (answer === 'cancel' || answer === 'stop_speech') {
+      this.answer(false, 'voice');
+    }
+  }
+
+  private speak(text: string) {
+    if (!('speechSynthesis' in window)) return;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = 0.9;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  private notify() {
+    const request = this.getActive();
+    this.listeners.forEach(listener => listener(request));
+  }
+}
+
+export const confirmationService = new ConfirmationService();
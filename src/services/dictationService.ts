@@ -0,0 +1,349 @@
+/**
+ * Dictation Service
+ * Speech-to-text for the focused text field. Spoken punctuation ("comma",
+ * "new line") becomes symbols, a few editing commands ("delete last word",
+ * "select previous sentence", "capitalise that", "undo that") edit the text,
+ * and everything else is typed at the caret. Dictation holds the microphone
+ * at dictation priority, so command listeners are suspended until it stops.
+ */
+
+import type { LanguageCode } from '../types';
+import { SpeechRecognizer } from './voiceService';
+import { speechRecognitionBroker } from './speechRecognitionBroker';
+import { normalizeUtterance } from './intentEngine';
+
+export type VoiceInputMode = 'command' | 'dictation';
+export type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+type EditCommand =
+  | 'delete_word' | 'delete_that' | 'select_word' | 'select_sentence' | 'select_all'
+  | 'capitalise' | 'undo' | 'send' | 'stop';
+
+interface FieldSnapshot {
+  value: string;
+  start: number;
+  end: number;
+}
+
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'email', 'url', 'tel']);
+const MAX_UNDO_STEPS = 50;
+
+// Whole utterances that edit instead of being typed (matched after normalization)
+const EDIT_COMMANDS: Array<[RegExp, EditCommand]> = [
+  [/^(?:delete|remove|scratch) (?:the )?(?:last|previous) word$/, 'delete_word'],
+  [/^(?:delete|remove|scratch) (?:that|this|the selection)$/, 'delete_that'],
+  [/^select (?:the )?(?:last|previous) word$/, 'select_word'],
+  [/^select (?:the )?(?:last|previous) sentence$/, 'select_sentence'],
+  [/^select (?:all|everything)$/, 'select_all'],
+  [/^(?:capitali[sz]e|cap) (?:that|this|it)$/, 'capitalise'],
+  [/^undo(?: that| it)?$/, 'undo'],
+  [/^(?:send|submit)(?: (?:that|it|this|(?:the )?message))?$/, 'send'],
+  [/^(?:(?:stop|end|exit|leave|cancel) dictati(?:on|ng)(?: mode)?|command mode)$/, 'stop'],
+];
+
+// Spoken punctuation; surrounding spaces are absorbed the way typed punctuation sits
+const SPOKEN_PUNCTUATION: Array<[RegExp, string]> = [
+  [/\s*\bnew paragraph\b\s*/gi, '\n\n'],
+  [/\s*\b(?:new|next) line\b\s*/gi, '\n'],
+  [/\s*\b(?:full stop|period)\b/gi, '.'],
+  [/\s*\bcomma\b/gi, ','],
+  [/\s*\bquestion mark\b/gi, '?'],
+  [/\s*\bexclamation (?:mark|point)\b/gi, '!'],
+  [/\s*\bsemi ?colon\b/gi, ';'],
+  [/\s*\bcolon\b/gi, ':'],
+  [/\b(?:open|begin) (?:quote|quotes)\b\s*/gi, '"'],
+  [/\s*\b(?:close|end) (?:quote|quotes)\b/gi, '"'],
+  [/\bopen (?:bracket|paren|parenthesis)\b\s*/gi, '('],
+  [/\s*\bclose (?:bracket|paren|parenthesis)\b/gi, ')'],
+  [/\s*\bhyphen\b\s*/gi, '-'],
+  [/\s*\bdash\b\s*/gi, ' — '],
+];
+
+export function isTextField(element: Element | null): element is TextField {
+  if (element instanceof HTMLTextAreaElement) return !element.disabled && !element.readOnly;
+  if (element instanceof HTMLInputElement) {
+    return TEXT_INPUT_TYPES.has(element.type) && !element.disabled && !element.readOnly;
+  }
+  return false;
+}
+
+/**
+ * Replace a field's value the way typing would, so React-controlled inputs
+ * see the change, then place the selection
+ */
+export function setFieldValue(field: TextField, value: string, start = value.length, end = start): void {
+  const prototype = field instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(field, value);
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+  try {
+    field.setSelectionRange(start, end);
+  } catch {
+    // Email inputs have no selection API; the caret stays at the end
+  }
+}
+
+/**
+ * Type text at the caret, replacing any selection
+ */
+export function typeText(field: TextField, text: string): void {
+  const start = field.selectionStart ?? field.value.length;
+  const end = field.selectionEnd ?? start;
+  setFieldValue(field, field.value.slice(0, start) + text + field.value.slice(end), start + text.length);
+}
+
+/**
+ * Turn a dictated phrase into text to insert after `before`: spoken
+ * punctuation, sentence capitals and the joining space
+ */
+export function formatDictation(spoken: string, before: string): string {
+  let text = spoken.trim();
+  for (const [pattern, symbol] of SPOKEN_PUNCTUATION) {
+    text = text.replace(pattern, symbol);
+  }
+  text = text
+    .replace(/\bi\b/g, 'I')
+    .replace(/([.?!]\s+|\n)(\p{Ll})/gu, (_, gap: string, letter: string) => gap + letter.toUpperCase());
+
+  if (!before.trim() || /[.?!]\s*$|\n$/.test(before)) {
+    text = text.replace(/^(\W*)(\p{Ll})/u, (_, lead: string, letter: string) => lead + letter.toUpperCase());
+  }
+  if (before && !/[\s(]$/.test(before) && !/^[,.?!;:)\n]/.test(text)) {
+    text = ' ' + text;
+  }
+  return text;
+}
+
+export class DictationService {
+  private recognizer: SpeechRecognizer;
+  private mode: VoiceInputMode = 'command';
+  private field: TextField | null = null;
+  private fieldStyle = '';
+  private lastInsert: { start: number; end: number } | null = null;
+  private history: FieldSnapshot[] = [];
+  private audioContext: AudioContext | null = null;
+  private listeners = new Set<(mode: VoiceInputMode) => void>();
+
+  constructor() {
+    this.recognizer = new SpeechRecognizer('Dictation', true);
+    this.recognizer.setOnTranscript(text => this.handleTranscript(text));
+    this.recognizer.setOnError(error => console.warn('✍️ Dictation error:', error));
+    this.recognizer.setOnEnd(() => this.finish());
+
+    if (typeof document !== 'undefined') {
+      // Capture phase, so the mode is set before the page's own focus handlers run
+      document.addEventListener('focusin', this.handleFocusIn, true);
+      document.addEventListener('focusout', this.handleFocusOut, true);
+    }
+  }
+
+  getMode(): VoiceInputMode {
+    return this.mode;
+  }
+
+  /**
+   * Be told when voice input switches between commands and dictation
+   */
+  onModeChange(listener: (mode: VoiceInputMode) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Start dictating into a field, by default the focused one
+   */
+  start(field: Element | null = document.activeElement, language: LanguageCode = speechRecognitionBroker.getCommandLanguage()): boolean {
+    if (!isTextField(field) || !this.recognizer.isSupported()) return false;
+    if (this.field === field) return true;
+    if (this.field) this.restoreFieldStyle();
+
+    this.field = field;
+    this.fieldStyle = field.style.cssText;
+    this.lastInsert = null;
+    this.history = [];
+    field.style.cssText += 'outline: 3px solid #22c55e !important; outline-offset: 2px !important;';
+
+    if (this.mode !== 'dictation') {
+      this.recognizer.startRecording(language);
+      this.setMode('dictation');
+    }
+    console.log('✍️ Dictation started in', field.getAttribute('aria-label') || field.placeholder || field.tagName.toLowerCase());
+    return true;
+  }
+
+  /**
+   * Back to command mode
+   */
+  stop(): void {
+    if (this.mode !== 'dictation') return;
+    this.recognizer.stopRecording();
+    this.finish();
+  }
+
+  private finish() {
+    if (this.mode !== 'dictation') return;
+    this.restoreFieldStyle();
+    this.field = null;
+    this.lastInsert = null;
+    this.setMode('command');
+    console.log('✍️ Dictation stopped');
+  }
+
+  private restoreFieldStyle() {
+    if (this.field) this.field.style.cssText = this.fieldStyle;
+  }
+
+  private setMode(mode: VoiceInputMode) {
+    this.mode = mode;
+    this.playModeTone(mode);
+    this.listeners.forEach(listener => listener(mode));
+  }
+
+  // Focusing a text field while a voice feature is listening switches to dictation
+  private handleFocusIn = (event: FocusEvent) => {
+    if (this.mode === 'command' && isTextField(event.target as Element) && speechRecognitionBroker.getHolder()) {
+      this.start(event.target as Element);
+    }
+  };
+
+  private handleFocusOut = (event: FocusEvent) => {
+    if (event.target === this.field && event.relatedTarget !== this.field) {
+      this.stop();
+    }
+  };
+
+  private handleTranscript(text: string) {
+    const field = this.field;
+    if (!field) return;
+
+    const normalized = normalizeUtterance(text);
+    const command = EDIT_COMMANDS.find(([pattern]) => pattern.test(normalized))?.[1];
+    if (command) {
+      console.log('✍️ Editing command:', command);
+      this.runEditCommand(field, command);
+      return;
+    }
+
+    const start = field.selectionStart ?? field.value.length;
+    const formatted = formatDictation(text, field.value.slice(0, start));
+    this.remember(field);
+    typeText(field, formatted);
+    this.lastInsert = { start, end: start + formatted.length };
+  }
+
+  private runEditCommand(field: TextField, command: EditCommand) {
+    const { value } = field;
+    const start = field.selectionStart ?? value.length;
+    const end = field.selectionEnd ?? start;
+    const hasSelection = end > start;
+
+    switch (command) {
+      case 'delete_word': {
+        const wordStart = value.slice(0, start).search(/\S+\s*$/);
+        if (wordStart < 0) return;
+        this.edit(field, value.slice(0, wordStart) + value.slice(end), wordStart);
+        break;
+      }
+      case 'delete_that': {
+        const range = hasSelection ? { start, end } : this.lastInsert;
+        if (!range) return;
+        this.edit(field, value.slice(0, range.start) + value.slice(range.end), range.start);
+        break;
+      }
+      case 'select_word': {
+        const match = value.slice(0, start).match(/(\S+)\s*$/);
+        if (!match) return;
+        const wordStart = match.index!;
+        field.setSelectionRange(wordStart, wordStart + match[1].length);
+        break;
+      }
+      case 'select_sentence': {
+        const before = value.slice(0, start).replace(/\s+$/, '');
+        const sentence = before.match(/[^.?!\n]*[.?!]?$/)![0].replace(/^\s+/, '');
+        field.setSelectionRange(before.length - sentence.length, before.length);
+        break;
+      }
+      case 'select_all':
+        field.select();
+        break;
+      case 'capitalise': {
+        const range = hasSelection ? { start, end } : this.lastInsert;
+        if (!range) return;
+        const capitalised = value.slice(range.start, range.end)
+          .replace(/(^|\s)(\p{Ll})/gu, (_, gap: string, letter: string) => gap + letter.toUpperCase());
+        this.edit(field, value.slice(0, range.start) + capitalised + value.slice(range.end), range.start, range.end);
+        this.lastInsert = range;
+        break;
+      }
+      case 'undo': {
+        const previous = this.history.pop();
+        if (!previous) return;
+        setFieldValue(field, previous.value, previous.start, previous.end);
+        this.lastInsert = null;
+        break;
+      }
+      case 'send':
+        this.submit(field);
+        break;
+      case 'stop':
+        this.stop();
+        break;
+    }
+  }
+
+  private edit(field: TextField, value: string, start: number, end = start) {
+    this.remember(field);
+    setFieldValue(field, value, start, end);
+    this.lastInsert = null;
+  }
+
+  private remember(field: TextField) {
+    this.history.push({
+      value: field.value,
+      start: field.selectionStart ?? field.value.length,
+      end: field.selectionEnd ?? field.value.length,
+    });
+    if (this.history.length > MAX_UNDO_STEPS) this.history.shift();
+  }
+
+  /**
+   * Submit like pressing Enter: through the form if there is one, otherwise
+   * with an Enter key press for fields that handle it themselves
+   */
+  private submit(field: TextField) {
+    if (field.form) {
+      field.form.requestSubmit();
+      return;
+    }
+    for (const type of ['keydown', 'keypress', 'keyup']) {
+      field.dispatchEvent(new KeyboardEvent(type, {
+        key: 'Enter', code: 'Enter', keyCode: 13, charCode: type === 'keypress' ? 13 : 0, bubbles: true, cancelable: true
+      }));
+    }
+  }
+
+  /**
+   * Rising two-note chime entering dictation, falling leaving it
+   */
+  private playModeTone(mode: VoiceInputMode) {
+    try {
+      this.audioContext ??= new AudioContext();
+      const context = this.audioContext;
+      const notes = mode === 'dictation' ? [523, 784] : [784, 523];
+      notes.forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const startAt = context.currentTime + index * 0.12;
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.15, startAt);
+        gain.gain.exponentialRampToValueAtTime(0.001, startAt + 0.11);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(startAt);
+        oscillator.stop(startAt + 0.11);
+      });
+    } catch (error) {
+      console.warn('Could not play dictation tone:', error);
+    }
+  }
+}
+
+export const dictationService = new DictationService();
@@ -3,18 +3,39 @@
  * Advanced voice control with natural language processing and complex actions
  */
 
-interface VoiceCommand {
-  patterns: string[];
+import { parseIntent } from './intentEngine';
+import type { IntentName, IntentSlots } from './intentEngine';
+import type { AppScreen, LanguageCode } from '../types';
+import { dictationService } from './dictationService';
+import { confirmationService } from './confirmationService';
+import { actionJournal } from './actionJournal';
+import { speechRecognitionBroker, MIC_PRIORITY } from './speechRecognitionBroker';
+import type { RecognitionClient } from './speechRecognitionBroker';
+
+// An intent a command answers to; slots listed here must match exactly
+interface IntentMatcher {
+  name: IntentName;
+  slots?: IntentSlots;
+}
+
+export interface VoiceCommand {
+  patterns: string[];           // Example phrases; also matched literally for custom commands
+  intents?: IntentMatcher[];    // Matched through the shared intent grammar
   action: (params?: any) => void;
   description: string;
   category: 'navigation' | 'interaction' | 'accessibility' | 'system' | 'content';
   requiresConfirmation?: boolean;
-  parameters?: string[];
+  parameters?: Array<keyof IntentSlots>; // Slots passed to the action, in order
+  context?: AppScreen[];        // Screens the command works on; everywhere when omitted
+  modal?: string;               // Only while this modal is open
 }
 
+// Screens with a chat box: free-text commands like "search for *" would swallow what the user is saying to it
+const TEXT_ENTRY_SCREENS: AppScreen[] = ['chat'];
+
 interface VoiceSettings {
   enabled: boolean;
-  language: string;
+  language: string;             // Spoken feedback; recognition follows the broker's command language
   continuous: boolean;
   interimResults: boolean;
   maxAlternatives: number;
@@ -28,15 +49,16 @@ interface VoiceSettings {
 
 export class EnhancedVoiceCommandService {
   private settings: VoiceSettings;
-  private recognition: any = null; // SpeechRecognition varies by browser
+  private recognition: RecognitionClient | null = null;
   private synthesis: SpeechSynthesis | null = null;
   // Removed isListening as it's managed by the indicator state
-  private commands: Map<string, VoiceCommand> = new Map();
+  private commands: VoiceCommand[] = [];
+  private screen: AppScreen | null = null;
+  private activeModal: string | null = null;
   private lastCommand: string = '';
   private commandHistory: string[] = [];
-  private isAwaitingConfirmation = false;
-  private pendingCommand: (() => void) | null = null;
   private voiceIndicator: HTMLElement | null = null;
+  private executedListeners = new Set<(transcript: string, command: VoiceCommand) => void>();
 
   constructor() {
     this.settings = {
@@ -72,17 +94,15 @@ export class EnhancedVoiceCommandService {
    * Setup speech recognition
    */
   private setupSpeechRecognition() {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (!SpeechRecognition) {
+    if (!speechRecognitionBroker.isSupported()) {
       console.warn('Speech recognition not supported in this browser');
       return;
     }
 
-    this.recognition = new SpeechRecognition();
+    // Continuous sessions are restarted by the broker while commands are enabled
+    this.recognition = speechRecognitionBroker.createClient('Voice commands', MIC_PRIORITY.commands);
     this.recognition.continuous = this.settings.continuous;
     this.recognition.interimResults = this.settings.interimResults;
-    this.recognition.lang = this.settings.language;
     this.recognition.maxAlternatives = this.settings.maxAlternatives;
 
     this.recognition.onstart = () => {
@@ -92,18 +112,9 @@ export class EnhancedVoiceCommandService {
 
     this.recognition.onend = () => {
       this.updateVoiceIndicator('idle');
-      
-      // Restart recognition if enabled and continuous
-      if (this.settings.enabled && this.settings.continuous) {
-        setTimeout(() => {
-          if (this.settings.enabled) {
-            this.recognition.start();
-          }
-        }, 100);
-      }
     };
 
-    this.recognition.onresult = (event: any) => {
+    this.recognition.onresult = event => {
       const result = event.results[event.resultIndex];
       const transcript = result[0].transcript.toLowerCase().trim();
       const confidence = result[0].confidence;
@@ -113,18 +124,9 @@ export class EnhancedVoiceCommandService {
       }
     };
 
-    this.recognition.onerror = (event: any) => {
+    this.recognition.onerror = event => {
       console.warn('Voice recognition error:', event.error);
       this.updateVoiceIndicator('error');
-      
-      // Restart after error if enabled
-      if (this.settings.enabled && event.error !== 'not-allowed') {
-        setTimeout(() => {
-          if (this.settings.enabled) {
-            this.recognition.start();
-          }
-        }, 1000);
-      }
     };
   }
 
@@ -145,18 +147,21 @@ export class EnhancedVoiceCommandService {
       // Navigation commands
       {
         patterns: ['go back', 'navigate back', 'back'],
+        intents: [{ name: 'navigate', slots: { direction: 'back' } }],
         action: () => window.history.back(),
         description: 'Navigate to previous page',
         category: 'navigation'
       },
       {
         patterns: ['go forward', 'navigate forward', 'forward'],
+        intents: [{ name: 'navigate', slots: { direction: 'forward' } }],
         action: () => window.history.forward(),
         description: 'Navigate to next page',
         category: 'navigation'
       },
       {
         patterns: ['refresh page', 'reload page', 'refresh'],
+        intents: [{ name: 'navigate', slots: { target: 'refresh' } }],
         action: () => window.location.reload(),
         description: 'Refresh current page',
         category: 'navigation',
@@ -164,24 +169,30 @@ export class EnhancedVoiceCommandService {
       },
       {
         patterns: ['scroll up', 'page up'],
-        action: () => window.scrollBy(0, -300),
+        intents: [{ name: 'scroll', slots: { direction: 'up' } }],
+        action: (amount = 1) => window.scrollBy(0, -300 * amount),
         description: 'Scroll up on page',
-        category: 'navigation'
+        category: 'navigation',
+        parameters: ['amount']
       },
       {
         patterns: ['scroll down', 'page down'],
-        action: () => window.scrollBy(0, 300),
+        intents: [{ name: 'scroll', slots: { direction: 'down' } }],
+        action: (amount = 1) => window.scrollBy(0, 300 * amount),
         description: 'Scroll down on page',
-        category: 'navigation'
+        category: 'navigation',
+        parameters: ['amount']
       },
       {
         patterns: ['scroll to top', 'go to top'],
+        intents: [{ name: 'scroll', slots: { direction: 'top' } }],
         action: () => window.scrollTo(0, 0),
         description: 'Scroll to top of page',
         category: 'navigation'
       },
       {
         patterns: ['scroll to bottom', 'go to bottom'],
+        intents: [{ name: 'scroll', slots: { direction: 'bottom' } }],
         action: () => window.scrollTo(0, document.body.scrollHeight),
         description: 'Scroll to bottom of page',
         category: 'navigation'
@@ -190,57 +201,75 @@ export class EnhancedVoiceCommandService {
       // Interaction commands
       {
         patterns: ['click', 'activate', 'press', 'select'],
+        // Only a bare "click": a named target is for the element-matching voice boxes
+        intents: [{ name: 'click', slots: { target: undefined } }],
         action: () => this.clickFocusedElement(),
         description: 'Click the currently focused element',
         category: 'interaction'
       },
       {
         patterns: ['next element', 'tab forward', 'next'],
+        intents: [{ name: 'focus', slots: { direction: 'next' } }],
         action: () => this.focusNext(),
         description: 'Focus next interactive element',
         category: 'interaction'
       },
       {
         patterns: ['previous element', 'tab backward', 'previous'],
+        intents: [{ name: 'focus', slots: { direction: 'previous' } }],
         action: () => this.focusPrevious(),
         description: 'Focus previous interactive element',
         category: 'interaction'
       },
       {
         patterns: ['focus first', 'go to first'],
+        intents: [{ name: 'focus', slots: { direction: 'first' } }],
         action: () => this.focusFirst(),
         description: 'Focus first interactive element',
         category: 'interaction'
       },
       {
         patterns: ['focus last', 'go to last'],
+        intents: [{ name: 'focus', slots: { direction: 'last' } }],
         action: () => this.focusLast(),
         description: 'Focus last interactive element',
         category: 'interaction'
       },
 
+      {
+        patterns: ['start dictation', 'dictate'],
+        intents: [{ name: 'dictate', slots: { change: 'on' } }],
+        action: () => dictationService.start(),
+        description: 'Dictate into the focused text field',
+        category: 'interaction'
+      },
+
       // Content interaction
       {
         patterns: ['find *', 'search for *', 'look for *'],
+        intents: [{ name: 'find' }, { name: 'search' }],
         action: (text: string) => this.findTextOnPage(text),
         description: 'Find text on the current page',
         category: 'content',
-        parameters: ['text']
+        parameters: ['target']
       },
       {
         patterns: ['read page', 'read content', 'read all'],
+        intents: [{ name: 'read', slots: { target: 'page' } }],
         action: () => this.readPageContent(),
         description: 'Read the main content of the page aloud',
         category: 'content'
       },
       {
         patterns: ['read selected', 'read selection'],
+        intents: [{ name: 'read', slots: { target: 'selection' } }],
         action: () => this.readSelectedText(),
         description: 'Read currently selected text aloud',
         category: 'content'
       },
       {
         patterns: ['stop reading', 'stop speech', 'be quiet'],
+        intents: [{ name: 'stop_speech' }],
         action: () => this.stopSpeech(),
         description: 'Stop current speech synthesis',
         category: 'content'
@@ -249,36 +278,42 @@ export class EnhancedVoiceCommandService {
       // Accessibility commands
       {
         patterns: ['enable high contrast', 'turn on high contrast'],
+        intents: [{ name: 'toggle_feature', slots: { setting: 'highContrast', change: 'on' } }],
         action: () => this.toggleAccessibilityFeature('highContrast', true),
         description: 'Enable high contrast mode',
         category: 'accessibility'
       },
       {
         patterns: ['disable high contrast', 'turn off high contrast'],
+        intents: [{ name: 'toggle_feature', slots: { setting: 'highContrast', change: 'off' } }],
         action: () => this.toggleAccessibilityFeature('highContrast', false),
         description: 'Disable high contrast mode',
         category: 'accessibility'
       },
       {
         patterns: ['increase font size', 'make text larger', 'bigger text'],
+        intents: [{ name: 'adjust_setting', slots: { setting: 'fontSize', change: 'increase' } }],
         action: () => this.adjustFontSize('increase'),
         description: 'Increase font size',
         category: 'accessibility'
       },
       {
         patterns: ['decrease font size', 'make text smaller', 'smaller text'],
+        intents: [{ name: 'adjust_setting', slots: { setting: 'fontSize', change: 'decrease' } }],
         action: () => this.adjustFontSize('decrease'),
         description: 'Decrease font size',
         category: 'accessibility'
       },
       {
         patterns: ['enable dark mode', 'turn on dark mode'],
+        intents: [{ name: 'toggle_feature', slots: { setting: 'darkMode', change: 'on' } }],
         action: () => this.toggleAccessibilityFeature('darkMode', true),
         description: 'Enable dark mode',
         category: 'accessibility'
       },
       {
         patterns: ['disable dark mode', 'turn off dark mode'],
+        intents: [{ name: 'toggle_feature', slots: { setting: 'darkMode', change: 'off' } }],
         action: () => this.toggleAccessibilityFeature('darkMode', false),
         description: 'Disable dark mode',
         category: 'accessibility'
@@ -287,35 +322,57 @@ export class EnhancedVoiceCommandService {
       // System commands
       {
         patterns: ['help', 'show commands', 'what can I say'],
+        intents: [{ name: 'help' }],
         action: () => this.showAvailableCommands(),
         description: 'Show available voice commands',
         category: 'system'
       },
       {
         patterns: ['repeat last command', 'do that again'],
+        intents: [{ name: 'repeat' }],
         action: () => this.repeatLastCommand(),
         description: 'Repeat the last executed command',
         category: 'system'
       },
+      {
+        patterns: ['undo that', 'undo'],
+        intents: [{ name: 'undo' }],
+        action: () => actionJournal.undo(),
+        description: 'Undo the last setting change or screen change',
+        category: 'system'
+      },
+      {
+        patterns: ['redo that', 'redo'],
+        intents: [{ name: 'redo' }],
+        action: () => actionJournal.redo(),
+        description: 'Redo the last undone change',
+        category: 'system'
+      },
+      {
+        patterns: ['switch to hindi', 'switch to english'],
+        intents: [{ name: 'set_language' }],
+        action: (language: LanguageCode) => speechRecognitionBroker.setCommandLanguage(language),
+        description: 'Switch the voice command language (Hindi or English)',
+        category: 'system',
+        parameters: ['target']
+      },
       {
         patterns: ['yes', 'confirm', 'do it'],
-        action: () => this.confirmPendingCommand(),
+        intents: [{ name: 'confirm' }],
+        action: () => confirmationService.answer(true, 'voice'),
         description: 'Confirm pending action',
         category: 'system'
       },
       {
         patterns: ['no', 'cancel', 'never mind'],
-        action: () => this.cancelPendingCommand(),
+        intents: [{ name: 'cancel' }],
+        action: () => confirmationService.answer(false, 'voice'),
         description: 'Cancel pending action',
         category: 'system'
       }
     ];
 
-    defaultCommands.forEach(command => {
-      command.patterns.forEach(pattern => {
-        this.commands.set(pattern, command);
-      });
-    });
+    this.commands.push(...defaultCommands);
 
     console.log(`📚 Registered ${defaultCommands.length} default voice commands`);
   }
@@ -403,12 +460,6 @@ export class EnhancedVoiceCommandService {
     // Remove wake word from transcript
     const cleanTranscript = transcript.replace(this.settings.wakeWord, '').trim();
     
-    // Handle confirmation responses
-    if (this.isAwaitingConfirmation) {
-      this.handleConfirmationResponse(cleanTranscript);
-      return;
-    }
-
     // Find matching command
     const matchedCommand = this.findMatchingCommand(cleanTranscript);
     
@@ -427,35 +478,91 @@ export class EnhancedVoiceCommandService {
   }
 
   /**
-   * Find matching command from transcript
+   * Whether a command applies to the current screen and modal. An open modal
+   * covers the screen beneath it, so that screen's own commands are paused.
+   * Global free-text commands are paused on screens with a chat box.
+   */
+  private isAvailable(command: VoiceCommand): boolean {
+    if (command.modal) return command.modal === this.activeModal;
+    if (command.context) {
+      return !this.activeModal && (!this.screen || command.context.includes(this.screen));
+    }
+    if (this.screen && TEXT_ENTRY_SCREENS.includes(this.screen)) {
+      return !command.parameters?.includes('target');
+    }
+    return true;
+  }
+
+  /**
+   * Commands usable right now, most specific first: the open modal's
+   * commands, then the current screen's, then global ones
+   */
+  getAvailableCommands(): VoiceCommand[] {
+    const specificity = (command: VoiceCommand) => command.modal ? 2 : command.context ? 1 : 0;
+    return this.commands
+      .filter(command => this.isAvailable(command))
+      .sort((a, b) => specificity(b) - specificity(a));
+  }
+
+  /**
+   * Tell the service which screen is showing, so screen-scoped commands apply
+   */
+  setScreen(screen: AppScreen) {
+    this.screen = screen;
+    console.log(`🧭 Voice command screen: ${screen}`);
+  }
+
+  /**
+   * Tell the service a modal opened (or closed, with null)
+   */
+  setModal(modal: string | null) {
+    this.activeModal = modal;
+    console.log(`🧭 Voice command modal: ${modal ?? 'none'}`);
+  }
+
+  /**
+   * Find matching command from transcript: first through the intent grammar,
+   * trying its readings best first, then by the literal and wildcard patterns
+   * of every command, then by partial matches against custom commands.
+   * Only commands available on the current screen are considered, most specific first.
    */
   private findMatchingCommand(transcript: string): { command: VoiceCommand; parameters: any[] } | null {
-    // Try exact matches first
-    if (this.commands.has(transcript)) {
-      return { command: this.commands.get(transcript)!, parameters: [] };
+    const commands = this.getAvailableCommands();
+    const { alternatives } = parseIntent(transcript);
+
+    for (const intent of alternatives) {
+      const command = commands.find(candidate => candidate.intents?.some(matcher =>
+        matcher.name === intent.name &&
+        Object.entries(matcher.slots || {}).every(([slot, value]) => intent.slots[slot as keyof IntentSlots] === value)
+      ));
+      if (command) {
+        const parameters = (command.parameters || []).map(slot => intent.slots[slot]);
+        return { command, parameters };
+      }
+    }
+
+    // Patterns still count for commands with intents: not every advertised phrase parses to one
+    const exact = commands.find(command => command.patterns.includes(transcript));
+    if (exact) {
+      return { command: exact, parameters: [] };
     }
 
     // Try pattern matching with wildcards
-    for (const [pattern, command] of this.commands.entries()) {
-      if (pattern.includes('*')) {
-        const regex = new RegExp(pattern.replace('*', '(.+)'));
-        const match = transcript.match(regex);
-        
+    for (const command of commands) {
+      for (const pattern of command.patterns.filter(p => p.includes('*'))) {
+        const match = transcript.match(new RegExp(pattern.replace('*', '(.+)')));
         if (match) {
-          const parameters = match.slice(1); // Extract captured groups
-          return { command, parameters };
+          return { command, parameters: match.slice(1) };
         }
       }
     }
 
-    // Try partial matches
-    for (const [pattern, command] of this.commands.entries()) {
-      if (!pattern.includes('*') && (transcript.includes(pattern) || pattern.includes(transcript))) {
-        return { command, parameters: [] };
-      }
-    }
-
-    return null;
+    // Try partial matches, only for custom commands: short patterns like "back" would catch too much
+    const customCommands = commands.filter(command => !command.intents);
+    const partial = customCommands.find(command => command.patterns.some(pattern =>
+      !pattern.includes('*') && (transcript.includes(pattern) || pattern.includes(transcript))
+    ));
+    return partial ? { command: partial, parameters: [] } : null;
   }
 
   /**
@@ -465,85 +572,60 @@ export class EnhancedVoiceCommandService {
     this.lastCommand = transcript;
 
     if (command.requiresConfirmation && this.settings.confirmationRequired) {
-      this.pendingCommand = () => command.action(...parameters);
-      this.isAwaitingConfirmation = true;
-      
-      if (this.settings.voiceFeedback) {
-        this.speak(`Do you want to ${command.description.toLowerCase()}? Say yes to confirm or no to cancel.`);
-      }
-      
       console.log(`⏳ Awaiting confirmation for: ${command.description}`);
-    } else {
-      try {
-        command.action(...parameters);
-        
-        if (this.settings.voiceFeedback) {
-          this.speak(`${command.description} executed`);
-        }
-        
-        console.log(`✅ Executed voice command: ${command.description}`);
-      } catch (error) {
-        console.error('❌ Error executing voice command:', error);
-        if (this.settings.voiceFeedback) {
-          this.speak('Sorry, there was an error executing that command');
+      confirmationService.confirm(`Do you want to ${command.description.toLowerCase()}?`, {
+        title: 'Confirm voice command',
+      }).then(confirmed => {
+        if (confirmed) {
+          this.runCommand(command, parameters, transcript);
+        } else {
+          console.log('❌ Pending command cancelled');
         }
-      }
+      });
+    } else {
+      this.runCommand(command, parameters, transcript);
     }
   }
 
-  /**
-   * Handle confirmation response
-   */
-  private handleConfirmationResponse(transcript: string) {
-    const positiveResponses = ['yes', 'confirm', 'do it', 'proceed', 'ok', 'okay'];
-    const negativeResponses = ['no', 'cancel', 'never mind', 'stop', 'abort'];
-
-    if (positiveResponses.some(response => transcript.includes(response))) {
-      this.confirmPendingCommand();
-    } else if (negativeResponses.some(response => transcript.includes(response))) {
-      this.cancelPendingCommand();
-    } else {
+  private runCommand(command: VoiceCommand, parameters: unknown[], transcript: string) {
+    try {
+      command.action(...parameters);
+      this.notifyExecuted(transcript, command);
+      
+      if (this.settings.voiceFeedback) {
+        this.speak(`${command.description} executed`);
+      }
+      
+      console.log(`✅ Executed voice command: ${command.description}`);
+    } catch (error) {
+      console.error('❌ Error executing voice command:', error);
       if (this.settings.voiceFeedback) {
-        this.speak('Please say yes to confirm or no to cancel');
+        this.speak('Sorry, there was an error executing that command');
       }
     }
   }
 
+  private notifyExecuted(transcript: string, command: VoiceCommand) {
+    this.executedListeners.forEach(listener => listener(transcript, command));
+  }
+
   /**
-   * Confirm pending command
+   * Be told about every command that runs, with the words that triggered it
    */
-  private confirmPendingCommand() {
-    if (this.pendingCommand) {
-      try {
-        this.pendingCommand();
-        if (this.settings.voiceFeedback) {
-          this.speak('Command confirmed and executed');
-        }
-        console.log('✅ Pending command confirmed and executed');
-      } catch (error) {
-        console.error('❌ Error executing confirmed command:', error);
-        if (this.settings.voiceFeedback) {
-          this.speak('Sorry, there was an error executing the command');
-        }
-      }
-    }
-
-    this.isAwaitingConfirmation = false;
-    this.pendingCommand = null;
+  onCommandExecuted(listener: (transcript: string, command: VoiceCommand) => void): () => void {
+    this.executedListeners.add(listener);
+    return () => { this.executedListeners.delete(listener); };
   }
 
   /**
-   * Cancel pending command
+   * Run a command from its words, as if spoken without the wake word.
+   * Returns false when no command matches.
    */
-  private cancelPendingCommand() {
-    this.isAwaitingConfirmation = false;
-    this.pendingCommand = null;
-    
-    if (this.settings.voiceFeedback) {
-      this.speak('Command cancelled');
-    }
-    
-    console.log('❌ Pending command cancelled');
+  runCommandText(text: string): boolean {
+    const matchedCommand = this.findMatchingCommand(text.toLowerCase().trim());
+    if (!matchedCommand) return false;
+    this.executeCommand(matchedCommand.command, matchedCommand.parameters, text);
+    return true;
   }
 
   /**
@@ -751,11 +833,18 @@ export class EnhancedVoiceCommandService {
    */
   private showAvailableCommands() {
     const categories = ['navigation', 'interaction', 'accessibility', 'content', 'system'];
+    const available = this.getAvailableCommands();
     let helpText = 'Available voice commands: ';
+
+    // Commands that only work here are always listed in full
+    const local = available.filter(cmd => cmd.modal || cmd.context);
+    if (local.length > 0) {
+      helpText += `On this screen: ${local.map(cmd => cmd.patterns[0]).join(', ')}. `;
+    }
     
     categories.forEach(category => {
-      const categoryCommands = Array.from(this.commands.values())
-        .filter(cmd => cmd.category === category)
+      const categoryCommands = available
+        .filter(cmd => cmd.category === category && !local.includes(cmd))
         .slice(0, 2); // Limit to 2 per category
       
       if (categoryCommands.length > 0) {
@@ -782,21 +871,23 @@ export class EnhancedVoiceCommandService {
   }
 
   /**
-   * Register custom command
+   * Register custom command; returns a function that removes it again
    */
-  registerCommand(command: VoiceCommand) {
-    command.patterns.forEach(pattern => {
-      this.commands.set(pattern, command);
-    });
-    
+  registerCommand(command: VoiceCommand): () => void {
+    this.commands.push(command);
     console.log(`📝 Registered custom voice command: ${command.description}`);
+
+    return () => {
+      this.commands = this.commands.filter(registered => registered !== command);
+      console.log(`🗑️ Removed voice command: ${command.description}`);
+    };
   }
 
   /**
-   * Remove command
+   * Remove every command answering to a pattern
    */
   removeCommand(pattern: string) {
-    this.commands.delete(pattern);
+    this.commands = this.commands.filter(command => !command.patterns.includes(pattern));
     console.log(`🗑️ Removed voice command: ${pattern}`);
   }
 
@@ -815,7 +906,6 @@ export class EnhancedVoiceCommandService {
     
     // Apply recognition settings
     if (this.recognition) {
-      this.recognition.lang = this.settings.language;
       this.recognition.continuous = this.settings.continuous;
       this.recognition.interimResults = this.settings.interimResults;
       this.recognition.maxAlternatives = this.settings.maxAlternatives;
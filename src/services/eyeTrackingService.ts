@@ -5,13 +5,15 @@
 
 // @ts-ignore - WebGazer doesn't have official TypeScript definitions
 import webgazer from 'webgazer';
+import type { SmoothingFilterConfig } from '../types';
+import { PointFilter } from '../utils/filters';
 
 interface EyeTrackingSettings {
   enabled: boolean;
   calibrationRequired: boolean;
   dwellTime: number; // milliseconds
   gazeRadius: number; // pixels
-  smoothingFactor: number; // 0-1
+  smoothingFilter: SmoothingFilterConfig;
   showGazePointer: boolean;
   enableGazeClick: boolean;
   enableGazeScroll: boolean;
@@ -33,6 +35,7 @@ export class EyeTrackingService {
   private dwellTimer: number | null = null;
   private currentTarget: Element | null = null;
   private gazeHistory: GazePoint[] = [];
+  private gazeFilter: PointFilter;
   private calibrationPoints: { x: number; y: number }[] = [];
   private currentCalibrationPoint = 0;
   private calibrationOverlay: HTMLElement | null = null;
@@ -44,7 +47,8 @@ export class EyeTrackingService {
       calibrationRequired: true,
       dwellTime: 1500, // 1.5 seconds
       gazeRadius: 50, // 50 pixel radius
-      smoothingFactor: 0.3,
+      // Gaze is noisier than the face cursor, so a lower cutoff
+      smoothingFilter: { kind: 'one-euro', minCutoff: 0.5, beta: 0.004, derivativeCutoff: 1.0 },
       showGazePointer: true,
       enableGazeClick: true,
       enableGazeScroll: true,
@@ -52,6 +56,7 @@ export class EyeTrackingService {
       confidenceThreshold: 0.5
     };
 
+    this.gazeFilter = new PointFilter(this.settings.smoothingFilter);
     this.setupCalibrationPoints();
   }
 
@@ -175,19 +180,8 @@ export class EyeTrackingService {
    * Apply smoothing filter to gaze data
    */
   private applySmoothingFilter(newPoint: GazePoint): GazePoint {
-    if (this.gazeHistory.length === 0) {
-      return newPoint;
-    }
-
-    const lastPoint = this.gazeHistory[this.gazeHistory.length - 1];
-    const factor = this.settings.smoothingFactor;
-
-    return {
-      x: lastPoint.x * (1 - factor) + newPoint.x * factor,
-      y: lastPoint.y * (1 - factor) + newPoint.y * factor,
-      timestamp: newPoint.timestamp,
-      confidence: newPoint.confidence
-    };
+    const { x, y } = this.gazeFilter.filter(newPoint, newPoint.timestamp);
+    return { ...newPoint, x, y };
   }
 
   /**
@@ -636,6 +630,9 @@ export class EyeTrackingService {
    */
   applySettings(newSettings: Partial<EyeTrackingSettings>) {
     Object.assign(this.settings, newSettings);
+    if (newSettings.smoothingFilter) {
+      this.gazeFilter = new PointFilter(this.settings.smoothingFilter);
+    }
     console.log('⚙️ Eye tracking settings updated:', this.settings);
   }
 
@@ -0,0 +1,107 @@
+/**
+ * Facial Gesture Service
+ * Recognises facial gestures (winks, brow raises, smiles, jaw shifts, held or
+ * in sequences) from each face tracking frame and performs the action the user
+ * bound to them. Actions that need the cursor or app state are handled by
+ * whoever registers for them; scrolling, back and undo are built in.
+ */
+
+import type { GestureAction, GestureBinding, GestureSettings } from '../types';
+import { DEFAULT_GESTURE_SETTINGS, GestureDetector, describeSteps, gestureScores } from '../utils/gestures';
+import type { GestureScores } from '../utils/gestures';
+import { enhancedVoiceCommandService } from './enhancedVoiceCommandService';
+import { actionJournal } from './actionJournal';
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+  'click': 'Click',
+  'right-click': 'Right-click',
+  'double-click': 'Double-click',
+  'scroll-up': 'Scroll up',
+  'scroll-down': 'Scroll down',
+  'back': 'Go back',
+  'undo': 'Undo',
+  'toggle-voice': 'Voice assistant on/off',
+  'emergency': 'Emergency',
+};
+
+export class FacialGestureService {
+  private settings: GestureSettings = DEFAULT_GESTURE_SETTINGS;
+  private detector = new GestureDetector(DEFAULT_GESTURE_SETTINGS);
+  private handlers = new Map<GestureAction, () => void>();
+  private gestureListeners = new Set<(binding: GestureBinding) => void>();
+  private scoreListeners = new Set<(scores: GestureScores) => void>();
+
+  constructor() {
+    this.setActionHandler('scroll-up', () => window.scrollBy(0, -300));
+    this.setActionHandler('scroll-down', () => window.scrollBy(0, 300));
+    // Through the voice command table, so "back" means what it means on the current screen
+    this.setActionHandler('back', () => { enhancedVoiceCommandService.runCommandText('go back'); });
+    this.setActionHandler('undo', () => { actionJournal.undo(); });
+  }
+
+  /**
+   * Use new thresholds and bindings; any half-made gesture is forgotten
+   */
+  configure(settings: GestureSettings) {
+    if (settings === this.settings) return;
+    this.settings = settings;
+    this.detector = new GestureDetector(settings);
+  }
+
+  /**
+   * Feed one face tracking frame's blendshapes
+   */
+  process(blendshapes: Record<string, number>, timeMs: number) {
+    if (!this.settings.enabled && this.scoreListeners.size === 0) return;
+
+    const scores = gestureScores(blendshapes);
+    this.scoreListeners.forEach(listener => listener(scores));
+    if (!this.settings.enabled) return;
+
+    this.detector.update(scores, timeMs).forEach(binding => this.perform(binding));
+  }
+
+  /**
+   * Handle an action; replaces the current handler. Returns a function that removes it again.
+   */
+  setActionHandler(action: GestureAction, handler: () => void): () => void {
+    this.handlers.set(action, handler);
+    return () => {
+      if (this.handlers.get(action) === handler) this.handlers.delete(action);
+    };
+  }
+
+  /**
+   * Be told about every gesture that triggered a binding
+   */
+  onGesture(listener: (binding: GestureBinding) => void): () => void {
+    this.gestureListeners.add(listener);
+    return () => { this.gestureListeners.delete(listener); };
+  }
+
+  /**
+   * Live gesture scores for every frame, e.g. to show them while tuning thresholds
+   */
+  onScores(listener: (scores: GestureScores) => void): () => void {
+    this.scoreListeners.add(listener);
+    return () => { this.scoreListeners.delete(listener); };
+  }
+
+  private perform(binding: GestureBinding) {
+    console.log(`😉 Gesture: ${describeSteps(binding.steps)} → ${GESTURE_ACTION_LABELS[binding.action]}`);
+    const handler = this.handlers.get(binding.action);
+    if (!handler) {
+      console.warn(`⚠️ Nothing handles the gesture action "${binding.action}" right now`);
+      return;
+    }
+
+    try {
+      handler();
+      this.gestureListeners.forEach(listener => listener(binding));
+    } catch (error) {
+      console.error('❌ Gesture action failed:', error);
+    }
+  }
+}
+
+export const facialGestureService = new FacialGestureService();
@@ -0,0 +1,236 @@
+/**
+ * Hindi Command Grammar
+ * Rewrites Hindi voice commands, in Devanagari or Romanized, into the English
+ * phrasing the intent engine already understands: "neeche jao" → "scroll down",
+ * "wapas jao" → "go back", "library par click karo" → "click library".
+ *
+ * Devanagari is transliterated first, and English words the hi-IN recognizer
+ * writes in Devanagari ("स्क्रॉल डाउन") are turned back into English, so mixed
+ * sentences like "high contrast chalu karo" work with either recognizer locale.
+ * Romanized spellings vary a lot ("neeche", "niche", "nichhe"), so each word is
+ * folded onto one canonical spelling before the phrase rules run.
+ */
+
+import { toLatin } from './transliteration';
+
+type Rewrite = string | ((groups: Record<string, string | undefined>) => string);
+
+// Canonical spelling → other ways it gets written or transliterated
+const HINDI_WORDS: Record<string, string[]> = {
+  niche: ['neeche', 'nichay', 'nichhe'],
+  upar: ['oopar', 'uper'],
+  jao: ['jaao', 'jayo', 'jaie'],
+  jaiye: ['jaaiye', 'jayiye'],
+  chalo: ['chalo'],
+  chaliye: ['chalie'],
+  vapas: ['wapas', 'vaapas', 'waapas', 'vapis', 'wapis'],
+  piche: ['peeche', 'pichhe', 'peechhe'],
+  age: ['aage', 'aagey', 'age'],
+  agla: ['aglaa', 'agle'],
+  pichla: ['pichlaa', 'pichhla', 'pichle'],
+  madad: ['madat'],
+  sahayata: ['sahayta', 'sahaayata', 'sahaayta'],
+  han: ['haan', 'haa', 'ha', 'haanji', 'hanji'],
+  nahin: ['naheen', 'nahi', 'nahee', 'nai'],
+  ruko: ['roko', 'rukiye', 'rukie'],
+  chup: ['chupp'],
+  padho: ['parho', 'padhiye', 'parhiye', 'padhie', 'padhe'],
+  padh: ['parh'],
+  padhkar: ['parhkar', 'padhke'],
+  sunao: ['sunaao', 'sunaiye', 'sunaie'],
+  karo: ['kro', 'karen', 'karein', 'kare'],
+  kijiye: ['keejiye', 'kijie', 'keejie'],
+  kariye: ['kariye', 'karie'],
+  kholo: ['kholiye', 'kholie', 'kholen'],
+  khojo: ['khojiye', 'khojie'],
+  dhundo: ['dhoondo', 'dhoondho', 'dhundho', 'dhundhiye', 'dhoondhiye'],
+  likho: ['likhiye', 'likhie', 'likhen'],
+  dabao: ['dabaao', 'dabaiye', 'dabaie'],
+  dikhao: ['dikhaao', 'dikhaiye', 'dikhaie'],
+  chupao: ['chhupao', 'chhupaao', 'chupaao', 'chhipao'],
+  hatao: ['hataao', 'hataiye'],
+  chalu: ['chaalu', 'chaaloo', 'chaloo'],
+  band: ['bandh', 'bund'],
+  shuru: ['shuroo', 'suru'],
+  bada: ['bara', 'badaa', 'bade', 'badha'],
+  chota: ['chhota', 'chhotaa', 'chote', 'chhote'],
+  bar: ['baar'],
+  tin: ['teen'],
+  char: ['chaar'],
+  panch: ['paanch'],
+  mein: ['me', 'mei', 'mai'],
+  bolo: ['boliye', 'bolie'],
+  angrezi: ['angreji', 'angrezee'],
+  ghar: ['ghar'],
+  phir: ['fir', 'phir'],
+  dobara: ['dobaara', 'dubara', 'dubaara'],
+  thik: ['theek', 'thik'],
+  bachao: ['bachaao', 'bachaiye'],
+  kripya: ['kripaya', 'krupya', 'krpya'],
+  chuno: ['chuniye', 'chunie'],
+  avaj: ['awaaz', 'awaz', 'aavaaz'],
+  sabse: ['sabsay'],
+  panna: ['pannaa', 'panne'],
+  akshar: ['akshara'],
+  likhavat: ['likhawat', 'likhaavat'],
+  rehne: ['rahne'],
+  mukhya: ['mukhy', 'mukhiya'],
+  prishth: ['prshth', 'prishtha', 'prshtha', 'prishta'],
+};
+
+// English words as the hi-IN recognizer spells them in Devanagari, after transliteration
+const LOANWORDS: Record<string, string[]> = {
+  scroll: ['skrol', 'skrool', 'iskrol'],
+  click: ['klik'],
+  down: ['daun'],
+  up: ['ap'],
+  back: ['baik', 'bek'],
+  settings: ['setings', 'seting', 'setingj'],
+  home: ['hom'],
+  page: ['pej'],
+  help: ['help'],
+  open: ['opan', 'open'],
+  search: ['sarch', 'sarc'],
+  type: ['taip'],
+  high: ['hai', 'haai'],
+  contrast: ['kontrast', 'kantrast'],
+  text: ['tekst'],
+  font: ['fant', 'font'],
+  size: ['saij', 'saiz'],
+  dark: ['dark'],
+  mode: ['mod'],
+  numbers: ['nambars', 'nambarj'],
+  number: ['nambar'],
+  grid: ['grid'],
+  next: ['nekst'],
+  stop: ['stop', 'istop'],
+  dictation: ['diktesan', 'dikteshan'],
+  menu: ['menu', 'mainu'],
+  on: ['on', 'an'],
+  off: ['of', 'af'],
+  english: ['inglis', 'inglish'],
+  hindi: ['hindi'],
+};
+
+// Spelling key: long vowels, w/v, aspirate and retroflex variants and doubled letters folded together
+function spellingKey(word: string): string {
+  return word
+    .replace(/aa/g, 'a')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/chh/g, 'ch')
+    .replace(/rh/g, 'dh')
+    .replace(/(.)\1+/g, '$1');
+}
+
+function buildLookup(words: Record<string, string[]>): Map<string, string> {
+  const lookup = new Map<string, string>();
+  Object.entries(words).forEach(([canonical, variants]) => {
+    [canonical, ...variants].forEach(variant => lookup.set(spellingKey(variant), canonical));
+  });
+  return lookup;
+}
+
+const HINDI_LOOKUP = buildLookup(HINDI_WORDS);
+const LOANWORD_LOOKUP = buildLookup(LOANWORDS);
+
+const DEVANAGARI = /[ऀ-ॿ]/;
+const NUMBERS: Record<string, string> = { ek: '1', do: '2', tin: '3', char: '4', panch: '5' };
+
+// Verb endings: "do it", "go"
+const DO = '(?:karo|kijiye|kariye|kar do|kar dijiye|kar dena|karna)';
+const GO = '(?:jao|jaiye|chalo|chaliye)';
+const AMOUNT = '(?<amount>ek|do|tin|char|panch|\\d+) bar';
+const LANGUAGE = '(?<language>hindi|angrezi|english)';
+
+const amountSuffix = (groups: Record<string, string | undefined>) =>
+  groups.amount ? ` ${NUMBERS[groups.amount] || groups.amount} times` : '';
+
+// Checked in order; the first matching rule rewrites the whole command
+const HINDI_RULES: Array<[RegExp, Rewrite]> = [
+  // Speech and answers
+  [new RegExp(`^(?:bolna |avaj )?(?:band ${DO}|ruko|ruk ${GO}|chup(?: ho ${GO})?|bas(?: ${DO})?)$`), 'stop'],
+  [/^(?:madad|sahayata)(?: karo| kijiye| chahiye)?$/, 'help'],
+  [/^bachao$/, 'emergency'],
+  [/^(?:han|ji han|thik hai|kar do)$/, 'yes'],
+  [/^(?:nahin|na|mat karo|rehne do|rahne do)$/, 'no'],
+  [new RegExp(`^(?:phir se|dobara)(?: ${DO})?$`), 'do that again'],
+
+  // Language of the recognizer
+  [new RegExp(`^${LANGUAGE} (?:mein|me) (?:bolo|baat karo|suno|sunie)$|^${LANGUAGE.replace('language', 'language2')} mode$`),
+    groups => `switch to ${(groups.language || groups.language2) === 'hindi' ? 'hindi' : 'english'}`],
+
+  // Scrolling and moving around
+  [new RegExp(`^sabse (?<direction>upar|niche)(?: ${GO})?$`), groups => `scroll to ${groups.direction === 'upar' ? 'top' : 'bottom'}`],
+  [new RegExp(`^(?:${AMOUNT} )?(?:scroll )?(?<direction>niche|upar|down|up)(?: scroll)?(?: ${GO}| ${DO})?(?: ${AMOUNT.replace('amount', 'amount2')})?$`),
+    groups => `scroll ${['niche', 'down'].includes(groups.direction!) ? 'down' : 'up'}${amountSuffix({ amount: groups.amount || groups.amount2 })}`],
+  [new RegExp(`^(?:vapas|undo|pehle jaisa) ${DO}$`), 'undo that'],
+  [new RegExp(`^(?:vapas|piche|back)(?: ${GO})?$`), 'go back'],
+  [new RegExp(`^age ${GO}$`), 'go forward'],
+  [new RegExp(`^(?:ghar|home|home page|main menu|mukhya prishth)(?: (?:par|pe))? ${GO}$`), 'go home'],
+  [/^(?:agla|next)(?: element)?$/, 'next element'],
+  [/^(?:pichla)(?: element)?$/, 'previous element'],
+
+  // Reading
+  [new RegExp(`^(?:page |panna |sab )?(?:padho|padhkar sunao|padh ke sunao|padh ${DO}|sunao)$`), 'read page'],
+
+  // Dictation, overlays and settings
+  [new RegExp(`^(?:dictation|bolkar likhna)(?: mode)? (?<change>shuru|chalu|on|start|band|off) ${DO}$`),
+    groups => (['band', 'off'].includes(groups.change!) ? 'stop dictation' : 'start dictation')],
+  [/^(?<overlay>number|numbers|grid) dikhao$/, groups => `show ${groups.overlay === 'grid' ? 'grid' : 'numbers'}`],
+  [/^(?:(?:number|numbers|grid) )?(?:chupao|hatao)$/, 'hide numbers'],
+  [new RegExp(`^(?:akshar|text|font|likhavat)(?: ka)?(?: size)? (?<size>bada|chota) ${DO}$`),
+    groups => `${groups.size === 'bada' ? 'increase' : 'decrease'} text size`],
+  [new RegExp(`^(?<target>.+?) (?:chalu|on|shuru|start) ${DO}$`), groups => `turn on ${groups.target}`],
+  [new RegExp(`^(?<target>.+?) (?:band|off) ${DO}$`), groups => `turn off ${groups.target}`],
+
+  // Choosing, clicking, opening, searching and typing
+  [/^(?:number )?(?<number>\d+|ek|do|tin|char|panch)(?: number)? (?:chuno|(?<press>dabao))$/,
+    groups => `${groups.press ? 'click' : 'choose'} ${NUMBERS[groups.number!] || groups.number}`],
+  [new RegExp(`^click ${DO}$`), 'click'],
+  [new RegExp(`^(?<target>.+?)(?: (?:par|pe))? click ${DO}$`), groups => `click ${groups.target}`],
+  [/^(?<target>.+?) dabao$/, groups => `click ${groups.target}`],
+  [new RegExp(`^(?<target>.+?) (?:kholo|open ${DO})$`), groups => `open ${groups.target}`],
+  [new RegExp(`^(?<target>.+?) (?:par|pe) ${GO}$`), groups => `go to ${groups.target}`],
+  [new RegExp(`^(?<target>.+?) (?:khojo|dhundo|search ${DO})$`), groups => `search for ${groups.target}`],
+  [new RegExp(`^(?<target>.+?) (?:likho|type ${DO})$`), groups => `type ${groups.target}`],
+];
+
+/**
+ * The English command a Hindi or mixed Hindi-English command means. English
+ * commands, and Hindi the rules don't cover, come back unchanged (Devanagari
+ * transliterated).
+ */
+export function translateHindiCommand(text: string): string {
+  const fromDevanagari = DEVANAGARI.test(text);
+  const latin = fromDevanagari ? toLatin(text).toLowerCase().replace(/[।॥]/g, ' ') : text;
+
+  const words = latin.split(/\s+/).filter(Boolean).map(word => {
+    const key = spellingKey(word);
+    // Loanwords only where the recognizer wrote English in Devanagari; "ap" is a Hindi word too
+    return (fromDevanagari && LOANWORD_LOOKUP.get(key)) || word;
+  });
+  const passthrough = words.join(' ').replace(/\bhai contrast\b/g, 'high contrast');
+
+  // Plain English commands keep their English meaning
+  const isHindi = fromDevanagari || words.some(word => HINDI_LOOKUP.has(spellingKey(word)));
+  if (!isHindi) return passthrough;
+
+  const canonical = words
+    .map(word => HINDI_LOOKUP.get(spellingKey(word)) || word)
+    .filter(word => word !== 'kripya' && word !== 'zara')
+    .join(' ')
+    .replace(/\bhai contrast\b/g, 'high contrast');
+
+  for (const [rule, rewrite] of HINDI_RULES) {
+    const match = rule.exec(canonical);
+    if (match) {
+      const english = typeof rewrite === 'string' ? rewrite : rewrite(match.groups || {});
+      console.log(`🇮🇳 Hindi command: "${text}" → "${english}"`);
+      return english;
+    }
+  }
+  return passthrough;
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { parseIntent } from './intentEngine';
+import type { IntentName, IntentSlots } from './intentEngine';
+
+type Case = [utterance: string, name: IntentName, slots: IntentSlots];
+
+const ENGLISH: Case[] = [
+  ['scroll down', 'scroll', { direction: 'down' }],
+  ['scroll up 3 times', 'scroll', { direction: 'up', amount: 3 }],
+  ['Scroll down twice, please.', 'scroll', { direction: 'down', amount: 2 }],
+  ['page down', 'scroll', { direction: 'down' }],
+  ['go to the top of the page', 'scroll', { direction: 'top' }],
+  ['go back', 'navigate', { direction: 'back' }],
+  ['take me home', 'navigate', { target: 'home' }],
+  ['refresh the page', 'navigate', { target: 'refresh' }],
+  ['close this screen', 'navigate', { target: 'close' }],
+  ['next element', 'focus', { direction: 'next' }],
+  ['tab backward', 'focus', { direction: 'previous' }],
+  ['focus on the search box', 'focus', { target: 'search box' }],
+  ['press enter', 'key', { target: 'Enter' }],
+  ['hit the down arrow key 2 times', 'key', { target: 'ArrowDown', amount: 2 }],
+  ['click the library button', 'click', { target: 'library' }],
+  ['click', 'click', {}],
+  ['open settings', 'click', { target: 'settings' }],
+  ['show me the library', 'click', { target: 'library' }],
+  ['show messages', 'click', { target: 'messages' }],
+  ['type hello world', 'type', { target: 'hello world' }],
+  ['search for exam results', 'search', { target: 'exam results' }],
+  ['where is the admissions link on this page', 'find', { target: 'admissions link' }],
+  ['read the page aloud', 'read', { target: 'page' }],
+  ['read selected text', 'read', { target: 'selection' }],
+  ['stop reading', 'stop_speech', {}],
+  ['turn on high contrast', 'toggle_feature', { setting: 'highContrast', change: 'on' }],
+  ['switch dark mode off', 'toggle_feature', { setting: 'darkMode', change: 'off' }],
+  ['disable animations', 'toggle_feature', { setting: 'reduceMotion', change: 'on' }],
+  ['toggle voice assistant', 'toggle_feature', { setting: 'voiceAssistant', change: 'toggle' }],
+  ['increase font size by 2', 'adjust_setting', { setting: 'fontSize', change: 'increase', amount: 2 }],
+  ['make the text smaller', 'adjust_setting', { setting: 'fontSize', change: 'decrease' }],
+  ['zoom in', 'adjust_setting', { setting: 'fontSize', change: 'increase' }],
+  ['Hey Karunya, what can I say?', 'help', {}],
+  ['call my mother', 'contact', { target: 'mother' }],
+  ['I need help', 'emergency', {}],
+  ['do that again', 'repeat', {}],
+  ['undo that', 'undo', {}],
+  ['put it back', 'undo', {}],
+  ['redo', 'redo', {}],
+  ['yes', 'confirm', {}],
+  ['never mind', 'cancel', {}],
+  ['show numbers', 'show_overlay', { target: 'numbers' }],
+  ['show the mouse grid', 'show_overlay', { target: 'grid' }],
+  ['hide the labels', 'show_overlay', { target: 'hide' }],
+  ['click 7', 'choose', { amount: 7, target: 'click' }],
+  ['tap on number 3', 'choose', { amount: 3, target: 'click' }],
+  ['pick 4', 'choose', { amount: 4 }],
+  ['12', 'choose', { amount: 12 }],
+  ['number five', 'choose', { amount: 5 }],
+  ['start dictation', 'dictate', { change: 'on' }],
+  ['stop dictating', 'dictate', { change: 'off' }],
+  ['record a macro called morning routine', 'record_macro', { target: 'morning routine' }],
+  ['save the macro', 'finish_macro', { change: 'on' }],
+  ['discard the macro', 'finish_macro', { change: 'off' }],
+  ['run the morning routine macro', 'run_macro', { target: 'morning routine' }],
+  ['switch to hindi', 'set_language', { target: 'hi' }],
+  ['could you please get started', 'start', {}],
+];
+
+const ROMANIZED_HINDI: Case[] = [
+  ['neeche jao', 'scroll', { direction: 'down' }],
+  ['niche scroll karo', 'scroll', { direction: 'down' }],
+  ['oopar jaao do baar', 'scroll', { direction: 'up', amount: 2 }],
+  ['sabse upar jao', 'scroll', { direction: 'top' }],
+  ['wapas jao', 'navigate', { direction: 'back' }],
+  ['aage chalo', 'navigate', { direction: 'forward' }],
+  ['home page par jao', 'navigate', { target: 'home' }],
+  ['agla', 'focus', { direction: 'next' }],
+  ['madad karo', 'help', {}],
+  ['bachao', 'emergency', {}],
+  ['haan', 'confirm', {}],
+  ['nahi', 'cancel', {}],
+  ['ruko', 'stop_speech', {}],
+  ['phir se karo', 'repeat', {}],
+  ['wapas karo', 'undo', {}],
+  ['padhkar sunao', 'read', { target: 'page' }],
+  ['library par click karo', 'click', { target: 'library' }],
+  ['settings kholo', 'click', { target: 'settings' }],
+  ['exam results khojo', 'search', { target: 'exam results' }],
+  ['namaste likho', 'type', { target: 'namaste' }],
+  ['high contrast chalu karo', 'toggle_feature', { setting: 'highContrast', change: 'on' }],
+  ['dark mode band karo', 'toggle_feature', { setting: 'darkMode', change: 'off' }],
+  ['akshar bada karo', 'adjust_setting', { setting: 'fontSize', change: 'increase' }],
+  ['grid dikhao', 'show_overlay', { target: 'grid' }],
+  ['teen chuno', 'choose', { amount: 3 }],
+  ['do dabao', 'choose', { amount: 2, target: 'click' }],
+  ['dictation shuru karo', 'dictate', { change: 'on' }],
+  ['english mein bolo', 'set_language', { target: 'en' }],
+];
+
+// Devanagari goes through the Hindi command grammar's transliteration first
+const DEVANAGARI: Case[] = [
+  ['नीचे जाओ', 'scroll', { direction: 'down' }],
+  ['ऊपर जाओ', 'scroll', { direction: 'up' }],
+  ['स्क्रॉल डाउन', 'scroll', { direction: 'down' }],
+  ['वापस जाओ', 'navigate', { direction: 'back' }],
+  ['मदद', 'help', {}],
+  ['बचाओ', 'emergency', {}],
+  ['हाँ', 'confirm', {}],
+  ['नहीं', 'cancel', {}],
+  ['रुको', 'stop_speech', {}],
+  ['पढ़कर सुनाओ', 'read', { target: 'page' }],
+  ['सेटिंग्स खोलो', 'click', { target: 'settings' }],
+  ['नंबर दिखाओ', 'show_overlay', { target: 'numbers' }],
+  ['हाई कॉन्ट्रास्ट चालू करो', 'toggle_feature', { setting: 'highContrast', change: 'on' }],
+];
+
+describe('parseIntent', () => {
+  const expectIntent = ([utterance, name, slots]: Case) => {
+    const { best } = parseIntent(utterance);
+    expect(best, `"${utterance}" should be understood`).not.toBeNull();
+    expect({ name: best!.name, slots: best!.slots }).toEqual({ name, slots });
+  };
+
+  describe('English', () => {
+    it.each(ENGLISH)('%s', (...testCase) => expectIntent(testCase));
+  });
+
+  describe('Romanized Hindi', () => {
+    it.each(ROMANIZED_HINDI)('%s', (...testCase) => expectIntent(testCase));
+  });
+
+  describe('Devanagari', () => {
+    it.each(DEVANAGARI)('%s', (...testCase) => expectIntent(testCase));
+  });
+
+  it('keeps other readings as lower-scored alternatives', () => {
+    const { best, alternatives } = parseIntent('go to top');
+    expect(best?.name).toBe('scroll');
+    expect(alternatives.map(intent => intent.name)).toContain('click');
+    expect(alternatives[0].score).toBeGreaterThanOrEqual(alternatives[alternatives.length - 1].score);
+  });
+
+  it('understands nothing in an empty or unrelated utterance', () => {
+    expect(parseIntent('').best).toBeNull();
+    expect(parseIntent('the weather is lovely today').best).toBeNull();
+  });
+});
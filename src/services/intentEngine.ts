@@ -0,0 +1,504 @@
+/**
+ * Intent Engine
+ * One grammar for every voice UI. An utterance becomes a typed intent with
+ * slots (target, direction, amount, setting), and every other reading the
+ * grammar allows is kept as a scored alternative. The same phrase therefore
+ * means the same thing whichever voice box is listening.
+ */
+
+import { translateHindiCommand } from './hindiCommandGrammar';
+
+export type IntentName =
+  | 'click' | 'type' | 'scroll' | 'navigate' | 'focus' | 'key' | 'search' | 'find'
+  | 'read' | 'stop_speech' | 'toggle_feature' | 'adjust_setting'
+  | 'help' | 'repeat' | 'confirm' | 'cancel' | 'emergency' | 'contact' | 'start'
+  | 'show_overlay' | 'choose' | 'dictate'
+  | 'record_macro' | 'finish_macro' | 'run_macro' | 'set_language'
+  | 'undo' | 'redo';
+
+export type Direction =
+  | 'up' | 'down' | 'left' | 'right' | 'top' | 'bottom'
+  | 'back' | 'forward' | 'next' | 'previous' | 'first' | 'last';
+
+export type SettingName =
+  | 'voiceAssistant' | 'faceTracking' | 'textToSpeech'
+  | 'highContrast' | 'darkMode' | 'reduceMotion' | 'fontSize';
+
+export type SettingChange = 'on' | 'off' | 'toggle' | 'increase' | 'decrease';
+
+export interface IntentSlots {
+  target?: string;        // Element label, text to type or find, key name, page part
+  direction?: Direction;
+  amount?: number;        // How many times, pages or steps
+  setting?: SettingName;
+  change?: SettingChange;
+}
+
+export interface Intent {
+  name: IntentName;
+  slots: IntentSlots;
+  score: number; // 0-1
+}
+
+export interface IntentParse {
+  utterance: string;
+  normalized: string;
+  best: Intent | null;    // Top alternative, if it clears MIN_INTENT_SCORE
+  alternatives: Intent[]; // Every reading the grammar allows, best first
+}
+
+type Groups = Record<string, string | undefined>;
+
+interface GrammarRule {
+  name: IntentName;
+  weight: number; // Tie-breaker between rules that match the same words
+  patterns: RegExp[];
+  // Turns the named groups of a match into slots; null rejects the match
+  slots?: (groups: Groups) => IntentSlots | null;
+}
+
+export const MIN_INTENT_SCORE = 0.6;
+// Share of the score that depends on how much of the utterance the pattern covers
+const COVERAGE_WEIGHT = 0.4;
+
+// ===== NORMALIZATION =====
+
+const WAKE_WORDS = /\b(?:hey |hi |ok |okay )?(?:karunya|nullistant)\b/g;
+const FILLER_WORDS = /\b(?:uh+|um+|er+|erm|hmm+|please|kindly|just)\b/g;
+const POLITE_PREFIX = /^(?:can you|could you|would you|will you|i want to|i would like to|i'd like to|let's|lets)\s+/;
+// Known speech recognition artifact from the face tracking "mouth open" click gesture
+const RECOGNITION_ARTIFACTS = /click more to mouth open/g;
+
+const NUMBER_WORDS: Record<string, string> = {
+  one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9', ten: '10',
+  once: '1 times', twice: '2 times', thrice: '3 times',
+};
+
+/**
+ * Lowercase, drop wake words, fillers, politeness and punctuation, and turn
+ * spoken numbers into digits. Hindi commands, Devanagari or Romanized, are
+ * rewritten into their English equivalents first.
+ */
+export function normalizeUtterance(utterance: string): string {
+  let text = utterance.toLowerCase()
+    .replace(RECOGNITION_ARTIFACTS, ' ')
+    .replace(WAKE_WORDS, ' ')
+    .replace(/[-_]/g, ' ')
+    .replace(/[.,!?;:"।॥]+/g, ' ')
+    .replace(FILLER_WORDS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  text = translateHindiCommand(text)
+    .replace(/\ba couple(?: of)?\b/g, '2')
+    .replace(/\ba few\b/g, '3')
+    .replace(/\b[a-z]+\b/g, word => NUMBER_WORDS[word] || word)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let previous = '';
+  while (previous !== text) {
+    previous = text;
+    text = text.replace(POLITE_PREFIX, '');
+  }
+  return text;
+}
+
+// ===== GRAMMAR =====
+
+const AMOUNT = String.raw`(?: (?:by )?(?<amount>\d+)(?: (?:times|pages?|screens?|steps?|items?|elements?))?)?`;
+
+const FEATURE_WORDS: Array<[string, SettingName]> = [
+  ['voice assistant', 'voiceAssistant'], ['voice control', 'voiceAssistant'], ['voice commands', 'voiceAssistant'],
+  ['voice command', 'voiceAssistant'], ['assistant', 'voiceAssistant'], ['listening', 'voiceAssistant'],
+  ['voice', 'voiceAssistant'],
+  ['face tracking', 'faceTracking'], ['head tracking', 'faceTracking'], ['tracking', 'faceTracking'],
+  ['cursor', 'faceTracking'], ['face', 'faceTracking'], ['head', 'faceTracking'],
+  ['text to speech', 'textToSpeech'], ['screen reader', 'textToSpeech'], ['narrator', 'textToSpeech'],
+  ['tts', 'textToSpeech'], ['speech', 'textToSpeech'],
+  ['high contrast', 'highContrast'], ['contrast', 'highContrast'],
+  ['dark mode', 'darkMode'], ['dark theme', 'darkMode'], ['night mode', 'darkMode'], ['dark', 'darkMode'],
+  ['reduced motion', 'reduceMotion'], ['reduce motion', 'reduceMotion'], ['motion', 'reduceMotion'],
+  ['animations', 'reduceMotion'], ['animation', 'reduceMotion'],
+];
+// Turning animations off means turning reduced motion on
+const INVERTED_FEATURES = new Set(['animations', 'animation']);
+const FEATURE = `(?<feature>${FEATURE_WORDS.map(([words]) => words).join('|')})`;
+const TURN_ON = '(?<on>enable|turn on|switch on|activate|start|use)';
+const TURN_OFF = '(?<off>disable|turn off|switch off|deactivate|stop)';
+
+const INCREASE_WORDS = new Set(['increase', 'enlarge', 'bigger', 'larger', 'raise', 'in']);
+
+const KEY_NAMES: Record<string, string> = {
+  enter: 'Enter', return: 'Enter', escape: 'Escape', esc: 'Escape', tab: 'Tab',
+  space: ' ', spacebar: ' ', backspace: 'Backspace', delete: 'Delete', home: 'Home', end: 'End',
+  'page up': 'PageUp', 'page down': 'PageDown',
+  'up arrow': 'ArrowUp', 'down arrow': 'ArrowDown', 'left arrow': 'ArrowLeft', 'right arrow': 'ArrowRight',
+  'arrow up': 'ArrowUp', 'arrow down': 'ArrowDown', 'arrow left': 'ArrowLeft', 'arrow right': 'ArrowRight',
+  up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight',
+};
+const KEY = `(?<key>${Object.keys(KEY_NAMES).sort((a, b) => b.length - a.length).join('|')})`;
+
+const HOME_WORDS = '(?<home>home|home page|home screen|main menu|main screen|menu|main)';
+
+const pattern = (source: string) => new RegExp(source);
+
+const amountOf = (groups: Groups): IntentSlots => (groups.amount ? { amount: Number(groups.amount) } : {});
+
+const GRAMMAR: GrammarRule[] = [
+  {
+    name: 'confirm',
+    weight: 1,
+    patterns: [/^(?:yes|yeah|yep|yup|sure|ok|okay|confirm|do it|go ahead|proceed)$/],
+  },
+  {
+    name: 'cancel',
+    weight: 1,
+    patterns: [/^(?:no|nope|cancel|never mind|nevermind|abort|forget it)$/],
+  },
+  {
+    name: 'stop_speech',
+    weight: 1,
+    patterns: [/^(?:stop|pause) (?:reading|speaking|talking|speech)$/, /^(?:be quiet|quiet|silence|shut up|stop)$/],
+  },
+  {
+    name: 'help',
+    weight: 1,
+    patterns: [
+      /^help(?: me)?$/,
+      /^what can i (?:say|do)$/,
+      /^(?:show|list|tell me)(?: the| all)?(?: available)?(?: voice)? commands$/,
+      /^(?:available )?(?:voice )?commands$/,
+      /\bhow do i use (?:this|voice|you)\b/,
+    ],
+  },
+  {
+    name: 'emergency',
+    weight: 1,
+    patterns: [
+      /\b(?:emergency|sos|mayday|911)\b/,
+      /\bsave me\b/,
+      /\b(?:call|get|need) (?:an )?ambulance\b/,
+      /\bi need (?:urgent )?help\b/,
+      /\b(?:urgent|danger|crisis)\b/,
+    ],
+  },
+  {
+    name: 'contact',
+    weight: 0.95,
+    patterns: [/^(?:call|phone|dial|ring|contact)(?: my| the| a)? (?<target>.+)$/],
+    slots: groups => ({ target: groups.target }),
+  },
+  {
+    name: 'repeat',
+    weight: 1,
+    patterns: [/^(?:repeat|do (?:that|it) again|again|1 more time)(?: (?:that|the last command|my last command|last command))?$/],
+  },
+  {
+    // Step through the action journal
+    name: 'undo',
+    weight: 1,
+    patterns: [
+      /^(?:undo|revert|reverse|take back)(?: (?:that|it|this|the last (?:action|change)|last (?:action|change)|what i did))?$/,
+      /^(?:put it|change it|set it|switch it) back$/,
+    ],
+  },
+  {
+    name: 'redo',
+    weight: 1,
+    patterns: [/^redo(?: (?:that|it|this|the last (?:action|change)|last (?:action|change)))?$/],
+  },
+  {
+    name: 'start',
+    weight: 0.95,
+    patterns: [
+      /^(?:start|begin|get started|continue|enter|launch)(?: the)?(?: (?:university )?(?:portal|app|application|menu))?$/,
+      /^(?:enter|open|go to) (?:the )?university portal$/,
+    ],
+  },
+  {
+    name: 'toggle_feature',
+    weight: 1,
+    patterns: [
+      pattern(`^(?:${TURN_ON}|${TURN_OFF}|(?<toggle>toggle)) (?:the |my )?${FEATURE}(?: mode| feature)?$`),
+      pattern(`^(?:turn|switch|set) (?:the |my )?${FEATURE}(?: mode| feature)? (?<state>on|off)$`),
+      pattern(`\\b(?:${TURN_ON}|${TURN_OFF}) (?:.* )?${FEATURE}\\b`),
+    ],
+    slots: groups => {
+      const feature = groups.feature!;
+      const setting = FEATURE_WORDS.find(([words]) => words === feature)![1];
+      let change: SettingChange = groups.toggle ? 'toggle' : (groups.on || groups.state === 'on') ? 'on' : 'off';
+      if (INVERTED_FEATURES.has(feature) && change !== 'toggle') change = change === 'on' ? 'off' : 'on';
+      return { setting, change };
+    },
+  },
+  {
+    name: 'adjust_setting',
+    weight: 1,
+    patterns: [
+      pattern(`^(?<change>increase|enlarge|raise|decrease|reduce|shrink|lower)(?: the)? (?:font|text)(?: size)?${AMOUNT}$`),
+      /^make (?:the )?(?:text|font|everything) (?<change>bigger|larger|smaller)$/,
+      /^(?<change>bigger|larger|smaller) (?:text|font)$/,
+      /^zoom (?<change>in|out)$/,
+    ],
+    slots: groups => ({
+      setting: 'fontSize',
+      change: INCREASE_WORDS.has(groups.change!) ? 'increase' : 'decrease',
+      ...amountOf(groups),
+    }),
+  },
+  {
+    name: 'scroll',
+    weight: 1,
+    patterns: [
+      pattern(`^scroll(?: (?<direction>up|down|left|right))?(?: a (?:bit|little))?${AMOUNT}$`),
+      pattern(`^page (?<direction>up|down)${AMOUNT}$`),
+      /^(?:scroll|go|jump|move) to (?:the )?(?<direction>top|bottom)(?: of (?:the )?page)?$/,
+      /\bscroll(?:ing)? (?<direction>up|down)\b/,
+    ],
+    slots: groups => ({ direction: (groups.direction as Direction) || 'down', ...amountOf(groups) }),
+  },
+  {
+    name: 'navigate',
+    weight: 1,
+    patterns: [
+      /^(?:go |navigate |move )?(?<direction>back|forward)(?: (?:a|one) page)?$/,
+      /^previous page$/,
+      pattern(`^(?:go |navigate |take me )?(?:back )?(?:to )?(?:the )?${HOME_WORDS}$`),
+      pattern(`^(?:back|return) to (?:the )?${HOME_WORDS}$`),
+      /^(?<refresh>refresh|reload)(?: (?:the |this )?page)?$/,
+      /^(?<close>close|exit|leave|quit)(?: (?:this|the))?(?: (?:screen|page|chat|window|dialog))?$/,
+      /^get (?:me )?(?<close>out)(?: of here)?$/,
+    ],
+    slots: groups => {
+      if (groups.home) return { target: 'home' };
+      if (groups.refresh) return { target: 'refresh' };
+      if (groups.close) return { target: 'close' };
+      return { direction: (groups.direction as Direction) || 'back' };
+    },
+  },
+  {
+    name: 'focus',
+    weight: 0.95,
+    patterns: [
+      pattern(`^(?:go to |focus |move to )?(?:the )?(?<direction>next|previous)(?: (?:element|item|button|link|field|one))?${AMOUNT}$`),
+      /^tab (?<direction>forward|backward|back)$/,
+      /^(?:focus|go to)(?: the)? (?<direction>first|last)(?: (?:element|item|button|link|field))?$/,
+      /^focus (?:on )?(?:the )?(?<target>.+)$/,
+    ],
+    slots: groups => {
+      if (groups.target) return { target: groups.target };
+      const direction = groups.direction === 'forward' ? 'next'
+        : groups.direction === 'backward' || groups.direction === 'back' ? 'previous'
+          : groups.direction as Direction;
+      return { direction, ...amountOf(groups) };
+    },
+  },
+  {
+    name: 'key',
+    weight: 1,
+    patterns: [
+      pattern(`^(?:press|hit|push|tap)(?: the)? ${KEY}(?: key)?${AMOUNT}$`),
+      pattern(`^${KEY} key$`),
+    ],
+    slots: groups => ({ target: KEY_NAMES[groups.key!], ...amountOf(groups) }),
+  },
+  {
+    name: 'type',
+    weight: 1,
+    patterns: [/^(?:type|write|dictate|input)(?: in| out)? (?<target>.+)$/],
+    slots: groups => ({ target: groups.target }),
+  },
+  {
+    name: 'search',
+    weight: 0.95,
+    patterns: [/^(?:search|look up|google)(?: for)? (?<target>.+)$/],
+    slots: groups => ({ target: groups.target }),
+  },
+  {
+    name: 'find',
+    weight: 0.95,
+    patterns: [/^(?:find|look for|locate|where is|where's)(?: the)? (?<target>.+?)(?: on (?:this|the) page)?$/],
+    slots: groups => ({ target: groups.target }),
+  },
+  {
+    name: 'read',
+    weight: 1,
+    patterns: [
+      /^read(?: out| aloud)?(?: the| this| my)? (?<target>page|content|everything|all|screen|selection|selected|selected text|this)(?: aloud| out loud)?$/,
+    ],
+    slots: groups => ({ target: groups.target!.startsWith('select') ? 'selection' : 'page' }),
+  },
+  {
+    // Switching the focused text field between commands and dictation
+    name: 'dictate',
+    weight: 1,
+    patterns: [
+      /^(?:start |begin |enter )?(?:dictation|dictating)(?: mode)?$/,
+      /^(?:start )?dictate$/,
+      /^(?<stop>stop|end|exit|leave|cancel) dictati(?:on|ng)(?: mode)?$/,
+    ],
+    slots: groups => ({ change: groups.stop ? 'off' : 'on' }),
+  },
+  {
+    name: 'record_macro',
+    weight: 1,
+    patterns: [/^(?:start |begin )?record(?:ing)? (?:a )?(?:new )?macro(?: called| named)? (?<target>.+)$/],
+    slots: groups => ({ target: groups.target }),
+  },
+  {
+    // Saving ends the recording with change "on", discarding with "off"
+    name: 'finish_macro',
+    weight: 1,
+    patterns: [
+      /^(?:stop|finish|end|save) (?:the )?(?:macro(?: recording)?|recording(?: (?:the )?macro)?)$/,
+      /^(?<discard>cancel|discard|forget)(?: recording)?(?: the)? macro(?: recording)?$/,
+    ],
+    slots: groups => ({ change: groups.discard ? 'off' : 'on' }),
+  },
+  {
+    name: 'run_macro',
+    weight: 1,
+    patterns: [
+      /^(?:run|play|replay|do)(?: the)? macro(?: called| named)? (?<target>.+)$/,
+      /^(?:run|play|replay)(?: the)? (?<target>.+?) macro$/,
+    ],
+    slots: groups => ({ target: groups.target }),
+  },
+  {
+    // Command language; the target is the language code the recognizer switches to
+    name: 'set_language',
+    weight: 1,
+    patterns: [
+      /^(?:switch|change)(?: the)?(?: voice| command)?(?: language)? to (?<language>hindi|english)$/,
+      /^(?<language>hindi|english) (?:mode|language|commands)$/,
+      /^(?:speak|talk|listen)(?: to me)? in (?<language>hindi|english)$/,
+    ],
+    slots: groups => ({ target: groups.language === 'hindi' ? 'hi' : 'en' }),
+  },
+  {
+    // Numbered click targets: "show numbers" badges elements, "show grid" splits the screen
+    name: 'show_overlay',
+    weight: 1,
+    patterns: [
+      /^(?:show|display|turn on)(?: the)? (?<overlay>numbers|number labels|labels|grid|mouse grid)$/,
+      /^(?<hide>hide|remove|clear|close|turn off)(?: the)? (?:numbers|number labels|labels|grid|mouse grid|overlay)$/,
+    ],
+    slots: groups => ({ target: groups.hide ? 'hide' : groups.overlay!.includes('grid') ? 'grid' : 'numbers' }),
+  },
+  {
+    // Picking a badge or grid cell; outranks "click <target>" so "click 7" means number 7.
+    // A click verb sets target "click": on the grid that clicks the square instead of zooming in
+    name: 'choose',
+    weight: 1,
+    patterns: [/^(?:(?:(?<click>click|tap|press)|select|choose|pick)(?: on)? )?(?:number )?(?<number>\d+)$/],
+    slots: groups => ({ amount: Number(groups.number), ...(groups.click ? { target: 'click' } : {}) }),
+  },
+  {
+    name: 'click',
+    weight: 0.9,
+    patterns: [
+      /^(?:click|tap|press|select|choose|activate|hit|push)(?: on)?(?: the)? (?<target>.+?)(?: button| link| tab| option)?$/,
+      /^(?:click|tap|press|select|activate)(?: it| this| that)?$/,
+      /\b(?:click|tap|press)(?: on)?(?: the)? (?<target>[a-z0-9 ]+?)(?: button| link)?$/,
+    ],
+    slots: groups => (groups.target ? { target: groups.target } : {}),
+  },
+  {
+    // Opening something by name: lower weight so specific commands win ("go to top" scrolls)
+    name: 'click',
+    weight: 0.85,
+    patterns: [/^(?:open|launch|show(?: me)?|go to)(?: the| my)? (?<target>.+?)(?: page| section| screen| button)?$/],
+    slots: groups => ({ target: groups.target }),
+  },
+];
+
+function slotsKey(intent: Intent): string {
+  return `${intent.name}:${JSON.stringify(intent.slots)}`;
+}
+
+/**
+ * Parse an utterance against the shared grammar. Each rule contributes its
+ * best-scoring pattern; a pattern's score is the rule weight scaled by how
+ * much of the utterance it covers, so full-phrase matches beat keyword hits.
+ */
+export function parseIntent(utterance: string): IntentParse {
+  const normalized = normalizeUtterance(utterance);
+  const alternatives: Intent[] = [];
+
+  if (normalized) {
+    GRAMMAR.forEach(rule => {
+      let best: Intent | null = null;
+      for (const rulePattern of rule.patterns) {
+        const match = rulePattern.exec(normalized);
+        if (!match) continue;
+        const slots = rule.slots ? rule.slots(match.groups || {}) : {};
+        if (!slots) continue;
+        const coverage = match[0].length / normalized.length;
+        const score = rule.weight * (1 - COVERAGE_WEIGHT + COVERAGE_WEIGHT * coverage);
+        if (!best || score > best.score) {
+          best = { name: rule.name, slots, score: Math.round(score * 100) / 100 };
+        }
+      }
+      if (best) alternatives.push(best);
+    });
+  }
+
+  // Stable sort keeps grammar order between equal scores
+  alternatives.sort((a, b) => b.score - a.score);
+  const seen = new Set<string>();
+  const unique = alternatives.filter(intent => {
+    const key = slotsKey(intent);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const best = unique[0] && unique[0].score >= MIN_INTENT_SCORE ? unique[0] : null;
+  console.log('🎯 Intent:', normalized, '→', best ? describeIntent(best) : 'none', `(${unique.length} alternatives)`);
+  return { utterance, normalized, best, alternatives: unique };
+}
+
+const SETTING_LABELS: Record<SettingName, string> = {
+  voiceAssistant: 'voice assistant',
+  faceTracking: 'face tracking',
+  textToSpeech: 'text to speech',
+  highContrast: 'high contrast',
+  darkMode: 'dark mode',
+  reduceMotion: 'reduced motion',
+  fontSize: 'text size',
+};
+
+/**
+ * Short human-readable description, for status lines and spoken feedback
+ */
+export function describeIntent(intent: Intent): string {
+  const { target, direction, amount, setting, change } = intent.slots;
+  const times = amount && amount > 1 ? ` ${amount} times` : '';
+  switch (intent.name) {
+    case 'click': return target ? `click "${target}"` : 'click the focused element';
+    case 'type': return `type "${target}"`;
+    case 'scroll': return `scroll ${direction}${times}`;
+    case 'navigate': return target === 'home' ? 'go to the main menu' : target ? `${target} the page` : `go ${direction}`;
+    case 'focus': return target ? `focus "${target}"` : `focus the ${direction} element${times}`;
+    case 'key': return `press ${target === ' ' ? 'Space' : target}${times}`;
+    case 'search': return `search for "${target}"`;
+    case 'find': return `find "${target}" on the page`;
+    case 'read': return target === 'selection' ? 'read the selected text' : 'read the page';
+    case 'stop_speech': return 'stop speaking';
+    case 'toggle_feature': return change === 'toggle' ? `toggle ${SETTING_LABELS[setting!]}` : `turn ${SETTING_LABELS[setting!]} ${change}`;
+    case 'adjust_setting': return `${change} ${SETTING_LABELS[setting!]}${times}`;
+    case 'contact': return `call ${target}`;
+    case 'start': return 'enter the portal';
+    case 'emergency': return 'emergency help';
+    case 'show_overlay': return target === 'hide' ? 'hide the numbers' : `show ${target}`;
+    case 'choose': return `${target === 'click' ? 'click' : 'choose'} number ${amount}`;
+    case 'dictate': return change === 'off' ? 'stop dictation' : 'start dictation';
+    case 'record_macro': return `record macro "${target}"`;
+    case 'finish_macro': return change === 'off' ? 'discard the macro' : 'save the macro';
+    case 'run_macro': return `run macro "${target}"`;
+    case 'set_language': return `switch voice commands to ${target === 'hi' ? 'Hindi' : 'English'}`;
+    default: return intent.name.replace('_', ' ');
+  }
+}
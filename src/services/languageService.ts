@@ -0,0 +1,213 @@
+/**
+ * Language Service
+ * Detects which of the supported Indian languages a message is in and holds
+ * the per-language settings (speech locales, prompt instructions, UI labels).
+ * Native scripts are recognised by Unicode block; Latin-script text (English,
+ * Romanized Hindi, "Tanglish" and friends) by whole-word markers plus a
+ * character trigram model.
+ */
+
+import type { LanguageCode } from '../types';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+  speechLocale: string;        // BCP 47 tag for SpeechRecognition and SpeechSynthesis
+  scriptRange: [number, number] | null; // Unicode block of the native script
+  placeholder: string;         // Chat input hint
+  promptInstruction: string;   // How the model should reply in this language
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    speechLocale: 'en-IN',
+    scriptRange: null,
+    placeholder: 'Type your question...',
+    promptInstruction: 'Always answer in clear, simple English.',
+  },
+  hi: {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिंदी',
+    speechLocale: 'hi-IN',
+    scriptRange: [0x0900, 0x097F],
+    placeholder: 'अपना सवाल लिखें...',
+    promptInstruction: 'Hamesha Romanized Hindi mein jawab dein (English letters use karein, Devanagari script nahi).',
+  },
+  ta: {
+    code: 'ta',
+    name: 'Tamil',
+    nativeName: 'தமிழ்',
+    speechLocale: 'ta-IN',
+    scriptRange: [0x0B80, 0x0BFF],
+    placeholder: 'உங்கள் கேள்வியை தட்டச்சு செய்யவும்...',
+    promptInstruction: 'Always answer in Tamil. Use Tamil script, unless the student wrote Tamil in English letters - then reply in the same romanized style.',
+  },
+  ml: {
+    code: 'ml',
+    name: 'Malayalam',
+    nativeName: 'മലയാളം',
+    speechLocale: 'ml-IN',
+    scriptRange: [0x0D00, 0x0D7F],
+    placeholder: 'നിങ്ങളുടെ ചോദ്യം ടൈപ്പ് ചെയ്യുക...',
+    promptInstruction: 'Always answer in Malayalam. Use Malayalam script, unless the student wrote Malayalam in English letters - then reply in the same romanized style.',
+  },
+  te: {
+    code: 'te',
+    name: 'Telugu',
+    nativeName: 'తెలుగు',
+    speechLocale: 'te-IN',
+    scriptRange: [0x0C00, 0x0C7F],
+    placeholder: 'మీ ప్రశ్నను టైప్ చేయండి...',
+    promptInstruction: 'Always answer in Telugu. Use Telugu script, unless the student wrote Telugu in English letters - then reply in the same romanized style.',
+  },
+  kn: {
+    code: 'kn',
+    name: 'Kannada',
+    nativeName: 'ಕನ್ನಡ',
+    speechLocale: 'kn-IN',
+    scriptRange: [0x0C80, 0x0CFF],
+    placeholder: 'ನಿಮ್ಮ ಪ್ರಶ್ನೆಯನ್ನು ಟೈಪ್ ಮಾಡಿ...',
+    promptInstruction: 'Always answer in Kannada. Use Kannada script, unless the student wrote Kannada in English letters - then reply in the same romanized style.',
+  },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as LanguageCode[];
+
+// Sample sentences in Latin script, the way students type campus questions
+const TRAINING_TEXT: Record<LanguageCode, string> = {
+  en: 'what are the library hours where is the computer science department how can i contact the head of department when does the exam start is the health center open today please tell me about the hostel fees and the latest circular thank you which building has the lab who should i talk to',
+  hi: 'library kab khulti hai mujhe department ka contact chahiye kya aap bata sakte hain exam kab shuru hoga hostel ki fees kitni hai mera sawal yeh hai health center kahan hai aaj band hai kya dhanyavaad mujhe madad chahiye kaun se building mein lab hai',
+  ta: 'library eppo open aagum enakku department contact venum neenga sollunga exam eppo start aagum hostel fees evvalavu health center enga irukku inniki leave ah nandri enna panrathu lab entha building la irukku yaar kitta pesanum',
+  ml: 'library eppol thurakkum enikku department contact venam ningal parayamo exam eppol thudangum hostel fees ethra aanu health center evide aanu innu avadhi aano nanni entha cheyyendathu lab ethu building il aanu aarodu samsarikkanam',
+  te: 'library eppudu open avutundi naaku department contact kavali meeru cheppandi exam eppudu modalavutundi hostel fees entha health center ekkada undi ivvala selava dhanyavadalu emi cheyyali lab e building lo undi evarini adagali',
+  kn: 'library yavaga open agutte nanage department contact beku neevu heli exam yavaga shuru agutte hostel fees eshtu health center elli ide ivattu raje ideya dhanyavadagalu enu madabeku lab yava building alli ide yaranna kelabeku',
+};
+
+// Frequent function words; a whole-word match is strong evidence for a language
+const MARKER_WORDS: Record<Exclude<LanguageCode, 'en'>, string[]> = {
+  hi: ['kya', 'hai', 'hain', 'kab', 'kahan', 'kaise', 'mujhe', 'chahiye', 'kitni', 'kitna', 'batao', 'bataiye', 'aap', 'mein', 'nahi', 'kaun'],
+  ta: ['enna', 'eppo', 'enga', 'evvalavu', 'venum', 'irukku', 'irukka', 'sollunga', 'aagum', 'enakku', 'nandri', 'yaaru', 'epdi'],
+  ml: ['eppol', 'evide', 'ethra', 'venam', 'aanu', 'ningal', 'enikku', 'nanni', 'aaru', 'engane'],
+  te: ['emi', 'eppudu', 'ekkada', 'kavali', 'undi', 'meeru', 'naaku', 'cheppandi', 'evaru', 'ela'],
+  kn: ['enu', 'yavaga', 'elli', 'eshtu', 'beku', 'ide', 'neevu', 'nanage', 'heli', 'hege'],
+};
+
+const MARKER_WEIGHT = 2;
+// Average per-trigram log-likelihood lead needed to leave English without marker words
+const TRIGRAM_MARGIN = 0.6;
+const MIN_WORDS_FOR_TRIGRAMS = 3;
+
+type TrigramModel = { logProbabilities: Map<string, number>; unseen: number };
+
+function trigramsOf(text: string): string[] {
+  const trigrams: string[] = [];
+  for (const word of text.toLowerCase().split(/[^a-z]+/).filter(Boolean)) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      trigrams.push(padded.substring(i, i + 3));
+    }
+  }
+  return trigrams;
+}
+
+function buildTrigramModel(text: string): TrigramModel {
+  const counts = new Map<string, number>();
+  const trigrams = trigramsOf(text);
+  trigrams.forEach(trigram => counts.set(trigram, (counts.get(trigram) || 0) + 1));
+
+  // Add-one smoothing so unseen trigrams cost a little instead of everything
+  const total = trigrams.length + counts.size + 1;
+  const logProbabilities = new Map<string, number>();
+  counts.forEach((count, trigram) => logProbabilities.set(trigram, Math.log((count + 1) / total)));
+  return { logProbabilities, unseen: Math.log(1 / total) };
+}
+
+const TRIGRAM_MODELS = Object.fromEntries(
+  SUPPORTED_LANGUAGES.map(code => [code, buildTrigramModel(TRAINING_TEXT[code])])
+) as Record<LanguageCode, TrigramModel>;
+
+function trigramScore(trigrams: string[], model: TrigramModel): number {
+  if (trigrams.length === 0) return 0;
+  const total = trigrams.reduce((sum, trigram) => sum + (model.logProbabilities.get(trigram) ?? model.unseen), 0);
+  return total / trigrams.length;
+}
+
+/**
+ * Language whose native script makes up most of the text's letters, if any
+ */
+function detectScript(text: string): LanguageCode | null {
+  const counts = new Map<LanguageCode, number>();
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    const match = SUPPORTED_LANGUAGES.find(code => {
+      const range = LANGUAGES[code].scriptRange;
+      return range !== null && codePoint >= range[0] && codePoint <= range[1];
+    });
+    if (match) counts.set(match, (counts.get(match) || 0) + 1);
+  }
+
+  let best: LanguageCode | null = null;
+  counts.forEach((count, code) => {
+    if (!best || count > counts.get(best)!) best = code;
+  });
+  return best;
+}
+
+function detectLatinLanguage(text: string, fallback: LanguageCode): LanguageCode {
+  const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  if (words.length === 0) return fallback;
+
+  const trigrams = trigramsOf(text);
+  const englishScore = trigramScore(trigrams, TRIGRAM_MODELS.en);
+  let best: LanguageCode = 'en';
+  let bestScore = 0;
+
+  (Object.keys(MARKER_WORDS) as Array<keyof typeof MARKER_WORDS>).forEach(code => {
+    const markers = words.filter(word => MARKER_WORDS[code].includes(word)).length;
+    const lead = trigramScore(trigrams, TRIGRAM_MODELS[code]) - englishScore;
+    // Short texts need a marker word; trigrams alone are unreliable on a couple of words
+    const confident = markers > 0 || (words.length >= MIN_WORDS_FOR_TRIGRAMS && lead > TRIGRAM_MARGIN);
+    const score = markers * MARKER_WEIGHT + lead;
+    if (confident && score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Detect the language of a message. Latin text without evidence for an Indian
+ * language is English; text with no letters at all (digits, emoji) gets the fallback.
+ */
+export function detectLanguage(text: string, fallback: LanguageCode = 'en'): LanguageCode {
+  return detectScript(text) || detectLatinLanguage(text, fallback);
+}
+
+/**
+ * Whether the text is written in the language's own script rather than Latin letters
+ */
+export function usesNativeScript(text: string, language: LanguageCode): boolean {
+  return LANGUAGES[language].scriptRange !== null && detectScript(text) === language;
+}
+
+export function getSpeechLocale(language: LanguageCode): string {
+  return LANGUAGES[language].speechLocale;
+}
+
+/**
+ * Best installed speech synthesis voice for a locale, or null to let the browser choose
+ */
+export function findVoice(locale: string): SpeechSynthesisVoice | null {
+  const voices = speechSynthesis.getVoices();
+  const languagePrefix = locale.split('-')[0];
+  return voices.find(voice => voice.lang === locale)
+    || voices.find(voice => voice.lang.replace('_', '-').startsWith(`${languagePrefix}-`))
+    || null;
+}
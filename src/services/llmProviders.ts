@@ -0,0 +1,357 @@
+/**
+ * LLM Provider Layer
+ * Describes the chat backends NullChat can talk to (Groq, any OpenAI-compatible
+ * server, Ollama) and the order in which they are tried
+ */
+
+import { SSEParser, NDJSONParser } from './streamParsers';
+import type { StreamParser } from './streamParsers';
+
+export type LLMProviderType = 'groq' | 'openai-compatible' | 'ollama';
+
+export interface LLMCapabilities {
+  streaming: boolean; // Server can stream tokens
+  tools: boolean;     // Server understands OpenAI-style function calling
+}
+
+export interface LLMProviderConfig {
+  id: string;
+  type: LLMProviderType;
+  name: string;
+  baseUrl: string;
+  model: string;
+  authType: 'bearer' | 'none';
+  apiKey?: string;
+  enabled: boolean;
+  capabilities: LLMCapabilities;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded, exactly as the model produced it
+}
+
+// A fragment of a tool call as it arrives in a stream, merged by index
+export interface LLMToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface LLMToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: LLMToolCall[]; // Assistant turns that requested tools
+  toolCallId?: string;       // Tool turns: the call this result answers
+}
+
+export interface LLMRequestOptions {
+  stream: boolean;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  tools?: LLMToolSpec[];
+}
+
+export interface LLMCompletion {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+export interface LLMStreamDelta {
+  content: string;
+  toolCalls?: LLMToolCallDelta[];
+}
+
+/**
+ * Wire-format differences between providers
+ */
+interface LLMProviderAdapter {
+  endpoint(config: LLMProviderConfig): string;
+  buildBody(config: LLMProviderConfig, messages: LLMMessage[], options: LLMRequestOptions): Record<string, unknown>;
+  parseAnswer(data: unknown): LLMCompletion;
+  createStreamParser(): StreamParser;
+  // Returns the delta of one stream event, or null when the event ends the stream
+  parseStreamEvent(event: string): LLMStreamDelta | null;
+}
+
+const PROVIDERS_STORAGE_KEY = 'llm_providers';
+const GROQ_KEY_STORAGE_KEY = 'user_groq_api_key';
+
+interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+function toOpenAIMessage(message: LLMMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function toOpenAITools(tools: LLMToolSpec[]): Array<Record<string, unknown>> {
+  return tools.map(tool => ({ type: 'function', function: tool }));
+}
+
+// Shared by Groq and any OpenAI-compatible server (vLLM, llama.cpp, LM Studio, LocalAI...)
+const openAICompatibleAdapter: LLMProviderAdapter = {
+  endpoint: config => `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+  buildBody: (config, messages, options) => ({
+    model: config.model,
+    messages: messages.map(toOpenAIMessage),
+    max_tokens: options.maxTokens,
+    temperature: options.temperature,
+    top_p: options.topP,
+    stream: options.stream,
+    ...(options.tools?.length ? { tools: toOpenAITools(options.tools), tool_choice: 'auto' } : {}),
+  }),
+  parseAnswer: data => {
+    const response = data as { choices?: Array<{ message?: { content?: string; tool_calls?: OpenAIToolCall[] } }> };
+    const message = response.choices?.[0]?.message;
+    return {
+      content: message?.content || '',
+      toolCalls: (message?.tool_calls || []).map((call, index) => ({
+        id: call.id || `call_${index}`,
+        name: call.function?.name || '',
+        arguments: call.function?.arguments || '{}',
+      })),
+    };
+  },
+  createStreamParser: () => new SSEParser(),
+  parseStreamEvent: event => {
+    if (event === '[DONE]') return null;
+    const chunk = JSON.parse(event) as { choices?: Array<{ delta?: { content?: string; tool_calls?: OpenAIToolCall[] } }> };
+    const delta = chunk.choices?.[0]?.delta;
+    return {
+      content: delta?.content || '',
+      toolCalls: delta?.tool_calls?.map((call, position) => ({
+        index: call.index ?? position,
+        id: call.id,
+        name: call.function?.name,
+        arguments: call.function?.arguments,
+      })),
+    };
+  },
+};
+
+interface OllamaToolCall {
+  function?: { name?: string; arguments?: Record<string, unknown> };
+}
+
+// A model can send broken argument JSON; the tool has already answered it with an error, so echo it back empty
+function parseToolArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// Ollama takes tool arguments as objects rather than JSON strings
+function toOllamaMessage(message: LLMMessage): Record<string, unknown> {
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls.map(call => ({
+        function: { name: call.name, arguments: parseToolArguments(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function fromOllamaToolCalls(calls: OllamaToolCall[] = []): LLMToolCall[] {
+  return calls.map((call, index) => ({
+    id: `call_${index}`,
+    name: call.function?.name || '',
+    arguments: JSON.stringify(call.function?.arguments || {}),
+  }));
+}
+
+// Ollama's native API streams newline-delimited JSON instead of SSE
+const ollamaAdapter: LLMProviderAdapter = {
+  endpoint: config => `${config.baseUrl.replace(/\/+$/, '')}/api/chat`,
+  buildBody: (config, messages, options) => ({
+    model: config.model,
+    messages: messages.map(toOllamaMessage),
+    stream: options.stream,
+    ...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {}),
+    options: {
+      num_predict: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+    },
+  }),
+  parseAnswer: data => {
+    const message = (data as { message?: { content?: string; tool_calls?: OllamaToolCall[] } }).message;
+    return { content: message?.content || '', toolCalls: fromOllamaToolCalls(message?.tool_calls) };
+  },
+  createStreamParser: () => new NDJSONParser(),
+  parseStreamEvent: event => {
+    const chunk = JSON.parse(event) as { message?: { content?: string; tool_calls?: OllamaToolCall[] }; done?: boolean };
+    if (chunk.done) return null;
+    // Ollama sends each tool call complete in a single chunk
+    const toolCalls = fromOllamaToolCalls(chunk.message?.tool_calls)
+      .map((call, index) => ({ index, ...call }));
+    return { content: chunk.message?.content || '', toolCalls: toolCalls.length ? toolCalls : undefined };
+  },
+};
+
+const ADAPTERS: Record<LLMProviderType, LLMProviderAdapter> = {
+  'groq': openAICompatibleAdapter,
+  'openai-compatible': openAICompatibleAdapter,
+  'ollama': ollamaAdapter,
+};
+
+export const DEFAULT_PROVIDERS: LLMProviderConfig[] = [
+  {
+    id: 'groq',
+    type: 'groq',
+    name: 'Groq Cloud',
+    // Overridable so the chat (including streaming) can be pointed at a local mock server
+    baseUrl: import.meta.env.VITE_GROQ_API_URL || 'https://api.groq.com/openai/v1',
+    model: 'llama-3.1-8b-instant',
+    authType: 'bearer',
+    enabled: true,
+    capabilities: { streaming: true, tools: true },
+  },
+  {
+    id: 'campus-server',
+    type: 'openai-compatible',
+    name: 'Campus AI Server',
+    baseUrl: 'http://localhost:8000/v1',
+    model: 'llama-3.1-8b-instruct',
+    authType: 'none',
+    enabled: false,
+    capabilities: { streaming: true, tools: false },
+  },
+  {
+    id: 'ollama',
+    type: 'ollama',
+    name: 'Ollama (Intranet)',
+    baseUrl: 'http://localhost:11434',
+    model: 'llama3.1:8b',
+    authType: 'none',
+    enabled: false,
+    capabilities: { streaming: true, tools: false },
+  },
+];
+
+/**
+ * All provider configs in fallback order, saved settings merged over the defaults
+ */
+export function getProviderConfigs(): LLMProviderConfig[] {
+  try {
+    const saved = localStorage.getItem(PROVIDERS_STORAGE_KEY);
+    if (!saved) return DEFAULT_PROVIDERS.map(provider => ({ ...provider }));
+
+    const parsed = JSON.parse(saved) as LLMProviderConfig[];
+    // Providers added in newer versions are appended (disabled) to an existing saved order
+    const missing = DEFAULT_PROVIDERS
+      .filter(provider => !parsed.some(savedProvider => savedProvider.id === provider.id))
+      .map(provider => ({ ...provider, enabled: false }));
+    return [...parsed, ...missing];
+  } catch (error) {
+    console.warn('⚠️ Could not load LLM providers, using defaults:', error);
+    return DEFAULT_PROVIDERS.map(provider => ({ ...provider }));
+  }
+}
+
+export function saveProviderConfigs(configs: LLMProviderConfig[]): void {
+  // The Groq key keeps living in its original slot so existing setups keep working
+  const stored = configs.map(config => config.type === 'groq' ? { ...config, apiKey: undefined } : config);
+  localStorage.setItem(PROVIDERS_STORAGE_KEY, JSON.stringify(stored));
+  console.log('🧠 LLM providers saved:', configs.filter(c => c.enabled).map(c => c.name).join(' → '));
+}
+
+/**
+ * API key for a provider, or null when it has none configured
+ */
+export function resolveApiKey(config: LLMProviderConfig): string | null {
+  if (config.authType === 'none') return null;
+
+  const apiKey = config.type === 'groq'
+    ? localStorage.getItem(GROQ_KEY_STORAGE_KEY) || import.meta.env.VITE_GROQ_API_KEY
+    : config.apiKey;
+
+  if (!apiKey || apiKey === 'your_groq_api_key_here') {
+    return null;
+  }
+  return apiKey;
+}
+
+/**
+ * Whether the provider has everything it needs to be tried
+ */
+export function isProviderReady(config: LLMProviderConfig): boolean {
+  return config.enabled && (config.authType === 'none' || resolveApiKey(config) !== null);
+}
+
+/**
+ * Enabled, usable providers in the order they should be tried
+ */
+export function getProviderChain(): LLMProviderConfig[] {
+  return getProviderConfigs().filter(isProviderReady);
+}
+
+export function requestCompletion(
+  config: LLMProviderConfig,
+  messages: LLMMessage[],
+  options: LLMRequestOptions,
+  signal?: AbortSignal
+): Promise<Response> {
+  const adapter = ADAPTERS[config.type];
+  const apiKey = resolveApiKey(config);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': options.stream ? 'text/event-stream' : 'application/json',
+  };
+  if (config.authType === 'bearer' && apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+    console.log(`🔗 Making API call to ${config.name} with key:`, apiKey.substring(0, 10) + '...');
+  } else {
+    console.log(`🔗 Making API call to ${config.name} at ${config.baseUrl}`);
+  }
+
+  return fetch(adapter.endpoint(config), {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(adapter.buildBody(config, messages, options)),
+    signal,
+  });
+}
+
+export function parseAnswer(config: LLMProviderConfig, data: unknown): LLMCompletion {
+  return ADAPTERS[config.type].parseAnswer(data);
+}
+
+export function createStreamParser(config: LLMProviderConfig): StreamParser {
+  return ADAPTERS[config.type].createStreamParser();
+}
+
+export function parseStreamEvent(config: LLMProviderConfig, event: string): LLMStreamDelta | null {
+  return ADAPTERS[config.type].parseStreamEvent(event);
+}
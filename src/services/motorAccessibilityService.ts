@@ -3,6 +3,13 @@
  * Handles input adaptations for users with mobility impairments
  */
 
+import { parseIntent } from './intentEngine';
+import type { Intent } from './intentEngine';
+import { speechRecognitionBroker, MIC_PRIORITY } from './speechRecognitionBroker';
+import type { RecognitionClient } from './speechRecognitionBroker';
+import { actionJournal } from './actionJournal';
+import { isTextField } from './dictationService';
+
 interface MotorSettings {
   dwellTime: number; // milliseconds
   enableDwellClick: boolean;
@@ -22,8 +29,7 @@ export class MotorAccessibilityService {
   private dwellTimer: number | null = null;
   private currentTarget: Element | null = null;
   private dwellProgress: HTMLElement | null = null;
-  private voiceCommands: Map<string, () => void> = new Map();
-  private recognition: any = null; // SpeechRecognition type varies by browser
+  private recognition: RecognitionClient | null = null;
   private switchInputs: Map<string, () => void> = new Map();
 
   constructor() {
@@ -61,6 +67,7 @@ export class MotorAccessibilityService {
    * Enable/disable dwell clicking
    */
   enableDwellClick(enabled: boolean) {
+    actionJournal.recordSetting('motor.dwellClick', `dwell click ${enabled ? 'on' : 'off'}`, this.settings.enableDwellClick, enabled, value => this.enableDwellClick(value));
     this.settings.enableDwellClick = enabled;
 
     if (enabled) {
@@ -76,7 +83,9 @@ export class MotorAccessibilityService {
    * Set dwell time in milliseconds
    */
   setDwellTime(timeMs: number) {
-    this.settings.dwellTime = Math.max(500, Math.min(5000, timeMs)); // 0.5-5 seconds
+    const dwellTime = Math.max(500, Math.min(5000, timeMs)); // 0.5-5 seconds
+    actionJournal.recordSetting('motor.dwellTime', `dwell time ${dwellTime / 1000} seconds`, this.settings.dwellTime, dwellTime, value => this.setDwellTime(value));
+    this.settings.dwellTime = dwellTime;
     console.log(`⏱️ Dwell time set to: ${this.settings.dwellTime}ms`);
   }
 
@@ -323,39 +332,26 @@ export class MotorAccessibilityService {
     if (!this.settings.enableVoiceControl) return;
 
     // Check for speech recognition support
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
+    if (!speechRecognitionBroker.isSupported()) {
       console.warn('Speech recognition not supported');
       return;
     }
 
-    this.recognition = new SpeechRecognition();
+    this.recognition = speechRecognitionBroker.createClient('Motor voice control', MIC_PRIORITY.commands);
     this.recognition.continuous = true;
     this.recognition.interimResults = false;
-    this.recognition.lang = 'en-US';
-
-    // Setup basic voice commands
-    this.voiceCommands.set('click', () => this.clickFocusedElement());
-    this.voiceCommands.set('press', () => this.clickFocusedElement());
-    this.voiceCommands.set('activate', () => this.clickFocusedElement());
-    this.voiceCommands.set('next', () => this.focusNext());
-    this.voiceCommands.set('previous', () => this.focusPrevious());
-    this.voiceCommands.set('back', () => window.history.back());
-    this.voiceCommands.set('refresh', () => window.location.reload());
-    this.voiceCommands.set('scroll up', () => window.scrollBy(0, -200));
-    this.voiceCommands.set('scroll down', () => window.scrollBy(0, 200));
-
-    this.recognition.onresult = (event: any) => {
+
+    this.recognition.onresult = event => {
       const last = event.results.length - 1;
-      const command = event.results[last][0].transcript.toLowerCase().trim();
+      const command = event.results[last][0].transcript;
+      const { best } = parseIntent(command);
       
-      if (this.voiceCommands.has(command)) {
-        this.voiceCommands.get(command)!();
+      if (best && this.executeVoiceIntent(best)) {
         console.log('🗣️ Voice command executed:', command);
       }
     };
 
-    this.recognition.onerror = (event: any) => {
+    this.recognition.onerror = event => {
       console.warn('Voice recognition error:', event.error);
     };
   }
@@ -364,6 +360,7 @@ export class MotorAccessibilityService {
    * Enable/disable voice control
    */
   enableVoiceControl(enabled: boolean) {
+    actionJournal.recordSetting('motor.voiceControl', `voice control ${enabled ? 'on' : 'off'}`, this.settings.enableVoiceControl, enabled, value => this.enableVoiceControl(value));
     this.settings.enableVoiceControl = enabled;
 
     if (enabled && this.recognition) {
@@ -375,6 +372,35 @@ export class MotorAccessibilityService {
     }
   }
 
+  /**
+   * Run the basic motor voice commands; returns false for anything else
+   */
+  private executeVoiceIntent(intent: Intent): boolean {
+    const { target, direction, amount = 1 } = intent.slots;
+    switch (intent.name) {
+      case 'click':
+        if (target) return false;
+        this.clickFocusedElement();
+        return true;
+      case 'focus':
+        if (direction === 'next') this.focusNext();
+        else if (direction === 'previous') this.focusPrevious();
+        else return false;
+        return true;
+      case 'navigate':
+        if (direction === 'back') window.history.back();
+        else if (target === 'refresh') window.location.reload();
+        else return false;
+        return true;
+      case 'scroll':
+        if (direction !== 'up' && direction !== 'down') return false;
+        window.scrollBy(0, (direction === 'up' ? -200 : 200) * amount);
+        return true;
+      default:
+        return false;
+    }
+  }
+
   /**
    * Click currently focused element
    */
@@ -424,6 +450,7 @@ export class MotorAccessibilityService {
     this.switchInputs.set('Enter', () => this.clickFocusedElement());
     this.switchInputs.set('Tab', () => this.focusNext());
     this.switchInputs.set('Shift+Tab', () => this.focusPrevious());
+    this.switchInputs.set('Backspace', () => actionJournal.undo());
 
     document.addEventListener('keydown', this.handleSwitchInput);
   }
@@ -435,6 +462,8 @@ export class MotorAccessibilityService {
     if (!this.settings.enableSwitchControl) return;
 
     const key = event.shiftKey ? `Shift+${event.code}` : event.code;
+    // Backspace undoes only outside text fields; inside one it deletes text as usual
+    if (key === 'Backspace' && isTextField(event.target as Element)) return;
     
     if (this.switchInputs.has(key)) {
       event.preventDefault();
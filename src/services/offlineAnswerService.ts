@@ -0,0 +1,224 @@
+/**
+ * Offline Answer Service
+ * Rule-based answers from the bundled university data for kiosks without
+ * an LLM key or network. Matches a small set of intents and fills templates
+ * in English or Romanized Hindi.
+ */
+
+import { SAMPLE_CIRCULARS, EMERGENCY_CONTACTS, KARUNYA_DEPARTMENTS } from '../data/universityData';
+import type { Department, CampusFacility, Circular } from '../data/universityData';
+import { universityIndex } from './universityRetrieval';
+import { groundAnswer } from './answerGrounding';
+import type { ChatResponse } from './chatService';
+import type { LanguageCode } from '../types';
+
+type OfflineLanguage = 'en' | 'hi';
+
+type OfflineIntent =
+  | 'hours'
+  | 'contact'
+  | 'head'
+  | 'location'
+  | 'accessibility'
+  | 'circular'
+  | 'emergency'
+  | 'departments'
+  | 'greeting';
+
+// Checked in order; the first matching intent wins
+const INTENT_PATTERNS: Array<{ intent: OfflineIntent; pattern: RegExp }> = [
+  { intent: 'emergency', pattern: /\b(emergency|security|helpline|urgent|bachao)\b/i },
+  { intent: 'circular', pattern: /\b(circulars?|notices?|announcements?|news|suchna)\b/i },
+  { intent: 'hours', pattern: /\b(hours?|timings?|time|open|opens|close|closes|kab|samay|khula|khulta|band)\b/i },
+  { intent: 'head', pattern: /\b(head|hod|incharge|in-charge|dean)\b/i },
+  { intent: 'contact', pattern: /\b(contact|phone|number|email|e-mail|call|mail|sampark)\b/i },
+  { intent: 'location', pattern: /\b(where|location|located|kahan|kaha|kidhar)\b/i },
+  { intent: 'accessibility', pattern: /\b(wheelchair|accessib\w*|braille|sign language|ramp|lift)\b/i },
+  { intent: 'departments', pattern: /\b(departments|branches|courses offered)\b/i },
+  { intent: 'greeting', pattern: /^\s*(hi|hello|hey|namaste|help|what can you do)\b/i },
+];
+
+// Words in a question that narrow "latest circular" down to a category
+const CIRCULAR_CATEGORIES: Array<{ category: Circular['category']; pattern: RegExp }> = [
+  { category: 'examination', pattern: /\b(exams?|examination|test|pariksha)\b/i },
+  { category: 'library', pattern: /\blibrary\b/i },
+  { category: 'events', pattern: /\b(events?|fest|festival|competition)\b/i },
+  { category: 'hostel', pattern: /\bhostel\b/i },
+  { category: 'placement', pattern: /\b(placements?|jobs?|recruitment)\b/i },
+  { category: 'academic', pattern: /\b(academic|classes|semester)\b/i },
+];
+
+function detectIntent(message: string): OfflineIntent | null {
+  return INTENT_PATTERNS.find(({ pattern }) => pattern.test(message))?.intent || null;
+}
+
+function findFacility(message: string): CampusFacility | null {
+  const hit = universityIndex.search(message).find(h => h.record.kind === 'facility');
+  return hit && hit.record.kind === 'facility' ? hit.record.record : null;
+}
+
+function findDepartment(message: string): Department | null {
+  // Department codes are short and easy to say, match them directly first
+  const byCode = KARUNYA_DEPARTMENTS.find(dept => new RegExp(`\\b${dept.code}\\b`, 'i').test(message));
+  if (byCode) return byCode;
+
+  const hit = universityIndex.search(message).find(h => h.record.kind === 'department');
+  return hit && hit.record.kind === 'department' ? hit.record.record : null;
+}
+
+function latestCircular(message: string): Circular | null {
+  const category = CIRCULAR_CATEGORIES.find(({ pattern }) => pattern.test(message))?.category;
+  const candidates = SAMPLE_CIRCULARS
+    .filter(circular => circular.isActive && (!category || circular.category === category))
+    .sort((a, b) => b.dateIssued.getTime() - a.dateIssued.getTime());
+  return candidates[0] || null;
+}
+
+// ===== TEMPLATES =====
+
+function facilityHours(facility: CampusFacility, language: OfflineLanguage): string {
+  const { weekdays, weekends, holidays } = facility.timings;
+  let answer = language === 'hi'
+    ? `${facility.name} ka samay: weekdays mein ${weekdays}, weekends mein ${weekends}, aur chhuttiyon mein ${holidays}.`
+    : `${facility.name} timings: weekdays ${weekdays}, weekends ${weekends}, and holidays ${holidays}.`;
+
+  // Circulars can temporarily change a facility's hours (e.g. extended library hours during exams)
+  const notice = SAMPLE_CIRCULARS.find(circular => circular.isActive && circular.category === facility.type);
+  if (notice) {
+    answer += language === 'hi'
+      ? `\n\nDhyan dein - "${notice.title}": ${notice.content}`
+      : `\n\nPlease note - "${notice.title}": ${notice.content}`;
+  }
+  return answer;
+}
+
+function facilityContact(facility: CampusFacility, language: OfflineLanguage): string {
+  if (!facility.contactInfo) {
+    return language === 'hi'
+      ? `${facility.name} ke liye koi direct contact listed nahi hai. Aap ${facility.location} par jaakar poochh sakte hain.`
+      : `No direct contact is listed for ${facility.name}. You can ask in person at ${facility.location}.`;
+  }
+  const { incharge, email, phone } = facility.contactInfo;
+  return language === 'hi'
+    ? `${facility.name} ke incharge ${incharge} hain. Sampark: ${phone} ya ${email}.`
+    : `${facility.name} is managed by ${incharge}. Contact: ${phone} or ${email}.`;
+}
+
+function facilityLocation(facility: CampusFacility, language: OfflineLanguage): string {
+  return language === 'hi'
+    ? `${facility.name} ${facility.location} mein hai.`
+    : `${facility.name} is located at ${facility.location}.`;
+}
+
+function facilityAccessibility(facility: CampusFacility, language: OfflineLanguage): string {
+  const features = facility.accessibilityFeatures.join(', ');
+  return language === 'hi'
+    ? `${facility.name} mein accessibility suvidhayein: ${features}.`
+    : `Accessibility features at ${facility.name}: ${features}.`;
+}
+
+function facilityOverview(facility: CampusFacility, language: OfflineLanguage): string {
+  return language === 'hi'
+    ? `${facility.name} (${facility.location}): ${facility.description}. Weekdays mein samay ${facility.timings.weekdays}.`
+    : `${facility.name} (${facility.location}): ${facility.description}. Weekday timings are ${facility.timings.weekdays}.`;
+}
+
+function departmentContact(dept: Department, language: OfflineLanguage): string {
+  return language === 'hi'
+    ? `${dept.name} department (${dept.code}) se ${dept.contactPhone} ya ${dept.contactEmail} par sampark karein. Department ke head ${dept.head} hain.`
+    : `The ${dept.name} department (${dept.code}) can be reached at ${dept.contactPhone} or ${dept.contactEmail}. The head of department is ${dept.head}.`;
+}
+
+function departmentHead(dept: Department, language: OfflineLanguage): string {
+  return language === 'hi'
+    ? `${dept.name} (${dept.code}) ke head ${dept.head} hain. Sampark: ${dept.contactEmail}.`
+    : `The head of ${dept.name} (${dept.code}) is ${dept.head}. Contact: ${dept.contactEmail}.`;
+}
+
+function departmentOverview(dept: Department, language: OfflineLanguage): string {
+  const facilities = dept.facilities.join(', ');
+  return language === 'hi'
+    ? `${dept.description} Head: ${dept.head}. Labs aur facilities: ${facilities}. Sampark: ${dept.contactEmail}.`
+    : `${dept.description} Head: ${dept.head}. Labs and facilities: ${facilities}. Contact: ${dept.contactEmail}.`;
+}
+
+function circularAnswer(circular: Circular, language: OfflineLanguage, isLatest: boolean): string {
+  const issued = circular.dateIssued.toDateString();
+  if (language === 'hi') {
+    return `${isLatest ? 'Sabse naya circular' : 'Circular'} (${issued}): "${circular.title}". ${circular.content}`;
+  }
+  return `${isLatest ? 'The latest circular' : 'A circular'} (${issued}) says "${circular.title}". ${circular.content}`;
+}
+
+function emergencyAnswer(language: OfflineLanguage): string {
+  const contacts = EMERGENCY_CONTACTS.map(contact => `• ${contact.name}: ${contact.phone}`).join('\n');
+  return language === 'hi'
+    ? `Emergency ke liye in numbers par call karein:\n${contacts}`
+    : `For emergencies, call:\n${contacts}`;
+}
+
+function departmentsAnswer(language: OfflineLanguage): string {
+  const list = KARUNYA_DEPARTMENTS.map(dept => `• ${dept.name} (${dept.code})`).join('\n');
+  return language === 'hi' ? `Karunya ke departments:\n${list}` : `Karunya's departments:\n${list}`;
+}
+
+function capabilitiesAnswer(language: OfflineLanguage): string {
+  return language === 'hi'
+    ? 'Main abhi offline mode mein hoon. Main library jaise facilities ka samay, department contacts, latest circulars aur emergency numbers bata sakta hoon. Jaise poochhiye: "library kab khulti hai?" ya "CSE department ka contact".'
+    : 'I am working in offline mode right now. I can tell you facility timings, department contacts, the latest circulars and emergency numbers. Try asking "What are the library hours?" or "CSE department contact".';
+}
+
+/**
+ * Answer a question from local data only. Always returns a response;
+ * questions outside the supported intents get a short capabilities message.
+ * Templates exist in English and Romanized Hindi; other languages get English.
+ */
+export function answerOffline(message: string, requestedLanguage: LanguageCode = 'en'): ChatResponse {
+  const language: OfflineLanguage = requestedLanguage === 'hi' ? 'hi' : 'en';
+  const intent = detectIntent(message);
+  const respond = (answer: string, confidence: number, retrievedIds: string[] = []): ChatResponse => {
+    console.log(`📴 Offline answer (${intent || 'unmatched'}):`, retrievedIds.join(', ') || 'no records');
+    // Templates only use bundled data, so the intent match decides confidence
+    return { answer, confidence, retrievedIds, citations: groundAnswer(answer, retrievedIds).citations, offline: true };
+  };
+
+  if (intent === 'emergency') return respond(emergencyAnswer(language), 0.9);
+  if (intent === 'departments') return respond(departmentsAnswer(language), 0.9);
+  if (intent === 'greeting') return respond(capabilitiesAnswer(language), 0.5);
+
+  if (intent === 'circular') {
+    const circular = latestCircular(message);
+    if (circular) return respond(circularAnswer(circular, language, true), 0.8, [`circular:${circular.id}`]);
+  }
+
+  const department = findDepartment(message);
+  const facility = findFacility(message);
+
+  // Prefer departments when the question explicitly names one
+  if (department && (/\b(department|dept)\b/i.test(message) || !facility)) {
+    const key = [`department:${department.id}`];
+    if (intent === 'contact') return respond(departmentContact(department, language), 0.8, key);
+    if (intent === 'head') return respond(departmentHead(department, language), 0.8, key);
+    return respond(departmentOverview(department, language), 0.6, key);
+  }
+
+  if (facility) {
+    const key = [`facility:${facility.id}`];
+    switch (intent) {
+      case 'hours': return respond(facilityHours(facility, language), 0.8, key);
+      case 'contact':
+      case 'head': return respond(facilityContact(facility, language), 0.8, key);
+      case 'location': return respond(facilityLocation(facility, language), 0.8, key);
+      case 'accessibility': return respond(facilityAccessibility(facility, language), 0.8, key);
+      default: return respond(facilityOverview(facility, language), 0.6, key);
+    }
+  }
+
+  // A circular search by topic ("exam schedule") without the word "circular"
+  const circularHit = universityIndex.search(message).find(hit => hit.record.kind === 'circular');
+  if (circularHit && circularHit.record.kind === 'circular') {
+    return respond(circularAnswer(circularHit.record.record, language, false), 0.6, [circularHit.record.key]);
+  }
+
+  return respond(capabilitiesAnswer(language), 0.1);
+}
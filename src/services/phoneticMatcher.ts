@@ -0,0 +1,194 @@
+/**
+ * Phonetic Matcher
+ * Sound-alike matching for spoken targets, so recognizer spellings such as
+ * "karunia", "doctor aruna krishna" or "see s e department" still find
+ * "Karunya", "Dr. Aruna Krishnan" and "CSE". The key is a Metaphone-style
+ * consonant skeleton tuned for Indian English: aspirates fold into their plain
+ * consonant (bh → b, th → t), sh/s and v/w merge, and vowels, which vary most
+ * between spellings of Indian names, are dropped after the first letter.
+ */
+
+import { voiceAliasService } from './voiceAliasService';
+
+export interface PhoneticMatch<T> {
+  item: T;
+  label: string;
+  score: number;
+}
+
+// Ordered rewrites from spelling to sound; uppercase letters are placeholders for distinct sounds
+const SOUND_RULES: Array<[RegExp, string]> = [
+  [/ksh/g, 'ks'],
+  [/t?ch/g, 'C'],
+  [/sh/g, 's'],
+  [/zh/g, 'l'], // Tamil retroflex: Azhagu, Kozhikode
+  [/ph/g, 'f'],
+  [/([bdgjkt])h/g, '$1'],
+  [/ck/g, 'k'],
+  [/q/g, 'k'],
+  [/x/g, 'ks'],
+  [/c(?=[eiy])/g, 's'],
+  [/c/g, 'k'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/h/g, ''],
+];
+
+// Letter names as the recognizer writes them, for spelled-out codes like "see s e"
+const LETTER_NAMES: Record<string, string> = {
+  ay: 'a', bee: 'b', be: 'b', see: 'c', sea: 'c', si: 'c', dee: 'd', ee: 'e', ef: 'f', eff: 'f',
+  gee: 'g', ji: 'g', aitch: 'h', eye: 'i', jay: 'j', kay: 'k', el: 'l', ell: 'l', em: 'm', en: 'n',
+  oh: 'o', pee: 'p', cue: 'q', queue: 'q', ar: 'r', es: 's', ess: 's', tee: 't', tea: 't',
+  you: 'u', vee: 'v', ex: 'x', why: 'y', wye: 'y', zed: 'z', zee: 'z',
+};
+
+const ABBREVIATIONS: Record<string, string> = {
+  dr: 'doctor',
+  prof: 'professor',
+  dept: 'department',
+  univ: 'university',
+};
+
+// Below this, two words are treated as different
+const MIN_WORD_SIMILARITY = 0.75;
+
+/**
+ * Consonant skeleton of a word, e.g. "krishnan" and "krishna" → "krsn"
+ */
+export function phoneticKey(word: string): string {
+  let sound = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!sound) return '';
+
+  for (const [pattern, replacement] of SOUND_RULES) {
+    sound = sound.replace(pattern, replacement);
+  }
+
+  const first = /^[aeiouy]/.test(sound) ? 'A' : '';
+  return (first + sound.replace(/[aeiouy]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Join runs of spelled letters into one word: "see s e department" → "cse department"
+ */
+export function joinSpelledLetters(text: string): string {
+  const words = text.split(' ');
+  const result: string[] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    const singles = run.filter(word => word.length === 1);
+    // Needs two real single letters, so "a" or "i" in a sentence is not taken as spelling
+    if (run.length >= 2 && singles.length >= 2 && singles.some(word => word !== 'a' && word !== 'i')) {
+      result.push(run.map(word => LETTER_NAMES[word] || word).join(''));
+    } else {
+      result.push(...run);
+    }
+    run = [];
+  };
+
+  for (const word of words) {
+    if (/^[a-z]$/.test(word) || LETTER_NAMES[word]) {
+      run.push(word);
+    } else {
+      flush();
+      result.push(word);
+    }
+  }
+  flush();
+  return result.join(' ');
+}
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] || word);
+}
+
+/**
+ * Spoken text with spelled letters joined and the user's aliases applied
+ */
+export function normalizeSpoken(text: string): string {
+  return voiceAliasService.apply(joinSpelledLetters(toWords(text).join(' ')));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function closeness(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * How alike two words are by spelling or by sound, 0-1
+ */
+export function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Short words collide too easily by sound; only exact matches count
+  if (a.length < 3 || b.length < 3) return 0;
+
+  const spelling = closeness(a, b);
+  const keyA = phoneticKey(a);
+  const keyB = phoneticKey(b);
+  const sound = keyA.length >= 2 && keyB.length >= 2 ? closeness(keyA, keyB) * 0.9 : 0;
+  return Math.max(spelling, sound);
+}
+
+/**
+ * How well spoken words cover a label, 0-1. Each label word takes its closest
+ * spoken word; like word overlap, the score is shared across the longer side.
+ */
+export function phoneticSimilarity(spoken: string, label: string): number {
+  const spokenWords = normalizeSpoken(spoken).split(' ').filter(Boolean);
+  const labelWords = joinSpelledLetters(toWords(label).join(' ')).split(' ').filter(Boolean);
+  if (spokenWords.length === 0 || labelWords.length === 0) return 0;
+
+  const total = labelWords.reduce((sum, labelWord) => {
+    const best = Math.max(...spokenWords.map(spokenWord => wordSimilarity(spokenWord, labelWord)));
+    return sum + (best >= MIN_WORD_SIMILARITY ? best : 0);
+  }, 0);
+  return total / Math.max(spokenWords.length, labelWords.length);
+}
+
+/**
+ * The candidate whose label sounds most like the spoken text, if any scores at least minScore
+ */
+export function findPhoneticMatch<T>(
+  spoken: string,
+  candidates: T[],
+  labelOf: (candidate: T) => string,
+  minScore: number = 0.7
+): PhoneticMatch<T> | null {
+  let best: PhoneticMatch<T> | null = null;
+  for (const item of candidates) {
+    const label = labelOf(item);
+    const score = phoneticSimilarity(spoken, label);
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { item, label, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * The words a user would say to pick an element: an explicit data-voice-label, else its text
+ */
+export function getSpokenLabel(element: Element): string {
+  return element.getAttribute('data-voice-label') || element.textContent?.trim() || '';
+}
@@ -0,0 +1,307 @@
+/**
+ * Speech Recognition Broker
+ * Owns the page's single SpeechRecognition instance. Voice features get a
+ * RecognitionClient that looks like a SpeechRecognition object; start() asks
+ * for the microphone and stop() gives it back. The highest-priority client
+ * holds the mic, a lower-priority one is suspended until the mic is free
+ * again, and continuous clients are restarted by the broker when the browser
+ * ends a session.
+ */
+
+import { LANGUAGES, getSpeechLocale } from './languageService';
+import type { LanguageCode } from '../types';
+
+export interface RecognitionResultEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+export interface RecognitionErrorEvent {
+  error: string;
+}
+
+// Higher numbers take the microphone from lower ones
+export const MIC_PRIORITY = {
+  wakeWord: 10,   // Always-on listening for "Hey Karunya"
+  commands: 20,   // Voice command listeners
+  dictation: 30,  // The user explicitly asked to dictate text
+  confirmation: 40, // A yes/no question is waiting for an answer
+} as const;
+
+export interface MicrophoneHolder {
+  label: string;
+  priority: number;
+}
+
+interface RecognitionEngine {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onstart: (() => void) | null;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+const RESTART_DELAY_MS = 100;
+const COMMAND_LANGUAGE_STORAGE_KEY = 'voice-command-language';
+// Errors after which retrying only loops: the mic is blocked or missing
+const FATAL_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'audio-capture']);
+
+/**
+ * One consumer's handle on the shared recognizer, with the same shape as a
+ * SpeechRecognition object so existing voice code can use it unchanged
+ */
+export class RecognitionClient {
+  readonly label: string;
+  readonly priority: number;
+  lang = '';  // Locale to recognise; empty follows the command language
+  continuous = false;
+  interimResults = false;
+  maxAlternatives = 1;
+  onstart: (() => void) | null = null;
+  onresult: ((event: RecognitionResultEvent) => void) | null = null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null = null;
+  onend: (() => void) | null = null;
+  private broker: SpeechRecognitionBroker;
+
+  constructor(broker: SpeechRecognitionBroker, label: string, priority: number) {
+    this.broker = broker;
+    this.label = label;
+    this.priority = priority;
+  }
+
+  /** Ask for the microphone; listening starts as soon as no higher-priority client holds it */
+  start(): void {
+    this.broker.acquire(this);
+  }
+
+  /** Give the microphone back */
+  stop(): void {
+    this.broker.release(this);
+  }
+
+  abort(): void {
+    this.broker.release(this);
+  }
+}
+
+export class SpeechRecognitionBroker {
+  private recognition: RecognitionEngine | null = null;
+  private claims: RecognitionClient[] = [];            // Clients that want the mic, in request order
+  private activeClient: RecognitionClient | null = null; // Client the running session belongs to
+  private isRunning = false;
+  private isPreempting = false;
+  private restartTimer: number | null = null;
+  private listeners = new Set<(holder: MicrophoneHolder | null) => void>();
+  private commandLanguage: LanguageCode = 'en';
+  private languageListeners = new Set<(language: LanguageCode) => void>();
+
+  constructor() {
+    try {
+      const saved = localStorage.getItem(COMMAND_LANGUAGE_STORAGE_KEY) as LanguageCode | null;
+      if (saved && saved in LANGUAGES) this.commandLanguage = saved;
+    } catch (error) {
+      console.warn('⚠️ Could not load the voice command language:', error);
+    }
+
+    const Recognition = typeof window !== 'undefined'
+      ? window.SpeechRecognition || window.webkitSpeechRecognition
+      : undefined;
+    if (!Recognition) {
+      console.warn('⚠️ Speech recognition not supported in this browser');
+      return;
+    }
+
+    this.recognition = new Recognition() as RecognitionEngine;
+    this.recognition.onstart = () => {
+      this.activeClient?.onstart?.();
+      this.notify();
+    };
+    this.recognition.onresult = event => this.activeClient?.onresult?.(event);
+    this.recognition.onerror = event => this.handleError(event);
+    this.recognition.onend = () => this.handleEnd();
+  }
+
+  isSupported(): boolean {
+    return this.recognition !== null;
+  }
+
+  /**
+   * A new handle for a voice feature. The label is what the microphone
+   * indicator shows while this client is listening.
+   */
+  createClient(label: string, priority: number): RecognitionClient {
+    return new RecognitionClient(this, label, priority);
+  }
+
+  getHolder(): MicrophoneHolder | null {
+    return this.isRunning && this.activeClient
+      ? { label: this.activeClient.label, priority: this.activeClient.priority }
+      : null;
+  }
+
+  /**
+   * Be told whenever a different client takes the microphone, or it goes idle
+   */
+  onHolderChange(listener: (holder: MicrophoneHolder | null) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getHolder());
+    return () => { this.listeners.delete(listener); };
+  }
+
+  getCommandLanguage(): LanguageCode {
+    return this.commandLanguage;
+  }
+
+  /**
+   * Switch the language voice commands are recognised in. The command grammar
+   * understands English and Hindi either way, so users can mix the two; this
+   * picks which one the recognizer transcribes best.
+   */
+  setCommandLanguage(language: LanguageCode): void {
+    if (language === this.commandLanguage) return;
+    this.commandLanguage = language;
+    try {
+      localStorage.setItem(COMMAND_LANGUAGE_STORAGE_KEY, language);
+    } catch (error) {
+      console.warn('⚠️ Could not save the voice command language:', error);
+    }
+    console.log(`🌐 Voice command language: ${LANGUAGES[language].name}`);
+    this.languageListeners.forEach(listener => listener(language));
+
+    // Restart a session that follows the command language so the new locale applies
+    if (this.isRunning && this.activeClient && !this.activeClient.lang) {
+      this.isPreempting = true;
+      this.recognition!.abort();
+    }
+  }
+
+  onCommandLanguageChange(listener: (language: LanguageCode) => void): () => void {
+    this.languageListeners.add(listener);
+    return () => { this.languageListeners.delete(listener); };
+  }
+
+  acquire(client: RecognitionClient): void {
+    if (!this.recognition) {
+      client.onerror?.({ error: 'not-supported' });
+      return;
+    }
+    if (!this.claims.includes(client)) {
+      this.claims.push(client);
+    }
+    this.schedule();
+  }
+
+  release(client: RecognitionClient): void {
+    this.claims = this.claims.filter(claim => claim !== client);
+    if (this.activeClient === client && this.isRunning) {
+      // End the session gracefully so the last words still reach the client
+      this.recognition!.stop();
+      return;
+    }
+    this.schedule();
+  }
+
+  /**
+   * The client that should hold the mic: highest priority, and among equals
+   * the one that asked most recently
+   */
+  private nextHolder(): RecognitionClient | null {
+    return this.claims.reduce<RecognitionClient | null>(
+      (best, claim) => (!best || claim.priority >= best.priority ? claim : best),
+      null
+    );
+  }
+
+  private schedule(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const next = this.nextHolder();
+    if (this.isRunning) {
+      if (next && next !== this.activeClient) {
+        console.log(`⏸️ ${this.activeClient?.label} suspended for ${next.label}`);
+        this.isPreempting = true;
+        this.recognition!.abort();
+      }
+      return;
+    }
+
+    if (!next) {
+      this.notify();
+      return;
+    }
+
+    const recognition = this.recognition!;
+    recognition.lang = next.lang || getSpeechLocale(this.commandLanguage);
+    recognition.continuous = next.continuous;
+    recognition.interimResults = next.interimResults;
+    recognition.maxAlternatives = next.maxAlternatives;
+    this.activeClient = next;
+
+    try {
+      recognition.start();
+      this.isRunning = true;
+      console.log(`🎙️ Microphone given to ${next.label}`);
+    } catch (error) {
+      // start() throws if the browser still considers the previous session alive
+      console.warn('⚠️ Could not start speech recognition, retrying:', error);
+      this.activeClient = null;
+      this.restartTimer = setTimeout(() => this.schedule(), RESTART_DELAY_MS);
+    }
+  }
+
+  private handleError(event: RecognitionErrorEvent): void {
+    const client = this.activeClient;
+    // Aborting to hand the mic over is our doing, not the client's problem
+    if (event.error === 'aborted' && this.isPreempting) return;
+
+    console.warn(`🎙️ Recognition error for ${client?.label}:`, event.error);
+    if (client && FATAL_ERRORS.has(event.error)) {
+      this.claims = this.claims.filter(claim => claim !== client);
+    }
+    client?.onerror?.(event);
+  }
+
+  private handleEnd(): void {
+    const ended = this.activeClient;
+    this.isRunning = false;
+    this.isPreempting = false;
+    this.activeClient = null;
+
+    if (ended) {
+      const stillClaimed = this.claims.includes(ended);
+      if (!stillClaimed) {
+        // Released with stop(), or dropped after a fatal error
+        ended.onend?.();
+      } else if (this.nextHolder() !== ended) {
+        // Preempted: keeps its claim and resumes when the mic is free
+      } else if (ended.continuous) {
+        // The browser ends continuous sessions after a while; carry on listening
+        this.notify();
+        this.restartTimer = setTimeout(() => this.schedule(), RESTART_DELAY_MS);
+        return;
+      } else {
+        // A single utterance has been recognised
+        this.claims = this.claims.filter(claim => claim !== ended);
+        ended.onend?.();
+      }
+    }
+
+    this.schedule();
+  }
+
+  private notify(): void {
+    const holder = this.getHolder();
+    this.listeners.forEach(listener => listener(holder));
+  }
+}
+
+export const speechRecognitionBroker = new SpeechRecognitionBroker();
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { NDJSONParser, SSEParser } from './streamParsers';
+import type { StreamParser } from './streamParsers';
+
+// Every event the parser produces for a body delivered in these chunks
+function parseChunks(parser: StreamParser, chunks: string[]): string[] {
+  return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.flush()];
+}
+
+// A body cut into pieces at every possible position
+function splitsOf(body: string): string[][] {
+  return Array.from({ length: body.length - 1 }, (_, index) => [body.slice(0, index + 1), body.slice(index + 1)]);
+}
+
+describe('SSEParser', () => {
+  const body = 'data: {"a":1}\n\ndata: {"b":2}\n\ndata: [DONE]\n\n';
+
+  it('returns the data of each complete event', () => {
+    expect(parseChunks(new SSEParser(), [body])).toEqual(['{"a":1}', '{"b":2}', '[DONE]']);
+  });
+
+  it('gives the same events wherever a chunk boundary falls', () => {
+    splitsOf(body).forEach(chunks => {
+      expect(parseChunks(new SSEParser(), chunks)).toEqual(['{"a":1}', '{"b":2}', '[DONE]']);
+    });
+  });
+
+  it('holds back an event until its blank line arrives', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: {"a":')).toEqual([]);
+    expect(parser.push('1}\n')).toEqual([]);
+    expect(parser.push('\n')).toEqual(['{"a":1}']);
+  });
+
+  it('handles one character at a time and CRLF line endings', () => {
+    const crlf = body.replace(/\n/g, '\r\n');
+    expect(parseChunks(new SSEParser(), crlf.split(''))).toEqual(['{"a":1}', '{"b":2}', '[DONE]']);
+  });
+
+  it('joins multi-line data and skips comments and other fields', () => {
+    const events = parseChunks(new SSEParser(), [
+      ': keep-alive\n\n',
+      'event: message\nid: 7\nretry: 1000\ndata: first line\ndata:second line\n\n',
+    ]);
+    expect(events).toEqual(['first line\nsecond line']);
+  });
+
+  it('returns a final event that ends without a blank line on flush', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: [DONE]')).toEqual([]);
+    expect(parser.flush()).toEqual(['[DONE]']);
+    expect(parser.flush()).toEqual([]);
+  });
+});
+
+describe('NDJSONParser', () => {
+  const body = '{"message":{"content":"Hel"}}\n{"message":{"content":"lo"}}\n{"done":true}\n';
+  const lines = body.trim().split('\n');
+
+  it('returns one event per line wherever a chunk boundary falls', () => {
+    splitsOf(body).forEach(chunks => {
+      expect(parseChunks(new NDJSONParser(), chunks)).toEqual(lines);
+    });
+  });
+
+  it('skips blank lines and returns an unterminated last line on flush', () => {
+    const parser = new NDJSONParser();
+    expect(parser.push('{"a":1}\r\n\n  \n{"b"')).toEqual(['{"a":1}']);
+    expect(parser.push(':2}')).toEqual([]);
+    expect(parser.flush()).toEqual(['{"b":2}']);
+    expect(parser.flush()).toEqual([]);
+  });
+});
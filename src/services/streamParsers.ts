@@ -0,0 +1,69 @@
+/**
+ * Stream Parsers
+ * Turn raw response chunks into complete events for streaming chat providers
+ */
+
+export interface StreamParser {
+  push(chunk: string): string[];
+  flush(): string[];
+}
+
+/**
+ * Incremental parser for server-sent events.
+ * Feed it raw chunks as they arrive; it returns the complete `data:` payloads
+ * and keeps any partial line buffered until the next chunk.
+ */
+export class SSEParser implements StreamParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const events: string[] = [];
+
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        // Blank line terminates an event
+        if (this.dataLines.length > 0) {
+          events.push(this.dataLines.join('\n'));
+          this.dataLines = [];
+        }
+      } else if (line.startsWith('data:')) {
+        this.dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+      // Comments (":"), "event:", "id:" and "retry:" fields are not used by the chat API
+    }
+
+    return events;
+  }
+
+  flush(): string[] {
+    const events = this.push('\n\n');
+    this.buffer = '';
+    return events;
+  }
+}
+
+/**
+ * Incremental parser for newline-delimited JSON (used by Ollama).
+ * Returns one raw JSON line per event.
+ */
+export class NDJSONParser implements StreamParser {
+  private buffer = '';
+
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    return lines.filter(line => line.trim() !== '');
+  }
+
+  flush(): string[] {
+    const remaining = this.buffer.trim();
+    this.buffer = '';
+    return remaining ? [remaining] : [];
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Transcript Store
+ * Keeps every NullChat conversation in IndexedDB so students can come back to
+ * past answers, search them, delete them, and export them as plain text,
+ * Markdown or an accessible HTML page
+ */
+
+import { detectLanguage } from './languageService';
+import type { Citation } from './answerGrounding';
+
+export interface TranscriptMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  citations?: Citation[];
+}
+
+export interface Transcript {
+  id: string;        // Same id as the chat session it records
+  title: string;     // First question, shortened
+  createdAt: number;
+  updatedAt: number;
+  messages: TranscriptMessage[];
+}
+
+export interface TranscriptSearchResult {
+  transcript: Transcript;
+  matches: Array<{ messageId: string; snippet: string }>;
+}
+
+export type TranscriptExportFormat = 'txt' | 'md' | 'html';
+
+const DB_NAME = 'nullchat';
+const DB_VERSION = 1;
+const STORE_NAME = 'transcripts';
+
+const TITLE_LENGTH = 60;
+const SNIPPET_RADIUS = 60; // Characters of context on each side of a search hit
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry later instead of caching the failure
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase();
+  return promisify(action(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+export function titleForMessages(messages: TranscriptMessage[]): string {
+  const firstQuestion = messages.find(message => message.role === 'user')?.content.trim() || 'New conversation';
+  return firstQuestion.length > TITLE_LENGTH
+    ? `${firstQuestion.substring(0, TITLE_LENGTH - 1).trimEnd()}…`
+    : firstQuestion;
+}
+
+/**
+ * Create or replace the transcript for a conversation
+ */
+export async function saveTranscript(id: string, messages: TranscriptMessage[]): Promise<void> {
+  try {
+    const existing = await withStore('readonly', store => store.get(id) as IDBRequest<Transcript | undefined>);
+    const transcript: Transcript = {
+      id,
+      title: titleForMessages(messages),
+      createdAt: existing?.createdAt ?? messages[0]?.timestamp ?? Date.now(),
+      updatedAt: Date.now(),
+      messages,
+    };
+    await withStore('readwrite', store => store.put(transcript));
+  } catch (error) {
+    console.warn('⚠️ Could not save chat transcript:', error);
+  }
+}
+
+/**
+ * All saved conversations, most recently active first
+ */
+export async function listTranscripts(): Promise<Transcript[]> {
+  try {
+    const transcripts = await withStore('readonly', store => store.getAll() as IDBRequest<Transcript[]>);
+    return transcripts.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn('⚠️ Could not load chat transcripts:', error);
+    return [];
+  }
+}
+
+export async function getTranscript(id: string): Promise<Transcript | null> {
+  try {
+    return (await withStore('readonly', store => store.get(id) as IDBRequest<Transcript | undefined>)) || null;
+  } catch (error) {
+    console.warn('⚠️ Could not load chat transcript:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a conversation; resolves false when it could not be deleted
+ */
+export async function deleteTranscript(id: string): Promise<boolean> {
+  try {
+    await withStore('readwrite', store => store.delete(id));
+    console.log('🗑️ Chat transcript deleted:', id);
+    return true;
+  } catch (error) {
+    console.warn('⚠️ Could not delete chat transcript:', error);
+    return false;
+  }
+}
+
+function snippetAround(content: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${content.substring(start, end).replace(/\s+/g, ' ')}${end < content.length ? '…' : ''}`;
+}
+
+/**
+ * Full-text search across every saved conversation. A message matches when it
+ * contains all words of the query, in any order and case.
+ */
+export async function searchTranscripts(query: string): Promise<TranscriptSearchResult[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: TranscriptSearchResult[] = [];
+  for (const transcript of await listTranscripts()) {
+    const matches = transcript.messages
+      .filter(message => {
+        const content = message.content.toLowerCase();
+        return terms.every(term => content.includes(term));
+      })
+      .map(message => ({
+        messageId: message.id,
+        snippet: snippetAround(message.content, message.content.toLowerCase().indexOf(terms[0]), terms[0].length),
+      }));
+    if (matches.length > 0) {
+      results.push({ transcript, matches });
+    }
+  }
+  return results;
+}
+
+// ===== EXPORT =====
+
+const SPEAKER_NAMES: Record<TranscriptMessage['role'], string> = {
+  user: 'You',
+  assistant: 'NullChat',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toPlainText(transcript: Transcript): string {
+  const lines = [`NullChat transcript: ${transcript.title}`, `Started ${formatTime(transcript.createdAt)}`, ''];
+  transcript.messages.forEach(message => {
+    lines.push(`[${formatTime(message.timestamp)}] ${SPEAKER_NAMES[message.role]}:`);
+    lines.push(message.content);
+    if (message.citations?.length) {
+      lines.push(`Sources: ${message.citations.map(citation => citation.title).join(', ')}`);
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+function toMarkdown(transcript: Transcript): string {
+  const lines = [`# NullChat transcript: ${transcript.title}`, '', `_Started ${formatTime(transcript.createdAt)}_`, ''];
+  transcript.messages.forEach(message => {
+    lines.push(`## ${SPEAKER_NAMES[message.role]} (${formatTime(message.timestamp)})`, '', message.content, '');
+    if (message.citations?.length) {
+      lines.push('Sources:', ...message.citations.map(citation => `- ${citation.title}`), '');
+    }
+  });
+  return lines.join('\n');
+}
+
+/**
+ * A standalone page with one heading per message, so screen reader users can
+ * jump between turns with heading navigation. Messages in Indian languages
+ * carry their own lang attribute so the reader switches voice.
+ */
+function toHtml(transcript: Transcript): string {
+  const messages = transcript.messages.map(message => {
+    const time = new Date(message.timestamp);
+    const sources = message.citations?.length
+      ? `\n    <p>Sources:</p>\n    <ul>${message.citations.map(citation => `<li>${escapeHtml(citation.title)}</li>`).join('')}</ul>`
+      : '';
+    return `  <section aria-label="${SPEAKER_NAMES[message.role]} at ${escapeHtml(time.toLocaleTimeString())}">
+    <h2>${SPEAKER_NAMES[message.role]} <time datetime="${time.toISOString()}">${escapeHtml(time.toLocaleString())}</time></h2>
+    <p lang="${detectLanguage(message.content)}">${escapeHtml(message.content).replace(/\n/g, '<br>')}</p>${sources}
+  </section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>NullChat transcript: ${escapeHtml(transcript.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; font-size: 1.125rem; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1a1a1a; background: #ffffff; }
+    h2 { font-size: 1.125rem; margin: 1.5rem 0 0.25rem; }
+    time { font-weight: normal; color: #4a4a4a; }
+    section { border-bottom: 1px solid #cccccc; padding-bottom: 1rem; }
+  </style>
+</head>
+<body>
+<main>
+  <h1>NullChat transcript: ${escapeHtml(transcript.title)}</h1>
+  <p>Started <time datetime="${new Date(transcript.createdAt).toISOString()}">${escapeHtml(formatTime(transcript.createdAt))}</time>, ${transcript.messages.length} messages.</p>
+${messages}
+</main>
+</body>
+</html>
+`;
+}
+
+const EXPORTERS: Record<TranscriptExportFormat, { render: (transcript: Transcript) => string; mimeType: string }> = {
+  txt: { render: toPlainText, mimeType: 'text/plain' },
+  md: { render: toMarkdown, mimeType: 'text/markdown' },
+  html: { render: toHtml, mimeType: 'text/html' },
+};
+
+export function exportTranscript(transcript: Transcript, format: TranscriptExportFormat): string {
+  return EXPORTERS[format].render(transcript);
+}
+
+/**
+ * Save a transcript to the user's device in the chosen format
+ */
+export function downloadTranscript(transcript: Transcript, format: TranscriptExportFormat): void {
+  const { mimeType } = EXPORTERS[format];
+  const blob = new Blob([exportTranscript(transcript, format)], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const date = new Date(transcript.createdAt).toISOString().slice(0, 10);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `nullchat-${date}-${transcript.id.slice(-6)}.${format}`;
+  a.click();
+  // Revoking right away can cancel the download before the browser has started it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  console.log(`💾 Transcript exported as ${format}`);
+}
@@ -1,8 +1,11 @@
 /**
  * Translation Service - Google Translate API wrapper
- * For language detection and translation in chat
+ * Translation for chat; language detection lives in languageService and
+ * romanization in transliteration
  */
 
+import type { LanguageCode } from '../types';
+
 const TRANSLATE_API_URL = 'https://translation.googleapis.com/language/translate/v2';
 
 // Interfaces for future use
@@ -16,38 +19,13 @@ const TRANSLATE_API_URL = 'https://translation.googleapis.com/language/translate
 //   confidence: number;
 // }
 
-/**
- * Detect the language of the given text
- * For demo purposes, we'll use a simple heuristic
- * In production, you'd use Google Translate API's detect endpoint
- */
-export function detectLanguage(text: string): 'en' | 'hi' {
-  // Simple heuristic: if text contains Devanagari characters, it's Hindi
-  const devanagariRegex = /[\u0900-\u097F]/;
-  if (devanagariRegex.test(text)) {
-    return 'hi';
-  }
-  
-  // Check for common Hindi words in Latin script
-  const hindiWords = ['kya', 'hai', 'hain', 'mein', 'aap', 'ki', 'ka', 'ke', 'ko'];
-  const lowerText = text.toLowerCase();
-  const hasHindiWords = hindiWords.some(word => lowerText.includes(word));
-  
-  if (hasHindiWords) {
-    return 'hi';
-  }
-  
-  // Default to English
-  return 'en';
-}
-
 /**
  * Translate text using Google Cloud Translation API
  * Falls back to original text if API is not configured
  */
 export async function translateText(
   text: string,
-  targetLanguage: 'en' | 'hi',
+  targetLanguage: LanguageCode,
   sourceLanguage?: string
 ): Promise<string> {
   try {
@@ -91,30 +69,3 @@ export async function translateText(
     return text; // Fallback to original text
   }
 }
-
-/**
- * Romanize Hindi text (convert Devanagari to Latin script)
- * This is a simplified version - for production use a proper transliteration library
- */
-export function romanizeHindi(text: string): string {
-  // Basic Devanagari to Latin transliteration map
-  const translitMap: Record<string, string> = {
-    'क': 'ka', 'ख': 'kha', 'ग': 'ga', 'घ': 'gha', 'ङ': 'nga',
-    'च': 'cha', 'छ': 'chha', 'ज': 'ja', 'झ': 'jha', 'ञ': 'nya',
-    'ट': 'ta', 'ठ': 'tha', 'ड': 'da', 'ढ': 'dha', 'ण': 'na',
-    'त': 'ta', 'थ': 'tha', 'द': 'da', 'ध': 'dha', 'न': 'na',
-    'प': 'pa', 'फ': 'pha', 'ब': 'ba', 'भ': 'bha', 'म': 'ma',
-    'य': 'ya', 'र': 'ra', 'ल': 'la', 'व': 'va', 'श': 'sha',
-    'ष': 'sha', 'स': 'sa', 'ह': 'ha',
-    'ा': 'a', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo',
-    'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', '्': '',
-    'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo',
-    'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au',
-  };
-
-  let result = '';
-  for (const char of text) {
-    result += translitMap[char] || char;
-  }
-  return result;
-}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { fromLatin, toLatin } from './transliteration';
+import type { IndicScript } from './transliteration';
+
+// [Indic, ISO 15919, plain letters]
+type Pair = [indic: string, iso: string, ascii: string];
+
+const DEVANAGARI: Record<string, Pair[]> = {
+  'schwa deletion': [
+    ['कमला', 'kamlā', 'kamlaa'],
+    ['समझ', 'samajh', 'samajh'],
+    ['किताब', 'kitāb', 'kitaab'],
+    ['विद्यालय', 'vidyālay', 'vidyaalay'],
+    ['पढ़ना', 'paṛhnā', 'parhnaa'],
+  ],
+  'final schwa kept after clusters': [
+    ['मित्र', 'mitra', 'mitra'],
+    ['सत्य', 'satya', 'satya'],
+    ['शुक्ल', 'śukla', 'shukla'],
+    ['तत्त्व', 'tattva', 'tattva'],
+  ],
+  'conjuncts': [
+    ['नमस्ते', 'namastē', 'namaste'],
+    ['क्षमा', 'kṣamā', 'kshamaa'],
+  ],
+  'anusvara, candrabindu and visarga': [
+    ['हिंदी', 'hiṁdī', 'hindee'],
+    ['संबंध', 'saṁbaṁdh', 'sambandh'],
+    ['ज़िंदगी', 'ziṁdagī', 'zindagee'],
+    ['में', 'mēṁ', 'men'],
+    ['हँसी', 'ham̐sī', 'hansee'],
+    ['दुःख', 'duḥkh', 'duhkh'],
+  ],
+  'nukta': [
+    ['लड़का', 'laṛkā', 'larkaa'],
+    ['फ़ोन', 'fōn', 'fon'],
+    ['क़लम', 'qalam', 'qalam'],
+    ['अंग्रेज़ी', 'aṁgrēzī', 'angrezee'],
+  ],
+};
+
+const TAMIL: Pair[] = [
+  ['தமிழ்', 'tamiḻ', 'tamizh'],
+  ['வணக்கம்', 'vaṇakkam', 'vanakkam'],
+  ['சென்னை', 'ceṉṉai', 'chennai'],
+  ['மரம்', 'maram', 'maram'],
+  ['அஃது', 'aḵtu', 'aktu'],
+];
+
+const MALAYALAM: Pair[] = [
+  ['മലയാളം', 'malayāḷaṁ', 'malayaalam'],
+  ['കേരളം', 'kēraḷaṁ', 'keralam'],
+  ['അവൻ', 'avan', 'avan'],
+  ['പാൽ', 'pāl', 'paal'],
+  ['ദുഃഖം', 'duḥkhaṁ', 'duhkham'],
+  ['നന്ദി', 'nandi', 'nandi'],
+];
+
+// [ISO 15919, script, Indic]
+const FROM_LATIN: Array<[iso: string, script: IndicScript, indic: string]> = [
+  ['kamal', 'devanagari', 'कमल'],
+  ['namastē', 'devanagari', 'नमस्ते'],
+  ['namaste', 'devanagari', 'नमस्ते'],
+  ['kṣamā', 'devanagari', 'क्षमा'],
+  ['duḥkh', 'devanagari', 'दुःख'],
+  ['fōn', 'devanagari', 'फ़ोन'],
+  ['zindagī', 'devanagari', 'ज़िन्दगी'],
+  ['tamiḻ', 'tamil', 'தமிழ்'],
+  ['vaṇakkam', 'tamil', 'வணக்கம்'],
+  ['bhārat', 'tamil', 'பாரத்'],
+  ['malayāḷam', 'malayalam', 'മലയാളം'],
+  ['avan', 'malayalam', 'അവൻ'],
+  ['pāl', 'malayalam', 'പാൽ'],
+  ['kēraḷam', 'malayalam', 'കേരളം'],
+];
+
+const expectPair = ([indic, iso, ascii]: Pair) => {
+  expect(toLatin(indic, { style: 'iso' })).toBe(iso);
+  expect(toLatin(indic)).toBe(ascii);
+};
+
+describe('toLatin', () => {
+  describe('Devanagari', () => {
+    Object.entries(DEVANAGARI).forEach(([topic, pairs]) => {
+      it.each(pairs)(`${topic}: %s`, (...pair) => expectPair(pair));
+    });
+
+    it('keeps every inherent vowel when schwa deletion is off', () => {
+      expect(toLatin('कमला', { schwaDeletion: false })).toBe('kamalaa');
+      expect(toLatin('समझ', { schwaDeletion: false })).toBe('samajha');
+    });
+  });
+
+  describe('Tamil', () => {
+    it.each(TAMIL)('%s', (...pair) => expectPair(pair));
+  });
+
+  describe('Malayalam', () => {
+    it.each(MALAYALAM)('%s', (...pair) => expectPair(pair));
+  });
+
+  it('passes Latin text and punctuation through in mixed sentences', () => {
+    expect(toLatin('library में जाओ!')).toBe('library men jaao!');
+    expect(toLatin('ॐ।')).toBe('om.');
+  });
+});
+
+describe('fromLatin', () => {
+  it.each(FROM_LATIN)('%s in %s', (iso, script, indic) => {
+    expect(fromLatin(iso, script)).toBe(indic);
+  });
+});
+
+describe('round trips', () => {
+  // Spellings each script can hold exactly; Hindi has no short e/o and Tamil no aspirates, so those don't survive
+  const LATIN_ROUND_TRIPS: Array<[iso: string, script: IndicScript]> = [
+    ['kamal', 'devanagari'], ['namastē', 'devanagari'], ['kṣamā', 'devanagari'], ['duḥkh', 'devanagari'],
+    ['fōn', 'devanagari'], ['zindagī', 'devanagari'], ['saṁbandh', 'devanagari'],
+    ['tamiḻ', 'tamil'], ['vaṇakkam', 'tamil'], ['ceṉṉai', 'tamil'],
+    ['avan', 'malayalam'], ['pāl', 'malayalam'], ['kēraḷaṁ', 'malayalam'], ['nandi', 'malayalam'],
+  ];
+
+  it.each(LATIN_ROUND_TRIPS)('%s → %s → Latin', (iso, script) => {
+    expect(toLatin(fromLatin(iso, script), { style: 'iso' })).toBe(iso);
+  });
+
+  // The Dravidian scripts keep every vowel, so their words come back letter for letter (aytham aside)
+  it.each([
+    ...TAMIL.filter(([indic]) => !indic.includes('ஃ')).map(([indic]) => [indic, 'tamil'] as const),
+    ...MALAYALAM.map(([indic]) => [indic, 'malayalam'] as const),
+  ])('%s → Latin → %s', (indic, script) => {
+    expect(fromLatin(toLatin(indic, { style: 'iso' }), script)).toBe(indic);
+  });
+});
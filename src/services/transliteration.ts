@@ -0,0 +1,499 @@
+/**
+ * Transliteration
+ * ISO 15919-style conversion between Latin and the Indian scripts NullChat
+ * supports. Devanagari, Tamil, Telugu, Kannada and Malayalam share one Unicode
+ * layout (each letter sits at the same offset inside its script's block), so a
+ * single offset table drives every script, with small per-script overrides.
+ *
+ * Indic → Latin handles conjuncts, matras, nukta, anusvara, visarga and
+ * candrabindu, and applies Hindi schwa deletion (kamalā → kamlā, samajha → samajh).
+ * Latin → Indic expects ISO 15919 spelling, also accepting doubled long vowels
+ * (aa, ii/ee, uu/oo) and "sh".
+ */
+
+export type IndicScript = 'devanagari' | 'tamil' | 'telugu' | 'kannada' | 'malayalam';
+
+export interface TransliterationOptions {
+  style?: 'iso' | 'ascii';  // ISO 15919 diacritics, or plain letters for display (default)
+  schwaDeletion?: boolean;  // Drop silent inherent vowels in Hindi words (default true)
+}
+
+interface Letter {
+  iso: string;
+  ascii: string;
+}
+
+interface VowelLetter extends Letter {
+  vowel: number; // Offset of the independent vowel
+  sign: number;  // Offset of the matra
+}
+
+interface ScriptDefinition {
+  blockStart: number;
+  schwaDeletion: boolean;          // Hindi drops inherent vowels; the Dravidian scripts keep them
+  finalConsonant: 'virama' | 'inherent'; // How a word-final Latin consonant is written
+  mergeShortVowels: boolean;       // No short e/o letters (Hindi), so e → ē and o → ō
+  // Latin consonants the script lacks, mapped to the closest letter it has
+  consonantFallbacks: Record<string, string>;
+  // Standalone final consonant letters (Malayalam chillu), keyed by consonant offset
+  finalForms: Record<number, number>;
+}
+
+// ===== SHARED LAYOUT =====
+
+const VOWELS: VowelLetter[] = [
+  { iso: 'a', ascii: 'a', vowel: 0x05, sign: -1 },
+  { iso: 'ā', ascii: 'aa', vowel: 0x06, sign: 0x3E },
+  { iso: 'i', ascii: 'i', vowel: 0x07, sign: 0x3F },
+  { iso: 'ī', ascii: 'ee', vowel: 0x08, sign: 0x40 },
+  { iso: 'u', ascii: 'u', vowel: 0x09, sign: 0x41 },
+  { iso: 'ū', ascii: 'oo', vowel: 0x0A, sign: 0x42 },
+  { iso: 'r̥', ascii: 'ri', vowel: 0x0B, sign: 0x43 },
+  { iso: 'r̥̄', ascii: 'ree', vowel: 0x60, sign: 0x44 },
+  { iso: 'l̥', ascii: 'lri', vowel: 0x0C, sign: 0x62 },
+  { iso: 'l̥̄', ascii: 'lree', vowel: 0x61, sign: 0x63 },
+  { iso: 'ê', ascii: 'e', vowel: 0x0D, sign: 0x45 },
+  { iso: 'e', ascii: 'e', vowel: 0x0E, sign: 0x46 },
+  { iso: 'ē', ascii: 'e', vowel: 0x0F, sign: 0x47 },
+  { iso: 'ai', ascii: 'ai', vowel: 0x10, sign: 0x48 },
+  { iso: 'ô', ascii: 'o', vowel: 0x11, sign: 0x49 },
+  { iso: 'o', ascii: 'o', vowel: 0x12, sign: 0x4A },
+  { iso: 'ō', ascii: 'o', vowel: 0x13, sign: 0x4B },
+  { iso: 'au', ascii: 'au', vowel: 0x14, sign: 0x4C },
+];
+
+const CONSONANTS: Record<number, Letter> = {
+  0x15: { iso: 'k', ascii: 'k' }, 0x16: { iso: 'kh', ascii: 'kh' }, 0x17: { iso: 'g', ascii: 'g' },
+  0x18: { iso: 'gh', ascii: 'gh' }, 0x19: { iso: 'ṅ', ascii: 'n' },
+  0x1A: { iso: 'c', ascii: 'ch' }, 0x1B: { iso: 'ch', ascii: 'chh' }, 0x1C: { iso: 'j', ascii: 'j' },
+  0x1D: { iso: 'jh', ascii: 'jh' }, 0x1E: { iso: 'ñ', ascii: 'n' },
+  0x1F: { iso: 'ṭ', ascii: 't' }, 0x20: { iso: 'ṭh', ascii: 'th' }, 0x21: { iso: 'ḍ', ascii: 'd' },
+  0x22: { iso: 'ḍh', ascii: 'dh' }, 0x23: { iso: 'ṇ', ascii: 'n' },
+  0x24: { iso: 't', ascii: 't' }, 0x25: { iso: 'th', ascii: 'th' }, 0x26: { iso: 'd', ascii: 'd' },
+  0x27: { iso: 'dh', ascii: 'dh' }, 0x28: { iso: 'n', ascii: 'n' }, 0x29: { iso: 'ṉ', ascii: 'n' },
+  0x2A: { iso: 'p', ascii: 'p' }, 0x2B: { iso: 'ph', ascii: 'ph' }, 0x2C: { iso: 'b', ascii: 'b' },
+  0x2D: { iso: 'bh', ascii: 'bh' }, 0x2E: { iso: 'm', ascii: 'm' },
+  0x2F: { iso: 'y', ascii: 'y' }, 0x30: { iso: 'r', ascii: 'r' }, 0x31: { iso: 'ṟ', ascii: 'r' },
+  0x32: { iso: 'l', ascii: 'l' }, 0x33: { iso: 'ḷ', ascii: 'l' }, 0x34: { iso: 'ḻ', ascii: 'zh' },
+  0x35: { iso: 'v', ascii: 'v' },
+  0x36: { iso: 'ś', ascii: 'sh' }, 0x37: { iso: 'ṣ', ascii: 'sh' }, 0x38: { iso: 's', ascii: 's' },
+  0x39: { iso: 'h', ascii: 'h' },
+};
+
+// Consonant + nukta, keyed by the base consonant's offset
+const NUKTA_FORMS: Record<number, Letter> = {
+  0x15: { iso: 'q', ascii: 'q' }, 0x16: { iso: 'ḵ', ascii: 'kh' }, 0x17: { iso: 'ġ', ascii: 'gh' },
+  0x1C: { iso: 'z', ascii: 'z' }, 0x21: { iso: 'ṛ', ascii: 'r' }, 0x22: { iso: 'ṛh', ascii: 'rh' },
+  0x2B: { iso: 'f', ascii: 'f' }, 0x2F: { iso: 'ẏ', ascii: 'y' },
+  0x28: { iso: 'ṉ', ascii: 'n' }, 0x30: { iso: 'ṟ', ascii: 'r' }, 0x33: { iso: 'ḻ', ascii: 'zh' },
+};
+
+const CANDRABINDU = 0x01;
+const ANUSVARA = 0x02;
+const VISARGA = 0x03;
+const NUKTA = 0x3C;
+const AVAGRAHA = 0x3D;
+const VIRAMA = 0x4D;
+const OM = 0x50;
+const AU_LENGTH_MARK = 0x57;
+const DANDA = 0x64;
+const DOUBLE_DANDA = 0x65;
+const DIGIT_ZERO = 0x66;
+const BLOCK_SIZE = 0x80;
+
+const ZWJ = 0x200D;
+const ZWNJ = 0x200C;
+
+const MODIFIERS: Record<number, Letter> = {
+  [CANDRABINDU]: { iso: 'm̐', ascii: 'n' },
+  [ANUSVARA]: { iso: 'ṁ', ascii: 'n' },
+  [VISARGA]: { iso: 'ḥ', ascii: 'h' },
+};
+
+// Letters that make an anusvara sound like "m" rather than "n"
+const LABIALS = new Set(['p', 'ph', 'b', 'bh', 'm']);
+// Final schwa is kept after clusters ending in these (mitra, satya, śukla, tattva)
+const SCHWA_KEEPING_CLUSTER_ENDS = new Set(['y', 'r', 'l', 'v']);
+
+const ASPIRATE_FALLBACKS: Record<string, string> = {
+  kh: 'k', g: 'k', gh: 'k', ch: 'c', jh: 'j', ṭh: 'ṭ', ḍ: 'ṭ', ḍh: 'ṭ',
+  th: 't', d: 't', dh: 't', ph: 'p', b: 'p', bh: 'p',
+};
+
+const SCRIPTS: Record<IndicScript, ScriptDefinition> = {
+  devanagari: {
+    blockStart: 0x0900,
+    schwaDeletion: true,
+    finalConsonant: 'inherent',
+    mergeShortVowels: true,
+    consonantFallbacks: {},
+    finalForms: {},
+  },
+  tamil: {
+    blockStart: 0x0B80,
+    schwaDeletion: false,
+    finalConsonant: 'virama',
+    mergeShortVowels: false,
+    consonantFallbacks: ASPIRATE_FALLBACKS,
+    finalForms: {},
+  },
+  telugu: {
+    blockStart: 0x0C00,
+    schwaDeletion: false,
+    finalConsonant: 'virama',
+    mergeShortVowels: false,
+    consonantFallbacks: { ṉ: 'n' },
+    finalForms: {},
+  },
+  kannada: {
+    blockStart: 0x0C80,
+    schwaDeletion: false,
+    finalConsonant: 'virama',
+    mergeShortVowels: false,
+    consonantFallbacks: { ṉ: 'n', ḻ: 'ḷ' },
+    finalForms: {},
+  },
+  malayalam: {
+    blockStart: 0x0D00,
+    schwaDeletion: false,
+    finalConsonant: 'virama',
+    mergeShortVowels: false,
+    consonantFallbacks: {},
+    // Chillu letters for ṇ, n, r, l, ḷ and k, and anusvara for m, at the end of a word
+    finalForms: { 0x23: 0x7A, 0x28: 0x7B, 0x30: 0x7C, 0x32: 0x7D, 0x33: 0x7E, 0x15: 0x7F, 0x2E: 0x02 },
+  },
+};
+
+// Consonant offsets left unassigned in a script's block
+const MISSING_CONSONANTS: Partial<Record<IndicScript, Set<number>>> = {
+  // Tamil has no aspirates or voiced stops of its own
+  tamil: new Set([0x16, 0x17, 0x18, 0x1B, 0x1D, 0x20, 0x21, 0x22, 0x25, 0x26, 0x27, 0x2B, 0x2C, 0x2D]),
+  telugu: new Set([0x29]),
+  kannada: new Set([0x29, 0x34]),
+};
+
+const TAMIL_AYTHAM: Letter = { iso: 'ḵ', ascii: 'k' };
+const OM_NASAL: Letter = { iso: 'ṁ', ascii: 'm' };
+const CHILLU_CONSONANTS: Record<number, number> = { 0x7A: 0x23, 0x7B: 0x28, 0x7C: 0x30, 0x7D: 0x32, 0x7E: 0x33, 0x7F: 0x15 };
+
+function scriptOf(codePoint: number): IndicScript | null {
+  for (const [name, script] of Object.entries(SCRIPTS) as Array<[IndicScript, ScriptDefinition]>) {
+    if (codePoint >= script.blockStart && codePoint < script.blockStart + BLOCK_SIZE) return name;
+  }
+  return null;
+}
+
+// ===== INDIC → LATIN =====
+
+type Unit =
+  | { kind: 'syllable'; onset: Letter[]; vowel: Letter | null; inherent: boolean; joinable: boolean; codas: Letter[] }
+  | { kind: 'vowel'; vowel: Letter; codas: Letter[] }
+  | { kind: 'literal'; text: string };
+
+const INHERENT_A = VOWELS[0];
+const VOWEL_BY_OFFSET = new Map(VOWELS.map(v => [v.vowel, v]));
+const VOWEL_BY_SIGN = new Map(VOWELS.filter(v => v.sign >= 0).map(v => [v.sign, v]));
+
+/**
+ * Split one word of a single script into syllables: consonant clusters with
+ * their vowel, standalone vowels, and anything else as literal text
+ */
+function parseWord(codePoints: number[], script: IndicScript): Unit[] {
+  const { blockStart } = SCRIPTS[script];
+  const units: Unit[] = [];
+  const last = () => units[units.length - 1];
+
+  for (let i = 0; i < codePoints.length; i++) {
+    const codePoint = codePoints[i];
+    if (codePoint === ZWJ) continue;
+    if (codePoint === ZWNJ) {
+      // A non-joiner keeps a virama visible instead of forming a conjunct
+      const previous = last();
+      if (previous?.kind === 'syllable') previous.joinable = false;
+      continue;
+    }
+
+    const offset = codePoint - blockStart;
+    const previous = last();
+
+    if (CONSONANTS[offset]) {
+      let letter = CONSONANTS[offset];
+      if (codePoints[i + 1] - blockStart === NUKTA && NUKTA_FORMS[offset]) {
+        letter = NUKTA_FORMS[offset];
+        i++;
+      }
+      if (previous?.kind === 'syllable' && previous.vowel === null && previous.joinable) {
+        previous.onset.push(letter);
+        previous.vowel = INHERENT_A;
+        previous.inherent = true;
+      } else {
+        units.push({ kind: 'syllable', onset: [letter], vowel: INHERENT_A, inherent: true, joinable: false, codas: [] });
+      }
+    } else if (script === 'malayalam' && CHILLU_CONSONANTS[offset]) {
+      units.push({ kind: 'syllable', onset: [CONSONANTS[CHILLU_CONSONANTS[offset]]], vowel: null, inherent: false, joinable: false, codas: [] });
+    } else if (VOWEL_BY_SIGN.has(offset) || offset === AU_LENGTH_MARK) {
+      const sign = offset === AU_LENGTH_MARK ? VOWELS[VOWELS.length - 1] : VOWEL_BY_SIGN.get(offset)!;
+      if (previous?.kind === 'syllable') {
+        previous.vowel = sign;
+        previous.inherent = false;
+      } else {
+        units.push({ kind: 'vowel', vowel: sign, codas: [] });
+      }
+    } else if (offset === VIRAMA) {
+      if (previous?.kind === 'syllable') {
+        previous.vowel = null;
+        previous.inherent = false;
+        previous.joinable = true;
+      }
+    } else if (VOWEL_BY_OFFSET.has(offset)) {
+      units.push({ kind: 'vowel', vowel: VOWEL_BY_OFFSET.get(offset)!, codas: [] });
+    } else if (MODIFIERS[offset]) {
+      const modifier = script === 'tamil' && offset === VISARGA ? TAMIL_AYTHAM : MODIFIERS[offset];
+      if (previous && previous.kind !== 'literal') {
+        previous.codas.push(modifier);
+      } else {
+        units.push({ kind: 'literal', text: modifier.iso });
+      }
+    } else if (offset === NUKTA) {
+      // A nukta on a letter without a nukta form changes nothing we can write
+    } else if (offset === AVAGRAHA) {
+      units.push({ kind: 'literal', text: '’' });
+    } else if (offset === OM) {
+      units.push({ kind: 'vowel', vowel: VOWEL_BY_OFFSET.get(0x13)!, codas: [OM_NASAL] });
+    } else if (offset === DANDA || offset === DOUBLE_DANDA) {
+      units.push({ kind: 'literal', text: '.' });
+    } else if (offset >= DIGIT_ZERO && offset < DIGIT_ZERO + 10) {
+      units.push({ kind: 'literal', text: String(offset - DIGIT_ZERO) });
+    } else {
+      units.push({ kind: 'literal', text: String.fromCodePoint(codePoint) });
+    }
+  }
+  return units;
+}
+
+/**
+ * Hindi schwa deletion: drop the final inherent vowel, then, right to left,
+ * every inherent vowel in a V C a C V context (kamalā → kamlā, laṛakā → laṛkā).
+ * A nasalised syllable before it blocks deletion (zindagī, not zindgī).
+ */
+function deleteSchwas(units: Unit[]): void {
+  const syllables = units.filter(unit => unit.kind !== 'literal');
+  if (syllables.length < 2) return;
+
+  const isDeletable = (unit: Unit | undefined): unit is Extract<Unit, { kind: 'syllable' }> =>
+    unit?.kind === 'syllable' && unit.inherent && unit.codas.length === 0;
+  const hasVowel = (unit: Unit | undefined) =>
+    unit !== undefined && unit.kind !== 'literal' && unit.vowel !== null;
+  const isOpenSyllable = (unit: Unit | undefined) =>
+    unit !== undefined && unit.kind !== 'literal' && unit.vowel !== null && unit.codas.length === 0;
+
+  const final = syllables[syllables.length - 1];
+  if (isDeletable(final) && (final.onset.length === 1 || !SCHWA_KEEPING_CLUSTER_ENDS.has(final.onset[final.onset.length - 1].iso))) {
+    final.vowel = null;
+  }
+
+  for (let i = syllables.length - 2; i >= 1; i--) {
+    const unit = syllables[i];
+    const next = syllables[i + 1];
+    if (
+      isDeletable(unit) && unit.onset.length === 1 &&
+      isOpenSyllable(syllables[i - 1]) &&
+      next.kind === 'syllable' && next.onset.length === 1 && hasVowel(next)
+    ) {
+      unit.vowel = null;
+    }
+  }
+}
+
+function renderUnits(units: Unit[], style: 'iso' | 'ascii', script: IndicScript): string {
+  let output = '';
+  units.forEach((unit, index) => {
+    if (unit.kind === 'literal') {
+      output += unit.text;
+      return;
+    }
+    if (unit.kind === 'syllable') {
+      output += unit.onset.map(letter => letter[style]).join('');
+    }
+    if (unit.vowel) {
+      // Keep "a" + "i" apart from the diphthong "ai" (e.g. kaï in ISO)
+      const text = unit.vowel[style];
+      const isHiatus = style === 'iso' && /a$/.test(output) && unit.kind === 'vowel' && /^[iu]/.test(text);
+      output += isHiatus ? `:${text}` : text;
+    }
+    unit.codas.forEach(coda => {
+      if (style === 'ascii' && coda === MODIFIERS[ANUSVARA]) {
+        const following = units[index + 1];
+        const nextConsonant = following?.kind === 'syllable' ? following.onset[0].iso : '';
+        // Word-final anusvara is "m" in the Dravidian languages (maram) but nasalises the vowel in Hindi (maiṁ → main)
+        const isLabial = LABIALS.has(nextConsonant) || (!following && script !== 'devanagari');
+        output += isLabial ? 'm' : 'n';
+      } else {
+        output += coda[style];
+      }
+    });
+  });
+  return output;
+}
+
+/**
+ * Write text from any supported Indian script in Latin letters. Latin text and
+ * punctuation pass through unchanged.
+ */
+export function toLatin(text: string, options: TransliterationOptions = {}): string {
+  const style = options.style || 'ascii';
+  const schwaDeletion = options.schwaDeletion ?? true;
+  let output = '';
+  let word: number[] = [];
+  let wordScript: IndicScript | null = null;
+
+  const flush = () => {
+    if (wordScript && word.length > 0) {
+      const units = parseWord(word, wordScript);
+      if (schwaDeletion && SCRIPTS[wordScript].schwaDeletion) deleteSchwas(units);
+      output += renderUnits(units, style, wordScript);
+    }
+    word = [];
+    wordScript = null;
+  };
+
+  for (const char of text.normalize('NFC')) {
+    const codePoint = char.codePointAt(0)!;
+    const script = scriptOf(codePoint);
+    const isJoiner = codePoint === ZWJ || codePoint === ZWNJ;
+    if ((script && (script === wordScript || !wordScript)) || (isJoiner && wordScript)) {
+      wordScript = wordScript || script;
+      word.push(codePoint);
+    } else if (script) {
+      flush();
+      wordScript = script;
+      word.push(codePoint);
+    } else {
+      flush();
+      output += char;
+    }
+  }
+  flush();
+  return output;
+}
+
+// ===== LATIN → INDIC =====
+
+type LatinToken =
+  | { kind: 'consonant'; iso: string }
+  | { kind: 'vowel'; letter: VowelLetter }
+  | { kind: 'modifier'; offset: number };
+
+const LATIN_TOKENS = new Map<string, LatinToken>();
+VOWELS.forEach(letter => LATIN_TOKENS.set(letter.iso, { kind: 'vowel', letter }));
+[...Object.values(CONSONANTS), ...Object.values(NUKTA_FORMS)]
+  .forEach(letter => LATIN_TOKENS.set(letter.iso, { kind: 'consonant', iso: letter.iso }));
+LATIN_TOKENS.set('ṁ', { kind: 'modifier', offset: ANUSVARA });
+LATIN_TOKENS.set('ṃ', { kind: 'modifier', offset: ANUSVARA });
+LATIN_TOKENS.set('m̐', { kind: 'modifier', offset: CANDRABINDU });
+LATIN_TOKENS.set('ḥ', { kind: 'modifier', offset: VISARGA });
+// Doubled long vowels and "sh" for people typing without diacritics
+const vowelByIso = (iso: string) => VOWELS.find(v => v.iso === iso)!;
+LATIN_TOKENS.set('aa', { kind: 'vowel', letter: vowelByIso('ā') });
+LATIN_TOKENS.set('ii', { kind: 'vowel', letter: vowelByIso('ī') });
+LATIN_TOKENS.set('ee', { kind: 'vowel', letter: vowelByIso('ī') });
+LATIN_TOKENS.set('uu', { kind: 'vowel', letter: vowelByIso('ū') });
+LATIN_TOKENS.set('oo', { kind: 'vowel', letter: vowelByIso('ū') });
+LATIN_TOKENS.set('sh', { kind: 'consonant', iso: 'ś' });
+
+const LONGEST_TOKEN = Math.max(...Array.from(LATIN_TOKENS.keys()).map(key => key.length));
+
+// Offsets of each consonant spelling: a base letter, plus a nukta where needed
+const CONSONANT_OFFSETS = new Map<string, number[]>();
+Object.entries(CONSONANTS).forEach(([offset, letter]) => CONSONANT_OFFSETS.set(letter.iso, [Number(offset)]));
+Object.entries(NUKTA_FORMS).forEach(([offset, letter]) => {
+  if (!CONSONANT_OFFSETS.has(letter.iso)) CONSONANT_OFFSETS.set(letter.iso, [Number(offset), NUKTA]);
+});
+
+function consonantOffsets(iso: string, script: IndicScript): number[] {
+  const definition = SCRIPTS[script];
+  const missing = MISSING_CONSONANTS[script];
+  const fallback = definition.consonantFallbacks[iso];
+  const offsets = CONSONANT_OFFSETS.get(iso)!;
+
+  // Nukta letters are written with the nukta only in Devanagari
+  if (offsets.length > 1 && script !== 'devanagari') {
+    return consonantOffsets(fallback || CONSONANTS[offsets[0]].iso, script);
+  }
+  if (missing?.has(offsets[0]) && fallback && fallback !== iso) {
+    return consonantOffsets(fallback, script);
+  }
+  return offsets;
+}
+
+/**
+ * Write ISO 15919 Latin text in an Indian script. Non-letters pass through.
+ * A consonant with no vowel after it is joined to the next consonant; at the
+ * end of a word it gets a virama, except in Hindi where it keeps the silent
+ * inherent vowel (kamal → कमल) and in Malayalam where chillu letters are used.
+ */
+export function fromLatin(text: string, script: IndicScript): string {
+  const definition = SCRIPTS[script];
+  const char = (offset: number) => String.fromCodePoint(definition.blockStart + offset);
+  const input = text.normalize('NFC');
+  const lower = input.toLowerCase();
+  let output = '';
+  let pendingConsonant: number[] | null = null;
+
+  const closeConsonant = (atWordEnd: boolean) => {
+    if (!pendingConsonant) return;
+    if (atWordEnd) {
+      const finalForm = definition.finalForms[pendingConsonant[0]];
+      if (finalForm && pendingConsonant.length === 1) {
+        output += char(finalForm);
+      } else {
+        output += pendingConsonant.map(char).join('');
+        if (definition.finalConsonant === 'virama') output += char(VIRAMA);
+      }
+    } else {
+      output += pendingConsonant.map(char).join('') + char(VIRAMA);
+    }
+    pendingConsonant = null;
+  };
+
+  let i = 0;
+  while (i < lower.length) {
+    let token: LatinToken | undefined;
+    let length = LONGEST_TOKEN;
+    for (; length > 0; length--) {
+      token = LATIN_TOKENS.get(lower.substring(i, i + length));
+      if (token) break;
+    }
+
+    if (!token) {
+      closeConsonant(true);
+      // ISO marks a:i / a:u hiatus with a colon
+      if (!(lower[i] === ':' && /[a-z]/i.test(lower[i + 1] || ''))) output += input[i];
+      i++;
+      continue;
+    }
+    i += length;
+
+    if (token.kind === 'consonant') {
+      closeConsonant(false);
+      pendingConsonant = consonantOffsets(token.iso, script);
+    } else if (token.kind === 'vowel') {
+      let letter = token.letter;
+      if (definition.mergeShortVowels && (letter.iso === 'e' || letter.iso === 'o')) {
+        letter = vowelByIso(letter.iso === 'e' ? 'ē' : 'ō');
+      }
+      if (pendingConsonant) {
+        output += pendingConsonant.map(char).join('');
+        if (letter.sign >= 0) output += char(letter.sign);
+        pendingConsonant = null;
+      } else {
+        output += char(letter.vowel);
+      }
+    } else {
+      closeConsonant(false);
+      output += char(token.offset);
+    }
+  }
+  closeConsonant(true);
+  return output;
+}
@@ -0,0 +1,253 @@
+/**
+ * University Retrieval Service
+ * Offline BM25 keyword search over the typed university records, so chat
+ * prompts only carry the departments, facilities and circulars that matter
+ */
+
+import {
+  KARUNYA_DEPARTMENTS,
+  CAMPUS_FACILITIES,
+  SAMPLE_CIRCULARS,
+} from '../data/universityData';
+import type { Department, CampusFacility, Circular } from '../data/universityData';
+import { joinSpelledLetters, wordSimilarity } from './phoneticMatcher';
+import { voiceAliasService } from './voiceAliasService';
+
+export type UniversityRecord =
+  | { key: string; kind: 'department'; title: string; record: Department }
+  | { key: string; kind: 'facility'; title: string; record: CampusFacility }
+  | { key: string; kind: 'circular'; title: string; record: Circular };
+
+export interface RetrievalHit {
+  record: UniversityRecord;
+  score: number;
+}
+
+interface IndexedDocument {
+  record: UniversityRecord;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// BM25 tuning - standard defaults work well for short records
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Hits scoring below this fraction of the best hit are treated as noise
+const RELATIVE_SCORE_CUTOFF = 0.35;
+// Unknown query words this long or longer are snapped to a sound-alike indexed word
+const MIN_SNAP_LENGTH = 4;
+const MIN_SNAP_SIMILARITY = 0.8;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'of', 'to', 'in', 'on', 'at', 'for', 'and', 'or',
+  'what', 'when', 'where', 'who', 'which', 'how', 'do', 'does', 'can', 'i', 'me', 'my', 'you', 'your',
+  'it', 'its', 'this', 'that', 'about', 'tell', 'please', 'with', 'there', 'any', 'give', 'show',
+  // Common Romanized Hindi filler words
+  'kya', 'hai', 'hain', 'ka', 'ki', 'ke', 'ko', 'mein', 'aap', 'mujhe', 'batao', 'bataiye',
+]);
+
+// Query words mapped onto the vocabulary the records actually use
+const SYNONYMS: Record<string, string[]> = {
+  hour: ['timing'],
+  time: ['timing'],
+  open: ['timing'],
+  close: ['timing'],
+  schedule: ['timing', 'examination'],
+  exam: ['examination'],
+  test: ['examination'],
+  contact: ['phone', 'email'],
+  number: ['phone'],
+  call: ['phone'],
+  mail: ['email'],
+  hod: ['head'],
+  canteen: ['cafeteria'],
+  food: ['cafeteria'],
+  mess: ['cafeteria'],
+  hospital: ['health', 'medical'],
+  doctor: ['health', 'medical'],
+  clinic: ['health', 'medical'],
+  sick: ['health', 'medical'],
+  book: ['library'],
+  fest: ['event'],
+  wheelchair: ['accessibility'],
+  computer: ['cse'],
+  electronic: ['ece'],
+  mechanical: ['mech'],
+};
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function expandQuery(tokens: string[]): string[] {
+  const expanded = new Set(tokens);
+  tokens.forEach(token => SYNONYMS[token]?.forEach(synonym => expanded.add(synonym)));
+  return Array.from(expanded);
+}
+
+/**
+ * Searchable text for a record; the title is repeated to weight it above body text
+ */
+function documentText(entry: UniversityRecord): string {
+  switch (entry.kind) {
+    case 'department': {
+      const dept = entry.record;
+      return [
+        dept.name, dept.name, dept.code, dept.code, 'department',
+        dept.description, `head ${dept.head}`, dept.facilities.join(' '),
+        `contact phone email ${dept.contactEmail} ${dept.contactPhone}`,
+      ].join(' ');
+    }
+    case 'facility': {
+      const facility = entry.record;
+      return [
+        facility.name, facility.name, facility.type, facility.type, facility.location,
+        facility.description, facility.facilities.join(' '), facility.amenities.join(' '),
+        `accessibility ${facility.accessibilityFeatures.join(' ')}`,
+        'timings hours', facility.contactInfo ? `contact phone email ${facility.contactInfo.incharge}` : '',
+      ].join(' ');
+    }
+    case 'circular': {
+      const circular = entry.record;
+      return [
+        circular.title, circular.title, 'circular announcement notice', circular.category,
+        circular.content, circular.tags.join(' '), circular.priority,
+      ].join(' ');
+    }
+  }
+}
+
+export function buildUniversityRecords(): UniversityRecord[] {
+  return [
+    ...KARUNYA_DEPARTMENTS.map(dept => ({
+      key: `department:${dept.id}`, kind: 'department' as const, title: dept.name, record: dept,
+    })),
+    ...CAMPUS_FACILITIES.map(facility => ({
+      key: `facility:${facility.id}`, kind: 'facility' as const, title: facility.name, record: facility,
+    })),
+    ...SAMPLE_CIRCULARS.map(circular => ({
+      key: `circular:${circular.id}`, kind: 'circular' as const, title: circular.title, record: circular,
+    })),
+  ];
+}
+
+export class UniversityRetrievalIndex {
+  private documents: IndexedDocument[];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(records: UniversityRecord[]) {
+    this.documents = records.map(record => {
+      const terms = tokenize(documentText(record));
+      const termFrequencies = new Map<string, number>();
+      terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+      termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+      return { record, termFrequencies, length: terms.length };
+    });
+
+    this.averageLength = this.documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, this.documents.length);
+    console.log(`📚 University retrieval index built: ${this.documents.length} records`);
+  }
+
+  /**
+   * Rank records against a free-text query, best first
+   */
+  search(query: string, limit: number = 4): RetrievalHit[] {
+    const spoken = joinSpelledLetters(voiceAliasService.apply(query));
+    const terms = expandQuery(this.snapToVocabulary(tokenize(spoken)));
+    if (terms.length === 0) return [];
+
+    const hits = this.documents
+      .map(doc => ({ record: doc.record, score: this.score(doc, terms) }))
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (hits.length === 0) return [];
+    const cutoff = hits[0].score * RELATIVE_SCORE_CUTOFF;
+    return hits.filter(hit => hit.score >= cutoff).slice(0, limit);
+  }
+
+  getRecord(key: string): UniversityRecord | null {
+    return this.documents.find(doc => doc.record.key === key)?.record || null;
+  }
+
+  /**
+   * Replace words the index has never seen with the indexed word they sound
+   * most like, so misheard names ("krishna" for "krishnan") still retrieve
+   */
+  private snapToVocabulary(terms: string[]): string[] {
+    return terms.map(term => {
+      if (term.length < MIN_SNAP_LENGTH || this.documentFrequencies.has(term)) return term;
+
+      let best = { term, score: MIN_SNAP_SIMILARITY };
+      this.documentFrequencies.forEach((_, candidate) => {
+        const score = wordSimilarity(term, candidate);
+        if (score >= best.score) best = { term: candidate, score };
+      });
+      return best.term;
+    });
+  }
+
+  private score(doc: IndexedDocument, terms: string[]): number {
+    const totalDocs = this.documents.length;
+    return terms.reduce((score, term) => {
+      const frequency = doc.termFrequencies.get(term);
+      if (!frequency) return score;
+
+      const docFrequency = this.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (totalDocs - docFrequency + 0.5) / (docFrequency + 0.5));
+      const normalizer = frequency + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / this.averageLength);
+      return score + idf * (frequency * (BM25_K1 + 1)) / normalizer;
+    }, 0);
+  }
+}
+
+/**
+ * Render a record the way the chat prompt expects it
+ */
+export function formatRecordForPrompt(entry: UniversityRecord): string {
+  switch (entry.kind) {
+    case 'department': {
+      const dept = entry.record;
+      return `${dept.name} (${dept.code}):
+- ${dept.description}
+- Head: ${dept.head}
+- Contact: ${dept.contactEmail}, ${dept.contactPhone}
+- Facilities: ${dept.facilities.join(', ')}`;
+    }
+    case 'facility': {
+      const facility = entry.record;
+      const contact = facility.contactInfo
+        ? `\n- Contact: ${facility.contactInfo.incharge}, ${facility.contactInfo.email}, ${facility.contactInfo.phone}`
+        : '';
+      return `${facility.name} (${facility.location}):
+- ${facility.description}
+- Accessibility: ${facility.accessibilityFeatures.join(', ')}
+- Timings: Weekdays ${facility.timings.weekdays}; Weekends ${facility.timings.weekends}; Holidays ${facility.timings.holidays}${contact}
+- Amenities: ${facility.amenities.join(', ')}`;
+    }
+    case 'circular': {
+      const circular = entry.record;
+      const validUntil = circular.validUntil ? ` (valid until ${circular.validUntil.toDateString()})` : '';
+      return `Circular: ${circular.title}
+- Issued: ${circular.dateIssued.toDateString()}${validUntil}
+- Category: ${circular.category}, priority ${circular.priority}
+- ${circular.content}`;
+    }
+  }
+}
+
+// Singleton index over the bundled university data
+export const universityIndex = new UniversityRetrievalIndex(buildUniversityRecords());
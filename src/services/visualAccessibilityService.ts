@@ -5,6 +5,8 @@
 
 // Visual Accessibility Service - handles visual enhancements and adaptations
 
+import { actionJournal } from './actionJournal';
+
 interface VisualSettings {
   fontSize: 'small' | 'medium' | 'large' | 'extra-large';
   highContrast: boolean;
@@ -116,6 +118,7 @@ export class VisualAccessibilityService {
    * Update font size setting
    */
   updateFontSize(size: 'small' | 'medium' | 'large' | 'extra-large') {
+    actionJournal.recordSetting('visual.fontSize', `text size ${size}`, this.settings.fontSize, size, value => this.updateFontSize(value));
     this.settings.fontSize = size;
     
     const fontSizes = {
@@ -139,6 +142,7 @@ export class VisualAccessibilityService {
    * Update high contrast mode
    */
   updateHighContrast(enabled: boolean) {
+    actionJournal.recordSetting('visual.highContrast', `high contrast ${enabled ? 'on' : 'off'}`, this.settings.highContrast, enabled, value => this.updateHighContrast(value));
     this.settings.highContrast = enabled;
     
     if (enabled) {
@@ -157,6 +161,7 @@ export class VisualAccessibilityService {
    * Update dark mode
    */
   updateDarkMode(enabled: boolean) {
+    actionJournal.recordSetting('visual.darkMode', `dark mode ${enabled ? 'on' : 'off'}`, this.settings.darkMode, enabled, value => this.updateDarkMode(value));
     this.settings.darkMode = enabled;
     
     if (enabled) {
@@ -175,6 +180,7 @@ export class VisualAccessibilityService {
    * Update reduced motion setting
    */
   updateReduceMotion(enabled: boolean) {
+    actionJournal.recordSetting('visual.reduceMotion', `reduced motion ${enabled ? 'on' : 'off'}`, this.settings.reduceMotion, enabled, value => this.updateReduceMotion(value));
     this.settings.reduceMotion = enabled;
     
     if (enabled) {
@@ -193,6 +199,7 @@ export class VisualAccessibilityService {
    * Update color blind mode
    */
   updateColorBlindMode(mode: 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia') {
+    actionJournal.recordSetting('visual.colorBlindMode', `color blind mode ${mode}`, this.settings.colorBlindMode, mode, value => this.updateColorBlindMode(value));
     this.settings.colorBlindMode = mode;
     
     // Remove all color blind classes
@@ -453,6 +460,7 @@ export class VisualAccessibilityService {
    * Reset to default settings
    */
   resetToDefaults() {
+    const previous = this.getSettings();
     this.settings = {
       fontSize: 'medium',
       highContrast: false,
@@ -462,6 +470,11 @@ export class VisualAccessibilityService {
     };
     
     this.applyAllSettings();
+    actionJournal.record({
+      label: 'visual settings reset',
+      undo: () => this.applySettings(previous),
+      redo: () => this.resetToDefaults()
+    });
     console.log('🔄 Visual accessibility settings reset to defaults');
   }
 
@@ -1,5 +1,13 @@
 // Voice AI System - Controls entire screen through speech commands
 
+import { parseIntent, describeIntent } from './intentEngine';
+import type { Intent, Direction } from './intentEngine';
+import { speechRecognitionBroker, MIC_PRIORITY } from './speechRecognitionBroker';
+import type { RecognitionClient } from './speechRecognitionBroker';
+import { dictationService, isTextField, typeText } from './dictationService';
+import { findPhoneticMatch, getSpokenLabel } from './phoneticMatcher';
+import { actionJournal } from './actionJournal';
+
 // TypeScript declarations for Speech API
 declare global {
   interface Window {
@@ -17,7 +25,7 @@ interface SpeechRecognitionErrorEvent {
 }
 
 export class VoiceAI {
-  private recognition: any = null;
+  private recognition: RecognitionClient | null = null;
   private synthesis: SpeechSynthesis;
   private isListening = false;
   private commandQueue: string[] = [];
@@ -29,13 +37,12 @@ export class VoiceAI {
   }
 
   private initializeSpeechRecognition() {
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = window.webkitSpeechRecognition || window.SpeechRecognition;
-      this.recognition = new SpeechRecognition();
+    if (speechRecognitionBroker.isSupported()) {
+      // The broker keeps this continuous session going, and pauses it while dictation has the mic
+      this.recognition = speechRecognitionBroker.createClient('Voice AI', MIC_PRIORITY.commands);
       
       this.recognition.continuous = true;
       this.recognition.interimResults = true;
-      this.recognition.lang = 'en-US';
       
       this.recognition.onresult = (event: any) => {
         const lastResult = event.results[event.results.length - 1];
@@ -52,13 +59,6 @@ export class VoiceAI {
           this.speak('Microphone access denied. Please allow microphone access.');
         }
       };
-
-      this.recognition.onend = () => {
-        if (this.isListening) {
-          // Restart if we're still supposed to be listening
-          setTimeout(() => this.recognition?.start(), 100);
-        }
-      };
     } else {
       console.error('Speech recognition not supported');
     }
@@ -98,96 +98,63 @@ export class VoiceAI {
       this.commandQueue.shift();
     }
 
-    // Parse and execute command
-    const action = await this.parseCommand(command);
-    if (action) {
-      this.onCommandCallback?.(command, action);
-      await this.executeAction(action);
+    const { best } = parseIntent(command);
+    if (best) {
+      this.onCommandCallback?.(command, describeIntent(best));
+      await this.executeIntent(best);
     }
   }
 
-  private async parseCommand(command: string): Promise<string | null> {
-    // Click commands
-    if (command.includes('click')) {
-      const target = command.replace('click', '').trim();
-      if (target) {
-        return `click:${target}`;
-      }
-      return 'click:anywhere';
-    }
-
-    // Type commands
-    if (command.includes('type') || command.includes('write')) {
-      const text = command.replace(/^(type|write)\s*/, '').trim();
-      if (text) {
-        return `type:${text}`;
-      }
-    }
-
-    // Navigation commands
-    if (command.includes('scroll down') || command.includes('scroll')) {
-      return 'scroll:down';
-    }
-    if (command.includes('scroll up')) {
-      return 'scroll:up';
-    }
-    if (command.includes('go back') || command.includes('back')) {
-      return 'navigate:back';
-    }
-    if (command.includes('refresh') || command.includes('reload')) {
-      return 'navigate:refresh';
-    }
-
-    // Key commands
-    if (command.includes('press enter') || command.includes('enter')) {
-      return 'key:Enter';
-    }
-    if (command.includes('press escape') || command.includes('escape')) {
-      return 'key:Escape';
-    }
-    if (command.includes('press tab') || command.includes('tab')) {
-      return 'key:Tab';
-    }
+  private async executeIntent(intent: Intent) {
+    const { target, direction, amount } = intent.slots;
 
-    // Form commands
-    if (command.includes('submit') || command.includes('send')) {
-      return 'click:submit';
-    }
-    if (command.includes('login')) {
-      return 'click:login';
-    }
-    if (command.includes('search')) {
-      return 'focus:search';
-    }
-
-    return null;
-  }
-
-  private async executeAction(action: string) {
-    const [actionType, parameter] = action.split(':');
-    
     try {
-      switch (actionType) {
+      switch (intent.name) {
         case 'click':
-          await this.performClick(parameter);
+          await this.performClick(target || 'anywhere');
           break;
         case 'type':
-          await this.performType(parameter);
+          await this.performType(target!);
           break;
         case 'scroll':
-          await this.performScroll(parameter);
+          await this.performScroll(direction!, amount);
           break;
         case 'navigate':
-          await this.performNavigation(parameter);
+          await this.performNavigation(target || direction!);
           break;
         case 'key':
-          await this.performKeyPress(parameter);
+          await this.performKeyPress(target!);
+          break;
+        case 'search':
+          await this.performFocus('search');
+          await this.performType(target!);
+          break;
+        case 'dictate':
+          if (intent.slots.change === 'off') {
+            dictationService.stop();
+          } else if (!dictationService.start()) {
+            this.speak('Focus a text field first, then say dictate');
+          }
+          break;
+        case 'undo':
+          actionJournal.undo();
+          break;
+        case 'redo':
+          actionJournal.redo();
+          break;
+        case 'set_language':
+          speechRecognitionBroker.setCommandLanguage(target === 'hi' ? 'hi' : 'en');
+          this.speak(`Listening for ${target === 'hi' ? 'Hindi' : 'English'} commands`);
           break;
         case 'focus':
-          await this.performFocus(parameter);
+          if (target) {
+            await this.performFocus(target);
+          } else {
+            this.speak(`I can't ${describeIntent(intent)} yet`);
+          }
           break;
         default:
-          this.speak(`I don't know how to ${actionType}`);
+          this.speak(`I can't ${describeIntent(intent)} here`);
       }
     } catch (error) {
       console.error('Action execution failed:', error);
@@ -223,10 +190,21 @@ export class VoiceAI {
   private findElementByText(text: string): Element | null {
     // Find by exact text content
     const elements = Array.from(document.querySelectorAll('*'));
-    return elements.find(el => 
+    const exact = elements.find(el => 
       el.textContent?.toLowerCase().includes(text.toLowerCase()) && 
       el.children.length === 0 // Leaf elements only
-    ) || null;
+    );
+    if (exact) return exact;
+
+    // Then by sound, over controls and short labels, for names the recognizer misspells
+    const candidates = Array.from(document.querySelectorAll(
+      'button, a, [role="button"], [role="link"], [role="tab"], [role="menuitem"], [data-voice-label]'
+    )).filter(el => getSpokenLabel(el).length <= 80);
+    const match = findPhoneticMatch(text, candidates, getSpokenLabel);
+    if (match) {
+      console.log(`🔤 Matched "${text}" to "${match.label}" by sound (${Math.round(match.score * 100)}%)`);
+    }
+    return match?.item || null;
   }
 
   private findElementByRole(role: string): Element | null {
@@ -291,20 +269,18 @@ export class VoiceAI {
   }
 
   private async performType(text: string) {
-    const activeElement = document.activeElement as HTMLInputElement | HTMLTextAreaElement;
+    const activeElement = document.activeElement;
     
-    if (activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA')) {
-      // Type in currently focused input
-      activeElement.value = text;
-      activeElement.dispatchEvent(new Event('input', { bubbles: true }));
+    if (isTextField(activeElement)) {
+      // Type at the caret of the currently focused input
+      typeText(activeElement, text);
       this.speak(`Typed: ${text}`);
     } else {
       // Find first available input
-      const input = document.querySelector('input[type="text"], input[type="email"], textarea') as HTMLInputElement;
-      if (input) {
+      const input = document.querySelector('input[type="text"], input[type="email"], textarea');
+      if (isTextField(input)) {
         input.focus();
-        input.value = text;
-        input.dispatchEvent(new Event('input', { bubbles: true }));
+        typeText(input, text);
         this.speak(`Typed: ${text}`);
       } else {
         this.speak('No text input found');
@@ -312,9 +288,13 @@ export class VoiceAI {
     }
   }
 
-  private async performScroll(direction: string) {
-    const scrollAmount = direction === 'up' ? -300 : 300;
-    window.scrollBy({ top: scrollAmount, behavior: 'smooth' });
+  private async performScroll(direction: Direction, amount = 1) {
+    if (direction === 'top' || direction === 'bottom') {
+      window.scrollTo({ top: direction === 'top' ? 0 : document.body.scrollHeight, behavior: 'smooth' });
+    } else {
+      const scrollAmount = (direction === 'up' ? -300 : 300) * amount;
+      window.scrollBy({ top: scrollAmount, behavior: 'smooth' });
+    }
     this.speak(`Scrolled ${direction}`);
   }
 
@@ -324,6 +304,10 @@ export class VoiceAI {
         window.history.back();
         this.speak('Going back');
         break;
+      case 'forward':
+        window.history.forward();
+        this.speak('Going forward');
+        break;
       case 'refresh':
         window.location.reload();
         this.speak('Refreshing page');
@@ -0,0 +1,98 @@
+/**
+ * Voice Alias Service
+ * A user-correctable table of what the recognizer hears → what the user meant,
+ * e.g. "karunia" → "karunya". Aliases are applied to spoken text before it is
+ * matched against element labels, university records and sidebar sections.
+ */
+
+export interface VoiceAlias {
+  heard: string;
+  meant: string;
+}
+
+const ALIASES_STORAGE_KEY = 'voice-aliases';
+
+// Seeded on first use; users can edit or remove them like their own
+const DEFAULT_ALIASES: VoiceAlias[] = [
+  { heard: 'karunia', meant: 'karunya' },
+  { heard: 'karunea', meant: 'karunya' },
+  { heard: 'null chat', meant: 'nullchat' },
+  { heard: 'null assistant', meant: 'nullistant' },
+];
+
+function normalizePhrase(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class VoiceAliasService {
+  private aliases: VoiceAlias[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.aliases = this.loadAliases();
+  }
+
+  getAliases(): VoiceAlias[] {
+    return this.aliases.map(alias => ({ ...alias }));
+  }
+
+  /**
+   * Add or correct an alias; an existing entry for the same heard phrase is replaced
+   */
+  setAlias(heard: string, meant: string) {
+    const alias = { heard: normalizePhrase(heard), meant: normalizePhrase(meant) };
+    if (!alias.heard || !alias.meant || alias.heard === alias.meant) return;
+
+    this.aliases = [...this.aliases.filter(existing => existing.heard !== alias.heard), alias];
+    console.log(`🔤 Voice alias: "${alias.heard}" → "${alias.meant}"`);
+    this.persist();
+  }
+
+  removeAlias(heard: string) {
+    const phrase = normalizePhrase(heard);
+    this.aliases = this.aliases.filter(alias => alias.heard !== phrase);
+    this.persist();
+  }
+
+  /**
+   * Rewrite every aliased phrase in the text, longest phrases first, whole words only
+   */
+  apply(text: string): string {
+    let result = normalizePhrase(text);
+    const byLength = [...this.aliases].sort((a, b) => b.heard.length - a.heard.length);
+    for (const { heard, meant } of byLength) {
+      result = result.replace(new RegExp(`(^| )${escapeRegExp(heard)}(?= |$)`, 'g'), `$1${meant}`);
+    }
+    return result;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private loadAliases(): VoiceAlias[] {
+    try {
+      const saved = localStorage.getItem(ALIASES_STORAGE_KEY);
+      return saved ? JSON.parse(saved) as VoiceAlias[] : [...DEFAULT_ALIASES];
+    } catch (error) {
+      console.warn('⚠️ Could not load voice aliases:', error);
+      return [...DEFAULT_ALIASES];
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(ALIASES_STORAGE_KEY, JSON.stringify(this.aliases));
+    } catch (error) {
+      console.warn('⚠️ Could not save voice aliases:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const voiceAliasService = new VoiceAliasService();
@@ -0,0 +1,247 @@
+/**
+ * Voice Macro Service
+ * Named sequences of voice commands. Say "record macro exam notices", give
+ * the commands, then "stop recording"; afterwards saying "exam notices" (or
+ * "run macro exam notices") replays them in order. Macros are kept in
+ * localStorage and registered as custom commands with the voice command service.
+ */
+
+import { enhancedVoiceCommandService } from './enhancedVoiceCommandService';
+import type { VoiceCommand } from './enhancedVoiceCommandService';
+
+export interface VoiceMacro {
+  id: string;
+  name: string;
+  steps: string[]; // Command phrases, replayed in order
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MacroRecording {
+  name: string;
+  steps: string[];
+}
+
+export interface MacroRunResult {
+  ran: number;
+  failed: string[]; // Steps no command answered to
+}
+
+const MACROS_STORAGE_KEY = 'voice-macros';
+const STEP_DELAY_MS = 1500; // Lets navigation and speech settle between steps
+
+export class VoiceMacroService {
+  private macros: VoiceMacro[] = [];
+  private recording: MacroRecording | null = null;
+  private isRunning = false;
+  private macroCommands = new Map<string, () => void>(); // Macro id → unregister
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.macros = this.loadMacros();
+    this.macros.forEach(macro => this.registerMacroCommand(macro));
+    this.registerControlCommands();
+    enhancedVoiceCommandService.onCommandExecuted((transcript, command) => this.recordStep(transcript, command));
+  }
+
+  getMacros(): VoiceMacro[] {
+    return this.macros.map(macro => ({ ...macro, steps: [...macro.steps] }));
+  }
+
+  getRecording(): MacroRecording | null {
+    return this.recording && { name: this.recording.name, steps: [...this.recording.steps] };
+  }
+
+  findMacro(name: string): VoiceMacro | undefined {
+    const wanted = name.toLowerCase().trim();
+    return this.macros.find(macro => macro.name.toLowerCase() === wanted);
+  }
+
+  /**
+   * Be told whenever macros or the recording change
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  startRecording(name: string) {
+    this.recording = { name: name.trim(), steps: [] };
+    console.log(`⏺️ Recording macro "${this.recording.name}"`);
+    this.notify();
+  }
+
+  /**
+   * End the recording, saving it unless `save` is false
+   */
+  finishRecording(save = true): VoiceMacro | null {
+    const recording = this.recording;
+    this.recording = null;
+    if (!recording || !save || recording.steps.length === 0) {
+      console.log('⏹️ Macro recording discarded');
+      this.notify();
+      return null;
+    }
+    return this.saveMacro(recording.name, recording.steps);
+  }
+
+  /**
+   * Create a macro, replacing any existing macro with the same name
+   */
+  saveMacro(name: string, steps: string[]): VoiceMacro {
+    const existing = this.findMacro(name);
+    if (existing) {
+      return this.updateMacro(existing.id, { steps })!;
+    }
+
+    const now = Date.now();
+    const macro: VoiceMacro = {
+      id: `macro-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim(),
+      steps: cleanSteps(steps),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.macros.push(macro);
+    this.registerMacroCommand(macro);
+    this.persist();
+    console.log(`💾 Saved macro "${macro.name}" with ${macro.steps.length} steps`);
+    return macro;
+  }
+
+  updateMacro(id: string, changes: Partial<Pick<VoiceMacro, 'name' | 'steps'>>): VoiceMacro | null {
+    const macro = this.macros.find(candidate => candidate.id === id);
+    if (!macro) return null;
+
+    if (changes.name !== undefined) macro.name = changes.name.trim();
+    if (changes.steps !== undefined) macro.steps = cleanSteps(changes.steps);
+    macro.updatedAt = Date.now();
+
+    // Re-register so a new name is what the user says to run it
+    this.registerMacroCommand(macro);
+    this.persist();
+    return macro;
+  }
+
+  deleteMacro(id: string) {
+    this.macroCommands.get(id)?.();
+    this.macroCommands.delete(id);
+    this.macros = this.macros.filter(macro => macro.id !== id);
+    this.persist();
+  }
+
+  /**
+   * Replay a macro's steps through the voice command service
+   */
+  async runMacro(id: string): Promise<MacroRunResult> {
+    const macro = this.macros.find(candidate => candidate.id === id);
+    const result: MacroRunResult = { ran: 0, failed: [] };
+    if (!macro || this.isRunning) return result;
+
+    console.log(`▶️ Running macro "${macro.name}"`);
+    this.isRunning = true;
+    try {
+      for (const [index, step] of macro.steps.entries()) {
+        if (index > 0) await new Promise(resolve => setTimeout(resolve, STEP_DELAY_MS));
+        if (enhancedVoiceCommandService.runCommandText(step)) {
+          result.ran++;
+        } else {
+          console.warn(`⚠️ Macro step not understood: "${step}"`);
+          result.failed.push(step);
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+    return result;
+  }
+
+  private runMacroByName(name: string) {
+    const macro = this.findMacro(name);
+    if (macro) {
+      this.runMacro(macro.id);
+    } else {
+      console.warn(`⚠️ No macro called "${name}"`);
+    }
+  }
+
+  // Everything but system commands (help, confirm, the macro commands themselves) is a step
+  private recordStep(transcript: string, command: VoiceCommand) {
+    if (!this.recording || this.isRunning || command.category === 'system') return;
+    this.recording.steps.push(transcript);
+    console.log(`⏺️ Macro step ${this.recording.steps.length}: "${transcript}"`);
+    this.notify();
+  }
+
+  private registerMacroCommand(macro: VoiceMacro) {
+    this.macroCommands.get(macro.id)?.();
+    this.macroCommands.set(macro.id, enhancedVoiceCommandService.registerCommand({
+      patterns: [macro.name.toLowerCase()],
+      action: () => this.runMacro(macro.id),
+      description: `Run macro ${macro.name}`,
+      category: 'system'
+    }));
+  }
+
+  private registerControlCommands() {
+    enhancedVoiceCommandService.registerCommand({
+      patterns: ['record macro *', 'start recording macro *'],
+      intents: [{ name: 'record_macro' }],
+      action: (name: string) => this.startRecording(name),
+      description: 'Start recording a macro',
+      category: 'system',
+      parameters: ['target']
+    });
+    enhancedVoiceCommandService.registerCommand({
+      patterns: ['stop recording', 'save macro'],
+      intents: [{ name: 'finish_macro', slots: { change: 'on' } }],
+      action: () => this.finishRecording(true),
+      description: 'Save the macro being recorded',
+      category: 'system'
+    });
+    enhancedVoiceCommandService.registerCommand({
+      patterns: ['cancel macro', 'discard macro'],
+      intents: [{ name: 'finish_macro', slots: { change: 'off' } }],
+      action: () => this.finishRecording(false),
+      description: 'Discard the macro being recorded',
+      category: 'system'
+    });
+    enhancedVoiceCommandService.registerCommand({
+      patterns: ['run macro *', 'play macro *'],
+      intents: [{ name: 'run_macro' }],
+      action: (name: string) => this.runMacroByName(name),
+      description: 'Run a saved macro',
+      category: 'system',
+      parameters: ['target']
+    });
+  }
+
+  private loadMacros(): VoiceMacro[] {
+    try {
+      const saved = localStorage.getItem(MACROS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) as VoiceMacro[] : [];
+    } catch (error) {
+      console.warn('⚠️ Could not load voice macros:', error);
+      return [];
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(MACROS_STORAGE_KEY, JSON.stringify(this.macros));
+    } catch (error) {
+      console.warn('⚠️ Could not save voice macros:', error);
+    }
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+function cleanSteps(steps: string[]): string[] {
+  return steps.map(step => step.trim()).filter(Boolean);
+}
+
+export const voiceMacroService = new VoiceMacroService();
@@ -1,13 +1,18 @@
 /**
  * Voice Service - Google Cloud Speech API integration
- * Speech-to-Text and Text-to-Speech for English and Hindi
+ * Speech-to-Text and Text-to-Speech for English and the supported Indian languages
  */
 
+import type { LanguageCode } from '../types';
+import { getSpeechLocale, findVoice } from './languageService';
+import { speechRecognitionBroker, MIC_PRIORITY } from './speechRecognitionBroker';
+import type { RecognitionClient } from './speechRecognitionBroker';
+
 const GOOGLE_CLOUD_TTS_URL = 'https://texttospeech.googleapis.com/v1/text:synthesize';
 const GOOGLE_CLOUD_STT_URL = 'https://speech.googleapis.com/v1/speech:recognize';
 
 interface VoiceConfig {
-  language: 'en-IN' | 'hi-IN';
+  language: string; // Speech locale such as 'en-IN' or 'ta-IN', see getSpeechLocale
   sampleRate?: number;
 }
 
@@ -26,7 +31,7 @@ interface SpeechResult {
 
 /**
  * Convert speech to text using Google Cloud Speech-to-Text API
- * Supports English and Hindi
+ * Supports English, Hindi, Tamil, Malayalam, Telugu and Kannada
  */
 export async function speechToText(
   audioBlob: Blob,
@@ -132,13 +137,18 @@ export async function textToSpeech(
     const voiceMap: Record<string, string> = {
       'en-IN': 'en-IN-Wavenet-D',  // Female voice
       'hi-IN': 'hi-IN-Wavenet-D',  // Female voice
+      'ta-IN': 'ta-IN-Wavenet-A',  // Female voice
+      'ml-IN': 'ml-IN-Wavenet-A',  // Female voice
+      'te-IN': 'te-IN-Standard-A', // Female voice
+      'kn-IN': 'kn-IN-Wavenet-A',  // Female voice
     };
 
     const requestBody = {
       input: { text },
       voice: {
         languageCode: config.language,
-        name: voiceMap[config.language] || 'en-IN-Wavenet-D',
+        // Unknown locales let Google pick a voice for the language
+        name: voiceMap[config.language],
         ssmlGender: 'FEMALE',
       },
       audioConfig: {
@@ -199,18 +209,27 @@ export async function textToSpeech(
  * Works in Chrome/Edge without API keys!
  */
 export class SpeechRecognizer {
-  private recognition: any = null;
+  private recognition: RecognitionClient | null = null;
+  private recording = false;
   private onTranscript: ((text: string) => void) | null = null;
   private onError: ((error: string) => void) | null = null;
+  private onEnd: (() => void) | null = null;
 
-  constructor() {
+  /**
+   * @param label - Shown by the microphone indicator while recording
+   * @param continuous - Keep listening across pauses until stopRecording()
+   */
+  constructor(label: string = 'Chat dictation', continuous: boolean = false) {
     // Check if browser supports Web Speech API
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (SpeechRecognition) {
-      this.recognition = new SpeechRecognition();
-      this.recognition.continuous = false;
+    if (speechRecognitionBroker.isSupported()) {
+      // Dictation outranks the command listeners, which pause until it ends
+      this.recognition = speechRecognitionBroker.createClient(label, MIC_PRIORITY.dictation);
+      this.recognition.continuous = continuous;
       this.recognition.interimResults = false;
+      this.recognition.onend = () => {
+        this.recording = false;
+        this.onEnd?.();
+      };
     }
   }
 
@@ -218,35 +237,37 @@ export class SpeechRecognizer {
     return this.recognition !== null;
   }
 
-  startRecording(language: 'en' | 'hi' = 'en'): void {
+  startRecording(language: LanguageCode = 'en'): void {
     if (!this.recognition) {
       throw new Error('Speech recognition not supported in this browser');
     }
 
     // Set language
-    this.recognition.lang = language === 'hi' ? 'hi-IN' : 'en-IN';
+    this.recognition.lang = getSpeechLocale(language);
 
-    this.recognition.onresult = (event: any) => {
-      const transcript = event.results[0][0].transcript;
+    this.recognition.onresult = event => {
+      const transcript = event.results[event.resultIndex][0].transcript;
       console.log('🎤 Transcription:', transcript);
       if (this.onTranscript) {
         this.onTranscript(transcript);
       }
     };
 
-    this.recognition.onerror = (event: any) => {
+    this.recognition.onerror = event => {
       console.error('🎤 Recognition error:', event.error);
       if (this.onError) {
         this.onError(event.error);
       }
     };
 
+    this.recording = true;
     this.recognition.start();
     console.log('🎤 Speech recognition started');
   }
 
   stopRecording(): void {
     if (this.recognition) {
+      this.recording = false;
       this.recognition.stop();
       console.log('🎤 Speech recognition stopped');
     }
@@ -260,8 +281,105 @@ export class SpeechRecognizer {
     this.onError = callback;
   }
 
+  setOnEnd(callback: () => void): void {
+    this.onEnd = callback;
+  }
+
   isRecording(): boolean {
-    return false; // Web Speech API doesn't expose recording state easily
+    return this.recording;
+  }
+}
+
+/**
+ * Speaks a streamed answer sentence by sentence as the text arrives,
+ * using the browser's speech synthesis queue
+ */
+export class StreamingSpeaker {
+  private pending = '';
+  private queued = 0;
+  private finished = false;
+  private cancelled = false;
+  private lang: string;
+  private onIdle: (() => void) | null = null;
+
+  constructor(lang: string = 'en-IN') {
+    this.lang = lang;
+    speechSynthesis.cancel();
+  }
+
+  /**
+   * Add streamed text; every complete sentence is spoken immediately
+   */
+  push(delta: string): void {
+    if (this.cancelled) return;
+    this.pending += delta;
+
+    // Split after sentence punctuation (incl. Devanagari danda) followed by whitespace, or at newlines
+    const boundary = /[.!?।](?=\s)|\n/g;
+    let lastEnd = -1;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(this.pending)) !== null) {
+      lastEnd = match.index + 1;
+    }
+
+    if (lastEnd > 0) {
+      this.speak(this.pending.substring(0, lastEnd));
+      this.pending = this.pending.substring(lastEnd);
+    }
+  }
+
+  /**
+   * Speak whatever is left once the stream has ended
+   */
+  finish(): void {
+    if (this.cancelled) return;
+    this.finished = true;
+    this.speak(this.pending);
+    this.pending = '';
+    this.checkIdle();
+  }
+
+  /**
+   * Stop speaking immediately and drop any queued sentences
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.pending = '';
+    this.queued = 0;
+    speechSynthesis.cancel();
+  }
+
+  setOnIdle(callback: () => void): void {
+    this.onIdle = callback;
+  }
+
+  private speak(text: string): void {
+    // Markdown markers from the model read out badly, drop them before speaking
+    const spoken = text.replace(/[*#_`]+/g, '').trim();
+    if (!spoken) return;
+
+    const utterance = new SpeechSynthesisUtterance(spoken);
+    utterance.rate = 0.9;
+    utterance.volume = 0.8;
+    utterance.lang = this.lang;
+    // Without an explicit voice some browsers read Tamil or Telugu with an English voice
+    const voice = findVoice(this.lang);
+    if (voice) utterance.voice = voice;
+    utterance.onend = utterance.onerror = () => {
+      this.queued = Math.max(0, this.queued - 1);
+      this.checkIdle();
+    };
+
+    this.queued++;
+    speechSynthesis.speak(utterance);
+  }
+
+  private checkIdle(): void {
+    if (this.finished && !this.cancelled && this.queued === 0 && this.onIdle) {
+      const callback = this.onIdle;
+      this.onIdle = null;
+      callback();
+    }
   }
 }
 
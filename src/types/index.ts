@@ -10,6 +10,14 @@ export interface FaceLandmarks {
   leftEye: Point2D;
   rightEye: Point2D;
   nose: Point2D;
+  pose?: HeadPose;
+}
+
+// Degrees; yaw > 0 is turned to the user's right, pitch > 0 is tilted down
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
 }
 
 export interface CursorState {
@@ -25,6 +33,74 @@ export interface CalibrationSettings {
   dwellTime: number; // milliseconds
   blinkEnabled: boolean;
   clickMethod: 'blink' | 'mouth' | 'eye-tracking' | 'voice' | 'switch'; // Multiple click trigger methods
+  cursorMode: 'position' | 'head-pose'; // Follow the nose position, or the head's rotation
+  poseRange: { yaw: number; pitch: number }; // Degrees of turn from center to the screen edge
+  poseDeadZone: number;    // Degrees around center that don't move the cursor
+  poseAcceleration: number; // Curve exponent: 1 = linear, higher = finer control near center
+  poseCenter: { yaw: number; pitch: number }; // The user's resting pose
+  cursorFilter: SmoothingFilterConfig;
+  positionCenter: Point2D;     // Mirrored nose position (0-1) when facing the screen centre
+  verticalSensitivity: number; // Position mode's up-and-down stretch; sensitivity is side to side
+  blinkThreshold: number;      // Eye closure (0-1) that counts as a blink click
+  mouthThreshold: number;      // Jaw opening (0-1) that counts as a mouth click
+  gestures: GestureSettings;
+}
+
+// Calibration settings measured for one person, saved under a name they choose
+export interface CalibrationProfile {
+  name: string;
+  settings: CalibrationSettings;
+  createdAt: number;
+}
+
+// Cutoffs in Hz, noise in the filtered units (pixels for pointers)
+export type SmoothingFilterConfig =
+  | { kind: 'none' }
+  | { kind: 'exponential'; alpha: number } // 0-1, higher follows faster
+  | { kind: 'one-euro'; minCutoff: number; beta: number; derivativeCutoff: number }
+  | { kind: 'kalman'; processNoise: number; measurementNoise: number };
+
+// Facial gestures recognised from MediaPipe blendshapes; left and right are MediaPipe's
+export type FacialGesture =
+  | 'wink-left'
+  | 'wink-right'
+  | 'blink'
+  | 'brow-raise'
+  | 'smile'
+  | 'pucker'
+  | 'jaw-left'
+  | 'jaw-right'
+  | 'mouth-open';
+
+export interface GestureStep {
+  gesture: FacialGesture;
+  hold: 'short' | 'long';
+}
+
+export type GestureAction =
+  | 'click'
+  | 'right-click'
+  | 'double-click'
+  | 'scroll-up'
+  | 'scroll-down'
+  | 'back'
+  | 'undo'
+  | 'toggle-voice'
+  | 'emergency';
+
+// One gesture, or a sequence of them made in quick succession, and what it does
+export interface GestureBinding {
+  id: string;
+  steps: GestureStep[];
+  action: GestureAction;
+}
+
+export interface GestureSettings {
+  enabled: boolean;
+  thresholds: Record<FacialGesture, number>; // Score (0-1) at which each gesture counts as made
+  longHoldMs: number;    // Held at least this long is a long hold
+  sequenceGapMs: number; // Longest pause between the steps of a sequence
+  bindings: GestureBinding[];
 }
 
 export interface CameraError {
@@ -37,6 +113,13 @@ export interface MediaPipeError {
   message: string;
 }
 
+export interface FaceTrackingProgress {
+  stage: 'runtime' | 'model' | 'starting' | 'ready' | 'failed';
+  progress: number; // 0-1 over the whole load
+  message: string;
+  delegate?: 'GPU' | 'CPU'; // Set once the landmarker is starting or running
+}
+
 export type AppScreen = 
   | 'loading'
   | 'instructions'
@@ -61,6 +144,7 @@ export interface BlinkData {
   isBlinking: boolean;
   mouthOpen: number;      // 0-1, higher = more open
   isMouthOpen: boolean;
+  blendshapes: Record<string, number>; // Every MediaPipe blendshape score, by category name
 }
 
 // ===== UNIVERSAL ACCESSIBILITY SYSTEM =====
@@ -120,6 +204,9 @@ export type UIMode =
   | 'voice-only' // Audio-only interface
   | 'touch-optimized'; // Large touch targets
 
+// Languages NullChat and the voice features understand (ISO 639-1)
+export type LanguageCode = 'en' | 'hi' | 'ta' | 'ml' | 'te' | 'kn';
+
 export interface AccessibilitySettings {
   // Visual Settings
   highContrast: boolean;
@@ -157,7 +244,7 @@ export interface AccessibilitySettings {
   voiceSpeed: number; // 0.5-2.0
   voicePitch: number; // 0-2
   voiceVolume: number; // 0-100
-  speechLanguage: 'en' | 'hi' | 'auto';
+  speechLanguage: LanguageCode | 'auto';
   
   // Input Method Preferences
   primaryInput: InputMethod;
@@ -0,0 +1,301 @@
+// Pointer traces for the smoothing filter tests: a target held still, moved
+// quickly, then held again, with the readings a tracker reports for it. Noise,
+// outliers and frame timing follow the face cursor (about 30 fps, a few px of
+// jitter) and WebGazer gaze (about 60 fps, tens of px); both include frames
+// whose timestamp repeats or goes backwards, as camera frames sometimes do.
+
+export interface TraceSample {
+  t: number;       // Frame timestamp, ms
+  x: number;       // Reported position, px
+  y: number;
+  targetX: number; // Where the pointer was meant to be, px
+  targetY: number;
+}
+
+// Hold at (400, 300), 250 ms move to (1000, 500), hold
+export const FACE_CURSOR_TRACE: TraceSample[] = [
+  { t: 0, x: 403.5, y: 297.1, targetX: 400, targetY: 300 },
+  { t: 35, x: 401.8, y: 302.7, targetX: 400, targetY: 300 },
+  { t: 70, x: 410.8, y: 290.5, targetX: 400, targetY: 300 },
+  { t: 104, x: 394.6, y: 300.2, targetX: 400, targetY: 300 },
+  { t: 133, x: 416.8, y: 292.7, targetX: 400, targetY: 300 },
+  { t: 169, x: 398.4, y: 297.5, targetX: 400, targetY: 300 },
+  { t: 198, x: 406.2, y: 302.3, targetX: 400, targetY: 300 },
+  { t: 225, x: 408, y: 305.1, targetX: 400, targetY: 300 },
+  { t: 257, x: 397.6, y: 286.9, targetX: 400, targetY: 300 },
+  { t: 292, x: 399.1, y: 304.3, targetX: 400, targetY: 300 },
+  { t: 329, x: 403.8, y: 302.6, targetX: 400, targetY: 300 },
+  { t: 363, x: 395.8, y: 296, targetX: 400, targetY: 300 },
+  { t: 393, x: 400.5, y: 295.7, targetX: 400, targetY: 300 },
+  { t: 423, x: 394.9, y: 302.9, targetX: 400, targetY: 300 },
+  { t: 458, x: 399.3, y: 309.7, targetX: 400, targetY: 300 },
+  { t: 491, x: 400.2, y: 294.5, targetX: 400, targetY: 300 },
+  { t: 523, x: 401, y: 300.8, targetX: 400, targetY: 300 },
+  { t: 557, x: 397.6, y: 298.7, targetX: 400, targetY: 300 },
+  { t: 586, x: 399, y: 301.7, targetX: 400, targetY: 300 },
+  { t: 616, x: 391.4, y: 292.1, targetX: 400, targetY: 300 },
+  { t: 616, x: 399.3, y: 301.7, targetX: 400, targetY: 300 },
+  { t: 681, x: 393.8, y: 295.9, targetX: 400, targetY: 300 },
+  { t: 716, x: 398.8, y: 293.5, targetX: 400, targetY: 300 },
+  { t: 751, x: 398.4, y: 297.5, targetX: 400, targetY: 300 },
+  { t: 787, x: 404.2, y: 299.4, targetX: 400, targetY: 300 },
+  { t: 816, x: 399.9, y: 302.9, targetX: 400, targetY: 300 },
+  { t: 847, x: 394.7, y: 303.1, targetX: 400, targetY: 300 },
+  { t: 878, x: 390.8, y: 301, targetX: 400, targetY: 300 },
+  { t: 906, x: 405.4, y: 301, targetX: 400, targetY: 300 },
+  { t: 940, x: 402.9, y: 296.6, targetX: 400, targetY: 300 },
+  { t: 936, x: 393.3, y: 294.8, targetX: 400, targetY: 300 },
+  { t: 1003, x: 395.8, y: 300.7, targetX: 400, targetY: 300 },
+  { t: 1040, x: 402.4, y: 304, targetX: 400, targetY: 300 },
+  { t: 1071, x: 406.1, y: 306.9, targetX: 400, targetY: 300 },
+  { t: 1109, x: 401.6, y: 296.8, targetX: 400, targetY: 300 },
+  { t: 1139, x: 407.2, y: 299.2, targetX: 400, targetY: 300 },
+  { t: 1175, x: 406.4, y: 293.5, targetX: 400, targetY: 300 },
+  { t: 1210, x: 397.7, y: 294.1, targetX: 400, targetY: 300 },
+  { t: 1247, x: 389.6, y: 299.3, targetX: 400, targetY: 300 },
+  { t: 1285, x: 399.3, y: 292.4, targetX: 400, targetY: 300 },
+  { t: 1323, x: 402.9, y: 287.2, targetX: 400, targetY: 300 },
+  { t: 1359, x: 398.8, y: 301.6, targetX: 400, targetY: 300 },
+  { t: 1389, x: 402.1, y: 291.4, targetX: 400, targetY: 300 },
+  { t: 1428, x: 403.1, y: 299.3, targetX: 400, targetY: 300 },
+  { t: 1463, x: 408, y: 295.7, targetX: 400, targetY: 300 },
+  { t: 1500, x: 406.3, y: 300.6, targetX: 400, targetY: 300 },
+  { t: 1537, x: 423.5, y: 306.9, targetX: 426.9, targetY: 309 },
+  { t: 1573, x: 501.7, y: 328.6, targetX: 501.3, targetY: 333.8 },
+  { t: 1600, x: 596.4, y: 368.8, targetX: 592.7, targetY: 364.2 },
+  { t: 1632, x: 730.1, y: 421.1, targetX: 733.3, targetY: 411.1 },
+  { t: 1666, x: 875.9, y: 444.7, targetX: 864.7, targetY: 454.9 },
+  { t: 1698, x: 946.2, y: 488.1, targetX: 948.6, targetY: 482.9 },
+  { t: 1729, x: 991.9, y: 504.9, targetX: 991.9, targetY: 497.3 },
+  { t: 1757, x: 1004.9, y: 486.4, targetX: 1000, targetY: 500 },
+  { t: 1785, x: 1008.8, y: 497.1, targetX: 1000, targetY: 500 },
+  { t: 1823, x: 1006.3, y: 495, targetX: 1000, targetY: 500 },
+  { t: 1858, x: 995, y: 501.6, targetX: 1000, targetY: 500 },
+  { t: 1895, x: 999.3, y: 495.7, targetX: 1000, targetY: 500 },
+  { t: 1930, x: 1003.3, y: 503.2, targetX: 1000, targetY: 500 },
+  { t: 1964, x: 994.5, y: 498.1, targetX: 1000, targetY: 500 },
+  { t: 1996, x: 1004.4, y: 501.1, targetX: 1000, targetY: 500 },
+  { t: 2034, x: 993.3, y: 500.8, targetX: 1000, targetY: 500 },
+  { t: 2062, x: 1011.3, y: 504.5, targetX: 1000, targetY: 500 },
+  { t: 2097, x: 995, y: 493.3, targetX: 1000, targetY: 500 },
+  { t: 2126, x: 996.5, y: 503.3, targetX: 1000, targetY: 500 },
+  { t: 2159, x: 995.7, y: 509.6, targetX: 1000, targetY: 500 },
+  { t: 2195, x: 994.9, y: 502.2, targetX: 1000, targetY: 500 },
+  { t: 2226, x: 1004.6, y: 503.8, targetX: 1000, targetY: 500 },
+  { t: 2258, x: 995.8, y: 502.8, targetX: 1000, targetY: 500 },
+  { t: 2287, x: 1002, y: 498.5, targetX: 1000, targetY: 500 },
+  { t: 2314, x: 1000.5, y: 494.7, targetX: 1000, targetY: 500 },
+  { t: 2353, x: 990.3, y: 501.7, targetX: 1000, targetY: 500 },
+  { t: 2383, x: 1006, y: 490.6, targetX: 1000, targetY: 500 },
+  { t: 2417, x: 998.1, y: 498.2, targetX: 1000, targetY: 500 },
+  { t: 2454, x: 1007.6, y: 496.2, targetX: 1000, targetY: 500 },
+  { t: 2484, x: 997.8, y: 497.5, targetX: 1000, targetY: 500 },
+  { t: 2512, x: 997.4, y: 507.8, targetX: 1000, targetY: 500 },
+  { t: 2546, x: 999.9, y: 503.8, targetX: 1000, targetY: 500 },
+  { t: 2579, x: 1003.6, y: 503.3, targetX: 1000, targetY: 500 },
+  { t: 2615, x: 999, y: 501.2, targetX: 1000, targetY: 500 },
+  { t: 2651, x: 994.6, y: 506.3, targetX: 1000, targetY: 500 },
+  { t: 2687, x: 987.4, y: 503.7, targetX: 1000, targetY: 500 },
+  { t: 2722, x: 1004.2, y: 497.8, targetX: 1000, targetY: 500 },
+  { t: 2749, x: 1000.7, y: 505.4, targetX: 1000, targetY: 500 },
+  { t: 2783, x: 1007.1, y: 504.6, targetX: 1000, targetY: 500 },
+  { t: 2819, x: 1003.6, y: 507, targetX: 1000, targetY: 500 },
+  { t: 2848, x: 1000.8, y: 506.4, targetX: 1000, targetY: 500 },
+  { t: 2881, x: 1002, y: 495.6, targetX: 1000, targetY: 500 },
+  { t: 2916, x: 993.8, y: 504.6, targetX: 1000, targetY: 500 },
+  { t: 2947, x: 1000, y: 498.6, targetX: 1000, targetY: 500 },
+  { t: 2982, x: 978.4, y: 479.3, targetX: 1000, targetY: 500 },
+  { t: 3013, x: 997.7, y: 497.1, targetX: 1000, targetY: 500 },
+  { t: 3041, x: 1003.9, y: 506.4, targetX: 1000, targetY: 500 },
+  { t: 3070, x: 1000.6, y: 498.8, targetX: 1000, targetY: 500 },
+  { t: 3107, x: 1001.3, y: 509.4, targetX: 1000, targetY: 500 },
+  { t: 3136, x: 1002.1, y: 502.2, targetX: 1000, targetY: 500 },
+  { t: 3170, x: 994.6, y: 507.4, targetX: 1000, targetY: 500 },
+  { t: 3206, x: 1007.7, y: 490.6, targetX: 1000, targetY: 500 },
+  { t: 3240, x: 995.3, y: 503.4, targetX: 1000, targetY: 500 },
+];
+
+// Fixate at (300, 400), 60 ms saccade to (1100, 350), fixate
+export const GAZE_TRACE: TraceSample[] = [
+  { t: 0, x: 313.4, y: 429.6, targetX: 300, targetY: 400 },
+  { t: 15, x: 280.9, y: 443.8, targetX: 300, targetY: 400 },
+  { t: 37, x: 253.6, y: 373.3, targetX: 300, targetY: 400 },
+  { t: 56, x: 288.2, y: 401.3, targetX: 300, targetY: 400 },
+  { t: 76, x: 292.6, y: 382.9, targetX: 300, targetY: 400 },
+  { t: 97, x: 321.6, y: 393.7, targetX: 300, targetY: 400 },
+  { t: 110, x: 301.8, y: 392.8, targetX: 300, targetY: 400 },
+  { t: 131, x: 261.5, y: 393.6, targetX: 300, targetY: 400 },
+  { t: 145, x: 273.7, y: 419.4, targetX: 300, targetY: 400 },
+  { t: 163, x: 327, y: 385.9, targetX: 300, targetY: 400 },
+  { t: 182, x: 307.4, y: 381.4, targetX: 300, targetY: 400 },
+  { t: 195, x: 290.8, y: 414.6, targetX: 300, targetY: 400 },
+  { t: 210, x: 298, y: 402.5, targetX: 300, targetY: 400 },
+  { t: 229, x: 281.1, y: 364.8, targetX: 300, targetY: 400 },
+  { t: 244, x: 289.1, y: 420.7, targetX: 300, targetY: 400 },
+  { t: 261, x: 324.7, y: 397.5, targetX: 300, targetY: 400 },
+  { t: 281, x: 344.4, y: 393.4, targetX: 300, targetY: 400 },
+  { t: 295, x: 299.5, y: 415.7, targetX: 300, targetY: 400 },
+  { t: 310, x: 282.3, y: 389.7, targetX: 300, targetY: 400 },
+  { t: 329, x: 295.9, y: 372, targetX: 300, targetY: 400 },
+  { t: 343, x: 298.1, y: 419, targetX: 300, targetY: 400 },
+  { t: 358, x: 324.1, y: 414.8, targetX: 300, targetY: 400 },
+  { t: 375, x: 313.6, y: 397.9, targetX: 300, targetY: 400 },
+  { t: 388, x: 350.7, y: 353.5, targetX: 300, targetY: 400 },
+  { t: 407, x: 311.7, y: 366.5, targetX: 300, targetY: 400 },
+  { t: 424, x: 345, y: 426.7, targetX: 300, targetY: 400 },
+  { t: 437, x: 252.4, y: 424.6, targetX: 300, targetY: 400 },
+  { t: 456, x: 286.9, y: 405.8, targetX: 300, targetY: 400 },
+  { t: 477, x: 263.3, y: 420.6, targetX: 300, targetY: 400 },
+  { t: 497, x: 317.3, y: 397.7, targetX: 300, targetY: 400 },
+  { t: 512, x: 298.2, y: 385, targetX: 300, targetY: 400 },
+  { t: 530, x: 262.6, y: 387.5, targetX: 300, targetY: 400 },
+  { t: 546, x: 261.6, y: 426.3, targetX: 300, targetY: 400 },
+  { t: 566, x: 299.5, y: 440.4, targetX: 300, targetY: 400 },
+  { t: 578, x: 295.6, y: 402.3, targetX: 300, targetY: 400 },
+  { t: 596, x: 281, y: 347.3, targetX: 300, targetY: 400 },
+  { t: 616, x: 298.5, y: 403.8, targetX: 300, targetY: 400 },
+  { t: 631, x: 292.5, y: 372.9, targetX: 300, targetY: 400 },
+  { t: 647, x: 315.7, y: 368.7, targetX: 300, targetY: 400 },
+  { t: 661, x: 325.9, y: 386.8, targetX: 300, targetY: 400 },
+  { t: 661, x: 332.4, y: 411.1, targetX: 300, targetY: 400 },
+  { t: 695, x: 286.1, y: 400.8, targetX: 300, targetY: 400 },
+  { t: 711, x: 302.8, y: 361.4, targetX: 300, targetY: 400 },
+  { t: 729, x: 254.6, y: 401.3, targetX: 300, targetY: 400 },
+  { t: 742, x: 321.7, y: 363.4, targetX: 300, targetY: 400 },
+  { t: 756, x: 280.2, y: 444.2, targetX: 300, targetY: 400 },
+  { t: 776, x: 309, y: 386.9, targetX: 300, targetY: 400 },
+  { t: 795, x: 321.4, y: 393.8, targetX: 300, targetY: 400 },
+  { t: 807, x: 254.6, y: 424.9, targetX: 300, targetY: 400 },
+  { t: 821, x: 274.3, y: 402.4, targetX: 300, targetY: 400 },
+  { t: 842, x: 342, y: 401.7, targetX: 300, targetY: 400 },
+  { t: 863, x: 332.2, y: 400, targetX: 300, targetY: 400 },
+  { t: 884, x: 256, y: 381.6, targetX: 300, targetY: 400 },
+  { t: 899, x: 281.2, y: 440.6, targetX: 300, targetY: 400 },
+  { t: 912, x: 294, y: 366.2, targetX: 300, targetY: 400 },
+  { t: 929, x: 225.7, y: 424.4, targetX: 300, targetY: 400 },
+  { t: 949, x: 229.2, y: 366.9, targetX: 300, targetY: 400 },
+  { t: 967, x: 283.9, y: 397, targetX: 300, targetY: 400 },
+  { t: 986, x: 287.7, y: 345.4, targetX: 300, targetY: 400 },
+  { t: 998, x: 348.4, y: 364.8, targetX: 300, targetY: 400 },
+  { t: 1016, x: 316.4, y: 428.7, targetX: 300, targetY: 400 },
+  { t: 1035, x: 306.4, y: 439.5, targetX: 300, targetY: 400 },
+  { t: 1057, x: 263.5, y: 379.5, targetX: 300, targetY: 400 },
+  { t: 1078, x: 307.2, y: 396.1, targetX: 300, targetY: 400 },
+  { t: 1099, x: 293.3, y: 390.7, targetX: 300, targetY: 400 },
+  { t: 1112, x: 269.4, y: 424.1, targetX: 300, targetY: 400 },
+  { t: 1130, x: 313.6, y: 401.8, targetX: 300, targetY: 400 },
+  { t: 1142, x: 294.4, y: 439.8, targetX: 300, targetY: 400 },
+  { t: 1155, x: 252.2, y: 365.6, targetX: 300, targetY: 400 },
+  { t: 1168, x: 274.6, y: 435.2, targetX: 300, targetY: 400 },
+  { t: 1186, x: 291.1, y: 389.7, targetX: 300, targetY: 400 },
+  { t: 1202, x: 260.6, y: 379.8, targetX: 300, targetY: 400 },
+  { t: 1215, x: 317.1, y: 395.5, targetX: 300, targetY: 400 },
+  { t: 1228, x: 302.4, y: 395.3, targetX: 300, targetY: 400 },
+  { t: 1249, x: 305, y: 408, targetX: 300, targetY: 400 },
+  { t: 1269, x: 328.7, y: 395.7, targetX: 300, targetY: 400 },
+  { t: 1286, x: 294.3, y: 409.4, targetX: 300, targetY: 400 },
+  { t: 1308, x: 291, y: 403.5, targetX: 300, targetY: 400 },
+  { t: 1329, x: 343.5, y: 403.6, targetX: 300, targetY: 400 },
+  { t: 1346, x: 298.6, y: 414.1, targetX: 300, targetY: 400 },
+  { t: 1361, x: 318.9, y: 422.4, targetX: 300, targetY: 400 },
+  { t: 1373, x: 353.4, y: 425.2, targetX: 300, targetY: 400 },
+  { t: 1389, x: 350.2, y: 399.6, targetX: 300, targetY: 400 },
+  { t: 1402, x: 275.1, y: 391.3, targetX: 300, targetY: 400 },
+  { t: 1419, x: 316.2, y: 405.4, targetX: 300, targetY: 400 },
+  { t: 1436, x: 344, y: 395.9, targetX: 300, targetY: 400 },
+  { t: 1449, x: 298.3, y: 392.3, targetX: 300, targetY: 400 },
+  { t: 1470, x: 334.2, y: 419.7, targetX: 300, targetY: 400 },
+  { t: 1488, x: 304.1, y: 430.5, targetX: 300, targetY: 400 },
+  { t: 1504, x: 305.2, y: 386.8, targetX: 305.7, targetY: 399.6 },
+  { t: 1518, x: 443.2, y: 407.8, targetX: 439.3, targetY: 391.3 },
+  { t: 1531, x: 678.5, y: 401.6, targetX: 719.8, targetY: 373.8 },
+  { t: 1551, x: 1060.6, y: 344.8, targetX: 1062.5, targetY: 352.3 },
+  { t: 1572, x: 1088.4, y: 383.7, targetX: 1100, targetY: 350 },
+  { t: 1591, x: 1082.4, y: 344, targetX: 1100, targetY: 350 },
+  { t: 1607, x: 1092.4, y: 357.2, targetX: 1100, targetY: 350 },
+  { t: 1625, x: 1099, y: 349.9, targetX: 1100, targetY: 350 },
+  { t: 1638, x: 1074.4, y: 335.7, targetX: 1100, targetY: 350 },
+  { t: 1653, x: 1042.5, y: 365.9, targetX: 1100, targetY: 350 },
+  { t: 1668, x: 1104.8, y: 361.6, targetX: 1100, targetY: 350 },
+  { t: 1690, x: 1101.5, y: 331.6, targetX: 1100, targetY: 350 },
+  { t: 1711, x: 1126.3, y: 359.7, targetX: 1100, targetY: 350 },
+  { t: 1732, x: 1083.1, y: 324.9, targetX: 1100, targetY: 350 },
+  { t: 1745, x: 1108.8, y: 336.4, targetX: 1100, targetY: 350 },
+  { t: 1767, x: 1122.3, y: 365.3, targetX: 1100, targetY: 350 },
+  { t: 1781, x: 1084.3, y: 377.2, targetX: 1100, targetY: 350 },
+  { t: 1802, x: 1085.1, y: 351.9, targetX: 1100, targetY: 350 },
+  { t: 1819, x: 1128, y: 343.9, targetX: 1100, targetY: 350 },
+  { t: 1833, x: 1085.8, y: 432.9, targetX: 1100, targetY: 350 },
+  { t: 1854, x: 1089.4, y: 373.4, targetX: 1100, targetY: 350 },
+  { t: 1871, x: 1111.4, y: 351.6, targetX: 1100, targetY: 350 },
+  { t: 1889, x: 1105.2, y: 341.8, targetX: 1100, targetY: 350 },
+  { t: 1901, x: 1126.6, y: 327.5, targetX: 1100, targetY: 350 },
+  { t: 1922, x: 1114.6, y: 372.9, targetX: 1100, targetY: 350 },
+  { t: 1938, x: 1085.6, y: 351, targetX: 1100, targetY: 350 },
+  { t: 1952, x: 1098.2, y: 321.4, targetX: 1100, targetY: 350 },
+  { t: 1970, x: 1126.2, y: 302.7, targetX: 1100, targetY: 350 },
+  { t: 1985, x: 1088.5, y: 371.8, targetX: 1100, targetY: 350 },
+  { t: 1998, x: 1069.2, y: 321.6, targetX: 1100, targetY: 350 },
+  { t: 2015, x: 1087, y: 313, targetX: 1100, targetY: 350 },
+  { t: 2028, x: 1110.7, y: 342.1, targetX: 1100, targetY: 350 },
+  { t: 2045, x: 1104.4, y: 313.4, targetX: 1100, targetY: 350 },
+  { t: 2062, x: 1126.7, y: 323.3, targetX: 1100, targetY: 350 },
+  { t: 2079, x: 1086.1, y: 359.4, targetX: 1100, targetY: 350 },
+  { t: 2094, x: 1080.7, y: 354.2, targetX: 1100, targetY: 350 },
+  { t: 2114, x: 1140.9, y: 311, targetX: 1100, targetY: 350 },
+  { t: 2133, x: 1135.4, y: 343.5, targetX: 1100, targetY: 350 },
+  { t: 2154, x: 1108.4, y: 356.9, targetX: 1100, targetY: 350 },
+  { t: 2175, x: 1055.2, y: 351.5, targetX: 1100, targetY: 350 },
+  { t: 2191, x: 1099.9, y: 315.5, targetX: 1100, targetY: 350 },
+  { t: 2213, x: 1080.6, y: 371.5, targetX: 1100, targetY: 350 },
+  { t: 2227, x: 1117.3, y: 382.3, targetX: 1100, targetY: 350 },
+  { t: 2242, x: 1094.7, y: 326.1, targetX: 1100, targetY: 350 },
+  { t: 2261, x: 1084, y: 313.7, targetX: 1100, targetY: 350 },
+  { t: 2275, x: 1096.1, y: 401.2, targetX: 1100, targetY: 350 },
+  { t: 2295, x: 1098.3, y: 357.6, targetX: 1100, targetY: 350 },
+  { t: 2313, x: 1071.7, y: 351.2, targetX: 1100, targetY: 350 },
+  { t: 2331, x: 1095.5, y: 374.3, targetX: 1100, targetY: 350 },
+  { t: 2346, x: 1071.6, y: 328.8, targetX: 1100, targetY: 350 },
+  { t: 2358, x: 1163.3, y: 360.9, targetX: 1100, targetY: 350 },
+  { t: 2380, x: 1105.4, y: 329.9, targetX: 1100, targetY: 350 },
+  { t: 2392, x: 1128.5, y: 317.1, targetX: 1100, targetY: 350 },
+  { t: 2408, x: 1093.4, y: 349.2, targetX: 1100, targetY: 350 },
+  { t: 2423, x: 1141.6, y: 297.8, targetX: 1100, targetY: 350 },
+  { t: 2436, x: 1110.2, y: 310.1, targetX: 1100, targetY: 350 },
+  { t: 2450, x: 1072.4, y: 335.9, targetX: 1100, targetY: 350 },
+  { t: 2463, x: 1131, y: 338.3, targetX: 1100, targetY: 350 },
+  { t: 2485, x: 1122.6, y: 329.2, targetX: 1100, targetY: 350 },
+  { t: 2506, x: 1081.4, y: 349.5, targetX: 1100, targetY: 350 },
+  { t: 2525, x: 1089.4, y: 311, targetX: 1100, targetY: 350 },
+  { t: 2542, x: 1091.6, y: 328.3, targetX: 1100, targetY: 350 },
+  { t: 2556, x: 1078.4, y: 338.7, targetX: 1100, targetY: 350 },
+  { t: 2568, x: 1093.3, y: 355.7, targetX: 1100, targetY: 350 },
+  { t: 2583, x: 1112.6, y: 324.5, targetX: 1100, targetY: 350 },
+  { t: 2600, x: 1135, y: 325.5, targetX: 1100, targetY: 350 },
+  { t: 2621, x: 1110.9, y: 307.8, targetX: 1100, targetY: 350 },
+  { t: 2640, x: 1082.5, y: 327.2, targetX: 1100, targetY: 350 },
+  { t: 2653, x: 1052.7, y: 361.2, targetX: 1100, targetY: 350 },
+  { t: 2666, x: 1127.8, y: 316.9, targetX: 1100, targetY: 350 },
+  { t: 2685, x: 1116.4, y: 322.7, targetX: 1100, targetY: 350 },
+  { t: 2698, x: 1087.8, y: 341.1, targetX: 1100, targetY: 350 },
+  { t: 2713, x: 1116.1, y: 319.5, targetX: 1100, targetY: 350 },
+  { t: 2728, x: 1125.8, y: 340.6, targetX: 1100, targetY: 350 },
+  { t: 2742, x: 1140.6, y: 338.7, targetX: 1100, targetY: 350 },
+  { t: 2760, x: 1077.7, y: 357.7, targetX: 1100, targetY: 350 },
+  { t: 2776, x: 1112, y: 385.2, targetX: 1100, targetY: 350 },
+  { t: 2796, x: 1117.2, y: 330.6, targetX: 1100, targetY: 350 },
+  { t: 2808, x: 1080.6, y: 358.7, targetX: 1100, targetY: 350 },
+  { t: 2829, x: 1113.7, y: 308.2, targetX: 1100, targetY: 350 },
+  { t: 2850, x: 1158.2, y: 299.9, targetX: 1100, targetY: 350 },
+  { t: 2870, x: 1121.7, y: 275.5, targetX: 1100, targetY: 350 },
+  { t: 2891, x: 1109.8, y: 352.8, targetX: 1100, targetY: 350 },
+  { t: 2911, x: 1107.5, y: 367.4, targetX: 1100, targetY: 350 },
+  { t: 2930, x: 1027.4, y: 260.5, targetX: 1100, targetY: 350 },
+  { t: 2947, x: 1077.9, y: 385.9, targetX: 1100, targetY: 350 },
+  { t: 2968, x: 1067.3, y: 324.1, targetX: 1100, targetY: 350 },
+  { t: 2983, x: 1078, y: 378, targetX: 1100, targetY: 350 },
+  { t: 3004, x: 1094.2, y: 370.4, targetX: 1100, targetY: 350 },
+  { t: 3026, x: 1062.1, y: 314.5, targetX: 1100, targetY: 350 },
+  { t: 3039, x: 1057.5, y: 428.4, targetX: 1100, targetY: 350 },
+  { t: 3057, x: 1105.1, y: 343.9, targetX: 1100, targetY: 350 },
+];
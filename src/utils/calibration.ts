@@ -0,0 +1,146 @@
+// Guided calibration maths: turns what was measured while the user looked at the
+// centre and corners, relaxed, opened their mouth and closed their eyes into
+// cursor mapping and click thresholds for that person.
+import type { CalibrationSettings, HeadPose, Point2D } from '../types';
+
+export interface CalibrationSample {
+  nose: Point2D;    // Camera coordinates (0-1), as tracked
+  pose?: HeadPose;
+  eyes: number;     // Closure of the more open eye, 0-1
+  mouth: number;    // Jaw opening, 0-1
+}
+
+export interface CalibrationMeasurements {
+  rest: CalibrationSample[];        // Facing the centre, face relaxed
+  corners: CalibrationSample[][];   // One list per screen corner
+  mouthOpen: CalibrationSample[];   // Holding the mouth open
+  eyesClosed: CalibrationSample[];  // Holding both eyes closed
+}
+
+export interface CalibrationResult {
+  settings: CalibrationSettings;
+  warnings: string[]; // Measurements that could not be used, in plain words
+}
+
+// Fewer readings than this in a step means the face wasn't visible
+export const MIN_STEP_SAMPLES = 10;
+
+// The comfortable range reaches the screen edge at 85%, so edges don't need a full turn
+const REACH = 0.85;
+// Less nose travel than this (of the camera frame) or turn than this (degrees) isn't a usable range
+const MIN_NOSE_TRAVEL = 0.02;
+const MIN_TURN = 3;
+// A gesture must stand this far (0-1) above the resting level to be told apart from it
+const MIN_GESTURE_GAP = 0.15;
+
+// Same bounds as the sliders in settings
+const SENSITIVITY_LIMITS = [0.5, 8] as const;
+const YAW_RANGE_LIMITS = [10, 45] as const;
+const PITCH_RANGE_LIMITS = [5, 35] as const;
+const DEAD_ZONE_LIMITS = [0.5, 8] as const;
+const THRESHOLD_LIMITS = [0.15, 0.9] as const;
+
+const clamp = (value: number, [min, max]: readonly [number, number]) => Math.min(max, Math.max(min, value));
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+const median = (values: number[]) => percentile(values, 0.5);
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+// The cursor moves the way the user sees themselves, so x is flipped
+const mirroredNose = (samples: CalibrationSample[]): Point2D => ({
+  x: median(samples.map(sample => 1 - sample.nose.x)),
+  y: median(samples.map(sample => sample.nose.y)),
+});
+
+const posesOf = (samples: CalibrationSample[]) => samples.flatMap(sample => sample.pose ? [sample.pose] : []);
+
+/**
+ * Click threshold halfway between the resting level and the held gesture, or
+ * null when the two can't be told apart
+ */
+function gestureThreshold(resting: number[], gesture: number[]): number | null {
+  const rest = percentile(resting, 0.95);
+  const held = median(gesture);
+  if (held - rest < MIN_GESTURE_GAP) return null;
+  return roundTo(clamp(rest + (held - rest) / 2, THRESHOLD_LIMITS), 0.01);
+}
+
+/**
+ * Derive per-user settings from calibration measurements, keeping the current
+ * value for anything that couldn't be measured
+ */
+export function deriveCalibration(measurements: CalibrationMeasurements, current: CalibrationSettings): CalibrationResult {
+  const settings: CalibrationSettings = { ...current };
+  const warnings: string[] = [];
+  const { rest, corners, mouthOpen, eyesClosed } = measurements;
+
+  // Position mode: centre on the resting nose, and stretch each axis so the corners reach the edges
+  const center = mirroredNose(rest);
+  const cornerNoses = corners.map(mirroredNose);
+  const noseTravelX = mean(cornerNoses.map(corner => Math.abs(corner.x - center.x)));
+  const noseTravelY = mean(cornerNoses.map(corner => Math.abs(corner.y - center.y)));
+  settings.positionCenter = center;
+  if (noseTravelX < MIN_NOSE_TRAVEL || noseTravelY < MIN_NOSE_TRAVEL) {
+    warnings.push('Your head hardly moved between the corners, so the position sensitivity was left as it was.');
+  } else {
+    settings.sensitivity = roundTo(clamp(0.5 / (noseTravelX * REACH), SENSITIVITY_LIMITS), 0.1);
+    settings.verticalSensitivity = roundTo(clamp(0.5 / (noseTravelY * REACH), SENSITIVITY_LIMITS), 0.1);
+  }
+
+  // Head-pose mode: the same, in degrees of turn
+  const restPoses = posesOf(rest);
+  const cornerPoses = corners.map(posesOf);
+  if (restPoses.length > 0 && cornerPoses.every(poses => poses.length > 0)) {
+    const poseCenter = {
+      yaw: median(restPoses.map(pose => pose.yaw)),
+      pitch: median(restPoses.map(pose => pose.pitch)),
+    };
+    const turnYaw = mean(cornerPoses.map(poses => Math.abs(median(poses.map(pose => pose.yaw)) - poseCenter.yaw)));
+    const turnPitch = mean(cornerPoses.map(poses => Math.abs(median(poses.map(pose => pose.pitch)) - poseCenter.pitch)));
+
+    settings.poseCenter = { yaw: roundTo(poseCenter.yaw, 0.1), pitch: roundTo(poseCenter.pitch, 0.1) };
+    if (turnYaw < MIN_TURN || turnPitch < MIN_TURN) {
+      warnings.push('Your head hardly turned between the corners, so the head rotation range was left as it was.');
+    } else {
+      settings.poseRange = {
+        yaw: Math.round(clamp(turnYaw * REACH, YAW_RANGE_LIMITS)),
+        pitch: Math.round(clamp(turnPitch * REACH, PITCH_RANGE_LIMITS)),
+      };
+    }
+
+    // Ignore movements up to a little beyond the natural sway while holding still
+    const sway = Math.max(
+      standardDeviation(restPoses.map(pose => pose.yaw)),
+      standardDeviation(restPoses.map(pose => pose.pitch))
+    );
+    settings.poseDeadZone = roundTo(clamp(sway * 2.5, DEAD_ZONE_LIMITS), 0.5);
+  }
+
+  // Clicks: between the resting level and the deliberate gesture
+  const mouthThreshold = gestureThreshold(rest.map(sample => sample.mouth), mouthOpen.map(sample => sample.mouth));
+  if (mouthThreshold === null) {
+    warnings.push('An open mouth looked too much like a resting one, so the mouth click threshold was left as it was.');
+  } else {
+    settings.mouthThreshold = mouthThreshold;
+  }
+
+  const blinkThreshold = gestureThreshold(rest.map(sample => sample.eyes), eyesClosed.map(sample => sample.eyes));
+  if (blinkThreshold === null) {
+    warnings.push('Closed eyes looked too much like open ones, so the blink click threshold was left as it was.');
+  } else {
+    settings.blinkThreshold = blinkThreshold;
+  }
+
+  return { settings, warnings };
+}
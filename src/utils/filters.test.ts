@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER_CONFIGS, ExponentialFilter, KalmanFilter, OneEuroFilter, PointFilter } from './filters';
+import type { ScalarFilter } from './filters';
+import type { SmoothingFilterConfig } from '../types';
+import { FACE_CURSOR_TRACE, GAZE_TRACE } from './__fixtures__/pointerTraces';
+import type { TraceSample } from './__fixtures__/pointerTraces';
+
+interface TraceCase {
+  name: string;
+  trace: TraceSample[];
+  moveStart: number; // ms
+  moveEnd: number;
+  settledWithin: number; // px from the target that counts as arrived
+}
+
+const TRACES: TraceCase[] = [
+  { name: 'face cursor', trace: FACE_CURSOR_TRACE, moveStart: 1500, moveEnd: 1750, settledWithin: 20 },
+  { name: 'gaze', trace: GAZE_TRACE, moveStart: 1500, moveEnd: 1560, settledWithin: 80 },
+];
+
+const SMOOTHING_KINDS: Array<Exclude<SmoothingFilterConfig['kind'], 'none'>> = ['exponential', 'one-euro', 'kalman'];
+
+// Longest a filter may take to catch up with the pointer after a fast move
+const MAX_SETTLE_MS = 400;
+
+function run(config: SmoothingFilterConfig, trace: TraceSample[]) {
+  const filter = new PointFilter(config);
+  return trace.map(sample => ({ ...sample, filtered: filter.filter(sample, sample.t) }));
+}
+
+type Output = ReturnType<typeof run>;
+
+// Variance of x while the target holds still before the move, skipping the filter's first frames
+function stillVariance(output: Output, moveStart: number): number {
+  const still = output.filter(sample => sample.t > 300 && sample.t < moveStart).map(sample => sample.filtered.x);
+  const mean = still.reduce((sum, x) => sum + x, 0) / still.length;
+  return still.reduce((sum, x) => sum + (x - mean) ** 2, 0) / still.length;
+}
+
+// Time from the end of the move until the output stays near the target for 300 ms
+function settleTime(output: Output, { moveEnd, settledWithin }: TraceCase): number {
+  const error = (sample: Output[number]) =>
+    Math.hypot(sample.filtered.x - sample.targetX, sample.filtered.y - sample.targetY);
+  const settled = output.find(sample => sample.t >= moveEnd && output
+    .filter(later => later.t >= sample.t && later.t < sample.t + 300)
+    .every(later => error(later) < settledWithin));
+  return settled ? settled.t - moveEnd : Infinity;
+}
+
+describe.each(TRACES)('$name trace', traceCase => {
+  const raw = run(DEFAULT_FILTER_CONFIGS.none, traceCase.trace);
+
+  it.each(SMOOTHING_KINDS)('%s at least halves the jitter while still', kind => {
+    const output = run(DEFAULT_FILTER_CONFIGS[kind], traceCase.trace);
+    expect(stillVariance(output, traceCase.moveStart)).toBeLessThan(stillVariance(raw, traceCase.moveStart) / 2);
+  });
+
+  it.each(SMOOTHING_KINDS)('%s catches up after a fast move', kind => {
+    const output = run(DEFAULT_FILTER_CONFIGS[kind], traceCase.trace);
+    expect(settleTime(output, traceCase)).toBeLessThan(MAX_SETTLE_MS);
+  });
+
+  it('One Euro lags less than exponential smoothing after a fast move', () => {
+    const oneEuro = settleTime(run(DEFAULT_FILTER_CONFIGS['one-euro'], traceCase.trace), traceCase);
+    const exponential = settleTime(run(DEFAULT_FILTER_CONFIGS.exponential, traceCase.trace), traceCase);
+    expect(oneEuro).toBeLessThan(exponential);
+  });
+
+  it.each(SMOOTHING_KINDS)('%s never reports a non-finite position', kind => {
+    run(DEFAULT_FILTER_CONFIGS[kind], traceCase.trace).forEach(({ filtered }) => {
+      expect(Number.isFinite(filtered.x) && Number.isFinite(filtered.y)).toBe(true);
+    });
+  });
+});
+
+describe('repeated and backwards timestamps', () => {
+  const timedFilters: Array<[string, () => ScalarFilter]> = [
+    ['one-euro', () => new OneEuroFilter(1, 0.005, 1)],
+    ['kalman', () => new KalmanFilter(2000, 20)],
+  ];
+
+  // A frame that doesn't move forward in time is treated as one 60 fps frame later
+  it.each(timedFilters)('%s treats them as 1/60 s since the last frame', (_, create) => {
+    const expected = create();
+    expected.filter(100, 1000);
+    const expectedValue = expected.filter(140, 1000 + 1000 / 60);
+
+    [1000, 990].forEach(timestamp => {
+      const filter = create();
+      filter.filter(100, 1000);
+      expect(filter.filter(140, timestamp)).toBeCloseTo(expectedValue, 9);
+    });
+  });
+
+  it('starts timing afresh after a reset', () => {
+    const filter = new OneEuroFilter(1, 0.005, 1);
+    filter.filter(100, 5000);
+    filter.reset();
+    expect(filter.filter(300, 0)).toBe(300);
+    expect(filter.filter(300, 16)).toBe(300);
+  });
+
+  it('exponential smoothing ignores timestamps altogether', () => {
+    const filter: ScalarFilter = new ExponentialFilter(0.5);
+    filter.filter(0, 1000);
+    expect(filter.filter(100, 1000)).toBe(50);
+    expect(filter.filter(100, 500)).toBe(75);
+  });
+});
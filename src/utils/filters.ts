@@ -0,0 +1,191 @@
+// Smoothing filters for noisy pointer input: the face cursor and eye gaze.
+// One Euro adapts to speed (steady when still, quick when moving), Kalman
+// predicts from velocity, and exponential is a plain low-pass.
+import type { Point2D, SmoothingFilterConfig } from '../types';
+
+export interface ScalarFilter {
+  filter(value: number, timestampMs: number): number;
+  reset(): void;
+}
+
+export const DEFAULT_FILTER_CONFIGS: { [K in SmoothingFilterConfig['kind']]: Extract<SmoothingFilterConfig, { kind: K }> } = {
+  'none': { kind: 'none' },
+  'exponential': { kind: 'exponential', alpha: 0.3 },
+  'one-euro': { kind: 'one-euro', minCutoff: 1.0, beta: 0.005, derivativeCutoff: 1.0 },
+  'kalman': { kind: 'kalman', processNoise: 2000, measurementNoise: 20 },
+};
+
+// Used when timestamps repeat or go backwards
+const FALLBACK_DT = 1 / 60;
+
+const elapsedSeconds = (previous: number | null, now: number) =>
+  previous === null || now <= previous ? FALLBACK_DT : (now - previous) / 1000;
+
+// Smoothing factor of a first-order low-pass at this cutoff frequency
+const lowPassAlpha = (cutoffHz: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dt);
+};
+
+export class PassthroughFilter implements ScalarFilter {
+  filter(value: number): number {
+    return value;
+  }
+
+  reset() {}
+}
+
+export class ExponentialFilter implements ScalarFilter {
+  private alpha: number;
+  private value: number | null = null;
+
+  constructor(alpha: number) {
+    this.alpha = alpha;
+  }
+
+  filter(value: number): number {
+    this.value = this.value === null ? value : this.value + this.alpha * (value - this.value);
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+  }
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012): the cutoff rises with speed, so
+ * jitter is removed when still without adding lag to fast movements
+ */
+export class OneEuroFilter implements ScalarFilter {
+  private minCutoff: number;
+  private beta: number;
+  private derivativeCutoff: number;
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime: number | null = null;
+
+  constructor(minCutoff: number, beta: number, derivativeCutoff: number) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+    this.derivativeCutoff = derivativeCutoff;
+  }
+
+  filter(value: number, timestampMs: number): number {
+    const dt = elapsedSeconds(this.lastTime, timestampMs);
+    this.lastTime = timestampMs;
+
+    if (this.value === null) {
+      this.value = value;
+      return value;
+    }
+
+    const rawDerivative = (value - this.value) / dt;
+    this.derivative += lowPassAlpha(this.derivativeCutoff, dt) * (rawDerivative - this.derivative);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    this.value += lowPassAlpha(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+    this.derivative = 0;
+    this.lastTime = null;
+  }
+}
+
+/**
+ * Constant-velocity Kalman filter. processNoise is how much the velocity may
+ * change (units/s²), measurementNoise the spread of a single reading (units)
+ */
+export class KalmanFilter implements ScalarFilter {
+  private processNoise: number;
+  private measurementNoise: number;
+  private position: number | null = null;
+  private velocity = 0;
+  // Covariance [[p00, p01], [p01, p11]]
+  private p00 = 1;
+  private p01 = 0;
+  private p11 = 1;
+  private lastTime: number | null = null;
+
+  constructor(processNoise: number, measurementNoise: number) {
+    this.processNoise = processNoise;
+    this.measurementNoise = measurementNoise;
+  }
+
+  filter(value: number, timestampMs: number): number {
+    const dt = elapsedSeconds(this.lastTime, timestampMs);
+    this.lastTime = timestampMs;
+
+    if (this.position === null) {
+      this.position = value;
+      this.velocity = 0;
+      this.p00 = this.measurementNoise ** 2;
+      this.p01 = 0;
+      this.p11 = this.processNoise ** 2;
+      return value;
+    }
+
+    // Predict
+    this.position += this.velocity * dt;
+    const q = this.processNoise ** 2;
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + q * dt ** 4 / 4;
+    const p01 = this.p01 + dt * this.p11 + q * dt ** 3 / 2;
+    const p11 = this.p11 + q * dt ** 2;
+
+    // Update with the measured position
+    const innovation = value - this.position;
+    const s = p00 + this.measurementNoise ** 2;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+    this.position += k0 * innovation;
+    this.velocity += k1 * innovation;
+    this.p00 = (1 - k0) * p00;
+    this.p01 = (1 - k0) * p01;
+    this.p11 = p11 - k1 * p01;
+
+    return this.position;
+  }
+
+  reset() {
+    this.position = null;
+    this.velocity = 0;
+    this.lastTime = null;
+  }
+}
+
+export function createScalarFilter(config: SmoothingFilterConfig): ScalarFilter {
+  switch (config.kind) {
+    case 'exponential': return new ExponentialFilter(config.alpha);
+    case 'one-euro': return new OneEuroFilter(config.minCutoff, config.beta, config.derivativeCutoff);
+    case 'kalman': return new KalmanFilter(config.processNoise, config.measurementNoise);
+    default: return new PassthroughFilter();
+  }
+}
+
+/**
+ * Filters x and y independently with the same configuration
+ */
+export class PointFilter {
+  private x: ScalarFilter;
+  private y: ScalarFilter;
+
+  constructor(config: SmoothingFilterConfig) {
+    this.x = createScalarFilter(config);
+    this.y = createScalarFilter(config);
+  }
+
+  filter(point: Point2D, timestampMs: number): Point2D {
+    return {
+      x: this.x.filter(point.x, timestampMs),
+      y: this.y.filter(point.y, timestampMs),
+    };
+  }
+
+  reset() {
+    this.x.reset();
+    this.y.reset();
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GESTURE_SETTINGS, GestureDetector, gestureScores } from './gestures';
+
+const FRAME_MS = 33; // 30 fps camera
+
+type Blendshapes = Record<string, number>;
+
+/**
+ * Run the detector over a face that makes the given blendshapes (as a function
+ * of time) for durationMs; returns the actions triggered and when
+ */
+function play(face: (timeMs: number) => Blendshapes, durationMs: number) {
+  const detector = new GestureDetector(DEFAULT_GESTURE_SETTINGS);
+  const triggered: Array<{ action: string; at: number }> = [];
+  for (let time = 0; time <= durationMs; time += FRAME_MS) {
+    detector.update(gestureScores(face(time)), time)
+      .forEach(binding => triggered.push({ action: binding.action, at: time }));
+  }
+  return triggered;
+}
+
+const between = (time: number, start: number, end: number) => time >= start && time < end;
+
+describe('GestureDetector', () => {
+  it('turns a left wink into a right-click', () => {
+    const triggered = play(time => ({ eyeBlinkLeft: between(time, 0, 250) ? 1 : 0 }), 1500);
+    expect(triggered.map(({ action }) => action)).toEqual(['right-click']);
+  });
+
+  it('ignores a blink where one eye closes a little before the other', () => {
+    const triggered = play(time => ({
+      eyeBlinkLeft: between(time, 0, 250) ? 1 : 0,
+      eyeBlinkRight: between(time, 100, 250) ? 1 : 0,
+    }), 1500);
+    expect(triggered).toEqual([]);
+  });
+
+  it('ignores a blink where the second eye closes gradually', () => {
+    const triggered = play(time => ({
+      eyeBlinkLeft: between(time, 0, 300) ? 1 : 0,
+      eyeBlinkRight: between(time, 0, 300) ? Math.min(1, time / 150) : 0,
+    }), 1500);
+    expect(triggered).toEqual([]);
+  });
+
+  it('ignores a blink where the second eye opens first', () => {
+    const triggered = play(time => ({
+      eyeBlinkLeft: between(time, 0, 300) ? 1 : 0,
+      eyeBlinkRight: between(time, 0, 150) ? 1 : 0,
+    }), 1500);
+    expect(triggered).toEqual([]);
+  });
+
+  it('runs a two-step sequence and not its first step alone', () => {
+    const triggered = play(time => ({ browInnerUp: between(time, 0, 200) || between(time, 400, 600) ? 1 : 0 }), 2000);
+    expect(triggered.map(({ action }) => action)).toEqual(['back']);
+  });
+
+  it('reports a long hold while the gesture is still held', () => {
+    const triggered = play(time => ({ mouthSmileLeft: 1, mouthSmileRight: between(time, 0, 1500) ? 1 : 0 }), 2000);
+    expect(triggered).toEqual([{ action: 'toggle-voice', at: 726 }]);
+  });
+});
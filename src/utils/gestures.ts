@@ -0,0 +1,218 @@
+// Facial gesture recognition over MediaPipe blendshapes: a score per gesture,
+// short and long holds, and sequences of gestures matched against the user's
+// bindings.
+import type { FacialGesture, GestureBinding, GestureSettings, GestureStep } from '../types';
+
+export type GestureScores = Record<FacialGesture, number>;
+
+export const GESTURE_LABELS: Record<FacialGesture, string> = {
+  'wink-left': 'Left wink',
+  'wink-right': 'Right wink',
+  'blink': 'Blink (both eyes)',
+  'brow-raise': 'Raise eyebrows',
+  'smile': 'Smile',
+  'pucker': 'Pucker lips',
+  'jaw-left': 'Jaw to the left',
+  'jaw-right': 'Jaw to the right',
+  'mouth-open': 'Open mouth',
+};
+
+export const DEFAULT_GESTURE_SETTINGS: GestureSettings = {
+  enabled: false,
+  thresholds: {
+    'wink-left': 0.5,
+    'wink-right': 0.5,
+    'blink': 0.5,
+    'brow-raise': 0.5,
+    'smile': 0.6,
+    'pucker': 0.6,
+    'jaw-left': 0.3,
+    'jaw-right': 0.3,
+    'mouth-open': 0.4,
+  },
+  longHoldMs: 700,
+  sequenceGapMs: 600,
+  bindings: [
+    { id: 'default-right-click', steps: [{ gesture: 'wink-left', hold: 'short' }], action: 'right-click' },
+    { id: 'default-scroll-up', steps: [{ gesture: 'brow-raise', hold: 'long' }], action: 'scroll-up' },
+    { id: 'default-scroll-down', steps: [{ gesture: 'pucker', hold: 'long' }], action: 'scroll-down' },
+    { id: 'default-back', steps: [{ gesture: 'brow-raise', hold: 'short' }, { gesture: 'brow-raise', hold: 'short' }], action: 'back' },
+    { id: 'default-toggle-voice', steps: [{ gesture: 'smile', hold: 'long' }], action: 'toggle-voice' },
+    { id: 'default-emergency', steps: [{ gesture: 'jaw-left', hold: 'long' }, { gesture: 'jaw-right', hold: 'long' }], action: 'emergency' },
+  ],
+};
+
+// Shorter activations are tracking flicker, not gestures
+const MIN_HOLD_MS = 80;
+// A gesture ends once its score drops below this share of the threshold, so it doesn't stutter at the edge
+const RELEASE_RATIO = 0.8;
+// Closing both eyes passes through a moment where one is closed; that's not a wink
+const SUPPRESSED_BY: Partial<Record<FacialGesture, FacialGesture[]>> = {
+  'wink-left': ['blink'],
+  'wink-right': ['blink'],
+};
+// The second eye can close this long after the first in an ordinary blink, so a wink waits this long before it counts
+const SUPPRESSION_WAIT_MS = 150;
+
+const score = (blendshapes: Record<string, number>, name: string) => blendshapes[name] ?? 0;
+
+/**
+ * Score (0-1) for every gesture from MediaPipe's blendshape categories
+ */
+export function gestureScores(blendshapes: Record<string, number>): GestureScores {
+  const left = score(blendshapes, 'eyeBlinkLeft');
+  const right = score(blendshapes, 'eyeBlinkRight');
+
+  return {
+    'wink-left': Math.min(left, 1 - right),
+    'wink-right': Math.min(right, 1 - left),
+    'blink': Math.min(left, right),
+    'brow-raise': Math.max(
+      score(blendshapes, 'browInnerUp'),
+      (score(blendshapes, 'browOuterUpLeft') + score(blendshapes, 'browOuterUpRight')) / 2
+    ),
+    'smile': (score(blendshapes, 'mouthSmileLeft') + score(blendshapes, 'mouthSmileRight')) / 2,
+    'pucker': score(blendshapes, 'mouthPucker'),
+    'jaw-left': score(blendshapes, 'jawLeft'),
+    'jaw-right': score(blendshapes, 'jawRight'),
+    'mouth-open': score(blendshapes, 'jawOpen'),
+  };
+}
+
+export function describeSteps(steps: GestureStep[]): string {
+  return steps
+    .map(step => `${step.hold === 'long' ? 'long ' : ''}${GESTURE_LABELS[step.gesture].toLowerCase()}`)
+    .join(', then ');
+}
+
+const sameStep = (a: GestureStep, b: GestureStep) => a.gesture === b.gesture && a.hold === b.hold;
+const startsWith = (steps: GestureStep[], prefix: GestureStep[]) =>
+  prefix.length <= steps.length && prefix.every((step, index) => sameStep(step, steps[index]));
+
+interface ActiveGesture {
+  since: number;
+  longReported: boolean;
+  suppressed: boolean;
+}
+
+/**
+ * Turns per-frame gesture scores into completed steps, and steps into the
+ * bindings they trigger. A binding that is also the start of a longer one waits
+ * for the sequence gap before it fires.
+ */
+export class GestureDetector {
+  private settings: GestureSettings;
+  private active = new Map<FacialGesture, ActiveGesture>();
+  private sequence: GestureStep[] = [];
+  private lastActivity = 0;
+  private pending: GestureBinding | null = null;
+  private heldBack: { step: GestureStep; until: number } | null = null;
+
+  constructor(settings: GestureSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Feed one frame of scores; returns the bindings triggered by it
+   */
+  update(scores: GestureScores, timeMs: number): GestureBinding[] {
+    const triggered: GestureBinding[] = [];
+    const gestures = Object.keys(scores) as FacialGesture[];
+
+    // Start new gestures first, so a blink beginning this frame already counts against a wink ending in it
+    for (const gesture of gestures) {
+      if (this.active.has(gesture) || scores[gesture] < this.settings.thresholds[gesture]) continue;
+      const suppressed = SUPPRESSED_BY[gesture]?.some(other => this.active.has(other)) ?? false;
+      this.active.set(gesture, { since: timeMs, longReported: false, suppressed });
+      this.lastActivity = timeMs;
+    }
+
+    // Eyes closing together turns an apparent wink into a blink, even just after the wink ended
+    if (this.heldBack && SUPPRESSED_BY[this.heldBack.step.gesture]?.some(other => this.active.has(other))) {
+      this.heldBack = null;
+    }
+
+    for (const gesture of gestures) {
+      const current = this.active.get(gesture);
+      if (!current) continue;
+
+      if (!current.suppressed && SUPPRESSED_BY[gesture]?.some(other => this.active.has(other))) {
+        current.suppressed = true;
+      }
+
+      const heldFor = timeMs - current.since;
+      if (scores[gesture] < this.settings.thresholds[gesture] * RELEASE_RATIO) {
+        this.active.delete(gesture);
+        this.lastActivity = timeMs;
+        if (!current.longReported && !current.suppressed && heldFor >= MIN_HOLD_MS) {
+          triggered.push(...this.releaseHeldBack(timeMs));
+          if (SUPPRESSED_BY[gesture]) {
+            this.heldBack = { step: { gesture, hold: 'short' }, until: timeMs + SUPPRESSION_WAIT_MS };
+          } else {
+            triggered.push(...this.completeStep({ gesture, hold: 'short' }, timeMs));
+          }
+        }
+      } else if (!current.longReported && heldFor >= this.settings.longHoldMs) {
+        current.longReported = true;
+        if (!current.suppressed) {
+          triggered.push(...this.releaseHeldBack(timeMs));
+          triggered.push(...this.completeStep({ gesture, hold: 'long' }, timeMs));
+        }
+      }
+    }
+
+    if (this.heldBack && timeMs >= this.heldBack.until) {
+      triggered.push(...this.releaseHeldBack(timeMs));
+    }
+
+    // The face has been still long enough: a sequence that was waiting for more is finished
+    if (this.active.size === 0 && !this.heldBack && timeMs - this.lastActivity > this.settings.sequenceGapMs) {
+      if (this.pending) triggered.push(this.pending);
+      this.pending = null;
+      this.sequence = [];
+    }
+
+    return triggered;
+  }
+
+  reset() {
+    this.active.clear();
+    this.sequence = [];
+    this.pending = null;
+    this.heldBack = null;
+  }
+
+  // A held-back wink that no blink has overtaken counts as a completed step
+  private releaseHeldBack(timeMs: number): GestureBinding[] {
+    if (!this.heldBack) return [];
+    const { step } = this.heldBack;
+    this.heldBack = null;
+    return this.completeStep(step, timeMs);
+  }
+
+  private completeStep(step: GestureStep, timeMs: number): GestureBinding[] {
+    const waiting = this.pending;
+    this.pending = null;
+    this.sequence.push(step);
+    this.lastActivity = timeMs;
+
+    const { bindings } = this.settings;
+    const exact = bindings.find(binding => binding.steps.length === this.sequence.length && startsWith(binding.steps, this.sequence));
+    const canContinue = bindings.some(binding => binding.steps.length > this.sequence.length && startsWith(binding.steps, this.sequence));
+
+    if (exact && !canContinue) {
+      this.sequence = [];
+      return [exact];
+    }
+    if (exact || canContinue) {
+      this.pending = exact ?? null;
+      return [];
+    }
+
+    // The sequence so far leads nowhere: what was waiting fires, and this step may start a sequence of its own
+    const startedFresh = this.sequence.length === 1;
+    this.sequence = [];
+    const fired = waiting ? [waiting] : [];
+    return startedFresh ? fired : [...fired, ...this.completeStep(step, timeMs)];
+  }
+}
@@ -0,0 +1,86 @@
+// Head pose utilities: yaw and pitch from MediaPipe's facial transformation matrix
+// or the landmark mesh, and the mapping from pose angles to screen positions
+import type { CalibrationSettings, HeadPose, Point2D } from '../types';
+
+type PoseMapping = Pick<CalibrationSettings, 'poseRange' | 'poseDeadZone' | 'poseAcceleration' | 'poseCenter'>;
+
+interface MeshPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Mesh indices: outer cheeks (image left / right) and forehead / chin
+const CHEEK_IMAGE_LEFT = 234;
+const CHEEK_IMAGE_RIGHT = 454;
+const FOREHEAD_TOP = 10;
+const CHIN = 152;
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Pose from the 4x4 column-major matrix MediaPipe returns in
+ * facialTransformationMatrixes. The camera looks down -z with y up, so the
+ * face's forward axis (third column) points at the camera when looking straight on.
+ */
+export function poseFromTransformationMatrix(matrix: ArrayLike<number>): HeadPose {
+  const forwardX = matrix[8];
+  const forwardY = matrix[9];
+  const forwardZ = matrix[10];
+
+  return {
+    // Turning to the user's right swings the forward axis towards camera -x
+    yaw: toDegrees(Math.atan2(-forwardX, forwardZ)),
+    pitch: toDegrees(Math.asin(clamp(-forwardY, -1, 1))),
+    roll: toDegrees(Math.atan2(matrix[1], matrix[5])),
+  };
+}
+
+/**
+ * Pose estimated from the landmark mesh, for when no matrix is available.
+ * aspect is the video's height / width, since x and z are in width units and y in height units.
+ */
+export function poseFromLandmarks(face: MeshPoint[], aspect: number): HeadPose | null {
+  const left = face[CHEEK_IMAGE_LEFT];
+  const right = face[CHEEK_IMAGE_RIGHT];
+  const top = face[FOREHEAD_TOP];
+  const chin = face[CHIN];
+  if (!left || !right || !top || !chin) return null;
+
+  // Turning to the user's right brings the image-right cheek closer (smaller z)
+  const across = { x: right.x - left.x, y: (right.y - left.y) * aspect, z: right.z - left.z };
+  // Tilting down pushes the chin away from the camera
+  const down = { y: (chin.y - top.y) * aspect, z: chin.z - top.z };
+
+  return {
+    yaw: toDegrees(Math.atan2(-across.z, across.x)),
+    pitch: toDegrees(Math.atan2(down.z, down.y)),
+    roll: toDegrees(Math.atan2(across.y, across.x)),
+  };
+}
+
+/**
+ * Offset of one axis from center, in -1..1, after the dead zone and acceleration curve
+ */
+function mapAxis(angle: number, center: number, range: number, deadZone: number, acceleration: number): number {
+  const offset = angle - center;
+  const travel = Math.max(0, Math.abs(offset) - deadZone);
+  const reach = Math.max(1, range - deadZone);
+  return Math.sign(offset) * Math.pow(Math.min(1, travel / reach), acceleration);
+}
+
+/**
+ * Screen position for a head pose: the resting pose is the middle of the
+ * screen, and turning by poseRange degrees reaches the edge
+ */
+export function mapPoseToScreen(pose: HeadPose, mapping: PoseMapping, width: number, height: number): Point2D {
+  const { poseRange, poseDeadZone, poseAcceleration, poseCenter } = mapping;
+  const x = mapAxis(pose.yaw, poseCenter.yaw, poseRange.yaw, poseDeadZone, poseAcceleration);
+  const y = mapAxis(pose.pitch, poseCenter.pitch, poseRange.pitch, poseDeadZone, poseAcceleration);
+
+  return {
+    x: (0.5 + x / 2) * width,
+    y: (0.5 + y / 2) * height,
+  };
+}